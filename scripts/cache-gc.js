@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+/**
+ * Remove shared embeddings that no dataset references.
+ * Datasets reference shared embeddings in `embeddings/{provider}/{model}/references.json`
+ * when the shared cache is enabled (EMBEDDING_SHARED_CACHE=true).
+ * Usage: node scripts/cache-gc.js [--dry-run]
+ */
+
+// Use tsx to handle TypeScript imports
+require('tsx/cjs');
+require('../dotenv-config.ts');
+const { createEmbeddingStore, getEmbeddingStoreConfig } = require('../src/support/embedding-store.ts');
+
+async function collectGarbage(dryRun) {
+  try {
+    const config = getEmbeddingStoreConfig();
+    const store = createEmbeddingStore({ ...config, shared: true });
+    console.log(`${dryRun ? 'Checking' : 'Cleaning'} shared embeddings (${config.type} store)...`);
+
+    const stats = await store.collectGarbage({ dryRun });
+    if (stats.length === 0) {
+      console.log('✅ No shared embeddings found');
+      return;
+    }
+
+    for (const { provider, model, removed, kept } of stats) {
+      const action = dryRun ? 'unreferenced' : 'removed';
+      console.log(`  └── ${provider}/${model}: ${removed} ${action}, ${kept} kept`);
+    }
+    const removed = stats.reduce((sum, { removed }) => sum + removed, 0);
+    console.log(
+      dryRun
+        ? `✅ ${removed} shared embeddings would be removed (run without --dry-run to remove them)`
+        : `✅ Removed ${removed} unreferenced shared embeddings`
+    );
+  } catch (error) {
+    console.error('❌ Error collecting garbage:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  collectGarbage(process.argv.includes('--dry-run'));
+}
+
+module.exports = { collectGarbage };
@@ -7,11 +7,29 @@
  * Helps with cache cleanup, migration, and preparation of popular model caches.
  */
 
-const { readdir, rm, mkdir, stat, copyFile } = require('fs/promises');
+const { readdir, rm, mkdir, stat, copyFile, readFile } = require('fs/promises');
 const path = require('path');
 
 const CACHE_BASE_DIR = path.join(process.cwd(), 'data');
 
+/** Embedding files are named by content hash; a packed cache has a manifest and vector file */
+const EMBEDDING_FILE_PATTERN = /^[0-9a-f]{64}\.json$/;
+const PACKED_CACHE_FILES = ['manifest.json', 'vectors.f32'];
+
+/**
+ * Count the embeddings of a model cache directory in both layouts
+ */
+async function countEmbeddings(modelPath) {
+  const files = await readdir(modelPath);
+  const perFile = files.filter(f => EMBEDDING_FILE_PATTERN.test(f)).length;
+  let packed = 0;
+  if (files.includes('manifest.json')) {
+    const manifest = JSON.parse(await readFile(path.join(modelPath, 'manifest.json'), 'utf-8'));
+    packed = manifest.entries.length;
+  }
+  return { perFile, packed };
+}
+
 /**
  * List all cached embedding datasets and their providers/models
  */
@@ -49,9 +67,9 @@ async function listCaches() {
               if (!modelStat.isDirectory()) continue;
               
               try {
-                const files = await readdir(modelPath);
-                const jsonFiles = files.filter(f => f.endsWith('.json'));
-                console.log(`  └── ${provider}/${model} (${jsonFiles.length} embeddings)`);
+                const { perFile, packed } = await countEmbeddings(modelPath);
+                const layout = packed > 0 ? `, ${packed} packed` : '';
+                console.log(`  └── ${provider}/${model} (${perFile + packed} embeddings${layout})`);
               } catch (err) {
                 console.log(`  └── ${provider}/${model} (error reading)`);
               }
@@ -108,20 +126,19 @@ async function copyCache(dataset, fromProvider, fromModel, toProvider, toModel)
   
   try {
     // Ensure target directory exists
-    await mkdir(path.dirname(toPath), { recursive: true });
+    await mkdir(toPath, { recursive: true });
     
-    // Copy files
+    // Copy embedding files and the packed cache
     const files = await readdir(fromPath);
-    let copiedCount = 0;
+    const { perFile, packed } = await countEmbeddings(fromPath);
     
     for (const file of files) {
-      if (file.endsWith('.json')) {
+      if (EMBEDDING_FILE_PATTERN.test(file) || PACKED_CACHE_FILES.includes(file)) {
         await copyFile(path.join(fromPath, file), path.join(toPath, file));
-        copiedCount++;
       }
     }
     
-    console.log(`✅ Copied ${copiedCount} embeddings from ${fromProvider}/${fromModel} to ${toProvider}/${toModel}`);
+    console.log(`✅ Copied ${perFile + packed} embeddings from ${fromProvider}/${fromModel} to ${toProvider}/${toModel}`);
   } catch (err) {
     console.log(`❌ Error copying cache: ${err.message}`);
   }
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Verify the cached embeddings of a dataset for the configured provider and model: unreadable
+ * entries, NaN values, dimension mismatches, hash mismatches and, if asked to, orphaned entries.
+ * Usage: node scripts/cache-verify.js <dataset-name> [--repair] [--orphans] [--json]
+ *   --repair  remove the entries with problems and embed the current documents again
+ *   --orphans also report (and repair) entries no document of the default chunking needs;
+ *             sentence embeddings and chunks of other chunking configurations are among them
+ *   --json    print the report as JSON (messages go to stderr)
+ * Exits with code 1 if problems were found and not repaired.
+ */
+
+// Use tsx to handle TypeScript imports
+require('tsx/cjs');
+require('../dotenv-config.ts');
+const { loadDocsWithChunking } = require('../src/features/enhanced-semantic-search.ts');
+const { EmbeddingCache } = require('../src/support/embedding-cache.ts');
+const { getEmbeddingStoreConfig } = require('../src/support/embedding-store.ts');
+const path = require('node:path');
+const fs = require('node:fs');
+
+async function verifyCache(datasetName, { repair = false, orphans = false, json = false } = {}) {
+  // Keep stdout for the JSON report
+  const log = json ? console.error : console.log;
+  if (!datasetName) {
+    console.error(
+      'Usage: node scripts/cache-verify.js <dataset-name> [--repair] [--orphans] [--json]'
+    );
+    process.exit(1);
+  }
+
+  // Check if dataset exists
+  const datasetPath = path.join(process.cwd(), 'data', datasetName);
+  if (!fs.existsSync(datasetPath)) {
+    console.error(`Dataset not found: ${datasetName}`);
+    console.error(`Expected path: ${datasetPath}`);
+    process.exit(1);
+  }
+
+  try {
+    log(`${repair ? 'Repairing' : 'Verifying'} cached embeddings of dataset: ${datasetName}`);
+    const documents = await loadDocsWithChunking(datasetName);
+    log(`Loaded ${documents.length} documents/chunks`);
+
+    const cache = new EmbeddingCache(datasetName);
+    const report = await cache.verify({ documents, orphans, repair });
+    const { provider, model, checked, dimensions, issues, repaired } = report;
+    log(
+      `Checked ${checked} cached embeddings in ${provider}/${model}` +
+        ` (${getEmbeddingStoreConfig().type} store, ${dimensions ?? 'unknown'} dimensions)`
+    );
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      for (const { type, hash, message, location } of issues) {
+        console.log(`  └── ${type}: ${location ?? hash} - ${message}`);
+      }
+    }
+
+    if (issues.length === 0) {
+      log('✅ No problems found');
+    } else if (repaired) {
+      log(
+        `✅ Repaired ${issues.length} problems: ${repaired.deleted} entries removed, ` +
+          `${repaired.reembedded} texts embedded again`
+      );
+    } else {
+      log(`❌ Found ${issues.length} problems (run with --repair to fix them)`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Error verifying embeddings:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  verifyCache(args.find((arg) => !arg.startsWith('--')), {
+    repair: args.includes('--repair'),
+    orphans: args.includes('--orphans'),
+    json: args.includes('--json'),
+  });
+}
+
+module.exports = { verifyCache };
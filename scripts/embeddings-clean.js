@@ -2,7 +2,7 @@
 
 /**
  * Clean unused cached embeddings for a dataset.
- * Removes cache files that don't correspond to current document content.
+ * Removes cached embeddings that don't correspond to current document content.
  * Usage: node scripts/embeddings-clean.js <dataset-name>
  */
 
@@ -11,28 +11,11 @@ require('tsx/cjs');
 require('../dotenv-config.ts');
 const { loadDocsWithChunking } = require('../src/features/enhanced-semantic-search.ts');
 const { getAIConfig } = require('../src/ai/provider-config.ts');
-const { createHash } = require('node:crypto');
+const { contentHash } = require('../src/support/embedding-cache.ts');
+const { getEmbeddingStore, getEmbeddingStoreConfig } = require('../src/support/embedding-store.ts');
 const path = require('node:path');
 const fs = require('node:fs').promises;
 
-/**
- * Generate SHA256 hash of text content.
- * @param {string} text - The text content to hash
- * @returns {string} SHA256 hash as hexadecimal string
- */
-function hashContent(text) {
-  return createHash('sha256').update(text, 'utf8').digest('hex');
-}
-
-/**
- * Generate a safe directory name from model identifier.
- * @param {string} model - Model identifier
- * @returns {string} Safe directory name
- */
-function safeModelName(model) {
-  return model.replace(/[^a-zA-Z0-9._-]/g, '-').replace(/--+/g, '-');
-}
-
 async function cleanEmbeddings(datasetName) {
   if (!datasetName) {
     console.error('Usage: node scripts/embeddings-clean.js <dataset-name>');
@@ -61,49 +44,34 @@ async function cleanEmbeddings(datasetName) {
     const docs = await loadDocsWithChunking(datasetName);
     console.log(`Found ${docs.length} current documents/chunks`);
 
-    // Get expected cache file names
-    const expectedHashes = new Set(docs.map((doc) => hashContent(doc.text)));
-    console.log(`Expected ${expectedHashes.size} cache files`);
-
-    // Check current provider/model cache directory
-    const embeddingsDir = path.join(datasetPath, 'embeddings');
-    const cacheDir = path.join(embeddingsDir, config.embeddingProvider, safeModelName(config.embeddingModel));
-    
-    let existingFiles;
-    try {
-      existingFiles = await fs.readdir(cacheDir);
-    } catch {
-      console.log(`No cache directory found for ${config.embeddingProvider}/${config.embeddingModel} - nothing to clean`);
+    // Get expected cache entries
+    const expectedHashes = new Set(docs.map((doc) => contentHash(doc.text)));
+    console.log(`Expected ${expectedHashes.size} cache entries`);
+
+    // Check the cache of the current provider/model
+    const store = getEmbeddingStore();
+    const namespace = {
+      dataSet: datasetName,
+      provider: config.embeddingProvider,
+      model: config.embeddingModel,
+    };
+    const cachedHashes = await store.hashes(namespace);
+    console.log(
+      `Found ${cachedHashes.length} cached embeddings in ${config.embeddingProvider}/${config.embeddingModel}` +
+        ` (${getEmbeddingStoreConfig().type} store)`
+    );
+
+    // Identify unused cache entries
+    const unusedHashes = cachedHashes.filter((hash) => !expectedHashes.has(hash));
+    if (unusedHashes.length === 0) {
+      console.log('✅ No unused cache entries found');
       return;
     }
 
-    const cacheFiles = existingFiles.filter((file) => file.endsWith('.json'));
-    console.log(`Found ${cacheFiles.length} existing cache files in ${config.embeddingProvider}/${config.embeddingModel}`);
-
-    // Identify unused cache files
-    const unusedFiles = [];
-    for (const file of cacheFiles) {
-      const hash = file.replace('.json', '');
-      if (!expectedHashes.has(hash)) {
-        unusedFiles.push(file);
-      }
-    }
-
-    if (unusedFiles.length === 0) {
-      console.log('✅ No unused cache files found');
-      return;
-    }
-
-    console.log(`Found ${unusedFiles.length} unused cache files`);
-
-    // Delete unused files
-    for (const file of unusedFiles) {
-      const filePath = path.join(cacheDir, file);
-      await fs.unlink(filePath);
-      console.log(`Deleted: ${file}`);
-    }
+    console.log(`Found ${unusedHashes.length} unused cache entries`);
+    const removed = await store.delete(namespace, unusedHashes);
 
-    console.log(`✅ Cleaned ${unusedFiles.length} unused cache files from ${config.embeddingProvider}/${config.embeddingModel}`);
+    console.log(`✅ Cleaned ${removed} unused cache entries from ${config.embeddingProvider}/${config.embeddingModel}`);
   } catch (error) {
     console.error('❌ Error cleaning embeddings:', error.message);
     process.exit(1);
@@ -41,11 +41,18 @@ async function generateEmbeddings(datasetName) {
 
     // Generate embeddings (with caching)
     console.log('Generating embeddings...');
-    await embedAllDocsEnhanced(docs, datasetName);
+    await embedAllDocsEnhanced(docs, datasetName, {
+      onProgress: ({ embedded, total }) => {
+        const percent = Math.round((embedded / total) * 100);
+        process.stdout.write(`\r  ${embedded}/${total} embedded (${percent}%)`);
+        if (embedded === total) process.stdout.write('\n');
+      },
+    });
 
     console.log('✅ Embeddings generation completed successfully');
   } catch (error) {
-    console.error('❌ Error generating embeddings:', error.message);
+    console.error('\n❌ Error generating embeddings:', error.message);
+    console.error('Embeddings created so far are cached, run the command again to resume');
     process.exit(1);
   }
 }
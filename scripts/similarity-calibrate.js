@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Calibrate the minimum similarity of the configured embedding model: ask on-topic and
+ * off-topic questions against the bundled datasets and pick the threshold that separates
+ * them best (see src/ai/similarity-calibration.ts). Copy the result into
+ * MIN_SIMILARITY_BY_MODEL in src/ai/embeddings.ts.
+ * Usage: node scripts/similarity-calibrate.js [--json]
+ *   --json    print the scored questions and the calibration as JSON (messages go to stderr)
+ * Run it once per model, e.g. AI_EMBEDDING_MODEL=text-embedding-3-small pnpm run similarity:calibrate
+ */
+
+// Use tsx to handle TypeScript imports
+require('tsx/cjs');
+require('../dotenv-config.ts');
+const { loadDocsWithChunking } = require('../src/features/enhanced-semantic-search.ts');
+const { EmbeddingCache } = require('../src/support/embedding-cache.ts');
+const { getAIConfig } = require('../src/ai/provider-config.ts');
+const { CALIBRATION_QUESTIONS, scoreCalibrationQuestions, calibrateMinSimilarity } = require('../src/ai/similarity-calibration.ts');
+const { listDataSets } = require('../src/dataset/datasets.ts');
+
+async function calibrate({ json = false } = {}) {
+  // Keep stdout for the JSON report
+  const log = json ? console.error : console.log;
+  const dataSets = listDataSets().filter((name) => CALIBRATION_QUESTIONS[name]);
+  if (dataSets.length === 0) {
+    console.error('No dataset with calibration questions found in data/');
+    process.exit(1);
+  }
+
+  try {
+    const config = getAIConfig();
+    log(`Calibrating ${config.embeddingProvider}/${config.embeddingModel} on ${dataSets.join(', ')}`);
+    const documents = {};
+    for (const dataSet of dataSets) {
+      const docs = await loadDocsWithChunking(dataSet);
+      const cache = new EmbeddingCache(dataSet);
+      const cached = await cache.loadCachedEmbeddings(docs);
+      const created = await cache.embedDocuments(docs);
+      log(`  ${dataSet}: ${docs.length} documents/chunks (${cached} cached, ${created} embedded)`);
+      documents[dataSet] = docs;
+    }
+
+    const scored = await scoreCalibrationQuestions(documents);
+    const calibration = calibrateMinSimilarity(scored);
+
+    if (json) {
+      console.log(JSON.stringify({ model: config.embeddingModel, calibration, scored }, null, 2));
+      return;
+    }
+    const onTopic = scored.filter((q) => q.onTopic).length;
+    log(`Scored ${onTopic} on-topic and ${scored.length - onTopic} off-topic questions`);
+    log(`  Lowest on-topic score:   ${calibration.lowestOnTopic.toFixed(3)}`);
+    log(`  Highest off-topic score: ${calibration.highestOffTopic.toFixed(3)}`);
+    log(`  Accuracy at ${calibration.minSimilarity}: ${(calibration.accuracy * 100).toFixed(1)}%`);
+    for (const { dataSet, question, onTopic, score } of calibration.misclassified) {
+      log(`  └── ${onTopic ? 'missed' : 'accepted'}: ${dataSet} "${question}" (${score.toFixed(3)})`);
+    }
+    log(`\nMIN_SIMILARITY_BY_MODEL entry:\n  '${config.embeddingModel}': ${calibration.minSimilarity},`);
+  } catch (error) {
+    console.error('\n❌ Error calibrating the minimum similarity:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  calibrate({ json: process.argv.includes('--json') });
+}
+
+module.exports = { calibrate };
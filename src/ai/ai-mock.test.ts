@@ -1,5 +1,10 @@
 import { generateEmbedding, generateEmbeddings } from './embeddings';
-import { generateCompletion, generateRAGResponse } from './completions';
+import {
+  generateCompletion,
+  generateRAGResponse,
+  streamCompletion,
+  streamRAGResponse,
+} from './completions';
 
 describe('AI Mock Functions', () => {
   beforeAll(() => {
@@ -51,8 +56,8 @@ describe('AI Mock Functions', () => {
       );
       
       expect(response).toBeDefined();
-      expect(typeof response).toBe('string');
-      expect(response).toBe('Hello from mock');
+      expect(typeof response.text).toBe('string');
+      expect(response.text).toBe('Hello from mock');
     });
 
     it('should include system prompt in mock response', async () => {
@@ -63,4 +68,26 @@ describe('AI Mock Functions', () => {
       expect(completion).toBe('Hello from mock');
     });
   });
-});
\ No newline at end of file
+
+  describe('Mock Streaming', () => {
+    it('should stream mock completions in several deltas', async () => {
+      const deltas: string[] = [];
+      for await (const delta of streamCompletion('Hello world')) {
+        deltas.push(delta);
+      }
+
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.join('')).toBe('Hello from mock');
+    });
+
+    it('should stream mock RAG responses', async () => {
+      let answer = '';
+      const { textStream } = streamRAGResponse('What is Node.js?', ['Node.js is a runtime']);
+      for await (const delta of textStream) {
+        answer += delta;
+      }
+
+      expect(answer).toBe('Hello from mock');
+    });
+  });
+});
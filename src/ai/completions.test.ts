@@ -0,0 +1,155 @@
+import { generateText, streamText } from 'ai';
+import {
+  generateNoContextResponse,
+  generateRAGResponse,
+  streamNoContextResponse,
+  streamRAGResponse,
+} from './completions';
+import { CITATION_INSTRUCTIONS, NO_CONTEXT_SYSTEM_PROMPT, cannedNoContextAnswer } from './prompt';
+
+jest.mock('ai', () => ({
+  generateText: jest.fn(),
+  streamText: jest.fn(),
+}));
+
+const mockGenerateText = generateText as jest.MockedFunction<typeof generateText>;
+const mockStreamText = streamText as jest.MockedFunction<typeof streamText>;
+
+describe('completions (provider requests)', () => {
+  const originalMock = process.env.USE_MOCK_OPENAI;
+
+  beforeEach(() => {
+    // Go through the provider code path, with the AI SDK mocked
+    process.env.USE_MOCK_OPENAI = 'false';
+    mockGenerateText.mockReset();
+    mockGenerateText.mockResolvedValue({ text: 'Apples are red.' } as any);
+    mockStreamText.mockReset();
+  });
+
+  afterAll(() => {
+    process.env.USE_MOCK_OPENAI = originalMock;
+  });
+
+  it('sends the dataset system prompt and filled user template with the context', async () => {
+    const { text, messages, context } = await generateRAGResponse(
+      'What color are apples?',
+      ['Apples are red.'],
+      {
+        systemPrompt: 'You are a fruit expert.',
+        userTemplate: 'Context:\n{{context}}\n\nQuestion: {{question}}',
+      }
+    );
+
+    expect(text).toBe('Apples are red.');
+    expect(context).toEqual(['Apples are red.']);
+    expect(mockGenerateText).toHaveBeenCalledTimes(1);
+    const request = mockGenerateText.mock.calls[0][0];
+    expect(request.messages).toEqual([
+      { role: 'system', content: `You are a fruit expert.\n\n${CITATION_INSTRUCTIONS}` },
+      {
+        role: 'user',
+        content: 'Context:\n[1] Apples are red.\n\nQuestion: What color are apples?',
+      },
+    ]);
+    expect(messages).toEqual(request.messages);
+    expect(request.temperature).toBe(0.3);
+  });
+
+  it('keeps the context when only a system prompt is given', async () => {
+    await generateRAGResponse('Q?', ['Retrieved passage'], {
+      systemPrompt: 'You are a car expert.',
+    });
+
+    const { messages } = mockGenerateText.mock.calls[0][0];
+    expect(messages![0].content).toMatch(/^You are a car expert\./);
+    expect(messages![1].content).toContain('[1] Retrieved passage');
+    expect(messages![1].content).toContain('Q?');
+  });
+
+  it('leaves out sources that do not fit the context window', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const passage = 'Apples are red and grow on trees. '.repeat(40);
+    const { context } = await generateRAGResponse(
+      'What color are apples?',
+      [passage, passage, passage],
+      { maxTokens: 200, contextWindow: 1000 }
+    );
+
+    const { messages } = mockGenerateText.mock.calls[0][0];
+    expect(messages![1].content).toContain('[2] ');
+    expect(messages![1].content).not.toContain('[3] ');
+    expect(messages![1].content).toContain('[...]');
+    expect(context).toEqual([passage, expect.stringMatching(/ \[\.\.\.\]$/)]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('streams with the same messages', async () => {
+    mockStreamText.mockResolvedValue({
+      textStream: (async function* () {
+        yield 'Apples ';
+        yield 'are red.';
+      })(),
+    } as any);
+
+    const { textStream, messages: sent, context } = streamRAGResponse('Q?', ['Doc'], {
+      userTemplate: '{{context}} | {{question}}',
+    });
+    let answer = '';
+    for await (const delta of textStream) {
+      answer += delta;
+    }
+
+    expect(answer).toBe('Apples are red.');
+    expect(context).toEqual(['Doc']);
+    const { messages } = mockStreamText.mock.calls[0][0];
+    expect(messages![1]).toEqual({ role: 'user', content: '[1] Doc | Q?' });
+    expect(sent).toEqual(messages);
+  });
+});
+
+describe('completions (no context)', () => {
+  const originalMock = process.env.USE_MOCK_OPENAI;
+
+  beforeEach(() => {
+    process.env.USE_MOCK_OPENAI = 'false';
+    mockGenerateText.mockReset();
+    mockGenerateText.mockResolvedValue({ text: 'The fruits dataset is about fruit.' } as any);
+  });
+
+  afterAll(() => {
+    process.env.USE_MOCK_OPENAI = originalMock;
+  });
+
+  it('returns the canned answer without calling the model', async () => {
+    const answer = await generateNoContextResponse('Diesel?', 'example-fruits', {}, 'canned');
+    expect(answer).toEqual({ text: cannedNoContextAnswer('example-fruits'), messages: [] });
+    expect(mockGenerateText).not.toHaveBeenCalled();
+
+    const stream = streamNoContextResponse('Diesel?', 'example-fruits', {}, 'canned');
+    const deltas: string[] = [];
+    for await (const delta of stream.textStream) {
+      deltas.push(delta);
+    }
+    expect(deltas).toEqual([cannedNoContextAnswer('example-fruits')]);
+    expect(stream.messages).toEqual([]);
+  });
+
+  it('lets the model explain that the dataset does not cover the question', async () => {
+    const history = [{ role: 'user' as const, content: 'Which fruit is yellow?' }];
+    const { text, messages } = await generateNoContextResponse(
+      'Diesel?',
+      'example-fruits',
+      { history },
+      'generate'
+    );
+
+    expect(text).toBe('The fruits dataset is about fruit.');
+    expect(messages).toEqual(mockGenerateText.mock.calls[0][0].messages);
+    expect(messages).toEqual([
+      { role: 'system', content: NO_CONTEXT_SYSTEM_PROMPT },
+      ...history,
+      { role: 'user', content: 'Dataset: example-fruits\n\nQuestion: Diesel?' },
+    ]);
+  });
+});
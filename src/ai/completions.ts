@@ -1,13 +1,36 @@
-import { generateText } from 'ai';
+import { generateText, streamText } from 'ai';
 import { getAIConfig, createProviders, getProvider } from './provider-config';
+import {
+  buildNoContextMessages,
+  buildRAGMessages,
+  cannedNoContextAnswer,
+  CITATION_INSTRUCTIONS,
+  type ChatMessage,
+  type PromptSource,
+  type RAGPromptInput,
+} from './prompt';
+import { countMessageTokens, getContextWindow, getTokenizer } from './tokenizer';
+import { packContext } from './context-packer';
+
+export type { ChatMessage, PromptSource };
 
 /**
  * Mock completion function for testing that returns a simple response.
  */
-function mockGenerateCompletion(prompt: string, systemPrompt?: string): string {
+function mockGenerateCompletion(messages: ChatMessage[]): string {
   return 'Hello from mock';
 }
 
+/**
+ * Mock streaming completion for testing that yields the mock response word by word.
+ */
+async function* mockStreamCompletion(messages: ChatMessage[]): AsyncGenerator<string> {
+  const words = mockGenerateCompletion(messages).split(/(?<= )/);
+  for (const word of words) {
+    yield word;
+  }
+}
+
 /**
  * Configuration for completion requests.
  */
@@ -18,15 +41,99 @@ export interface CompletionOptions {
   temperature?: number;
   /** System prompt to set context */
   systemPrompt?: string;
+  /** User message template with {{context}} and {{question}} placeholders (RAG responses only) */
+  userTemplate?: string;
+  /** Dataset variables available to the templates as {{dataset.*}} (RAG responses only) */
+  dataset?: Record<string, unknown>;
+  /** Previous conversation turns sent before the question (RAG responses only) */
+  history?: ChatMessage[];
+  /** Instruct the model to cite context sources as [1], [2] (RAG responses only, default: true) */
+  citations?: boolean;
+  /** Tokens of prompt and answer together (RAG responses only, default: the model's context window, see getContextWindow()) */
+  contextWindow?: number;
+}
+
+/**
+ * Build the messages for a single-prompt completion.
+ */
+function promptMessages(prompt: string, options: CompletionOptions): ChatMessage[] {
+  return [
+    ...(options.systemPrompt ? [{ role: 'system' as const, content: options.systemPrompt }] : []),
+    { role: 'user' as const, content: prompt }
+  ];
+}
+
+/**
+ * Default maximum number of generated tokens.
+ */
+const DEFAULT_MAX_TOKENS = 1000;
+
+/**
+ * Build the AI SDK request (model, messages and settings) for a completion.
+ */
+function buildCompletionRequest(messages: ChatMessage[], options: CompletionOptions) {
+  const config = getAIConfig();
+  const providers = createProviders(config);
+  const provider = getProvider(providers, config.completionProvider);
+
+  return {
+    model: provider(config.completionModel),
+    messages,
+    maxTokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+    temperature: options.temperature || 0.7,
+  };
+}
+
+/**
+ * Generate a completion for a list of chat messages using the configured AI provider.
+ *
+ * @param messages - The messages to complete (system, user and assistant turns)
+ * @param options - Additional options for the completion (systemPrompt is ignored)
+ * @returns Promise resolving to the generated text
+ */
+export async function generateChatCompletion(
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<string> {
+  // Use mock for testing
+  if (process.env.USE_MOCK_OPENAI === 'true') {
+    return mockGenerateCompletion(messages);
+  }
+
+  const { text } = await generateText(buildCompletionRequest(messages, options));
+
+  return text;
+}
+
+/**
+ * Stream a completion for a list of chat messages using the configured AI provider.
+ * Yields text deltas as they arrive instead of waiting for the full response.
+ *
+ * @param messages - The messages to complete (system, user and assistant turns)
+ * @param options - Additional options for the completion (systemPrompt is ignored)
+ * @returns Async iterable of text deltas
+ */
+export async function* streamChatCompletion(
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): AsyncGenerator<string> {
+  // Use mock for testing
+  if (process.env.USE_MOCK_OPENAI === 'true') {
+    yield* mockStreamCompletion(messages);
+    return;
+  }
+
+  const { textStream } = await streamText(buildCompletionRequest(messages, options));
+  yield* textStream;
 }
 
 /**
  * Generate a text completion using the configured AI provider.
- * 
+ *
  * @param prompt - The user prompt to complete
  * @param options - Additional options for the completion
  * @returns Promise resolving to the generated text
- * 
+ *
  * @example
  * ```typescript
  * const response = await generateCompletion(
@@ -37,61 +144,254 @@ export interface CompletionOptions {
  * ```
  */
 export async function generateCompletion(
-  prompt: string, 
+  prompt: string,
   options: CompletionOptions = {}
 ): Promise<string> {
-  // Use mock for testing
-  if (process.env.USE_MOCK_OPENAI === 'true') {
-    return mockGenerateCompletion(prompt, options.systemPrompt);
-  }
+  return generateChatCompletion(promptMessages(prompt, options), options);
+}
 
-  const config = getAIConfig();
-  const providers = createProviders(config);
-  const provider = getProvider(providers, config.completionProvider);
+/**
+ * Stream a text completion using the configured AI provider.
+ * Yields text deltas as they arrive instead of waiting for the full response.
+ *
+ * @param prompt - The user prompt to complete
+ * @param options - Additional options for the completion
+ * @returns Async iterable of text deltas
+ *
+ * @example
+ * ```typescript
+ * for await (const delta of streamCompletion("Tell me about Paris")) {
+ *   process.stdout.write(delta);
+ * }
+ * ```
+ */
+export function streamCompletion(
+  prompt: string,
+  options: CompletionOptions = {}
+): AsyncGenerator<string> {
+  return streamChatCompletion(promptMessages(prompt, options), options);
+}
 
-  const { text } = await generateText({
-    model: provider(config.completionModel),
-    messages: [
-      ...(options.systemPrompt ? [{ role: 'system' as const, content: options.systemPrompt }] : []),
-      { role: 'user' as const, content: prompt }
-    ],
-    maxTokens: options.maxTokens || 1000,
-    temperature: options.temperature || 0.7,
-  });
+/**
+ * An answer and the messages sent to the model for it.
+ */
+export interface CompletionResponse {
+  /** The generated answer */
+  text: string;
+  /** Messages sent to the model (empty when the answer didn't need a model call) */
+  messages: ChatMessage[];
+}
 
-  return text;
+/**
+ * A streamed answer and the messages sent to the model for it.
+ */
+export interface CompletionStream {
+  /** Text deltas of the answer */
+  textStream: AsyncGenerator<string>;
+  /** Messages sent to the model (empty when the answer didn't need a model call) */
+  messages: ChatMessage[];
+}
+
+/**
+ * A RAG answer, the messages and the context it was generated from.
+ */
+export interface RAGResponse<T extends string | PromptSource = string | PromptSource>
+  extends CompletionResponse {
+  /**
+   * Sources sent to the model, in prompt order: the retrieved context after packing, so
+   * citation [n] refers to `context[n - 1]` (sources that didn't fit are left out)
+   */
+  context: T[];
+}
+
+/**
+ * A streamed RAG answer, the messages and the context it is generated from.
+ */
+export interface RAGStream<T extends string | PromptSource = string | PromptSource>
+  extends CompletionStream {
+  /** Sources sent to the model, in prompt order (see RAGResponse) */
+  context: T[];
 }
 
 /**
  * Generate a RAG (Retrieval-Augmented Generation) response using context documents.
- * 
+ * The system prompt and user template (dataset or default) are assembled into messages
+ * by buildRAGMessages(), which guarantees the context is part of the user message.
+ * The context is packed into the model's context window, keeping `maxTokens` for the answer:
+ * sources that don't fit are left out and the last one that partly fits is truncated
+ * (see packContext()). Check citations against the returned `context`, not the retrieved one.
+ *
  * @param query - The user's question
- * @param context - Array of relevant document texts to use as context
+ * @param context - Relevant document texts or sources (with scores/chunk metadata) to use as context
  * @param options - Additional options for the completion
- * @returns Promise resolving to the generated response
- * 
+ * @returns Promise resolving to the generated response and the messages and context sent for it
+ *
  * @example
  * ```typescript
- * const response = await generateRAGResponse(
+ * const { text, context } = await generateRAGResponse(
  *   "How do I install Node.js?",
  *   ["Node.js can be installed from nodejs.org...", "npm comes bundled with Node.js..."],
- *   { temperature: 0.3 }
+ *   { temperature: 0.3, systemPrompt, userTemplate }
  * );
  * ```
  */
-export async function generateRAGResponse(
+export async function generateRAGResponse<T extends string | PromptSource>(
   query: string,
-  context: string[],
+  context: T[],
   options: CompletionOptions = {}
-): Promise<string> {
-  const systemPrompt = options.systemPrompt || `You are a helpful AI assistant. Use the provided context documents to answer the user's question. If the context doesn't contain enough information to answer the question, say so clearly.
+): Promise<RAGResponse<T>> {
+  const prompt = ragPrompt(query, context, options);
+  const text = await generateChatCompletion(prompt.messages, ragOptions(options));
+  return { text, ...prompt };
+}
 
-Context documents:
-${context.map((doc, i) => `${i + 1}. ${doc}`).join('\n\n')}`;
+/**
+ * Stream a RAG response using context documents.
+ * Same prompt as generateRAGResponse(), but yields text deltas as they arrive.
+ *
+ * @param query - The user's question
+ * @param context - Array of relevant document texts to use as context
+ * @param options - Additional options for the completion
+ * @returns The text deltas and the messages and context sent for them
+ *
+ * @example
+ * ```typescript
+ * const { textStream, context } = streamRAGResponse(question, sources, templates);
+ * for await (const delta of textStream) {
+ *   process.stdout.write(delta);
+ * }
+ * ```
+ */
+export function streamRAGResponse<T extends string | PromptSource>(
+  query: string,
+  context: T[],
+  options: CompletionOptions = {}
+): RAGStream<T> {
+  const prompt = ragPrompt(query, context, options);
+  return { textStream: streamChatCompletion(prompt.messages, ragOptions(options)), ...prompt };
+}
+
+/**
+ * Build the RAG messages with the context packed into the context window.
+ */
+function ragPrompt<T extends string | PromptSource>(
+  query: string,
+  context: T[],
+  options: CompletionOptions
+): { messages: ChatMessage[]; context: T[] } {
+  const input: Omit<RAGPromptInput, 'context'> = {
+    question: query,
+    systemPrompt: options.systemPrompt,
+    userTemplate: options.userTemplate,
+    dataset: options.dataset,
+    history: options.history,
+    citations: options.citations,
+  };
+  const packed = fitContext(context, input, options);
+  return { messages: buildRAGMessages({ ...input, context: packed }), context: packed };
+}
 
-  return generateCompletion(query, {
+/**
+ * Pack the context into what's left of the context window after the prompt without context
+ * and the tokens reserved for the answer.
+ */
+function fitContext<T extends string | PromptSource>(
+  context: T[],
+  input: Omit<RAGPromptInput, 'context'>,
+  options: CompletionOptions
+): T[] {
+  if (context.length === 0) {
+    return context;
+  }
+  const tokenizer = getTokenizer();
+  const promptTokens =
+    countMessageTokens(buildRAGMessages({ ...input, context: [] }), tokenizer) +
+    (input.citations !== false ? tokenizer.count(`\n\n${CITATION_INSTRUCTIONS}`) : 0);
+  const budget =
+    (options.contextWindow ?? getContextWindow()) -
+    (options.maxTokens || DEFAULT_MAX_TOKENS) -
+    promptTokens;
+
+  const packed = packContext(context, Math.max(0, budget), tokenizer);
+  if (packed.dropped > 0 || packed.truncated) {
+    console.warn(
+      `Context exceeds the ${budget} token budget: ${packed.dropped} sources left out${
+        packed.truncated ? ', last source truncated' : ''
+      }`
+    );
+  }
+  return packed.context;
+}
+
+function ragOptions(options: CompletionOptions): CompletionOptions {
+  return {
     ...options,
-    systemPrompt,
     temperature: options.temperature || 0.3, // Lower temperature for more factual responses
-  });
-}
\ No newline at end of file
+  };
+}
+
+/**
+ * How questions without relevant context are answered.
+ * - `canned`: a fixed "not covered by this dataset" answer, without a model call
+ * - `generate`: the model explains that the dataset doesn't cover the question
+ */
+export type NoContextMode = 'canned' | 'generate';
+
+/**
+ * Get the configured no-context mode (NO_CONTEXT_ANSWER environment variable, default: canned).
+ */
+export function getNoContextMode(): NoContextMode {
+  return process.env.NO_CONTEXT_ANSWER === 'generate' ? 'generate' : 'canned';
+}
+
+/**
+ * Answer a question no document of the dataset is relevant to, instead of calling
+ * generateRAGResponse() with empty context.
+ *
+ * @param query - The user's question
+ * @param dataSetName - Name of the searched dataset
+ * @param options - Completion options (only `history` is used from the RAG options)
+ * @param mode - Canned or generated answer (default: getNoContextMode())
+ * @returns Promise resolving to the "not covered" answer and the messages sent for it
+ *   (none for canned answers)
+ *
+ * @example
+ * ```typescript
+ * if (results.length === 0) {
+ *   const { text } = await generateNoContextResponse(question, 'example-fruits');
+ * }
+ * ```
+ */
+export async function generateNoContextResponse(
+  query: string,
+  dataSetName: string,
+  options: CompletionOptions = {},
+  mode: NoContextMode = getNoContextMode()
+): Promise<CompletionResponse> {
+  if (mode === 'canned') {
+    return { text: cannedNoContextAnswer(dataSetName), messages: [] };
+  }
+  const messages = buildNoContextMessages(query, dataSetName, options.history);
+  return { text: await generateChatCompletion(messages, ragOptions(options)), messages };
+}
+
+/**
+ * Stream the answer to a question no document of the dataset is relevant to.
+ * Same answer as generateNoContextResponse(); canned answers are yielded at once.
+ */
+export function streamNoContextResponse(
+  query: string,
+  dataSetName: string,
+  options: CompletionOptions = {},
+  mode: NoContextMode = getNoContextMode()
+): CompletionStream {
+  if (mode === 'canned') {
+    const answer = cannedNoContextAnswer(dataSetName);
+    const textStream = (async function* () {
+      yield answer;
+    })();
+    return { textStream, messages: [] };
+  }
+  const messages = buildNoContextMessages(query, dataSetName, options.history);
+  return { textStream: streamChatCompletion(messages, ragOptions(options)), messages };
+}
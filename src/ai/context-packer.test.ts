@@ -0,0 +1,50 @@
+import { packContext, TRUNCATION_MARKER } from './context-packer';
+import { formatContext } from './prompt';
+import { getTokenizer } from './tokenizer';
+
+describe('context-packer', () => {
+  const tokenizer = getTokenizer('gpt-3.5-turbo', 'openai');
+  const sentence = 'Bananas are rich in potassium and vitamin B6. ';
+  const sources = [
+    { id: '1', text: sentence.repeat(10).trim() },
+    { id: '2', text: sentence.repeat(10).trim() },
+    { id: '3', text: sentence.repeat(10).trim() },
+  ];
+
+  it('keeps all sources that fit', () => {
+    const packed = packContext(sources, 10000, tokenizer);
+    expect(packed.context).toEqual(sources);
+    expect(packed).toMatchObject({ truncated: false, dropped: 0 });
+    // Sources are counted one by one, which overestimates the joined text slightly
+    expect(packed.tokens).toBeGreaterThanOrEqual(
+      tokenizer.count(formatContext(sources))
+    );
+  });
+
+  it('truncates the last source that partly fits at a sentence end', () => {
+    const oneSource = tokenizer.count(formatContext(sources.slice(0, 1)));
+    const packed = packContext(sources, oneSource + 80, tokenizer);
+
+    expect(packed).toMatchObject({ truncated: true, dropped: 1 });
+    expect(packed.context[0]).toBe(sources[0]);
+    const truncated = packed.context[1] as { text: string };
+    expect(truncated.text.endsWith(`B6.${TRUNCATION_MARKER}`)).toBe(true);
+    expect(packed.tokens).toBeLessThanOrEqual(oneSource + 80);
+    expect(tokenizer.count(formatContext(packed.context))).toBeLessThanOrEqual(
+      packed.tokens
+    );
+  });
+
+  it('leaves out sources when too little of them would fit', () => {
+    const oneSource = tokenizer.count(formatContext(sources.slice(0, 1)));
+    const packed = packContext(sources, oneSource + 20, tokenizer);
+    expect(packed.context).toEqual(sources.slice(0, 1));
+    expect(packed).toMatchObject({ truncated: false, dropped: 2 });
+  });
+
+  it('truncates plain text sources', () => {
+    const packed = packContext([sentence.repeat(50)], 100, tokenizer);
+    expect(packed.context).toHaveLength(1);
+    expect(packed.context[0]).toMatch(/B6\. \[\.\.\.\]$/);
+  });
+});
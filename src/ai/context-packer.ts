@@ -0,0 +1,122 @@
+import { formatSource, type PromptSource } from './prompt';
+import type { Tokenizer } from './tokenizer';
+
+/**
+ * Sources that fit a token budget.
+ */
+export interface PackedContext<
+  T extends string | PromptSource = string | PromptSource,
+> {
+  /** Sources to put into the prompt, in rank order; the last one may be truncated */
+  context: T[];
+  /** Tokens of the formatted context */
+  tokens: number;
+  /** Whether the last source was truncated */
+  truncated: boolean;
+  /** Number of sources left out */
+  dropped: number;
+}
+
+/**
+ * Marker appended to a truncated source.
+ */
+export const TRUNCATION_MARKER = ' [...]';
+
+/**
+ * A source is only truncated when at least this many of its tokens fit; otherwise it is
+ * left out, as a few words out of context don't help the answer.
+ */
+const MIN_TRUNCATED_TOKENS = 50;
+
+/**
+ * Separator between formatted sources (see formatContext()).
+ */
+const SOURCE_SEPARATOR = '\n\n';
+
+/**
+ * Cut text to a token limit at a sentence end, or at a word boundary when the last
+ * sentence end would lose more than half of the text.
+ */
+function truncateCleanly(
+  text: string,
+  maxTokens: number,
+  tokenizer: Tokenizer
+): string {
+  const cut = tokenizer.truncate(text, maxTokens);
+  const sentenceEnd = Math.max(
+    ...['. ', '! ', '? ', '\n'].map((end) => cut.lastIndexOf(end))
+  );
+  if (sentenceEnd >= cut.length / 2) {
+    return cut.slice(0, sentenceEnd + 1).trimEnd();
+  }
+  const wordEnd = cut.search(/\s+\S*$/);
+  return (wordEnd > 0 ? cut.slice(0, wordEnd) : cut).trimEnd();
+}
+
+/**
+ * Select the ranked sources that fit a token budget. Sources are added in order while they
+ * fit; the first that doesn't fit is truncated at a sentence or word boundary (marked with
+ * TRUNCATION_MARKER) and the rest are left out. Counts include the citation labels and
+ * separators added by formatContext(); counting sources one by one tends to overestimate the
+ * joined context by about a token per source.
+ *
+ * @param context - Sources, most relevant first
+ * @param maxTokens - Token budget of the formatted context
+ * @param tokenizer - Tokenizer of the completion model
+ * @returns The sources that fit and what was cut
+ *
+ * @example
+ * ```typescript
+ * const { context, dropped } = packContext(sources, 3000, getTokenizer());
+ * ```
+ */
+export function packContext<T extends string | PromptSource>(
+  context: T[],
+  maxTokens: number,
+  tokenizer: Tokenizer
+): PackedContext<T> {
+  const packed: T[] = [];
+  let tokens = 0;
+
+  for (const [i, source] of context.entries()) {
+    const separator = i > 0 ? tokenizer.count(SOURCE_SEPARATOR) : 0;
+    const formatted = `[${i + 1}] ${formatSource(source)}`;
+    const sourceTokens = separator + tokenizer.count(formatted);
+    if (tokens + sourceTokens <= maxTokens) {
+      packed.push(source);
+      tokens += sourceTokens;
+      continue;
+    }
+
+    // Truncate the text to what's left after the label and the marker
+    const text = typeof source === 'string' ? source : source.text;
+    const overhead =
+      sourceTokens - tokenizer.count(text) + tokenizer.count(TRUNCATION_MARKER);
+    const available = maxTokens - tokens - overhead;
+    if (available >= MIN_TRUNCATED_TOKENS) {
+      const truncatedText = `${truncateCleanly(text, available, tokenizer)}${TRUNCATION_MARKER}`;
+      const truncated = (
+        typeof source === 'string'
+          ? truncatedText
+          : { ...(source as PromptSource), text: truncatedText }
+      ) as T;
+      packed.push(truncated);
+      tokens +=
+        separator + tokenizer.count(`[${i + 1}] ${formatSource(truncated)}`);
+      return {
+        context: packed,
+        tokens,
+        truncated: true,
+        dropped: context.length - packed.length,
+      };
+    }
+    return {
+      context: packed,
+      tokens,
+      truncated: false,
+      dropped: context.length - packed.length,
+    };
+  }
+
+  return { context: packed, tokens, truncated: false, dropped: 0 };
+}
@@ -0,0 +1,38 @@
+import { defaultMinSimilarity } from './embeddings';
+
+describe('embeddings', () => {
+  describe('defaultMinSimilarity', () => {
+    const originalMock = process.env.USE_MOCK_OPENAI;
+
+    beforeEach(() => {
+      process.env.USE_MOCK_OPENAI = 'false';
+    });
+
+    afterEach(() => {
+      process.env.USE_MOCK_OPENAI = originalMock;
+      delete process.env.MIN_SIMILARITY;
+    });
+
+    it('uses the default of the embedding model', () => {
+      expect(defaultMinSimilarity('text-embedding-ada-002')).toBe(0.75);
+      expect(defaultMinSimilarity('text-embedding-3-small')).toBe(0.2);
+      expect(defaultMinSimilarity('unknown-model')).toBe(0);
+    });
+
+    it('uses the configured model by default', () => {
+      expect(defaultMinSimilarity()).toBe(
+        defaultMinSimilarity(process.env.AI_EMBEDDING_MODEL)
+      );
+    });
+
+    it('lets MIN_SIMILARITY override the model value', () => {
+      process.env.MIN_SIMILARITY = '0.5';
+      expect(defaultMinSimilarity('text-embedding-ada-002')).toBe(0.5);
+    });
+
+    it('applies no threshold to mock embeddings', () => {
+      process.env.USE_MOCK_OPENAI = 'true';
+      expect(defaultMinSimilarity('text-embedding-ada-002')).toBe(0);
+    });
+  });
+});
@@ -40,11 +40,20 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   return embedding;
 }
 
+/**
+ * Options for an embedding request.
+ */
+export interface EmbeddingRequestOptions {
+  /** Retries of the AI SDK on failed requests (default: 2, 0 when the caller retries itself) */
+  maxRetries?: number;
+}
+
 /**
  * Generate embedding vectors for multiple text inputs in a single request.
  * More efficient than calling generateEmbedding() multiple times.
  * 
  * @param texts - Array of texts to generate embeddings for
+ * @param options - Request options
  * @returns Promise resolving to array of embedding vectors
  * 
  * @example
@@ -56,7 +65,10 @@ export async function generateEmbedding(text: string): Promise<number[]> {
  * console.log(embeddings.length); // 2
  * ```
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+export async function generateEmbeddings(
+  texts: string[],
+  options: EmbeddingRequestOptions = {}
+): Promise<number[][]> {
   if (texts.length === 0) {
     return [];
   }
@@ -73,6 +85,7 @@ export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
   const { embeddings } = await embedMany({
     model: provider.embedding(config.embeddingModel),
     values: texts,
+    maxRetries: options.maxRetries,
   });
 
   return embeddings;
@@ -145,4 +158,44 @@ export function findSimilarEmbeddings(
   return similarities
     .sort((a, b) => b.similarity - a.similarity)
     .slice(0, topK);
-}
\ No newline at end of file
+}
+
+/**
+ * Default minimum cosine similarity of a relevant document, per embedding model.
+ * Similarity ranges differ a lot between models: ada-002 rates even unrelated texts
+ * around 0.7, while text-embedding-3 and sentence-transformer models use the whole range.
+ * A model's value is the threshold that best separates on-topic from off-topic questions over
+ * the bundled datasets (see calibrateMinSimilarity()): run `pnpm similarity:calibrate` with the
+ * model configured and put its result here. Tune the value for a dataset with `MIN_SIMILARITY`.
+ */
+export const MIN_SIMILARITY_BY_MODEL: Record<string, number> = {
+  // Not calibrated yet: rough defaults from the similarity range of the models
+  'text-embedding-ada-002': 0.75,
+  'text-embedding-3-small': 0.2,
+  'text-embedding-3-large': 0.2,
+  'text-embedding-sentence-transformers_all-minilm-l12-v2': 0.25,
+};
+
+/**
+ * Get the default minimum similarity for search results.
+ * The MIN_SIMILARITY environment variable overrides the model default.
+ * Mock embeddings and models without a default get 0 (no threshold).
+ *
+ * @param embeddingModel - Embedding model (default: the configured model)
+ * @returns Minimum cosine similarity between query and document
+ *
+ * @example
+ * ```typescript
+ * defaultMinSimilarity('text-embedding-3-small'); // 0.2
+ * ```
+ */
+export function defaultMinSimilarity(embeddingModel?: string): number {
+  const override = parseFloat(process.env.MIN_SIMILARITY ?? '');
+  if (!Number.isNaN(override)) {
+    return override;
+  }
+  if (process.env.USE_MOCK_OPENAI === 'true') {
+    return 0;
+  }
+  return MIN_SIMILARITY_BY_MODEL[embeddingModel ?? getAIConfig().embeddingModel] ?? 0;
+}
@@ -0,0 +1,162 @@
+import {
+  buildRAGMessages,
+  formatContext,
+  formatSource,
+  CITATION_INSTRUCTIONS,
+  DEFAULT_SYSTEM_PROMPT,
+  DEFAULT_USER_TEMPLATE,
+} from './prompt';
+
+describe('ai/prompt', () => {
+  describe('formatContext', () => {
+    it('labels the context documents with citation numbers', () => {
+      expect(formatContext(['Apples are red.', 'Bananas are yellow.'])).toBe(
+        '[1] Apples are red.\n\n[2] Bananas are yellow.'
+      );
+    });
+  });
+
+  describe('formatSource', () => {
+    it('prefixes sources with their document id and chunk position', () => {
+      expect(
+        formatSource({ id: '1-chunk-0', text: 'Mango', documentId: '1', chunkIndex: 0, totalChunks: 2 })
+      ).toBe('(Document 1, Chunk 1/2)\nMango');
+      expect(formatSource({ id: '2', text: 'Apple' })).toBe('(Document 2)\nApple');
+    });
+  });
+
+  describe('buildRAGMessages', () => {
+    it('combines the system prompt and the filled user template', () => {
+      const messages = buildRAGMessages({
+        question: 'What color are apples?',
+        context: ['Apples are red.'],
+        systemPrompt: 'You are a fruit expert.',
+        userTemplate: 'Context:\n{{context}}\n\nQuestion: {{question}}',
+      });
+
+      expect(messages).toEqual([
+        { role: 'system', content: `You are a fruit expert.\n\n${CITATION_INSTRUCTIONS}` },
+        {
+          role: 'user',
+          content: 'Context:\n[1] Apples are red.\n\nQuestion: What color are apples?',
+        },
+      ]);
+    });
+
+    it('uses the defaults when no dataset templates are given', () => {
+      const messages = buildRAGMessages({ question: 'Q?', context: ['Doc'] });
+
+      expect(messages[0]).toEqual({
+        role: 'system',
+        content: `${DEFAULT_SYSTEM_PROMPT}\n\n${CITATION_INSTRUCTIONS}`,
+      });
+      expect(messages[1].content).toBe(
+        DEFAULT_USER_TEMPLATE.replace('{{context}}', '[1] Doc').replace('{{question}}', 'Q?')
+      );
+    });
+
+    it('adds the context when the template has no {{context}} placeholder', () => {
+      const messages = buildRAGMessages({
+        question: 'Q?',
+        context: ['Important context'],
+        userTemplate: 'Please answer: {{question}}',
+      });
+
+      expect(messages[1].content).toBe(
+        'Context:\n[1] Important context\n\nPlease answer: Q?'
+      );
+    });
+
+    it('adds the question when the template has no {{question}} placeholder', () => {
+      const messages = buildRAGMessages({
+        question: 'Q?',
+        context: ['Doc'],
+        userTemplate: 'Sources:\n{{context}}',
+      });
+
+      expect(messages[1].content).toBe('Sources:\n[1] Doc\n\nQuestion: Q?');
+    });
+
+    it('inserts replacement patterns in context verbatim', () => {
+      const messages = buildRAGMessages({ question: 'Cost?', context: ['It costs $& or $1'] });
+      expect(messages[1].content).toContain('[1] It costs $& or $1');
+    });
+
+    it('renders source loops, conditionals and dataset variables', () => {
+      const messages = buildRAGMessages({
+        question: 'Which fruit?',
+        context: [
+          { id: '1-chunk-0', text: 'Mango', score: 0.91234, documentId: '1', chunkIndex: 0, totalChunks: 2 },
+          { id: '2', text: 'Apple', score: 0.5 },
+        ],
+        systemPrompt: 'You answer questions about {{dataset.name}}.',
+        userTemplate:
+          '{{#if hasContext}}{{#each sources}}[{{number}}] doc {{documentId}}{{#if chunkNumber}} chunk {{chunkNumber}}/{{totalChunks}}{{/if}} ({{score}}): {{text}}\n{{/each}}{{else}}No sources.{{/if}}\nQ: {{question}} / {{question}}',
+        dataset: { name: 'example-fruits' },
+      });
+
+      expect(messages).toEqual([
+        {
+          role: 'system',
+          content: `You answer questions about example-fruits.\n\n${CITATION_INSTRUCTIONS}`,
+        },
+        {
+          role: 'user',
+          content:
+            '[1] doc 1 chunk 1/2 (0.912): Mango\n[2] doc 2 (0.5): Apple\n\nQ: Which fruit? / Which fruit?',
+        },
+      ]);
+    });
+
+    it('asks for citations only when there is context', () => {
+      expect(buildRAGMessages({ question: 'Q?', context: [] })[0].content).toBe(
+        DEFAULT_SYSTEM_PROMPT
+      );
+      expect(
+        buildRAGMessages({ question: 'Q?', context: ['Doc'], citations: false })[0].content
+      ).toBe(DEFAULT_SYSTEM_PROMPT);
+    });
+
+    it('renders the no-context branch', () => {
+      const messages = buildRAGMessages({
+        question: 'Q?',
+        context: [],
+        userTemplate: '{{#if hasContext}}{{context}}{{else}}Nothing found.{{/if}} {{question}}',
+      });
+      expect(messages[1].content).toBe('Nothing found. Q?');
+    });
+
+    it('accepts the context when the system prompt references it', () => {
+      const messages = buildRAGMessages({
+        question: 'Q?',
+        context: ['Doc'],
+        systemPrompt: 'Sources:\n{{context}}',
+        userTemplate: '{{question}}',
+      });
+      expect(messages).toEqual([
+        { role: 'system', content: `Sources:\n[1] Doc\n\n${CITATION_INSTRUCTIONS}` },
+        { role: 'user', content: 'Q?' },
+      ]);
+    });
+
+    it('inserts the conversation history between the system and the user message', () => {
+      const messages = buildRAGMessages({
+        question: 'And bananas?',
+        context: ['Doc'],
+        systemPrompt: 'System',
+        userTemplate: '{{context}} {{question}}',
+        history: [
+          { role: 'user', content: 'Are mangoes sweet?' },
+          { role: 'assistant', content: 'Yes.' },
+        ],
+        citations: false,
+      });
+      expect(messages).toEqual([
+        { role: 'system', content: 'System' },
+        { role: 'user', content: 'Are mangoes sweet?' },
+        { role: 'assistant', content: 'Yes.' },
+        { role: 'user', content: '[1] Doc And bananas?' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  compileTemplate,
+  type TemplateValidation,
+  type TemplateVariables,
+} from '../dataset/template-engine';
+
+/**
+ * A chat message sent to the completion provider.
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * System prompt used when a dataset doesn't provide one.
+ */
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant. Use the provided context documents to answer the user's question. If the context doesn't contain enough information to answer the question, say so clearly.`;
+
+/**
+ * User message template used when a dataset doesn't provide one.
+ */
+export const DEFAULT_USER_TEMPLATE = `Context:
+{{context}}
+
+Question: {{question}}`;
+
+/**
+ * Instruction appended to the system prompt so answers cite the numbered context sources.
+ */
+export const CITATION_INSTRUCTIONS = `Cite the context sources that support each statement by their number in square brackets, e.g. [1] or [1][3]. Only cite numbers of the provided sources.`;
+
+/**
+ * Answer given when no document of a dataset is relevant to the question.
+ */
+export function cannedNoContextAnswer(dataSetName: string): string {
+  return `This question doesn't seem to be covered by the "${dataSetName}" dataset, so I can't answer it from its documents.`;
+}
+
+/**
+ * System prompt for generated answers to questions no document of a dataset is relevant to.
+ */
+export const NO_CONTEXT_SYSTEM_PROMPT = `You answer questions using the documents of a dataset, but no document is relevant to this question. Tell the user briefly that the question isn't covered by the dataset and, if useful, what kind of question it can answer instead. Do not answer the question from general knowledge.`;
+
+/**
+ * Assemble the chat messages for a question without relevant context.
+ *
+ * @param question - The user's question
+ * @param dataSetName - Name of the searched dataset
+ * @param history - Previous conversation turns sent before the question
+ */
+export function buildNoContextMessages(
+  question: string,
+  dataSetName: string,
+  history: ChatMessage[] = []
+): ChatMessage[] {
+  return [
+    { role: 'system', content: NO_CONTEXT_SYSTEM_PROMPT },
+    ...history,
+    { role: 'user', content: `Dataset: ${dataSetName}\n\nQuestion: ${question}` },
+  ];
+}
+
+/**
+ * A retrieved source passed to the prompt, with its retrieval metadata.
+ */
+export interface PromptSource {
+  /** Document or chunk id */
+  id: string;
+  /** Source text */
+  text: string;
+  /** Relevance score */
+  score?: number;
+  /** ID of the original document (for chunks) */
+  documentId?: string;
+  /** 0-based index of the chunk within its document */
+  chunkIndex?: number;
+  /** Number of chunks of the document */
+  totalChunks?: number;
+}
+
+/**
+ * Input for assembling a RAG prompt.
+ */
+export interface RAGPromptInput {
+  /** The user's question */
+  question: string;
+  /** Relevant document texts or sources to use as context */
+  context: Array<string | PromptSource>;
+  /** Dataset system prompt template (default: DEFAULT_SYSTEM_PROMPT) */
+  systemPrompt?: string;
+  /** Dataset user template (default: DEFAULT_USER_TEMPLATE) */
+  userTemplate?: string;
+  /** Dataset variables available as {{dataset.*}} */
+  dataset?: TemplateVariables;
+  /** Previous conversation turns, inserted between the system and the user message */
+  history?: ChatMessage[];
+  /** Instruct the model to cite sources as [1], [2] when there is context (default: true) */
+  citations?: boolean;
+}
+
+/**
+ * Fields of each item when looping with `{{#each sources}}`.
+ */
+const SOURCE_FIELDS = [
+  'number',
+  'id',
+  'documentId',
+  'chunkIndex',
+  'chunkNumber',
+  'totalChunks',
+  'score',
+  'text',
+];
+
+/**
+ * Validation rules for dataset prompt templates.
+ * Templates may use `question`, `context`, `hasContext`, `dataset.name`, the given
+ * dataset frontmatter keys as `dataset.<key>` and loop over `sources`.
+ *
+ * @param datasetKeys - Frontmatter keys of the dataset
+ * @param kind - `user` templates must reference the context (or sources) and the question
+ */
+export function promptTemplateValidation(
+  datasetKeys: string[],
+  kind: 'system' | 'user'
+): TemplateValidation {
+  return {
+    variables: [
+      'question',
+      'context',
+      'hasContext',
+      'dataset.name',
+      ...datasetKeys.map((key) => `dataset.${key}`),
+    ],
+    loops: { sources: SOURCE_FIELDS },
+    required: kind === 'user' ? [['context', 'sources'], ['question']] : [],
+  };
+}
+
+/**
+ * Format a single context entry. Sources are prefixed with their document id and chunk position.
+ */
+export function formatSource(source: string | PromptSource): string {
+  if (typeof source === 'string') {
+    return source;
+  }
+  if (source.chunkIndex !== undefined && source.totalChunks) {
+    return `(Document ${source.documentId ?? source.id}, Chunk ${source.chunkIndex + 1}/${source.totalChunks})\n${source.text}`;
+  }
+  return `(Document ${source.id})\n${source.text}`;
+}
+
+/**
+ * Format context documents as a list labelled with the citation numbers [1], [2], ...
+ *
+ * @example
+ * ```typescript
+ * formatContext(['Apples are red.', 'Bananas are yellow.']);
+ * // Returns: "[1] Apples are red.\n\n[2] Bananas are yellow."
+ * ```
+ */
+export function formatContext(context: Array<string | PromptSource>): string {
+  return context.map((doc, i) => `[${i + 1}] ${formatSource(doc)}`).join('\n\n');
+}
+
+/**
+ * Variables for rendering prompt templates.
+ */
+function templateVariables(input: RAGPromptInput): TemplateVariables {
+  const sources = input.context.map((source, i) => {
+    const item = typeof source === 'string' ? { id: String(i + 1), text: source } : source;
+    return {
+      number: i + 1,
+      id: item.id,
+      documentId: item.documentId ?? item.id,
+      chunkIndex: item.chunkIndex,
+      chunkNumber: item.chunkIndex !== undefined ? item.chunkIndex + 1 : undefined,
+      totalChunks: item.totalChunks,
+      score: item.score !== undefined ? Number(item.score.toFixed(3)) : undefined,
+      text: item.text,
+    };
+  });
+  return {
+    question: input.question,
+    context: formatContext(input.context),
+    hasContext: sources.length > 0,
+    sources,
+    dataset: input.dataset ?? {},
+  };
+}
+
+/**
+ * Assemble the chat messages for a RAG completion.
+ * The rendered system prompt becomes the system message and the rendered user template the
+ * user message (see template-engine for the syntax).
+ * If neither template references the context (`{{context}}` or `{{#each sources}}`) or the
+ * question, the missing part is added to the user message so it always reaches the model.
+ * When there is context, CITATION_INSTRUCTIONS are appended to the system message unless
+ * `citations` is false.
+ *
+ * @param input - Question, context and dataset prompt templates
+ * @returns Messages to send to the completion provider
+ *
+ * @example
+ * ```typescript
+ * const messages = buildRAGMessages({
+ *   question: 'What color are apples?',
+ *   context: ['Apples are red.'],
+ *   systemPrompt: 'You are a fruit expert.',
+ *   userTemplate: 'Context:\n{{context}}\n\nQuestion: {{question}}',
+ * });
+ * // [
+ * //   { role: 'system', content: 'You are a fruit expert.\n\nCite the context sources ...' },
+ * //   { role: 'user', content: 'Context:\n[1] Apples are red.\n\nQuestion: What color are apples?' }
+ * // ]
+ * ```
+ */
+export function buildRAGMessages(input: RAGPromptInput): ChatMessage[] {
+  const system = compileTemplate(input.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT, {
+    file: 'system-prompt.md',
+  });
+  const user = compileTemplate(input.userTemplate?.trim() || DEFAULT_USER_TEMPLATE, {
+    file: 'user-template.md',
+  });
+  const references = new Set([...system.references, ...user.references]);
+  const variables = templateVariables(input);
+
+  let userContent = user.render(variables);
+  if (!references.has('context') && !references.has('sources')) {
+    userContent = `Context:\n${variables.context}\n\n${userContent}`;
+  }
+  if (!references.has('question')) {
+    userContent = `${userContent}\n\nQuestion: ${input.question}`;
+  }
+
+  let systemContent = system.render(variables).trim();
+  if (input.citations !== false && input.context.length > 0) {
+    systemContent = `${systemContent}\n\n${CITATION_INSTRUCTIONS}`;
+  }
+
+  return [
+    { role: 'system', content: systemContent },
+    ...(input.history ?? []),
+    { role: 'user', content: userContent.trim() },
+  ];
+}
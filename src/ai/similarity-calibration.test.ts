@@ -0,0 +1,109 @@
+import { generateEmbedding } from './embeddings';
+import {
+  calibrateMinSimilarity,
+  scoreCalibrationQuestions,
+  type ScoredQuestion,
+} from './similarity-calibration';
+
+describe('similarity-calibration', () => {
+  const question = (onTopic: boolean, score: number): ScoredQuestion => ({
+    dataSet: 'example-fruits',
+    question: `${onTopic ? 'On' : 'Off'}-topic question scoring ${score}`,
+    onTopic,
+    score,
+  });
+
+  describe('calibrateMinSimilarity', () => {
+    it('puts the threshold halfway between separated questions', () => {
+      const calibration = calibrateMinSimilarity([
+        question(true, 0.86),
+        question(true, 0.91),
+        question(false, 0.74),
+        question(false, 0.7),
+      ]);
+
+      expect(calibration).toEqual({
+        minSimilarity: 0.8,
+        accuracy: 1,
+        lowestOnTopic: 0.86,
+        highestOffTopic: 0.74,
+        misclassified: [],
+      });
+    });
+
+    it('minimizes the misclassified questions when they overlap', () => {
+      const offTopic = question(false, 0.83);
+      const calibration = calibrateMinSimilarity([
+        question(true, 0.86),
+        question(true, 0.91),
+        offTopic,
+        question(false, 0.74),
+        question(false, 0.7),
+      ]);
+
+      expect(calibration.minSimilarity).toBe(0.85);
+      expect(calibration.accuracy).toBe(1);
+
+      const overlapping = calibrateMinSimilarity([
+        question(true, 0.8),
+        question(true, 0.9),
+        offTopic,
+        question(false, 0.7),
+      ]);
+      expect(overlapping.minSimilarity).toBe(0.75);
+      expect(overlapping.misclassified).toEqual([offTopic]);
+      expect(overlapping.accuracy).toBe(0.75);
+    });
+
+    it('needs on-topic and off-topic questions', () => {
+      expect(() => calibrateMinSimilarity([question(true, 0.8)])).toThrow(
+        'on-topic and off-topic'
+      );
+    });
+  });
+
+  describe('scoreCalibrationQuestions', () => {
+    it('scores the own questions of a dataset as on-topic and all others as off-topic', async () => {
+      const documents = {
+        'example-fruits': [
+          {
+            id: '1',
+            text: 'Apples?',
+            embedding: await generateEmbedding('Apples?'),
+          },
+          {
+            id: '2',
+            text: 'Kiwis',
+            embedding: await generateEmbedding('Kiwis'),
+          },
+        ],
+      };
+
+      const scored = await scoreCalibrationQuestions(
+        documents,
+        { 'example-fruits': ['Apples?'], 'example-cars': ['Diesel engines?'] },
+        ['Paris?']
+      );
+
+      expect(
+        scored.map(({ question, onTopic }) => [question, onTopic])
+      ).toEqual([
+        ['Apples?', true],
+        ['Diesel engines?', false],
+        ['Paris?', false],
+      ]);
+      expect(scored[0].score).toBeCloseTo(1);
+      expect(scored[1].score).toBeLessThan(1);
+    });
+
+    it('rejects documents without embeddings', async () => {
+      await expect(
+        scoreCalibrationQuestions(
+          { 'example-fruits': [{ id: '1', text: 'Apples' }] },
+          {},
+          ['Paris?']
+        )
+      ).rejects.toThrow('example-fruits: document 1 has no embedding');
+    });
+  });
+});
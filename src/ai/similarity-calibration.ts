@@ -0,0 +1,173 @@
+import type { Doc } from '../dataset/DocumentLoader';
+import { cosineSimilarity, generateEmbeddings } from './embeddings';
+
+/**
+ * Questions about the bundled datasets, used to calibrate the minimum similarity of an
+ * embedding model. Each dataset's questions are off-topic for the other datasets.
+ */
+export const CALIBRATION_QUESTIONS: Record<string, string[]> = {
+  'example-fruits': [
+    'Which country produces the most apples?',
+    'What are bananas rich in?',
+    'Which vitamin are oranges known for?',
+    'What are grapes used for?',
+    'Where are most strawberries in the United States grown?',
+    'Which country grows the most mangoes?',
+    'Which fruit is used to make marmalade?',
+    'Which fruits are eaten in smoothies?',
+  ],
+  'example-cars': [
+    'How many cylinders does a V8 engine have?',
+    'Why do electric cars have instant torque?',
+    'How do hybrid cars save fuel?',
+    'What does a turbocharger do?',
+    'Why is rear-wheel drive used in sports cars?',
+    'Is all-wheel drive better in snow?',
+    'What is the difference between manual and automatic transmissions?',
+    'How does regenerative braking work?',
+  ],
+  'example-nodejs': [
+    'What is Node.js?',
+    'How do I install packages with npm?',
+    'What does TypeScript add to JavaScript?',
+    'How do I build a REST API with Express?',
+    'What is the virtual DOM in React?',
+    'Why is Vite faster than Webpack?',
+    'How do I write snapshot tests with Jest?',
+    'How do I restart my server automatically on file changes?',
+  ],
+};
+
+/**
+ * Questions no bundled dataset covers.
+ */
+export const OFF_TOPIC_QUESTIONS = [
+  'What is the capital of Australia?',
+  'Who painted the Mona Lisa?',
+  'How do I bake sourdough bread?',
+  'What causes the northern lights?',
+  'How many players are on a football team?',
+  'What is the boiling point of water on Mount Everest?',
+  'How do vaccines train the immune system?',
+  'When did the Roman Empire fall?',
+];
+
+/**
+ * Best similarity of a calibration question to the documents of a dataset.
+ */
+export interface ScoredQuestion {
+  /** Dataset the question was asked against */
+  dataSet: string;
+  question: string;
+  /** Whether the dataset covers the question */
+  onTopic: boolean;
+  /** Highest cosine similarity between the question and a document */
+  score: number;
+}
+
+/**
+ * Minimum similarity derived from scored calibration questions.
+ */
+export interface SimilarityCalibration {
+  /** Threshold that separates on-topic from off-topic questions best */
+  minSimilarity: number;
+  /** Share of questions the threshold classifies correctly (0 to 1) */
+  accuracy: number;
+  /** Lowest best score of an on-topic question */
+  lowestOnTopic: number;
+  /** Highest best score of an off-topic question */
+  highestOffTopic: number;
+  /** Questions that end up on the wrong side of the threshold */
+  misclassified: ScoredQuestion[];
+}
+
+/**
+ * Ask the calibration questions against each dataset: the dataset's own questions are
+ * on-topic, the questions of the other datasets and OFF_TOPIC_QUESTIONS are off-topic.
+ *
+ * @param documents - Embedded documents (or chunks) by dataset
+ * @param questions - On-topic questions by dataset (default: CALIBRATION_QUESTIONS)
+ * @param offTopic - Questions no dataset covers (default: OFF_TOPIC_QUESTIONS)
+ * @returns Each question with its best similarity to the documents of each dataset
+ * @throws {Error} When a document has no embedding
+ */
+export async function scoreCalibrationQuestions(
+  documents: Record<string, Doc[]>,
+  questions: Record<string, string[]> = CALIBRATION_QUESTIONS,
+  offTopic: string[] = OFF_TOPIC_QUESTIONS
+): Promise<ScoredQuestion[]> {
+  const asked = [...Object.values(questions).flat(), ...offTopic];
+  const embeddings = await generateEmbeddings(asked);
+  const scored: ScoredQuestion[] = [];
+
+  for (const [dataSet, docs] of Object.entries(documents)) {
+    const own = new Set(questions[dataSet] ?? []);
+    for (const [i, question] of asked.entries()) {
+      const scores = docs.map((doc) => {
+        if (!doc.embedding) {
+          throw new Error(`${dataSet}: document ${doc.id} has no embedding`);
+        }
+        return cosineSimilarity(embeddings[i], doc.embedding);
+      });
+      scored.push({
+        dataSet,
+        question,
+        onTopic: own.has(question),
+        score: Math.max(...scores),
+      });
+    }
+  }
+  return scored;
+}
+
+/**
+ * Derive a minimum similarity from scored calibration questions: the threshold with the
+ * fewest questions on the wrong side, halfway between the neighbouring scores and rounded to
+ * two decimals. Among equally good thresholds the lowest wins, as leaving out relevant
+ * context is worse than adding a little unrelated context.
+ *
+ * @param scored - On-topic and off-topic questions with their best scores
+ * @returns The threshold and how well it separates the questions
+ * @throws {Error} When there are no on-topic or no off-topic questions
+ *
+ * @example
+ * ```typescript
+ * calibrateMinSimilarity([
+ *   { dataSet: 'example-fruits', question: 'Apples?', onTopic: true, score: 0.86 },
+ *   { dataSet: 'example-fruits', question: 'Diesel?', onTopic: false, score: 0.74 },
+ * ]).minSimilarity; // 0.8
+ * ```
+ */
+export function calibrateMinSimilarity(
+  scored: ScoredQuestion[]
+): SimilarityCalibration {
+  const onTopic = scored.filter((q) => q.onTopic).map((q) => q.score);
+  const offTopic = scored.filter((q) => !q.onTopic).map((q) => q.score);
+  if (onTopic.length === 0 || offTopic.length === 0) {
+    throw new Error('Calibration needs on-topic and off-topic questions');
+  }
+
+  const scores = [...new Set(scored.map((q) => q.score))].sort((a, b) => a - b);
+  const candidates = scores.map((score, i) =>
+    i === 0 ? score : (scores[i - 1] + score) / 2
+  );
+  const errors = (threshold: number) =>
+    scored.filter((q) => q.onTopic !== q.score >= threshold);
+
+  let best = candidates[0];
+  for (const candidate of candidates) {
+    if (errors(candidate).length < errors(best).length) {
+      best = candidate;
+    }
+  }
+  const minSimilarity = Math.round(best * 100) / 100;
+  const misclassified = errors(minSimilarity);
+
+  return {
+    minSimilarity,
+    accuracy: 1 - misclassified.length / scored.length,
+    lowestOnTopic: Math.min(...onTopic),
+    highestOffTopic: Math.max(...offTopic),
+    misclassified,
+  };
+}
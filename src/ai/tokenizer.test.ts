@@ -0,0 +1,79 @@
+import {
+  countMessageTokens,
+  DEFAULT_CONTEXT_WINDOW,
+  getContextWindow,
+  getTokenizer,
+} from './tokenizer';
+
+describe('tokenizer', () => {
+  describe('getTokenizer', () => {
+    it('uses the tiktoken encoding of OpenAI models', () => {
+      expect(getTokenizer('gpt-3.5-turbo', 'openai').name).toBe('cl100k_base');
+      expect(getTokenizer('gpt-4o-mini', 'openai').name).toBe('o200k_base');
+      expect(getTokenizer('gpt-3.5-turbo', 'openai').count('Hello world')).toBe(
+        2
+      );
+    });
+
+    it('approximates the tokens of other models with a margin', () => {
+      const tokenizer = getTokenizer('llama-3.2-3b-instruct', 'lmstudio');
+      expect(tokenizer.name).toBe('cl100k_base (approximate)');
+      expect(tokenizer.count('Hello world')).toBe(3);
+      expect(getTokenizer('my-finetune', 'openai')).toBe(tokenizer);
+    });
+
+    it('truncates to a token limit', () => {
+      const tokenizer = getTokenizer('gpt-3.5-turbo', 'openai');
+      const text = 'Bananas are rich in potassium and vitamin B6.';
+      const truncated = tokenizer.truncate(text, 4);
+      expect(text.startsWith(truncated)).toBe(true);
+      expect(tokenizer.count(truncated)).toBe(4);
+      expect(tokenizer.truncate(text, 100)).toBe(text);
+    });
+
+    it('uses the configured model by default', () => {
+      expect(getTokenizer()).toBe(
+        getTokenizer(process.env.AI_COMPLETION_MODEL, 'openai')
+      );
+    });
+  });
+
+  describe('countMessageTokens', () => {
+    it('adds the per-message overhead', () => {
+      const tokenizer = getTokenizer('gpt-3.5-turbo', 'openai');
+      expect(
+        countMessageTokens(
+          [
+            { role: 'system', content: 'Hello world' },
+            { role: 'user', content: 'Hello world' },
+          ],
+          tokenizer
+        )
+      ).toBe(3 + (3 + 2) * 2);
+    });
+  });
+
+  describe('getContextWindow', () => {
+    afterEach(() => {
+      delete process.env.CONTEXT_WINDOW;
+    });
+
+    it('looks up the model by the longest matching prefix', () => {
+      expect(getContextWindow('gpt-3.5-turbo')).toBe(16385);
+      expect(getContextWindow('gpt-4')).toBe(8192);
+      expect(getContextWindow('gpt-4-turbo-2024-04-09')).toBe(128000);
+      expect(getContextWindow('gpt-4o-mini')).toBe(128000);
+    });
+
+    it('assumes a small window for unknown models', () => {
+      expect(getContextWindow('llama-3.2-3b-instruct')).toBe(
+        DEFAULT_CONTEXT_WINDOW
+      );
+    });
+
+    it('lets CONTEXT_WINDOW override the model value', () => {
+      process.env.CONTEXT_WINDOW = '32768';
+      expect(getContextWindow('llama-3.2-3b-instruct')).toBe(32768);
+    });
+  });
+});
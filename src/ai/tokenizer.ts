@@ -0,0 +1,186 @@
+import {
+  getEncoding,
+  getEncodingNameForModel,
+  type Tiktoken,
+  type TiktokenEncoding,
+  type TiktokenModel,
+} from 'js-tiktoken';
+import { getAIConfig, type AIProvider } from './provider-config';
+import type { ChatMessage } from './prompt';
+
+/**
+ * Counts and truncates text in the tokens of a model.
+ */
+export interface Tokenizer {
+  /** Encoding name shown in debug output */
+  readonly name: string;
+  /** Number of tokens of a text */
+  count(text: string): number;
+  /** The longest prefix of a text with at most `maxTokens` tokens */
+  truncate(text: string, maxTokens: number): string;
+}
+
+/**
+ * Tokenizer using a tiktoken encoding, exact for OpenAI models.
+ */
+class TiktokenTokenizer implements Tokenizer {
+  readonly name: string;
+  private readonly encoding: Tiktoken;
+
+  constructor(encodingName: TiktokenEncoding) {
+    this.name = encodingName;
+    this.encoding = getEncoding(encodingName);
+  }
+
+  count(text: string): number {
+    return this.encoding.encode(text).length;
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encoding.encode(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    // Cutting tokens can split a multi-byte character; drop the broken replacement character
+    return this.encoding
+      .decode(tokens.slice(0, Math.max(0, maxTokens)))
+      .replace(/�+$/, '');
+  }
+}
+
+/**
+ * Tokenizer for models whose tokenizer is not available (e.g. LM Studio models).
+ * Counts with cl100k_base plus a margin, as Llama and Mistral tokenizers split most text into
+ * more tokens than cl100k_base does.
+ */
+class ApproximateTokenizer implements Tokenizer {
+  readonly name = 'cl100k_base (approximate)';
+  private readonly base = getTokenizerForEncoding('cl100k_base');
+
+  constructor(private readonly margin = 1.2) {}
+
+  count(text: string): number {
+    return Math.ceil(this.base.count(text) * this.margin);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    return this.base.truncate(text, Math.floor(maxTokens / this.margin));
+  }
+}
+
+const encodings = new Map<TiktokenEncoding, Tokenizer>();
+
+/**
+ * Tokenizers are cached, as loading an encoding takes a moment.
+ */
+function getTokenizerForEncoding(encodingName: TiktokenEncoding): Tokenizer {
+  let tokenizer = encodings.get(encodingName);
+  if (!tokenizer) {
+    tokenizer = new TiktokenTokenizer(encodingName);
+    encodings.set(encodingName, tokenizer);
+  }
+  return tokenizer;
+}
+
+let approximate: Tokenizer | undefined;
+
+/**
+ * Get the tokenizer of a completion model: the model's tiktoken encoding for OpenAI models,
+ * an approximation for other providers and unknown models.
+ *
+ * @param model - Completion model (default: the configured model)
+ * @param provider - Completion provider (default: the configured provider)
+ *
+ * @example
+ * ```typescript
+ * getTokenizer('gpt-4o', 'openai').count('Bananas are rich in potassium.'); // 7
+ * ```
+ */
+export function getTokenizer(model?: string, provider?: AIProvider): Tokenizer {
+  if (model === undefined || provider === undefined) {
+    const config = getAIConfig();
+    model ??= config.completionModel;
+    provider ??= config.completionProvider;
+  }
+  if (provider === 'openai') {
+    try {
+      return getTokenizerForEncoding(
+        getEncodingNameForModel(model as TiktokenModel)
+      );
+    } catch {
+      // Unknown model name, fall through to the approximation
+    }
+  }
+  approximate ??= new ApproximateTokenizer();
+  return approximate;
+}
+
+/**
+ * Tokens each chat message adds for its role and separators (OpenAI chat format).
+ */
+const TOKENS_PER_MESSAGE = 3;
+
+/**
+ * Tokens added to prime the reply.
+ */
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Count the tokens of chat messages as sent to the model, including the message overhead.
+ */
+export function countMessageTokens(
+  messages: ChatMessage[],
+  tokenizer: Tokenizer
+): number {
+  return messages.reduce(
+    (total, message) =>
+      total + TOKENS_PER_MESSAGE + tokenizer.count(message.content),
+    TOKENS_PER_REPLY
+  );
+}
+
+/**
+ * Context window sizes in tokens, by model name prefix (the longest matching prefix wins,
+ * so dated versions like `gpt-4o-2024-08-06` are covered).
+ */
+export const CONTEXT_WINDOW_BY_MODEL: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  o1: 200000,
+  o3: 200000,
+  'o4-mini': 200000,
+};
+
+/**
+ * Context window assumed for unknown models. LM Studio loads models with 4096 tokens by default.
+ */
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+/**
+ * Get the context window of a completion model.
+ * The CONTEXT_WINDOW environment variable overrides the model default, e.g. for a local model
+ * loaded with a larger context length.
+ *
+ * @param model - Completion model (default: the configured model)
+ * @returns Maximum tokens of prompt and answer together
+ *
+ * @example
+ * ```typescript
+ * getContextWindow('gpt-4o-mini'); // 128000
+ * ```
+ */
+export function getContextWindow(model?: string): number {
+  const override = parseInt(process.env.CONTEXT_WINDOW ?? '', 10);
+  if (override > 0) {
+    return override;
+  }
+  const name = model ?? getAIConfig().completionModel;
+  const prefix = Object.keys(CONTEXT_WINDOW_BY_MODEL)
+    .filter((key) => name === key || name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? CONTEXT_WINDOW_BY_MODEL[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
@@ -0,0 +1,303 @@
+import { createApiV1 } from './v1';
+import { semanticSearchEnhanced } from '../features/enhanced-semantic-search';
+import * as completions from '../ai/completions';
+
+// Keep retrieval away from the embedding cache in data/
+jest.mock('../features/enhanced-semantic-search', () => ({
+  ...jest.requireActual('../features/enhanced-semantic-search'),
+  semanticSearchEnhanced: jest.fn(),
+}));
+
+const mockSearch = semanticSearchEnhanced as jest.MockedFunction<
+  typeof semanticSearchEnhanced
+>;
+
+describe('api/v1', () => {
+  const api = createApiV1(['example-fruits', 'example-cars']);
+
+  const postJson = (url: string, body: unknown) =>
+    api.request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    process.env.USE_MOCK_OPENAI = 'true';
+    mockSearch.mockReset();
+    mockSearch.mockResolvedValue([
+      {
+        id: '1-chunk-0',
+        text: 'Banana is an elongated, edible fruit.',
+        embedding: [0.1, 0.2, 0.3],
+        score: 0.87,
+        highlights: ['Banana is an elongated'],
+        metadata: { documentId: '1', chunkIndex: 0, totalChunks: 2, isChunk: true },
+      },
+    ]);
+  });
+
+  describe('GET /datasets', () => {
+    it('lists the served datasets', async () => {
+      const res = await api.request('/datasets');
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        datasets: [{ name: 'example-fruits' }, { name: 'example-cars' }],
+      });
+    });
+  });
+
+  describe('POST /datasets/:name/ask', () => {
+    it('returns the answer, results without embeddings and effective config', async () => {
+      const res = await postJson('/datasets/example-fruits/ask', {
+        question: 'Which fruit is elongated?',
+        config: { maxResults: 1 },
+      });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.answer).toBe('Hello from mock');
+      expect(body.results).toHaveLength(1);
+      expect(body.results[0]).toMatchObject({
+        id: '1-chunk-0',
+        score: 0.87,
+        highlights: ['Banana is an elongated'],
+        metadata: { documentId: '1', chunkIndex: 0 },
+      });
+      expect(body.results[0].embedding).toBeUndefined();
+      expect(body.config).toMatchObject({ maxResults: 1, enableHybridSearch: true });
+      expect(mockSearch).toHaveBeenCalledWith(
+        'example-fruits',
+        'Which fruit is elongated?',
+        { maxResults: 1 }
+      );
+    });
+
+    it('resolves the citations of the answer', async () => {
+      const generate = jest
+        .spyOn(completions, 'generateRAGResponse')
+        .mockImplementation(async (question, context) => ({
+          text: 'Bananas are elongated [1][4].',
+          messages: [],
+          context,
+        }));
+      try {
+        const res = await postJson('/datasets/example-fruits/ask', { question: 'Which fruit?' });
+        const body = await res.json();
+
+        expect(body.citations).toEqual([
+          { number: 1, id: '1-chunk-0', documentId: '1', chunkIndex: 0 },
+        ]);
+        expect(body.invalidCitations).toEqual([4]);
+      } finally {
+        generate.mockRestore();
+      }
+    });
+
+    it('does not resolve citations of sources left out of the prompt', async () => {
+      // The retrieved source didn't fit the context window
+      const generate = jest
+        .spyOn(completions, 'generateRAGResponse')
+        .mockResolvedValue({ text: 'Bananas are elongated [1].', messages: [], context: [] });
+      try {
+        const res = await postJson('/datasets/example-fruits/ask', { question: 'Which fruit?' });
+        const body = await res.json();
+
+        expect(body.results).toHaveLength(1);
+        expect(body.citations).toEqual([]);
+        expect(body.invalidCitations).toEqual([1]);
+      } finally {
+        generate.mockRestore();
+      }
+    });
+
+    it('answers that the dataset does not cover questions without relevant documents', async () => {
+      mockSearch.mockResolvedValue([]);
+      const generate = jest.spyOn(completions, 'generateRAGResponse');
+      try {
+        const res = await postJson('/datasets/example-fruits/ask', {
+          question: 'How do diesel engines work?',
+          config: { minSimilarity: 0.8 },
+        });
+        const body = await res.json();
+
+        expect(body.noContext).toBe(true);
+        expect(body.answer).toContain('"example-fruits" dataset');
+        expect(body.results).toEqual([]);
+        expect(body.config.minSimilarity).toBe(0.8);
+        expect(generate).not.toHaveBeenCalled();
+      } finally {
+        generate.mockRestore();
+      }
+    });
+
+    it('returns 404 for unknown datasets', async () => {
+      const res = await postJson('/datasets/nope/ask', { question: 'Hi?' });
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({
+        error: { code: 'unknown_dataset', message: 'Unknown dataset: nope' },
+      });
+    });
+
+    it('returns 400 for empty questions', async () => {
+      const res = await postJson('/datasets/example-fruits/ask', { question: '  ' });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error.code).toBe('missing_question');
+      expect(mockSearch).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for malformed JSON and invalid config', async () => {
+      const malformed = await postJson('/datasets/example-fruits/ask', '{nope');
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).error.code).toBe('invalid_json');
+
+      const invalid = await postJson('/datasets/example-fruits/ask', {
+        question: 'Hi?',
+        config: { embeddingWeight: 2 },
+      });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error.code).toBe('invalid_config');
+
+      const invalidReranker = await postJson('/datasets/example-fruits/ask', {
+        question: 'Hi?',
+        config: { reranker: 'cross-encoder' },
+      });
+      expect(invalidReranker.status).toBe(400);
+      expect((await invalidReranker.json()).error.message).toContain('reranker');
+
+      const invalidLambda = await postJson('/datasets/example-fruits/ask', {
+        question: 'Hi?',
+        config: { diversification: 'mmr', mmrLambda: -1 },
+      });
+      expect(invalidLambda.status).toBe(400);
+      expect((await invalidLambda.json()).error.message).toContain('mmrLambda');
+
+      const invalidExpansion = await postJson('/datasets/example-fruits/ask', {
+        question: 'Hi?',
+        config: { contextExpansion: 'paragraph', contextMaxTokens: 1000 },
+      });
+      expect(invalidExpansion.status).toBe(400);
+      expect((await invalidExpansion.json()).error.message).toContain('contextExpansion');
+    });
+  });
+
+  describe('/datasets/:name/search', () => {
+    it('searches via query string', async () => {
+      const res = await api.request(
+        '/datasets/example-cars/search?q=electric&maxResults=3&enableHybridSearch=false'
+      );
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.query).toBe('electric');
+      expect(body.config).toMatchObject({ maxResults: 3, enableHybridSearch: false });
+      expect(mockSearch).toHaveBeenCalledWith('example-cars', 'electric', {
+        maxResults: 3,
+        enableHybridSearch: false,
+      });
+    });
+
+    it('passes metadata filters from query parameters', async () => {
+      const res = await api.request(
+        '/datasets/example-cars/search?q=engine&tags=electric,hybrid&language=en&dateFrom=2024-01-01'
+      );
+      expect(res.status).toBe(200);
+      expect(mockSearch).toHaveBeenCalledWith('example-cars', 'engine', {
+        filters: [
+          { field: 'tags', in: ['electric', 'hybrid'] },
+          { field: 'language', equals: 'en' },
+          { field: 'date', from: '2024-01-01' },
+        ],
+      });
+    });
+
+    it('combines query parameter filters with config filters', async () => {
+      await postJson('/datasets/example-cars/search?section=Engines', {
+        query: 'V8',
+        config: { filters: [{ field: 'date', to: '2020-12-31' }] },
+      });
+      expect(mockSearch.mock.calls[0][2]).toEqual({
+        filters: [
+          { field: 'date', to: '2020-12-31' },
+          { field: 'section', equals: 'Engines' },
+        ],
+      });
+    });
+
+    it('rejects invalid filters', async () => {
+      const unknownField = await postJson('/datasets/example-cars/search', {
+        query: 'V8',
+        config: { filters: [{ field: 'author', equals: 'me' }] },
+      });
+      expect(unknownField.status).toBe(400);
+      expect((await unknownField.json()).error.code).toBe('invalid_filter');
+
+      const badDate = await api.request('/datasets/example-cars/search?q=V8&dateFrom=May');
+      expect(badDate.status).toBe(400);
+      expect((await badDate.json()).error.message).toContain('YYYY-MM-DD');
+    });
+
+    it('searches via JSON body', async () => {
+      const res = await postJson('/datasets/example-cars/search', { query: 'V8' });
+      expect(res.status).toBe(200);
+      expect((await res.json()).results).toHaveLength(1);
+    });
+  });
+
+  describe('/datasets/:name/ask/stream', () => {
+    const parseEvents = (text: string) =>
+      text
+        .trim()
+        .split('\n\n')
+        .map((block) => {
+          const event = /^event: (.*)$/m.exec(block)?.[1];
+          const data = /^data: (.*)$/m.exec(block)?.[1];
+          return { event, data: data ? JSON.parse(data) : undefined };
+        });
+
+    it('streams sources first, then tokens, then the full answer', async () => {
+      const res = await api.request(
+        '/datasets/example-fruits/ask/stream?question=Which%20fruit%3F'
+      );
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+
+      const events = parseEvents(await res.text());
+      expect(events[0].event).toBe('sources');
+      expect(events[0].data.results[0].id).toBe('1-chunk-0');
+      expect(events[0].data.results[0].embedding).toBeUndefined();
+
+      const tokens = events.filter((e) => e.event === 'token');
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(tokens.map((e) => e.data.text).join('')).toBe('Hello from mock');
+
+      expect(events[events.length - 1]).toEqual({
+        event: 'done',
+        data: { answer: 'Hello from mock', citations: [], invalidCitations: [] },
+      });
+    });
+
+    it('streams the no-context answer when no document is relevant', async () => {
+      mockSearch.mockResolvedValue([]);
+      const res = await api.request(
+        '/datasets/example-fruits/ask/stream?question=How%20do%20diesel%20engines%20work%3F'
+      );
+      const events = parseEvents(await res.text());
+
+      expect(events[0]).toMatchObject({ event: 'sources', data: { noContext: true, results: [] } });
+      expect(events[events.length - 1].data.answer).toContain('"example-fruits" dataset');
+    });
+
+    it('returns JSON errors before the stream starts', async () => {
+      const res = await postJson('/datasets/example-fruits/ask/stream', {});
+      expect(res.status).toBe(400);
+      expect((await res.json()).error.code).toBe('missing_question');
+    });
+  });
+
+  it('returns JSON 404 for unknown routes', async () => {
+    const res = await api.request('/nope');
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe('not_found');
+  });
+});
@@ -0,0 +1,498 @@
+import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import {
+  generateNoContextResponse,
+  generateRAGResponse,
+  streamNoContextResponse,
+  streamRAGResponse,
+} from '../ai/completions';
+import { listDataSets } from '../dataset/datasets';
+import { loadPromptTemplates } from '../dataset/template-loader';
+import {
+  semanticSearchEnhanced,
+  resolveSearchConfig,
+  toPromptSources,
+  type SearchConfig,
+  type ScoredDoc,
+} from '../features/enhanced-semantic-search';
+import { extractCitations } from '../features/citations';
+import {
+  METADATA_FIELDS,
+  type MetadataField,
+  type MetadataFilter,
+} from '../features/metadata-filter';
+
+/**
+ * Error raised while handling an API request.
+ * Rendered as a JSON error body with the given HTTP status.
+ */
+class ApiError extends Error {
+  constructor(
+    readonly status: ContentfulStatusCode,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * A retrieved document as returned by the API (without its embedding vector).
+ */
+export type ApiResult = Omit<ScoredDoc, 'embedding'>;
+
+function toApiResult({ embedding, ...result }: ScoredDoc): ApiResult {
+  return result;
+}
+
+/**
+ * Pick the supported search options from an untyped request body.
+ * @throws {ApiError} When an option has the wrong type or is out of range
+ */
+function parseSearchConfig(input: unknown): SearchConfig {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ApiError(400, 'invalid_config', 'config must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const config: SearchConfig = {};
+
+  const integer = (key: keyof SearchConfig, min: number, max: number) => {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+      throw new ApiError(
+        400,
+        'invalid_config',
+        `${key} must be an integer between ${min} and ${max}`
+      );
+    }
+    return value as number;
+  };
+
+  config.maxResults = integer('maxResults', 1, 50);
+  config.maxTokensPerChunk = integer('maxTokensPerChunk', 50, 8000);
+  config.overlapTokens = integer('overlapTokens', 0, 4000);
+  config.rerankCandidates = integer('rerankCandidates', 1, 100);
+  config.queryParaphrases = integer('queryParaphrases', 0, 5);
+  config.contextWindow = integer('contextWindow', 0, 10);
+  config.contextMaxTokens = integer('contextMaxTokens', 50, 8000);
+
+  for (const key of ['preserveSentences', 'enableHybridSearch', 'hyde'] as const) {
+    if (raw[key] !== undefined) {
+      if (typeof raw[key] !== 'boolean') {
+        throw new ApiError(400, 'invalid_config', `${key} must be a boolean`);
+      }
+      config[key] = raw[key] as boolean;
+    }
+  }
+
+  if (raw.minSimilarity !== undefined) {
+    const similarity = raw.minSimilarity;
+    if (typeof similarity !== 'number' || similarity < -1 || similarity > 1) {
+      throw new ApiError(
+        400,
+        'invalid_config',
+        'minSimilarity must be a number between -1 and 1'
+      );
+    }
+    config.minSimilarity = similarity;
+  }
+
+  for (const key of ['embeddingWeight', 'mmrLambda'] as const) {
+    if (raw[key] !== undefined) {
+      const weight = raw[key];
+      if (typeof weight !== 'number' || weight < 0 || weight > 1) {
+        throw new ApiError(400, 'invalid_config', `${key} must be a number between 0 and 1`);
+      }
+      config[key] = weight;
+    }
+  }
+
+  if (raw.fusion !== undefined) {
+    if (raw.fusion !== 'weighted' && raw.fusion !== 'rrf') {
+      throw new ApiError(400, 'invalid_config', "fusion must be 'weighted' or 'rrf'");
+    }
+    config.fusion = raw.fusion;
+  }
+
+  if (raw.vectorIndex !== undefined) {
+    if (raw.vectorIndex !== 'flat' && raw.vectorIndex !== 'hnsw') {
+      throw new ApiError(400, 'invalid_config', "vectorIndex must be 'flat' or 'hnsw'");
+    }
+    config.vectorIndex = raw.vectorIndex;
+  }
+
+  if (raw.reranker !== undefined) {
+    if (raw.reranker !== 'none' && raw.reranker !== 'heuristic' && raw.reranker !== 'llm') {
+      throw new ApiError(
+        400,
+        'invalid_config',
+        "reranker must be 'none', 'heuristic' or 'llm'"
+      );
+    }
+    config.reranker = raw.reranker;
+  }
+
+  if (raw.diversification !== undefined) {
+    if (raw.diversification !== 'document' && raw.diversification !== 'mmr') {
+      throw new ApiError(400, 'invalid_config', "diversification must be 'document' or 'mmr'");
+    }
+    config.diversification = raw.diversification;
+  }
+
+  if (raw.chunkStrategy !== undefined) {
+    if (
+      raw.chunkStrategy !== 'text' &&
+      raw.chunkStrategy !== 'markdown' &&
+      raw.chunkStrategy !== 'semantic'
+    ) {
+      throw new ApiError(
+        400,
+        'invalid_config',
+        "chunkStrategy must be 'text', 'markdown' or 'semantic'"
+      );
+    }
+    config.chunkStrategy = raw.chunkStrategy;
+  }
+
+  if (raw.contextExpansion !== undefined) {
+    if (
+      raw.contextExpansion !== 'none' &&
+      raw.contextExpansion !== 'neighbors' &&
+      raw.contextExpansion !== 'document'
+    ) {
+      throw new ApiError(
+        400,
+        'invalid_config',
+        "contextExpansion must be 'none', 'neighbors' or 'document'"
+      );
+    }
+    config.contextExpansion = raw.contextExpansion;
+  }
+
+  if (raw.filters !== undefined) {
+    if (!Array.isArray(raw.filters)) {
+      throw new ApiError(400, 'invalid_filter', 'filters must be an array');
+    }
+    config.filters = raw.filters.map(parseFilter);
+  }
+
+  // Drop unset keys so the defaults apply
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as SearchConfig;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a metadata filter from a request.
+ * @throws {ApiError} When the filter has an unknown field or an invalid condition
+ */
+function parseFilter(input: unknown): MetadataFilter {
+  const raw = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  const field = raw.field as MetadataField;
+  if (!METADATA_FIELDS.includes(field)) {
+    throw new ApiError(
+      400,
+      'invalid_filter',
+      `filter field must be one of: ${METADATA_FIELDS.join(', ')}`
+    );
+  }
+  if (typeof raw.equals === 'string') {
+    return { field, equals: raw.equals };
+  }
+  if (Array.isArray(raw.in) && raw.in.every((v) => typeof v === 'string')) {
+    return { field, in: raw.in as string[] };
+  }
+  const range = { from: raw.from, to: raw.to };
+  if (field === 'date' && (range.from !== undefined || range.to !== undefined)) {
+    for (const bound of [range.from, range.to]) {
+      if (bound !== undefined && (typeof bound !== 'string' || !ISO_DATE.test(bound))) {
+        throw new ApiError(400, 'invalid_filter', 'date range bounds must be YYYY-MM-DD');
+      }
+    }
+    return {
+      field,
+      ...(range.from !== undefined && { from: range.from as string }),
+      ...(range.to !== undefined && { to: range.to as string }),
+    };
+  }
+  throw new ApiError(
+    400,
+    'invalid_filter',
+    `filter on ${field} needs equals (string), in (array of strings) or, for date, from/to`
+  );
+}
+
+/**
+ * Read metadata filters from query parameters: `tags`, `source`, `section` and `language`
+ * (comma-separated values match any of them) and `dateFrom`/`dateTo`.
+ */
+function parseQueryFilters(c: Context): MetadataFilter[] {
+  const filters: unknown[] = [];
+  for (const field of METADATA_FIELDS) {
+    const value = field === 'date' ? undefined : c.req.query(field);
+    if (value === undefined) continue;
+    const values = value.split(',').map((v) => v.trim()).filter(Boolean);
+    filters.push(values.length === 1 ? { field, equals: values[0] } : { field, in: values });
+  }
+  const from = c.req.query('dateFrom');
+  const to = c.req.query('dateTo');
+  if (from !== undefined || to !== undefined) {
+    filters.push({ field: 'date', from, to });
+  }
+  return filters.map(parseFilter);
+}
+
+/**
+ * Add the metadata filters from the query parameters to a search config.
+ */
+function withQueryFilters(c: Context, config: SearchConfig): SearchConfig {
+  const filters = [...(config.filters ?? []), ...parseQueryFilters(c)];
+  return filters.length > 0 ? { ...config, filters } : config;
+}
+
+/**
+ * Read the JSON body of a request, treating an empty body as `{}`.
+ * @throws {ApiError} When the body is not a JSON object
+ */
+async function readJsonBody(c: Context): Promise<Record<string, unknown>> {
+  const text = await c.req.text();
+  if (!text.trim()) {
+    return {};
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError(400, 'invalid_json', 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Read search options and metadata filters from query parameters (for GET routes).
+ */
+function parseQuerySearchConfig(c: Context): SearchConfig {
+  const maxResults = c.req.query('maxResults');
+  const enableHybridSearch = c.req.query('enableHybridSearch');
+  const reranker = c.req.query('reranker');
+  const diversification = c.req.query('diversification');
+  const queryParaphrases = c.req.query('queryParaphrases');
+  const hyde = c.req.query('hyde');
+  const contextExpansion = c.req.query('contextExpansion');
+  const config = parseSearchConfig({
+    ...(contextExpansion !== undefined && { contextExpansion }),
+    ...(queryParaphrases !== undefined && { queryParaphrases: Number(queryParaphrases) }),
+    ...(hyde !== undefined && { hyde: hyde === 'true' }),
+    ...(reranker !== undefined && { reranker }),
+    ...(diversification !== undefined && { diversification }),
+    ...(maxResults !== undefined && { maxResults: Number(maxResults) }),
+    ...(enableHybridSearch !== undefined && {
+      enableHybridSearch: enableHybridSearch === 'true',
+    }),
+  });
+  return withQueryFilters(c, config);
+}
+
+function requireQuestion(value: unknown, field: string): string {
+  const question = typeof value === 'string' ? value.trim() : '';
+  if (!question) {
+    throw new ApiError(400, 'missing_question', `${field} must be a non-empty string`);
+  }
+  return question;
+}
+
+/**
+ * Create the versioned JSON API.
+ * Mount it on a server with `app.route('/api/v1', createApiV1())`.
+ *
+ * Routes:
+ * - `GET /datasets` - list available datasets
+ * - `GET|POST /datasets/:name/search` - retrieve scored documents for a query
+ * - `POST /datasets/:name/ask` - retrieve documents and generate an answer with the
+ *   cited sources (`citations`) and citation numbers without a source (`invalidCitations`);
+ *   `noContext` is true when no document passed `minSimilarity` and the answer says the
+ *   question isn't covered by the dataset
+ * - `GET|POST /datasets/:name/ask/stream` - same as ask, streamed as Server-Sent Events
+ *
+ * The stream emits a `sources` event with the retrieved documents, `noContext` and the
+ * effective config, then one `token` event per text delta, and finally a `done` event with
+ * the full answer and its citations (or an `error` event if generation fails).
+ *
+ * All search and ask routes accept metadata filters as query parameters (`tags`, `source`,
+ * `section`, `language`, `dateFrom`, `dateTo`), in addition to `config.filters` in POST bodies.
+ *
+ * Errors are returned as `{ error: { code, message } }` with a 4xx/5xx status.
+ *
+ * @param dataSets - Dataset names the API serves (default: all datasets in `data/`)
+ * @returns Hono app with the API routes
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono();
+ * app.route('/api/v1', createApiV1());
+ * // curl -X POST localhost:8787/api/v1/datasets/example-fruits/ask \
+ * //   -H 'Content-Type: application/json' -d '{"question":"Which fruit is yellow?"}'
+ * ```
+ */
+export function createApiV1(dataSets: string[] = listDataSets()): Hono {
+  const api = new Hono();
+
+  api.onError((err, c) => {
+    if (err instanceof ApiError) {
+      return c.json({ error: { code: err.code, message: err.message } }, err.status);
+    }
+    console.error('API error:', err);
+    return c.json(
+      { error: { code: 'internal_error', message: 'Internal server error' } },
+      500
+    );
+  });
+
+  api.notFound((c) =>
+    c.json({ error: { code: 'not_found', message: 'Route not found' } }, 404)
+  );
+
+  const requireDataSet = (c: Context): string => {
+    const name = c.req.param('name') ?? '';
+    if (!dataSets.includes(name)) {
+      throw new ApiError(404, 'unknown_dataset', `Unknown dataset: ${name}`);
+    }
+    return name;
+  };
+
+  api.get('/datasets', (c) => {
+    return c.json({ datasets: dataSets.map((name) => ({ name })) });
+  });
+
+  api.get('/datasets/:name/search', async (c) => {
+    const dataSet = requireDataSet(c);
+    const query = requireQuestion(c.req.query('q'), 'q');
+    const config = parseQuerySearchConfig(c);
+    const results = await semanticSearchEnhanced(dataSet, query, config);
+    return c.json({
+      dataset: dataSet,
+      query,
+      results: results.map(toApiResult),
+      config: resolveSearchConfig(config),
+    });
+  });
+
+  api.post('/datasets/:name/search', async (c) => {
+    const dataSet = requireDataSet(c);
+    const body = await readJsonBody(c);
+    const query = requireQuestion(body.query, 'query');
+    const config = withQueryFilters(c, parseSearchConfig(body.config));
+    const results = await semanticSearchEnhanced(dataSet, query, config);
+    return c.json({
+      dataset: dataSet,
+      query,
+      results: results.map(toApiResult),
+      config: resolveSearchConfig(config),
+    });
+  });
+
+  api.post('/datasets/:name/ask', async (c) => {
+    const dataSet = requireDataSet(c);
+    const body = await readJsonBody(c);
+    const question = requireQuestion(body.question, 'question');
+    const config = withQueryFilters(c, parseSearchConfig(body.config));
+
+    const results = await semanticSearchEnhanced(dataSet, question, config);
+    const templates = await loadPromptTemplates(dataSet);
+    const sources = toPromptSources(results);
+    const noContext = results.length === 0;
+    const { text: answer, context } = noContext
+      ? { ...(await generateNoContextResponse(question, dataSet)), context: [] }
+      : await generateRAGResponse(question, sources, templates);
+    const { citations, invalid } = extractCitations(answer, context);
+
+    return c.json({
+      dataset: dataSet,
+      question,
+      answer,
+      noContext,
+      citations,
+      invalidCitations: invalid,
+      results: results.map(toApiResult),
+      config: resolveSearchConfig(config),
+    });
+  });
+
+  const streamAnswer = async (
+    c: Context,
+    dataSet: string,
+    question: string,
+    config: SearchConfig
+  ) => {
+    const results = await semanticSearchEnhanced(dataSet, question, config);
+    const templates = await loadPromptTemplates(dataSet);
+    const noContext = results.length === 0;
+
+    return streamSSE(c, async (stream) => {
+      await stream.writeSSE({
+        event: 'sources',
+        data: JSON.stringify({
+          dataset: dataSet,
+          question,
+          noContext,
+          results: results.map(toApiResult),
+          config: resolveSearchConfig(config),
+        }),
+      });
+
+      const sources = toPromptSources(results);
+      const { textStream, context } = noContext
+        ? { ...streamNoContextResponse(question, dataSet), context: [] }
+        : streamRAGResponse(question, sources, templates);
+      let answer = '';
+      try {
+        for await (const delta of textStream) {
+          answer += delta;
+          await stream.writeSSE({ event: 'token', data: JSON.stringify({ text: delta }) });
+        }
+      } catch (err) {
+        console.error('API stream error:', err);
+        await stream.writeSSE({
+          event: 'error',
+          data: JSON.stringify({
+            code: 'completion_failed',
+            message: 'Answer generation failed',
+          }),
+        });
+        return;
+      }
+      const { citations, invalid } = extractCitations(answer, context);
+      await stream.writeSSE({
+        event: 'done',
+        data: JSON.stringify({ answer, citations, invalidCitations: invalid }),
+      });
+    });
+  };
+
+  api.get('/datasets/:name/ask/stream', async (c) => {
+    const dataSet = requireDataSet(c);
+    const question = requireQuestion(c.req.query('question'), 'question');
+    return streamAnswer(c, dataSet, question, parseQuerySearchConfig(c));
+  });
+
+  api.post('/datasets/:name/ask/stream', async (c) => {
+    const dataSet = requireDataSet(c);
+    const body = await readJsonBody(c);
+    const question = requireQuestion(body.question, 'question');
+    const config = withQueryFilters(c, parseSearchConfig(body.config));
+    return streamAnswer(c, dataSet, question, config);
+  });
+
+  return api;
+}
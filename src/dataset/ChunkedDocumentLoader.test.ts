@@ -1,5 +1,6 @@
 import { ChunkedDocumentLoader } from './ChunkedDocumentLoader';
 import { readFile } from 'node:fs/promises';
+import { DocumentLoader, type Doc } from './DocumentLoader';
 
 // Mock fs/promises
 jest.mock('node:fs/promises');
@@ -37,11 +38,11 @@ Small document with just a few words.`;
       expect(docs.length).toBeGreaterThan(2);
       
       // Check that large document was chunked
-      const chunkedDocs = docs.filter(doc => (doc as any).metadata?.isChunk === true);
+      const chunkedDocs = docs.filter(doc => doc.metadata?.isChunk === true);
       expect(chunkedDocs.length).toBeGreaterThan(1);
       
       // Check that small document was not chunked
-      const nonChunkedDocs = docs.filter(doc => (doc as any).metadata?.isChunk === false);
+      const nonChunkedDocs = docs.filter(doc => doc.metadata?.isChunk === false);
       expect(nonChunkedDocs).toHaveLength(1);
       expect(nonChunkedDocs[0].text).toBe('Small document with just a few words.');
     });
@@ -96,6 +97,69 @@ Valid content here.`;
       expect(docs[0].text).toBe('Valid content here.');
     });
 
+    it('should copy the document metadata to its chunks', async () => {
+      const largeDoc = Array(500).fill('word').join(' ');
+      mockReadFile.mockResolvedValue(`---
+title: Test Dataset
+---
+
+---
+tags: [engine]
+language: en
+---
+${largeDoc}
+
+***
+
+---
+section: Basics
+---
+Small document.`);
+
+      const loader = new ChunkedDocumentLoader({
+        maxTokens: 200,
+        overlapTokens: 50,
+        preserveSentences: false
+      });
+      const docs = await loader.loadDocuments('test');
+
+      const chunks = docs.filter(doc => doc.metadata?.isChunk === true);
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => {
+        expect(chunk.metadata).toMatchObject({ tags: ['engine'], language: 'en', documentId: '1' });
+      });
+      expect(docs[docs.length - 1].metadata).toEqual({
+        section: 'Basics',
+        documentId: '2',
+        isChunk: false,
+      });
+    });
+
+    it('should record the heading path of markdown chunks', async () => {
+      const section = Array(40).fill('Routes map URLs to handlers.').join(' ');
+      mockReadFile.mockResolvedValue(`---
+title: Test Dataset
+---
+
+# Express
+
+## Routing
+
+${section}
+
+## Middleware
+
+${section}`);
+
+      const loader = new ChunkedDocumentLoader({ maxTokens: 100, strategy: 'markdown' });
+      const docs = await loader.loadDocuments('test-dataset');
+
+      expect(docs.length).toBeGreaterThan(2);
+      expect(docs[0].metadata?.headingPath).toEqual(['Express', 'Routing']);
+      expect(docs[docs.length - 1].metadata?.headingPath).toEqual(['Express', 'Middleware']);
+      expect(docs[docs.length - 1].text).toMatch(/^Express > Middleware\n\n/);
+    });
+
     it('should maintain document-chunk relationships', async () => {
       // Create a document that will definitely chunk
       // Need more than 150 tokens (100 * 1.5) to trigger chunking
@@ -112,17 +176,17 @@ Valid content here.`;
       const docs = await loader.loadDocuments('test');
       
       // All chunks should reference the same document
-      const chunks = docs.filter(doc => (doc as any).metadata?.isChunk === true);
+      const chunks = docs.filter(doc => doc.metadata?.isChunk === true);
       expect(chunks.length).toBeGreaterThan(1);
       
-      const documentIds = new Set(chunks.map(chunk => (chunk as any).metadata.documentId));
+      const documentIds = new Set(chunks.map(chunk => chunk.metadata!.documentId));
       expect(documentIds.size).toBe(1);
       expect(documentIds.has('1')).toBe(true);
       
       // Check chunk indexing
       chunks.forEach((chunk, index) => {
-        expect((chunk as any).metadata.chunkIndex).toBe(index);
-        expect((chunk as any).metadata.totalChunks).toBe(chunks.length);
+        expect(chunk.metadata!.chunkIndex).toBe(index);
+        expect(chunk.metadata!.totalChunks).toBe(chunks.length);
       });
     });
 
@@ -144,6 +208,31 @@ ${largeDoc}`;
     });
   });
 
+  describe('source loader', () => {
+    it('should chunk the documents of the given loader', async () => {
+      const source = new (class extends DocumentLoader {
+        async loadDocuments(): Promise<Doc[]> {
+          return [
+            { id: 'guides/setup.md', text: Array(100).fill('Install the tools.').join(' ') },
+            { id: 'intro.md', text: 'Welcome.', metadata: { tags: ['intro'] } },
+          ];
+        }
+      })();
+      const loader = new ChunkedDocumentLoader({ maxTokens: 50 }, source);
+
+      const docs = await loader.loadDocuments('handbook');
+
+      expect(mockReadFile).not.toHaveBeenCalled();
+      expect(docs[0].id).toBe('guides/setup.md-chunk-0');
+      expect(docs[0].metadata!.documentId).toBe('guides/setup.md');
+      expect(docs[docs.length - 1]).toEqual({
+        id: 'intro.md',
+        text: 'Welcome.',
+        metadata: { tags: ['intro'], documentId: 'intro.md', isChunk: false },
+      });
+    });
+  });
+
   describe('loadOriginalDocuments', () => {
     it('should load documents without chunking', async () => {
       const largeDoc = Array(500).fill('word').join(' ');
@@ -190,8 +279,8 @@ Another small doc.`;
       
       expect(chunks.length).toBeGreaterThan(1);
       chunks.forEach(chunk => {
-        expect((chunk as any).metadata.documentId).toBe('2');
-        expect((chunk as any).metadata.isChunk).toBe(true);
+        expect(chunk.metadata!.documentId).toBe('2');
+        expect(chunk.metadata!.isChunk).toBe(true);
       });
     });
 
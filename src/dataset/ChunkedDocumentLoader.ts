@@ -1,7 +1,8 @@
-import { readFile } from 'node:fs/promises';
-import { stripFrontmatter } from '../view/frontmatter';
 import { DocumentLoader, type Doc } from './DocumentLoader';
+import { DatasetDocumentLoader } from './DatasetDocumentLoader';
 import { chunkDocument, shouldChunk, type Chunk, type ChunkOptions } from './document-chunker';
+import { chunkDocumentSemantic } from './semantic-chunker';
+import { EmbeddingCache } from '../support/embedding-cache';
 
 /**
  * Enhanced document loader that supports automatic chunking of large documents.
@@ -13,6 +14,8 @@ import { chunkDocument, shouldChunk, type Chunk, type ChunkOptions } from './doc
  * - Preserves small documents as single chunks for backwards compatibility
  * - Maintains document-chunk relationships through IDs
  * - Configurable chunking behavior
+ * - Chunks the documents of any loader (default: DatasetDocumentLoader, i.e. `docs.md` or the
+ *   `docs/` directory of the dataset)
  * 
  * @example
  * ```typescript
@@ -27,10 +30,15 @@ import { chunkDocument, shouldChunk, type Chunk, type ChunkOptions } from './doc
  */
 export class ChunkedDocumentLoader extends DocumentLoader {
   private chunkOptions: ChunkOptions;
+  private sourceLoader: DocumentLoader;
 
-  constructor(chunkOptions: ChunkOptions = {}) {
+  constructor(
+    chunkOptions: ChunkOptions = {},
+    sourceLoader: DocumentLoader = new DatasetDocumentLoader()
+  ) {
     super();
     this.chunkOptions = chunkOptions;
+    this.sourceLoader = sourceLoader;
   }
 
   /**
@@ -41,41 +49,35 @@ export class ChunkedDocumentLoader extends DocumentLoader {
    * @returns Array of documents (chunks for large docs, full docs for small ones)
    */
   async loadDocuments(dataSet: string): Promise<Doc[]> {
-    const data = await readFile(
-      `${process.cwd()}/data/${dataSet}/docs.md`,
-      'utf-8'
-    );
-    const content = stripFrontmatter(data);
-    
-    // Split on markdown separator
-    const blocks = content.split(/^\*{3}$/m).map(b => b.trim()).filter(Boolean);
+    const originals = await this.sourceLoader.loadDocuments(dataSet);
     
     const documents: Doc[] = [];
     
-    for (let idx = 0; idx < blocks.length; idx++) {
-      const text = blocks[idx];
-      const docId = (idx + 1).toString();
-      
+    for (const { id: docId, text, metadata } of originals) {
       // Check if document should be chunked
       if (shouldChunk(text, this.chunkOptions.maxTokens)) {
         // Chunk large documents
-        const chunks = chunkDocument(docId, text, this.chunkOptions);
+        const chunks = await this.chunk(dataSet, docId, text);
         
         // Convert chunks to Doc format
         chunks.forEach(chunk => {
           documents.push({
             id: `${docId}-chunk-${chunk.chunkIndex}`,
             text: chunk.text,
-            // Store chunk metadata in the doc for reference
+            // Store document and chunk metadata in the doc for reference
             metadata: {
+              ...metadata,
               documentId: chunk.documentId,
               chunkIndex: chunk.chunkIndex,
               totalChunks: chunk.totalChunks,
               startOffset: chunk.startOffset,
               endOffset: chunk.endOffset,
-              isChunk: true
+              isChunk: true,
+              ...(chunk.metadata?.headingPath?.length > 0 && {
+                headingPath: chunk.metadata!.headingPath,
+              }),
             }
-          } as Doc & { metadata: any });
+          });
         });
       } else {
         // Keep small documents as single units
@@ -83,16 +85,32 @@ export class ChunkedDocumentLoader extends DocumentLoader {
           id: docId,
           text: text,
           metadata: {
+            ...metadata,
             documentId: docId,
             isChunk: false
           }
-        } as Doc & { metadata: any });
+        });
       }
     }
     
     return documents;
   }
 
+  /**
+   * Chunk a document with the configured strategy. Semantic chunking embeds the sentences
+   * through the dataset's embedding cache.
+   */
+  private async chunk(dataSet: string, docId: string, text: string): Promise<Chunk[]> {
+    if (this.chunkOptions.strategy !== 'semantic') {
+      return chunkDocument(docId, text, this.chunkOptions);
+    }
+    const cache = new EmbeddingCache(dataSet);
+    return chunkDocumentSemantic(docId, text, {
+      ...this.chunkOptions,
+      embed: (texts) => cache.embedTexts(texts),
+    });
+  }
+
   /**
    * Load original documents without chunking.
    * Useful when you need the full document context.
@@ -101,13 +119,7 @@ export class ChunkedDocumentLoader extends DocumentLoader {
    * @returns Array of complete documents
    */
   async loadOriginalDocuments(dataSet: string): Promise<Doc[]> {
-    const data = await readFile(
-      `${process.cwd()}/data/${dataSet}/docs.md`,
-      'utf-8'
-    );
-    const content = stripFrontmatter(data);
-    const blocks = content.split(/^\*{3}$/m).map(b => b.trim()).filter(Boolean);
-    return blocks.map((text, idx) => ({ id: (idx + 1).toString(), text }));
+    return this.sourceLoader.loadDocuments(dataSet);
   }
 
   /**
@@ -119,9 +131,8 @@ export class ChunkedDocumentLoader extends DocumentLoader {
    */
   async getDocumentChunks(dataSet: string, documentId: string): Promise<Doc[]> {
     const allDocs = await this.loadDocuments(dataSet);
-    return allDocs.filter(doc => {
-      const metadata = (doc as any).metadata;
-      return metadata?.documentId === documentId && metadata?.isChunk === true;
-    });
+    return allDocs.filter(
+      (doc) => doc.metadata?.documentId === documentId && doc.metadata?.isChunk === true
+    );
   }
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { parseCsv, parseCsvFile } from './CsvDocumentLoader';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b\r\n1,2\n\n3,\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', ''],
+    ]);
+  });
+
+  it('handles quoted fields', () => {
+    expect(parseCsv('name,notes\nMango,"Sweet, ""juicy""\nand ripe"')).toEqual([
+      ['name', 'notes'],
+      ['Mango', 'Sweet, "juicy"\nand ripe'],
+    ]);
+  });
+
+  it('supports other delimiters', () => {
+    expect(parseCsv('a;b\n1;2', ';')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('parseCsvFile', () => {
+  const csv = Buffer.from(
+    'sku,name,description,section\n' +
+      'F-1,Mango,A stone fruit.,tropical\n' +
+      'F-2,Apple,,\n'
+  );
+
+  it('lists the columns of each row by default', async () => {
+    expect(await parseCsvFile(csv, 'fruits.csv')).toEqual([
+      {
+        id: 'fruits.csv#1',
+        text: 'sku: F-1\nname: Mango\ndescription: A stone fruit.\nsection: tropical',
+        metadata: { section: 'tropical' },
+      },
+      { id: 'fruits.csv#2', text: 'sku: F-2\nname: Apple' },
+    ]);
+  });
+
+  it('renders the template and takes the ID column', async () => {
+    const docs = await parseCsvFile(csv, 'fruits.csv', {
+      template: '{{name}}{{#if description}}: {{description}}{{/if}}',
+      idColumn: 'sku',
+    });
+
+    expect(docs.map(({ id, text }) => ({ id, text }))).toEqual([
+      { id: 'fruits.csv#F-1', text: 'Mango: A stone fruit.' },
+      { id: 'fruits.csv#F-2', text: 'Apple' },
+    ]);
+  });
+
+  it('rejects templates with unknown columns', async () => {
+    await expect(
+      parseCsvFile(csv, 'fruits.csv', { template: '{{title}}' })
+    ).rejects.toThrow('fruits.csv:1');
+  });
+});
@@ -0,0 +1,150 @@
+import { toDocumentMetadata, type Doc } from './DocumentLoader';
+import { FileDocumentLoader } from './FileDocumentLoader';
+import { compileTemplate } from './template-engine';
+
+/**
+ * How CSV rows become documents.
+ */
+export interface CsvRowOptions {
+  /**
+   * Template for the document text with the columns as variables, e.g.
+   * `{{name}}: {{description}}` (default: one `column: value` line per non-empty column)
+   */
+  template?: string;
+  /** Column with the row ID (default: the row number) */
+  idColumn?: string;
+  /** Field delimiter (default: `,`) */
+  delimiter?: string;
+}
+
+/**
+ * Parse CSV into rows of fields. Fields can be quoted with `"` to contain delimiters,
+ * newlines and `""` for a quote.
+ *
+ * @example
+ * ```typescript
+ * parseCsv('name,description\nMango,"Sweet, juicy"');
+ * // Returns: [['name', 'description'], ['Mango', 'Sweet, juicy']]
+ * ```
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines are not rows
+  return rows.filter((fields) => fields.length > 1 || fields[0] !== '');
+}
+
+/**
+ * Read a CSV file with a header row as one document per row, with IDs `{file}#{id}`.
+ * Columns named like document metadata (`tags`, `source`, `section`, `date`, `language`)
+ * become its metadata. Rows with empty text are skipped.
+ *
+ * @throws {TemplateError} When the template uses a column the file doesn't have
+ */
+export async function parseCsvFile(
+  content: Buffer,
+  file: string,
+  options: CsvRowOptions = {}
+): Promise<Doc[]> {
+  const [header = [], ...rows] = parseCsv(
+    content.toString('utf-8'),
+    options.delimiter
+  );
+  const columns = header.map((column) => column.trim());
+  const template =
+    options.template !== undefined
+      ? compileTemplate(options.template, {
+          file,
+          validate: { variables: columns },
+        })
+      : undefined;
+
+  const documents: Doc[] = [];
+  rows.forEach((fields, index) => {
+    const row = Object.fromEntries(
+      columns.map((column, i) => [column, (fields[i] ?? '').trim()])
+    );
+    const text = template
+      ? template.render(row).trim()
+      : columns
+          .filter((column) => row[column])
+          .map((column) => `${column}: ${row[column]}`)
+          .join('\n');
+    if (!text) return;
+
+    const id =
+      options.idColumn && row[options.idColumn]
+        ? row[options.idColumn]
+        : index + 1;
+    const metadata = toDocumentMetadata(
+      Object.fromEntries(Object.entries(row).filter(([, value]) => value)),
+      `${file} row ${index + 1}`
+    );
+    documents.push({
+      id: `${file}#${id}`,
+      text,
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+    });
+  });
+  return documents;
+}
+
+/**
+ * Document loader for the rows of a CSV file of a dataset, e.g. a product catalog.
+ *
+ * @example
+ * ```typescript
+ * // data/example-fruits/fruits.csv: sku,name,description,section
+ * const loader = new CsvDocumentLoader('fruits.csv', {
+ *   template: '{{name}}: {{description}}',
+ *   idColumn: 'sku',
+ * });
+ * const docs = await loader.loadDocuments('example-fruits');
+ * // [{ id: 'fruits.csv#F-1', text: 'Mango: ...', metadata: { section: 'tropical' } }, ...]
+ * ```
+ */
+export class CsvDocumentLoader extends FileDocumentLoader {
+  constructor(
+    file: string,
+    private readonly options: CsvRowOptions = {}
+  ) {
+    super(file);
+  }
+
+  protected parse(content: Buffer, file: string): Promise<Doc[]> {
+    return parseCsvFile(content, file, this.options);
+  }
+}
@@ -0,0 +1,51 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  DatasetDocumentLoader,
+  hasDocsDirectory,
+} from './DatasetDocumentLoader';
+
+describe('DatasetDocumentLoader', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(os.tmpdir(), 'dataset-loader-test-'));
+    await mkdir(path.join(cwd, 'data', 'single-file'), { recursive: true });
+    await writeFile(
+      path.join(cwd, 'data', 'single-file', 'docs.md'),
+      'First.\n\n***\n\nSecond.'
+    );
+    await mkdir(path.join(cwd, 'data', 'directory', 'docs'), {
+      recursive: true,
+    });
+    await writeFile(
+      path.join(cwd, 'data', 'directory', 'docs', 'first.md'),
+      'First.'
+    );
+    jest.spyOn(process, 'cwd').mockReturnValue(cwd);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('detects datasets with a docs directory', () => {
+    expect(hasDocsDirectory('directory')).toBe(true);
+    expect(hasDocsDirectory('single-file')).toBe(false);
+    expect(hasDocsDirectory('missing')).toBe(false);
+  });
+
+  it('loads each dataset in its format', async () => {
+    const loader = new DatasetDocumentLoader();
+
+    expect(await loader.loadDocuments('single-file')).toEqual([
+      { id: '1', text: 'First.' },
+      { id: '2', text: 'Second.' },
+    ]);
+    expect(await loader.loadDocuments('directory')).toEqual([
+      { id: 'first.md', text: 'First.' },
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { statSync } from 'node:fs';
+import * as path from 'node:path';
+import {
+  DocumentLoader,
+  MarkdownDocumentLoader,
+  type Doc,
+} from './DocumentLoader';
+import {
+  DirectoryDocumentLoader,
+  DOCS_DIRECTORY,
+} from './DirectoryDocumentLoader';
+
+/**
+ * Check whether a dataset keeps its documents as files in `data/{dataSet}/docs/`.
+ */
+export function hasDocsDirectory(dataSet: string): boolean {
+  try {
+    return statSync(
+      path.join(process.cwd(), 'data', dataSet, DOCS_DIRECTORY)
+    ).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Document loader that picks the format of each dataset: datasets with a `docs/` directory
+ * are loaded with DirectoryDocumentLoader, others from `docs.md` with MarkdownDocumentLoader.
+ * Switching a dataset to one file per document only takes creating the directory.
+ *
+ * @example
+ * ```typescript
+ * const loader = new DatasetDocumentLoader();
+ * const docs = await loader.loadDocuments('example-nodejs');
+ * ```
+ */
+export class DatasetDocumentLoader extends DocumentLoader {
+  private directoryLoader = new DirectoryDocumentLoader();
+  private markdownLoader = new MarkdownDocumentLoader();
+
+  async loadDocuments(dataSet: string): Promise<Doc[]> {
+    const loader = hasDocsDirectory(dataSet)
+      ? this.directoryLoader
+      : this.markdownLoader;
+    return loader.loadDocuments(dataSet);
+  }
+}
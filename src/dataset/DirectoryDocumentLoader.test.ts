@@ -0,0 +1,120 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  DirectoryDocumentLoader,
+  parseIgnoreFile,
+} from './DirectoryDocumentLoader';
+
+describe('parseIgnoreFile', () => {
+  it('matches file names at any depth', () => {
+    const isIgnored = parseIgnoreFile('*.tmp.md\n# comment\n\nREADME.md');
+    expect(isIgnored('notes.tmp.md', false)).toBe(true);
+    expect(isIgnored('guides/notes.tmp.md', false)).toBe(true);
+    expect(isIgnored('guides/README.md', false)).toBe(true);
+    expect(isIgnored('guides/setup.md', false)).toBe(false);
+  });
+
+  it('anchors patterns with a slash to the docs directory', () => {
+    const isIgnored = parseIgnoreFile('/intro.md\nguides/*.txt');
+    expect(isIgnored('intro.md', false)).toBe(true);
+    expect(isIgnored('guides/intro.md', false)).toBe(false);
+    expect(isIgnored('guides/notes.txt', false)).toBe(true);
+    expect(isIgnored('guides/deep/notes.txt', false)).toBe(false);
+  });
+
+  it('matches directories only with a trailing slash', () => {
+    const isIgnored = parseIgnoreFile('drafts/');
+    expect(isIgnored('drafts', true)).toBe(true);
+    expect(isIgnored('guides/drafts', true)).toBe(true);
+    expect(isIgnored('drafts', false)).toBe(false);
+  });
+
+  it('supports ** and negation, with the last match winning', () => {
+    const isIgnored = parseIgnoreFile('archive/**/*.md\n!archive/**/keep.md');
+    expect(isIgnored('archive/old.md', false)).toBe(true);
+    expect(isIgnored('archive/2023/old.md', false)).toBe(true);
+    expect(isIgnored('archive/2023/keep.md', false)).toBe(false);
+  });
+});
+
+describe('DirectoryDocumentLoader', () => {
+  let cwd: string;
+  let dataSetDir: string;
+
+  const write = async (file: string, content: string) => {
+    const filePath = path.join(dataSetDir, file);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, content);
+  };
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(os.tmpdir(), 'directory-loader-test-'));
+    dataSetDir = path.join(cwd, 'data', 'handbook');
+    jest.spyOn(process, 'cwd').mockReturnValue(cwd);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('loads each markdown and text file with its relative path as ID', async () => {
+    await write('docs/intro.md', 'Welcome to the handbook.\n');
+    await write('docs/guides/setup.txt', 'Install the tools.');
+    await write('docs/guides/image.png', 'not a document');
+
+    const docs = await new DirectoryDocumentLoader().loadDocuments('handbook');
+
+    expect(docs).toEqual([
+      { id: 'guides/setup.txt', text: 'Install the tools.' },
+      { id: 'intro.md', text: 'Welcome to the handbook.' },
+    ]);
+  });
+
+  it('reads the frontmatter of each file as metadata', async () => {
+    await write(
+      'docs/mango.md',
+      '---\ntags: [tropical]\ndate: 2024-05-01\n---\nMango is a stone fruit.'
+    );
+    await write('docs/empty.md', '---\ntags: [draft]\n---\n');
+
+    const docs = await new DirectoryDocumentLoader().loadDocuments('handbook');
+
+    expect(docs).toEqual([
+      {
+        id: 'mango.md',
+        text: 'Mango is a stone fruit.',
+        metadata: { tags: ['tropical'], date: '2024-05-01' },
+      },
+    ]);
+  });
+
+  it('reads HTML, JSON and CSV files in their format', async () => {
+    await write(
+      'docs/page.html',
+      '<nav>Menu</nav><main><h1>Title</h1><p>Body.</p></main>'
+    );
+    await write('docs/records.jsonl', '{"id": "a", "text": "First record."}\n');
+    await write('docs/rows.csv', 'name,color\nMango,orange\n');
+
+    const docs = await new DirectoryDocumentLoader().loadDocuments('handbook');
+
+    expect(docs).toEqual([
+      { id: 'page.html', text: '# Title\n\nBody.' },
+      { id: 'records.jsonl#a', text: 'First record.' },
+      { id: 'rows.csv#1', text: 'name: Mango\ncolor: orange' },
+    ]);
+  });
+
+  it('skips the paths listed in the ignore file', async () => {
+    await write('.docsignore', 'drafts/\n*.tmp.md\n');
+    await write('docs/intro.md', 'Welcome.');
+    await write('docs/intro.tmp.md', 'Work in progress.');
+    await write('docs/drafts/next.md', 'Not ready yet.');
+
+    const docs = await new DirectoryDocumentLoader().loadDocuments('handbook');
+
+    expect(docs.map((doc) => doc.id)).toEqual(['intro.md']);
+  });
+});
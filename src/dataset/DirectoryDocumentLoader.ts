@@ -0,0 +1,225 @@
+import { readdir, readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { parseFrontmatter } from '../view/frontmatter';
+import { DocumentLoader, toDocumentMetadata, type Doc } from './DocumentLoader';
+import type { FileParser } from './FileDocumentLoader';
+import { parseCsvFile } from './CsvDocumentLoader';
+import { parseHtmlFile } from './HtmlDocumentLoader';
+import { parseJsonFile } from './JsonDocumentLoader';
+import { parsePdfFile } from './PdfDocumentLoader';
+
+/** Directory of a dataset holding one file per document */
+export const DOCS_DIRECTORY = 'docs';
+
+/** File of a dataset listing document paths to skip, with .gitignore syntax */
+export const IGNORE_FILE = '.docsignore';
+
+/**
+ * Read a markdown or text file as one document with the file path as ID and its frontmatter
+ * as metadata.
+ */
+async function parseTextFile(content: Buffer, file: string): Promise<Doc[]> {
+  const { data, body } = parseFrontmatter(content.toString('utf-8'));
+  if (!body) return [];
+  const metadata = toDocumentMetadata(data, file);
+  return [
+    {
+      id: file,
+      text: body,
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+    },
+  ];
+}
+
+/** Parsers of the files loaded as documents, by extension */
+export const FILE_PARSERS: Record<string, FileParser> = {
+  '.md': parseTextFile,
+  '.txt': parseTextFile,
+  '.html': parseHtmlFile,
+  '.htm': parseHtmlFile,
+  '.pdf': parsePdfFile,
+  '.json': parseJsonFile,
+  '.jsonl': parseJsonFile,
+  '.csv': parseCsvFile,
+};
+
+/** Extensions of the files loaded as documents */
+export const DOCUMENT_EXTENSIONS = Object.keys(FILE_PARSERS);
+
+/**
+ * Tells whether a path relative to the docs directory is ignored.
+ */
+export type IgnoreMatcher = (
+  relativePath: string,
+  isDirectory: boolean
+) => boolean;
+
+interface IgnoreRule {
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+function globToRegExp(glob: string, anchored: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+}
+
+/**
+ * Parse an ignore file with the common subset of .gitignore syntax: one pattern per line,
+ * `#` comments, `*`, `?` and `**` wildcards, a trailing `/` for directories only, a leading
+ * `!` to re-include a path. Patterns without an inner `/` match at any depth, others are
+ * relative to the docs directory. The last matching pattern wins.
+ *
+ * @param content - Content of the ignore file
+ * @returns Matcher for paths relative to the docs directory (with `/` separators)
+ *
+ * @example
+ * ```typescript
+ * const isIgnored = parseIgnoreFile('drafts/\n*.tmp.md\n!keep.tmp.md');
+ * isIgnored('drafts', true); // true
+ * isIgnored('guide/setup.tmp.md', false); // true
+ * isIgnored('keep.tmp.md', false); // false
+ * ```
+ */
+export function parseIgnoreFile(content: string): IgnoreMatcher {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    const directoryOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) continue;
+
+    rules.push({
+      pattern: globToRegExp(line, anchored),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return (relativePath, isDirectory) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (
+        (!rule.directoryOnly || isDirectory) &&
+        rule.pattern.test(relativePath)
+      ) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+}
+
+/**
+ * Document loader that reads the files of `data/{dataSet}/docs/`, recursively. The format
+ * follows the extension (see FILE_PARSERS):
+ * - `.md`, `.txt`: one document, with the frontmatter as metadata
+ * - `.html`, `.htm`: one document, without boilerplate (see htmlToText())
+ * - `.pdf`: one document per page, with the page number as metadata
+ * - `.json`, `.jsonl`: one document per record, from the `text` and `id` fields
+ * - `.csv`: one document per row, with a `column: value` line per column
+ *
+ * IDs are paths relative to the docs directory (e.g. `guides/setup.md`), with a `#` suffix
+ * for files holding several documents (e.g. `manual.pdf#page=2`), so IDs stay stable when
+ * files are added or removed. Paths matching the patterns of `data/{dataSet}/.docsignore`
+ * are skipped (see parseIgnoreFile()). Use JsonDocumentLoader or CsvDocumentLoader for other
+ * fields or a column template.
+ *
+ * @example
+ * Given the files:
+ * ```
+ * data/handbook/.docsignore      drafts/
+ * data/handbook/docs/intro.md
+ * data/handbook/docs/guides/setup.md
+ * data/handbook/docs/drafts/next.md
+ * ```
+ *
+ * Will produce documents with the IDs `guides/setup.md` and `intro.md`.
+ */
+export class DirectoryDocumentLoader extends DocumentLoader {
+  async loadDocuments(dataSet: string): Promise<Doc[]> {
+    const dataSetDir = path.join(process.cwd(), 'data', dataSet);
+    const isIgnored = parseIgnoreFile(await readIgnoreFile(dataSetDir));
+    const files = await listDocumentFiles(
+      path.join(dataSetDir, DOCS_DIRECTORY),
+      '',
+      isIgnored
+    );
+
+    const documents: Doc[] = [];
+    for (const file of files) {
+      const content = await readFile(
+        path.join(dataSetDir, DOCS_DIRECTORY, file)
+      );
+      const parse = FILE_PARSERS[path.extname(file).toLowerCase()];
+      documents.push(...(await parse(content, file)));
+    }
+    return documents;
+  }
+}
+
+async function readIgnoreFile(dataSetDir: string): Promise<string> {
+  try {
+    return await readFile(path.join(dataSetDir, IGNORE_FILE), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the document files under a directory, sorted by path so the order doesn't depend on
+ * the file system.
+ */
+async function listDocumentFiles(
+  root: string,
+  relativeDir: string,
+  isIgnored: IgnoreMatcher
+): Promise<string[]> {
+  const entries = await readdir(path.join(root, relativeDir), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relativePath = relativeDir
+      ? `${relativeDir}/${entry.name}`
+      : entry.name;
+    if (entry.isDirectory()) {
+      if (!isIgnored(relativePath, true)) {
+        files.push(...(await listDocumentFiles(root, relativePath, isIgnored)));
+      }
+    } else if (
+      entry.isFile() &&
+      DOCUMENT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) &&
+      !isIgnored(relativePath, false)
+    ) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
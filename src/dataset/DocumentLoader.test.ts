@@ -118,6 +118,65 @@ Doc two.
       process.cwd = originalCwd;
     }
   });
+
+  test('reads document metadata from block frontmatter', async () => {
+    const content = `---
+description: "Test documents"
+---
+
+---
+tags: [tropical, stone fruit]
+source: https://example.com/mango
+section: Fruits
+date: 2024-05-01
+language: en
+author: ignored
+---
+Mango is a stone fruit.
+
+***
+
+---
+date: May 2024
+---
+Banana is a berry.
+
+***
+
+---
+Separated by horizontal rules.
+---`;
+
+    await mkdir(path.join(testDataDir, 'data', testDataSet), { recursive: true });
+    await writeFile(path.join(testDataDir, 'data', testDataSet, 'docs.md'), content);
+
+    const originalCwd = process.cwd;
+    process.cwd = () => testDataDir;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const docs = await loader.loadDocuments(testDataSet);
+
+      expect(docs[0]).toEqual({
+        id: '1',
+        text: 'Mango is a stone fruit.',
+        metadata: {
+          tags: ['tropical', 'stone fruit'],
+          source: 'https://example.com/mango',
+          section: 'Fruits',
+          date: '2024-05-01',
+          language: 'en',
+        },
+      });
+      // Invalid dates are dropped with a warning
+      expect(docs[1]).toEqual({ id: '2', text: 'Banana is a berry.' });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('May 2024'));
+      expect(docs[2]).toEqual({ id: '3', text: '---\nSeparated by horizontal rules.\n---' });
+    } finally {
+      process.cwd = originalCwd;
+      warn.mockRestore();
+    }
+  });
 });
 
 describe('Custom DocumentLoader', () => {
@@ -1,5 +1,43 @@
 import { readFile } from 'node:fs/promises';
-import { stripFrontmatter } from '../view/frontmatter';
+import { parseFrontmatter, stripFrontmatter, type FrontmatterValue } from '../view/frontmatter';
+
+/**
+ * Descriptive metadata of a document, set in the frontmatter of its block in `docs.md`.
+ */
+export interface DocumentMetadata {
+  /** Topics of the document */
+  tags?: string[];
+  /** Where the content comes from (URL, book, ...) */
+  source?: string;
+  /** Section of the dataset the document belongs to */
+  section?: string;
+  /** Date of the content as YYYY-MM-DD */
+  date?: string;
+  /** Language code, e.g. `en` */
+  language?: string;
+}
+
+/**
+ * Metadata of a loaded document or chunk: the document metadata plus its position in the dataset.
+ */
+export interface DocMetadata extends DocumentMetadata {
+  /** ID of the original document (for chunks) */
+  documentId?: string;
+  /** 0-based index of the chunk within its document */
+  chunkIndex?: number;
+  /** Number of chunks of the document */
+  totalChunks?: number;
+  /** Start of the chunk in the document text */
+  startOffset?: number;
+  /** End of the chunk in the document text */
+  endOffset?: number;
+  /** Whether the doc is a chunk of a larger document */
+  isChunk?: boolean;
+  /** Titles of the headings the chunk is under (markdown chunking) */
+  headingPath?: string[];
+  /** 1-based page of the source file (PDF documents) */
+  page?: number;
+}
 
 /**
  * Represents a document with text content and optional embedding vector.
@@ -12,6 +50,82 @@ export interface Doc {
   text: string;
   /** Optional embedding vector for semantic similarity calculations */
   embedding?: number[];
+  /** Document metadata and chunk position */
+  metadata?: DocMetadata;
+}
+
+/**
+ * A document block of `docs.md`: its text and the metadata from the block frontmatter.
+ */
+export interface DocumentBlock {
+  text: string;
+  metadata: DocumentMetadata;
+}
+
+/**
+ * Convert frontmatter fields to document metadata.
+ * Unknown fields are ignored; invalid values are dropped with a warning.
+ *
+ * @param data - Parsed frontmatter fields
+ * @param label - Where the fields come from (for warnings)
+ */
+export function toDocumentMetadata(
+  data: Record<string, FrontmatterValue>,
+  label = 'document'
+): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  if (data.tags !== undefined) {
+    metadata.tags = (Array.isArray(data.tags) ? data.tags : [String(data.tags)]).filter(Boolean);
+  }
+  for (const key of ['source', 'section', 'language'] as const) {
+    if (data[key] !== undefined) {
+      metadata[key] = String(data[key]);
+    }
+  }
+  if (data.date !== undefined) {
+    const date = String(data.date);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(date))) {
+      metadata.date = date;
+    } else {
+      console.warn(`${label}: ignoring invalid date "${date}" (expected YYYY-MM-DD)`);
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Split the content of `docs.md` into document blocks.
+ * Blocks are separated by `***` and may start with their own frontmatter:
+ *
+ * ```markdown
+ * ---
+ * tags: [tropical]
+ * date: 2024-05-01
+ * ---
+ * Mango is a stone fruit.
+ * ```
+ *
+ * Frontmatter at the start of the file belongs to the dataset, so the first block can only
+ * have its own frontmatter after the dataset frontmatter.
+ *
+ * @param data - Content of `docs.md` (the dataset frontmatter is stripped)
+ * @returns Non-empty blocks in file order
+ */
+export function parseDocumentBlocks(data: string): DocumentBlock[] {
+  const content = stripFrontmatter(data);
+  return content
+    .split(/^\*{3}$/m)
+    .map((b) => b.trim())
+    .filter(Boolean)
+    .map((block, idx) => {
+      const { data: fields, body } = parseFrontmatter(block);
+      // A block between horizontal rules is text, not frontmatter
+      if (Object.keys(fields).length === 0) {
+        return { text: block, metadata: {} };
+      }
+      return { text: body, metadata: toDocumentMetadata(fields, `document ${idx + 1}`) };
+    })
+    .filter((block) => block.text);
 }
 
 /**
@@ -42,6 +156,7 @@ export abstract class DocumentLoader {
  * Document loader that reads from markdown files in the data directory.
  * Expects files at `data/{dataSet}/docs.md` with documents separated by `***`.
  * Automatically strips YAML frontmatter and filters out empty blocks.
+ * Frontmatter at the start of a block becomes the document metadata (see parseDocumentBlocks()).
  * 
  * @example
  * Given a file `data/example/docs.md`:
@@ -71,9 +186,10 @@ export class MarkdownDocumentLoader extends DocumentLoader {
       `${process.cwd()}/data/${dataSet}/docs.md`,
       'utf-8'
     );
-    const content = stripFrontmatter(data);
-    // Split on markdown separator and trim
-    const blocks = content.split(/^\*{3}$/m).map(b => b.trim()).filter(Boolean);
-    return blocks.map((text, idx) => ({ id: (idx + 1).toString(), text }));
+    return parseDocumentBlocks(data).map(({ text, metadata }, idx) => ({
+      id: (idx + 1).toString(),
+      text,
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+    }));
   }
 }
\ No newline at end of file
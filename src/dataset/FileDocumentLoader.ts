@@ -0,0 +1,44 @@
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { DocumentLoader, type Doc } from './DocumentLoader';
+
+/**
+ * Convert the content of a file to documents.
+ *
+ * @param content - Raw file content
+ * @param file - Path of the file relative to its dataset (or docs) directory, used for IDs
+ *   (`file` for one document per file, `file#...` for several) and in error messages
+ */
+export type FileParser = (content: Buffer, file: string) => Promise<Doc[]>;
+
+/**
+ * Base class for loaders that read a single file of a dataset, `data/{dataSet}/{file}`,
+ * and convert it with a FileParser.
+ *
+ * @example
+ * ```typescript
+ * class UpperCaseDocumentLoader extends FileDocumentLoader {
+ *   protected async parse(content: Buffer, file: string): Promise<Doc[]> {
+ *     return [{ id: file, text: content.toString('utf-8').toUpperCase() }];
+ *   }
+ * }
+ * const docs = await new UpperCaseDocumentLoader('notes.txt').loadDocuments('example');
+ * ```
+ */
+export abstract class FileDocumentLoader extends DocumentLoader {
+  /**
+   * @param file - Path of the file relative to the dataset directory
+   */
+  constructor(protected readonly file: string) {
+    super();
+  }
+
+  async loadDocuments(dataSet: string): Promise<Doc[]> {
+    const content = await readFile(
+      path.join(process.cwd(), 'data', dataSet, this.file)
+    );
+    return this.parse(content, this.file);
+  }
+
+  protected abstract parse(content: Buffer, file: string): Promise<Doc[]>;
+}
@@ -0,0 +1,68 @@
+import { htmlToText, parseHtmlFile } from './HtmlDocumentLoader';
+
+describe('htmlToText', () => {
+  it('keeps the main content and drops page chrome', () => {
+    const html = `<!DOCTYPE html>
+<html>
+<head><title>Routing</title><style>body { color: red; }</style></head>
+<body>
+  <header><a href="/">Express</a></header>
+  <nav><ul><li>Home</li><li>Guide</li></ul></nav>
+  <main>
+    <h1>Routing</h1>
+    <p>Routing refers to how an application's endpoints respond
+       to client requests.</p>
+    <script>track();</script>
+  </main>
+  <footer>Copyright</footer>
+</body>
+</html>`;
+
+    expect(htmlToText(html)).toBe(
+      "# Routing\n\nRouting refers to how an application's endpoints respond to client requests."
+    );
+  });
+
+  it('drops headers and footers of the body when there is no main content', () => {
+    const html =
+      '<body><header>Site</header><h2>Title</h2><p>Text.</p><footer>Legal</footer></body>';
+    expect(htmlToText(html)).toBe('## Title\n\nText.');
+  });
+
+  it('keeps the header of an article', () => {
+    const html =
+      '<nav>Menu</nav><article><header><h1>News</h1></header><p>Text.</p></article>';
+    expect(htmlToText(html)).toBe('# News\n\nText.');
+  });
+
+  it('converts lists, line breaks and code blocks', () => {
+    const html = `<main>
+<h2>Install <small>v4</small></h2>
+<ul><li>Node.js</li><li>npm</li></ul>
+<p>Run:<br>the installer</p>
+<pre><code>npm install   express
+cd app</code></pre>
+</main>`;
+
+    expect(htmlToText(html)).toBe(
+      '## Install v4\n\n- Node.js\n- npm\n\nRun:\nthe installer\n\n```\nnpm install   express\ncd app\n```'
+    );
+  });
+
+  it('decodes entities', () => {
+    expect(
+      htmlToText('<p>Fish &amp; chips &lt;3&nbsp;&#169; &#x263A;</p>')
+    ).toBe('Fish & chips <3 © ☺');
+  });
+});
+
+describe('parseHtmlFile', () => {
+  it('returns one document with the file path as ID', async () => {
+    expect(
+      await parseHtmlFile(Buffer.from('<p>Hello.</p>'), 'pages/hello.html')
+    ).toEqual([{ id: 'pages/hello.html', text: 'Hello.' }]);
+    expect(
+      await parseHtmlFile(Buffer.from('<script>x()</script>'), 'empty.html')
+    ).toEqual([]);
+  });
+});
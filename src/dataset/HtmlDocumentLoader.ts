@@ -0,0 +1,160 @@
+import type { Doc } from './DocumentLoader';
+import { FileDocumentLoader } from './FileDocumentLoader';
+
+/** Elements without readable text */
+const NON_TEXT_ELEMENTS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+];
+
+/** Elements that hold page chrome (headers and footers only outside of the main content) */
+const CHROME_ELEMENTS = ['nav', 'aside', 'form'];
+const PAGE_CHROME_ELEMENTS = ['header', 'footer'];
+
+/** Elements that start a new paragraph */
+const BLOCK_ELEMENTS =
+  'p|div|section|article|main|blockquote|table|thead|tbody|tr|ul|ol|dl|dt|dd|figure|hr';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[\da-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === '#') {
+        const code =
+          name[1].toLowerCase() === 'x'
+            ? parseInt(name.slice(2), 16)
+            : Number(name.slice(1));
+        return String.fromCodePoint(code);
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+function removeElements(html: string, tags: string[]): string {
+  return tags.reduce(
+    (result, tag) =>
+      result.replace(
+        new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'),
+        ''
+      ),
+    html
+  );
+}
+
+function innerHtml(html: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i').exec(
+    html
+  );
+  return match?.[1];
+}
+
+/**
+ * Convert an HTML page to markdown-like text: only `<main>` (or the first `<article>`, or
+ * `<body>` without its header and footer) is kept, and scripts, styles, navigation, forms and
+ * sidebars are removed. Headings become `#` headings, list items `- ` lines and `<pre>` blocks
+ * fenced code, so the markdown chunking strategy can split the text along its structure.
+ *
+ * @param html - HTML document or fragment
+ * @returns Text with paragraphs separated by blank lines
+ *
+ * @example
+ * ```typescript
+ * htmlToText('<nav>Home</nav><main><h1>Setup</h1><p>Run <code>npm i</code>.</p></main>');
+ * // Returns: "# Setup\n\nRun npm i."
+ * ```
+ */
+export function htmlToText(html: string): string {
+  const page = removeElements(
+    html.replace(/<!--[\s\S]*?-->/g, ''),
+    NON_TEXT_ELEMENTS
+  );
+  const main = innerHtml(page, 'main') ?? innerHtml(page, 'article');
+  let content =
+    main ??
+    removeElements(innerHtml(page, 'body') ?? page, PAGE_CHROME_ELEMENTS);
+  content = removeElements(content, CHROME_ELEMENTS);
+
+  // Code blocks keep their whitespace, so they are set aside until the rest is normalized
+  const codeBlocks: string[] = [];
+  content = content.replace(
+    /<pre\b[^>]*>([\s\S]*?)<\/pre>/gi,
+    (_, code: string) => {
+      codeBlocks.push(decodeEntities(stripTags(code)).replace(/^\n|\n$/g, ''));
+      return `\n\n\u0000${codeBlocks.length - 1}\u0000\n\n`;
+    }
+  );
+
+  // Whitespace in HTML source is not significant, line breaks come from the elements
+  content = content
+    .replace(/\s+/g, ' ')
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, title: string) => {
+        return `\n\n${'#'.repeat(Number(level))} ${stripTags(title).replace(/\s+/g, ' ').trim()}\n\n`;
+      }
+    )
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(new RegExp(`</?(?:${BLOCK_ELEMENTS})\\b[^>]*>`, 'gi'), '\n\n')
+    .replace(/<\/?(?:td|th)\b[^>]*>/gi, ' ');
+
+  const text = decodeEntities(stripTags(content))
+    .split('\n')
+    .map((line) => line.replace(/[ \u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return text.replace(
+    /\u0000(\d+)\u0000/g,
+    (_, index: string) => `\`\`\`\n${codeBlocks[Number(index)]}\n\`\`\``
+  );
+}
+
+/**
+ * Read an HTML file as one document with the file path as ID (see htmlToText()).
+ */
+export async function parseHtmlFile(
+  content: Buffer,
+  file: string
+): Promise<Doc[]> {
+  const text = htmlToText(content.toString('utf-8'));
+  return text ? [{ id: file, text }] : [];
+}
+
+/**
+ * Document loader for an HTML page of a dataset, e.g. a saved documentation page.
+ * Boilerplate is stripped and headings are kept (see htmlToText()).
+ *
+ * @example
+ * ```typescript
+ * const loader = new ChunkedDocumentLoader(
+ *   { strategy: 'markdown' },
+ *   new HtmlDocumentLoader('guide.html')
+ * );
+ * const docs = await loader.loadDocuments('example-nodejs');
+ * ```
+ */
+export class HtmlDocumentLoader extends FileDocumentLoader {
+  protected parse(content: Buffer, file: string): Promise<Doc[]> {
+    return parseHtmlFile(content, file);
+  }
+}
@@ -0,0 +1,68 @@
+import { parseJsonFile, parseJsonRecords } from './JsonDocumentLoader';
+
+describe('parseJsonRecords', () => {
+  it('reads arrays from JSON and lines from JSONL', () => {
+    expect(parseJsonRecords('[{"a": 1}, {"a": 2}]', 'records.json')).toEqual([
+      { a: 1 },
+      { a: 2 },
+    ]);
+    expect(parseJsonRecords('{"a": 1}\n\n{"a": 2}\n', 'records.jsonl')).toEqual(
+      [{ a: 1 }, { a: 2 }]
+    );
+  });
+
+  it('reports invalid content', () => {
+    expect(() => parseJsonRecords('{"a": 1}', 'records.json')).toThrow(
+      'records.json: expected an array of records'
+    );
+    expect(() => parseJsonRecords('{"a": 1}\n{"a": ', 'records.jsonl')).toThrow(
+      /^records\.jsonl:2: invalid JSON/
+    );
+  });
+});
+
+describe('parseJsonFile', () => {
+  it('reads the text, ID and metadata of each record', async () => {
+    const content = Buffer.from(
+      JSON.stringify([
+        {
+          id: 'mango',
+          text: 'Mango is a stone fruit.',
+          tags: ['tropical'],
+          price: 2,
+        },
+        { text: 'Apples grow on trees.' },
+      ])
+    );
+
+    expect(await parseJsonFile(content, 'fruits.json')).toEqual([
+      {
+        id: 'fruits.json#mango',
+        text: 'Mango is a stone fruit.',
+        metadata: { tags: ['tropical'] },
+      },
+      { id: 'fruits.json#2', text: 'Apples grow on trees.' },
+    ]);
+  });
+
+  it('uses the configured fields and skips records without text', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const content = Buffer.from(
+      '{"key": "T-1", "fields": {"description": "Refund not received."}}\n' +
+        '{"key": "T-2", "fields": {}}\n'
+    );
+
+    const docs = await parseJsonFile(content, 'tickets.jsonl', {
+      textField: 'fields.description',
+      idField: 'key',
+    });
+
+    expect(docs).toEqual([
+      { id: 'tickets.jsonl#T-1', text: 'Refund not received.' },
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      'tickets.jsonl: skipping record 2 without "fields.description" text'
+    );
+    warn.mockRestore();
+  });
+});
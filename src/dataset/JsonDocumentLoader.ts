@@ -0,0 +1,122 @@
+import type { FrontmatterValue } from '../view/frontmatter';
+import { toDocumentMetadata, type Doc } from './DocumentLoader';
+import { FileDocumentLoader } from './FileDocumentLoader';
+
+/**
+ * Where the text and ID of JSON records are.
+ */
+export interface JsonRecordOptions {
+  /** Field with the document text, dotted for nested fields, e.g. `content.body` (default: text) */
+  textField?: string;
+  /** Field with the record ID, dotted for nested fields (default: id; else the record number) */
+  idField?: string;
+}
+
+function getField(record: unknown, fieldPath: string): unknown {
+  return fieldPath
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      record
+    );
+}
+
+function isFrontmatterValue(value: unknown): value is FrontmatterValue {
+  return (
+    ['string', 'number', 'boolean'].includes(typeof value) ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
+
+/**
+ * Parse JSON records: a `.json` file holds an array of records, a `.jsonl` file one record
+ * per line.
+ *
+ * @throws {Error} When the content is not valid JSON (with the line number for JSONL) or a
+ *   `.json` file doesn't hold an array
+ */
+export function parseJsonRecords(content: string, file: string): unknown[] {
+  if (file.toLowerCase().endsWith('.jsonl')) {
+    return content.split('\n').flatMap((line, index) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line)];
+      } catch (error) {
+        throw new Error(
+          `${file}:${index + 1}: invalid JSON (${(error as Error).message})`
+        );
+      }
+    });
+  }
+  const records = JSON.parse(content);
+  if (!Array.isArray(records)) {
+    throw new Error(`${file}: expected an array of records`);
+  }
+  return records;
+}
+
+/**
+ * Read a JSON or JSONL file as one document per record, with IDs `{file}#{id}`. Fields of
+ * the record named like document metadata (`tags`, `source`, `section`, `date`, `language`)
+ * become its metadata. Records without text are skipped with a warning.
+ */
+export async function parseJsonFile(
+  content: Buffer,
+  file: string,
+  options: JsonRecordOptions = {}
+): Promise<Doc[]> {
+  const { textField = 'text', idField = 'id' } = options;
+  const documents: Doc[] = [];
+  parseJsonRecords(content.toString('utf-8'), file).forEach((record, index) => {
+    const text = getField(record, textField);
+    if (typeof text !== 'string' || !text.trim()) {
+      console.warn(
+        `${file}: skipping record ${index + 1} without "${textField}" text`
+      );
+      return;
+    }
+    const id = getField(record, idField);
+    const fields = Object.fromEntries(
+      Object.entries(record as Record<string, unknown>).filter(([, value]) =>
+        isFrontmatterValue(value)
+      )
+    ) as Record<string, FrontmatterValue>;
+    const metadata = toDocumentMetadata(fields, `${file} record ${index + 1}`);
+    documents.push({
+      id: `${file}#${id !== undefined && id !== null ? String(id) : index + 1}`,
+      text: text.trim(),
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+    });
+  });
+  return documents;
+}
+
+/**
+ * Document loader for JSON records of a dataset, e.g. an export of a CMS or ticket system.
+ *
+ * @example
+ * ```typescript
+ * // data/support/tickets.jsonl: {"key": "T-1", "fields": {"description": "..."}, "tags": ["billing"]}
+ * const loader = new JsonDocumentLoader('tickets.jsonl', {
+ *   textField: 'fields.description',
+ *   idField: 'key',
+ * });
+ * const docs = await loader.loadDocuments('support');
+ * // [{ id: 'tickets.jsonl#T-1', text: '...', metadata: { tags: ['billing'] } }, ...]
+ * ```
+ */
+export class JsonDocumentLoader extends FileDocumentLoader {
+  constructor(
+    file: string,
+    private readonly options: JsonRecordOptions = {}
+  ) {
+    super(file);
+  }
+
+  protected parse(content: Buffer, file: string): Promise<Doc[]> {
+    return parseJsonFile(content, file, this.options);
+  }
+}
@@ -0,0 +1,74 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PDFParse } from 'pdf-parse';
+import { extractPdfPages, PdfDocumentLoader } from './PdfDocumentLoader';
+
+// pdf.js loads its worker with a dynamic import, which Jest doesn't support
+jest.mock('pdf-parse', () => ({ PDFParse: jest.fn() }));
+const MockPDFParse = PDFParse as unknown as jest.Mock;
+
+const mockPages = (pages: string[]) => {
+  const destroy = jest.fn();
+  MockPDFParse.mockImplementation(() => ({
+    getText: async () => ({
+      pages: pages.map((text, i) => ({ num: i + 1, text })).reverse(),
+    }),
+    destroy,
+  }));
+  return destroy;
+};
+
+describe('extractPdfPages', () => {
+  it('returns the text of each page in page order', async () => {
+    const destroy = mockPages([
+      'Check the tire pressure.\n',
+      'Rotate the tires.',
+    ]);
+
+    const pages = await extractPdfPages(new Uint8Array([1, 2, 3]));
+
+    expect(pages).toEqual(['Check the tire pressure.', 'Rotate the tires.']);
+    expect(MockPDFParse).toHaveBeenCalledWith({
+      data: new Uint8Array([1, 2, 3]),
+    });
+    expect(destroy).toHaveBeenCalled();
+  });
+});
+
+describe('PdfDocumentLoader', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(os.tmpdir(), 'pdf-loader-test-'));
+    await mkdir(path.join(cwd, 'data', 'cars'), { recursive: true });
+    await writeFile(path.join(cwd, 'data', 'cars', 'manual.pdf'), '%PDF-1.4');
+    jest.spyOn(process, 'cwd').mockReturnValue(cwd);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('loads one document per page with the page number', async () => {
+    mockPages(['Check the tire pressure.', '  ', 'Rotate the tires.']);
+
+    const docs = await new PdfDocumentLoader('manual.pdf').loadDocuments(
+      'cars'
+    );
+
+    expect(docs).toEqual([
+      {
+        id: 'manual.pdf#page=1',
+        text: 'Check the tire pressure.',
+        metadata: { page: 1 },
+      },
+      {
+        id: 'manual.pdf#page=3',
+        text: 'Rotate the tires.',
+        metadata: { page: 3 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { PDFParse } from 'pdf-parse';
+import type { Doc } from './DocumentLoader';
+import { FileDocumentLoader } from './FileDocumentLoader';
+
+/**
+ * Extract the text of each page of a PDF.
+ *
+ * @param data - PDF file content
+ * @returns Text per page, in page order (empty strings for pages without text, e.g. scans)
+ */
+export async function extractPdfPages(data: Uint8Array): Promise<string[]> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    return result.pages
+      .sort((a, b) => a.num - b.num)
+      .map((page) => page.text.trim());
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Read a PDF file as one document per page, with IDs `{file}#page={number}` and the page
+ * number in the metadata, so answers can point at the page. Pages without text are skipped.
+ */
+export async function parsePdfFile(
+  content: Buffer,
+  file: string
+): Promise<Doc[]> {
+  const pages = await extractPdfPages(new Uint8Array(content));
+  return pages.flatMap((text, index) =>
+    text
+      ? [
+          {
+            id: `${file}#page=${index + 1}`,
+            text,
+            metadata: { page: index + 1 },
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Document loader for a PDF of a dataset (text-based PDFs; scanned pages have no text).
+ *
+ * @example
+ * ```typescript
+ * const docs = await new PdfDocumentLoader('manual.pdf').loadDocuments('example-cars');
+ * // [{ id: 'manual.pdf#page=1', text: '...', metadata: { page: 1 } }, ...]
+ * ```
+ */
+export class PdfDocumentLoader extends FileDocumentLoader {
+  protected parse(content: Buffer, file: string): Promise<Doc[]> {
+    return parsePdfFile(content, file);
+  }
+}
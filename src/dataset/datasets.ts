@@ -0,0 +1,23 @@
+import { readdirSync } from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * List the available datasets, i.e. the sub-directories of `data/`. Hidden directories such as
+ * the shared embedding cache (`data/.shared/`) are not datasets.
+ *
+ * @param dataDir - Directory containing the datasets (default: `{cwd}/data`)
+ * @returns Dataset names in directory order
+ *
+ * @example
+ * ```typescript
+ * const dataSets = listDataSets();
+ * // Returns: ['example-cars', 'example-fruits', 'example-nodejs']
+ * ```
+ */
+export function listDataSets(
+  dataDir: string = path.join(process.cwd(), 'data')
+): string[] {
+  return readdirSync(dataDir, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && !d.name.startsWith('.'))
+    .map((d) => d.name);
+}
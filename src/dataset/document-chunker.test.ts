@@ -1,4 +1,6 @@
+import fc from 'fast-check';
 import { chunkDocument, estimateTokens, shouldChunk, type Chunk } from './document-chunker';
+import { chunkDocumentSemantic } from './semantic-chunker';
 
 describe('document-chunker', () => {
   describe('estimateTokens', () => {
@@ -164,12 +166,174 @@ describe('document-chunker', () => {
       expect(chunks[0].startOffset).toBe(0);
       expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
       
-      // Verify chunks can be reconstructed (approximately)
       chunks.forEach(chunk => {
-        const extractedText = text.substring(chunk.startOffset, chunk.endOffset);
-        // The extracted text might differ due to overlap handling
-        expect(extractedText.length).toBeGreaterThan(0);
+        expect(text.substring(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
       });
     });
+
+    it('should keep offsets exact across newlines and repeated spaces', () => {
+      const text = '  First line.\n\nSecond   line here.\n  Third\tline.  ';
+      const chunks = chunkDocument(docId, text, { maxTokens: 4, overlapTokens: 0 });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        'First line.',
+        'Second   line here.',
+        'Third\tline.',
+      ]);
+      expect(chunks.map((chunk) => chunk.startOffset)).toEqual([2, 15, 37]);
+    });
+  });
+
+  describe('chunk offsets', () => {
+    const docId = 'doc-1';
+    // Words separated by a mix of spaces, newlines, tabs and sentence endings
+    const documents = fc
+      .array(
+        fc.tuple(
+          fc.stringMatching(/^[A-Za-z]{1,8}$/),
+          fc.constantFrom(' ', '   ', '\n', '\n\n', '\t', '. ', '.\n', '!  ', '?\n\n')
+        ),
+        { minLength: 1, maxLength: 150 }
+      )
+      .map((parts) => parts.map(([word, separator]) => word + separator).join(''));
+    const sizes = fc.record({
+      maxTokens: fc.integer({ min: 1, max: 60 }),
+      overlapTokens: fc.integer({ min: 0, max: 30 }),
+    });
+
+    const expectExactOffsets = (text: string, chunks: Chunk[]) => {
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+      }
+      expect(chunks[0].startOffset).toBe(text.search(/\S/));
+      expect(chunks[chunks.length - 1].endOffset).toBe(text.trimEnd().length);
+    };
+
+    it('are exact for sentence chunks', () => {
+      fc.assert(
+        fc.property(documents, sizes, (text, options) => {
+          expectExactOffsets(text, chunkDocument(docId, text, options));
+        })
+      );
+    });
+
+    it('are exact for word chunks', () => {
+      fc.assert(
+        fc.property(documents, sizes, (text, options) => {
+          expectExactOffsets(
+            text,
+            chunkDocument(docId, text, { ...options, preserveSentences: false })
+          );
+        })
+      );
+    });
+
+    it('are exact for semantic chunks', async () => {
+      const embed = async (texts: string[]) =>
+        texts.map((sentence) => [sentence.length % 7, 1 + (sentence.length % 3)]);
+      await fc.assert(
+        fc.asyncProperty(documents, sizes, async (text, { maxTokens }) => {
+          const chunks = await chunkDocumentSemantic(docId, text, { maxTokens, embed });
+          expectExactOffsets(text, chunks);
+        })
+      );
+    });
+
+    it('contain the content of markdown chunks', () => {
+      const markdown =
+        '# Guide\n\n- First item\n\n  More on the first item.\n- Second item\n- Third item';
+      const chunks = chunkDocument(docId, markdown, { strategy: 'markdown', maxTokens: 8 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        const source = markdown.slice(chunk.startOffset, chunk.endOffset);
+        for (const line of chunk.text.split('\n').slice(2).filter(Boolean)) {
+          expect(source).toContain(line);
+        }
+      }
+      expect(markdown.slice(chunks[0].startOffset, chunks[0].endOffset)).toBe(
+        '- First item\n\n  More on the first item.'
+      );
+    });
   });
-});
\ No newline at end of file
+
+  describe('chunkDocument with the markdown strategy', () => {
+    const docId = 'md-doc';
+    const code = ['```js', 'const app = express();', '', 'app.listen(3000);', '```'].join('\n');
+    const markdown = [
+      '# Express',
+      '',
+      'Express is a web framework. It runs on Node.js.',
+      '',
+      '## Installation',
+      '',
+      'Install it with npm and create an app:',
+      '',
+      code,
+      '',
+      '## Options',
+      '',
+      '| Option | Description |',
+      '| ------ | ----------- |',
+      '| port | Port to listen on |',
+      '| host | Host name to bind |',
+      '| env | Environment name |',
+    ].join('\n');
+
+    it('prefixes chunks with their heading path', () => {
+      const chunks = chunkDocument(docId, markdown, { strategy: 'markdown', maxTokens: 100 });
+
+      expect(chunks.map((chunk) => chunk.text.split('\n')[0])).toEqual([
+        'Express',
+        'Express > Installation',
+        'Express > Options',
+      ]);
+      expect(chunks[1].metadata?.headingPath).toEqual(['Express', 'Installation']);
+      expect(chunks[0].text).toBe('Express\n\nExpress is a web framework. It runs on Node.js.');
+    });
+
+    it('keeps code blocks intact', () => {
+      const chunks = chunkDocument(docId, markdown, { strategy: 'markdown', maxTokens: 10 });
+
+      const codeChunks = chunks.filter((chunk) => chunk.text.includes('```'));
+      expect(codeChunks).toHaveLength(1);
+      expect(codeChunks[0].text).toContain(code);
+    });
+
+    it('splits large tables by row and repeats the header', () => {
+      const chunks = chunkDocument(docId, markdown, { strategy: 'markdown', maxTokens: 22 });
+
+      const tableChunks = chunks.filter((chunk) => chunk.text.includes('| Option |'));
+      expect(tableChunks.length).toBeGreaterThan(1);
+      for (const chunk of tableChunks) {
+        expect(chunk.text).toMatch(
+          /^Express > Options\n\n\| Option \| Description \|\n\| -+ \| -+ \|\n\| \w+ \|/
+        );
+      }
+      const tableText = tableChunks.map((chunk) => chunk.text).join('\n');
+      expect(tableText).toContain('| env | Environment name |');
+    });
+
+    it('points the offsets at the chunk content', () => {
+      const chunks = chunkDocument(docId, markdown, { strategy: 'markdown', maxTokens: 100 });
+      expect(markdown.slice(chunks[1].startOffset, chunks[1].endOffset)).toBe(
+        `Install it with npm and create an app:\n\n${code}`
+      );
+      expect(chunks.every((chunk) => chunk.totalChunks === chunks.length)).toBe(true);
+    });
+
+    it('splits long paragraphs by sentence', () => {
+      const paragraph = Array(20).fill('Express handles routing well.').join(' ');
+      const chunks = chunkDocument(docId, `# Routing\n\n${paragraph}`, {
+        strategy: 'markdown',
+        maxTokens: 30,
+      });
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.text).toMatch(/^Routing\n\nExpress handles routing well\./);
+        expect(chunk.text).toMatch(/well\.$/);
+      }
+    });
+  });
+});
+
@@ -1,4 +1,13 @@
 import { createHash } from 'node:crypto';
+import { parseMarkdownBlocks, splitListItems, type MarkdownBlock } from './markdown-blocks';
+
+/**
+ * How documents are split into chunks.
+ * - `text`: by sentences or words (see ChunkOptions.preserveSentences)
+ * - `markdown`: along the markdown structure (sections, code blocks, tables, lists)
+ * - `semantic`: at topic changes, found by embedding sentences (see chunkDocumentSemantic())
+ */
+export type ChunkStrategy = 'text' | 'markdown' | 'semantic';
 
 /**
  * Options for document chunking
@@ -10,6 +19,16 @@ export interface ChunkOptions {
   overlapTokens?: number;
   /** Whether to preserve sentence boundaries when chunking */
   preserveSentences?: boolean;
+  /**
+   * Chunking strategy (default: text). Markdown chunks stay within one section and start
+   * with its heading path; they don't overlap, so `overlapTokens` doesn't apply.
+   */
+  strategy?: ChunkStrategy;
+  /**
+   * Semantic chunking: adjacent sentences whose similarity is below this percentile of all
+   * adjacent-sentence similarities start a new chunk (default: 10)
+   */
+  breakpointPercentile?: number;
 }
 
 /**
@@ -22,9 +41,13 @@ export interface Chunk {
   documentId: string;
   /** The text content of this chunk */
   text: string;
-  /** Character offset where this chunk starts in the original document */
+  /**
+   * Character offset where this chunk starts in the original document. For the text and
+   * semantic strategies `text` is exactly `document.slice(startOffset, endOffset)`; markdown
+   * chunks add their heading path (and repeated table headers) to that source range.
+   */
   startOffset: number;
-  /** Character offset where this chunk ends in the original document */
+  /** Character offset where this chunk ends in the original document (exclusive) */
   endOffset: number;
   /** Index of this chunk within the document */
   chunkIndex: number;
@@ -38,6 +61,8 @@ const DEFAULT_OPTIONS: Required<ChunkOptions> = {
   maxTokens: 500,
   overlapTokens: 100,
   preserveSentences: true,
+  strategy: 'text',
+  breakpointPercentile: 10,
 };
 
 /**
@@ -53,7 +78,7 @@ export function estimateTokens(text: string): number {
  * Splits text into sentences
  * Handles common sentence endings and preserves the delimiters
  */
-function splitIntoSentences(text: string): string[] {
+export function splitIntoSentences(text: string): string[] {
   // Split on sentence endings but keep the delimiter
   const sentences = text.split(/(?<=[.!?])\s+/);
   return sentences.filter(s => s.trim().length > 0);
@@ -62,7 +87,7 @@ function splitIntoSentences(text: string): string[] {
 /**
  * Creates a unique ID for a chunk based on document ID and content
  */
-function createChunkId(documentId: string, chunkIndex: number, text: string): string {
+export function createChunkId(documentId: string, chunkIndex: number, text: string): string {
   const hash = createHash('sha256')
     .update(`${documentId}-${chunkIndex}-${text.substring(0, 100)}`)
     .digest('hex');
@@ -70,7 +95,93 @@ function createChunkId(documentId: string, chunkIndex: number, text: string): st
 }
 
 /**
- * Chunks a document into smaller pieces
+ * A piece of a document with its position in the document.
+ */
+export interface TextSpan {
+  text: string;
+  /** Character offset where the span starts */
+  startOffset: number;
+  /** Character offset where the span ends (exclusive) */
+  endOffset: number;
+}
+
+/**
+ * Splits text into sentences with their offsets, so that
+ * `text.slice(startOffset, endOffset)` is the sentence
+ */
+export function locateSentences(text: string): TextSpan[] {
+  let cursor = 0;
+  return splitIntoSentences(text).map((sentence) => {
+    const trimmed = sentence.trim();
+    const startOffset = text.indexOf(trimmed, cursor);
+    cursor = startOffset + trimmed.length;
+    return { text: trimmed, startOffset, endOffset: cursor };
+  });
+}
+
+/**
+ * Splits text into words with their offsets
+ */
+function locateWords(text: string): TextSpan[] {
+  return Array.from(text.matchAll(/\S+/g), (match) => ({
+    text: match[0],
+    startOffset: match.index,
+    endOffset: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Packs consecutive spans into chunks of at most `maxTokens` (a single larger span makes its
+ * own chunk). Each chunk is the document text from its first to its last span, so offsets are
+ * exact even across newlines and repeated spaces.
+ * @param takeOverlap - Returns the trailing spans of a finished chunk that start the next one
+ */
+function chunkSpans(
+  documentId: string,
+  text: string,
+  spans: TextSpan[],
+  maxTokens: number,
+  takeOverlap: (current: TextSpan[]) => TextSpan[]
+): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: TextSpan[] = [];
+  let currentTokenCount = 0;
+
+  const pushChunk = () => {
+    const startOffset = current[0].startOffset;
+    const endOffset = current[current.length - 1].endOffset;
+    const chunkText = text.slice(startOffset, endOffset);
+    chunks.push({
+      id: createChunkId(documentId, chunks.length, chunkText),
+      documentId,
+      text: chunkText,
+      startOffset,
+      endOffset,
+      chunkIndex: chunks.length,
+      totalChunks: 0, // Will be updated later
+    });
+  };
+
+  for (const span of spans) {
+    const spanTokens = estimateTokens(span.text);
+    if (currentTokenCount + spanTokens > maxTokens && current.length > 0) {
+      pushChunk();
+      current = takeOverlap(current);
+      currentTokenCount = current.reduce((sum, { text }) => sum + estimateTokens(text), 0);
+    }
+    current.push(span);
+    currentTokenCount += spanTokens;
+  }
+  if (current.length > 0) {
+    pushChunk();
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunks a document into smaller pieces.
+ * The `semantic` strategy needs embeddings and is only available through chunkDocumentSemantic().
  * @param documentId - Unique identifier for the document
  * @param text - The full text of the document
  * @param options - Chunking options
@@ -88,120 +199,34 @@ export function chunkDocument(
     return chunks;
   }
 
-  if (opts.preserveSentences) {
-    const sentences = splitIntoSentences(text);
-    let currentChunkText = '';
-    let currentTokenCount = 0;
-    let chunkStartOffset = 0;
-    let overlapSentences: string[] = [];
-    
-    for (let i = 0; i < sentences.length; i++) {
-      const sentence = sentences[i];
-      const sentenceTokens = estimateTokens(sentence);
-      
-      // If adding this sentence would exceed max tokens and we have content
-      if (currentTokenCount + sentenceTokens > opts.maxTokens && currentChunkText) {
-        // Create chunk
-        const chunkEndOffset = chunkStartOffset + currentChunkText.length;
-        chunks.push({
-          id: createChunkId(documentId, chunks.length, currentChunkText),
-          documentId,
-          text: currentChunkText.trim(),
-          startOffset: chunkStartOffset,
-          endOffset: chunkEndOffset,
-          chunkIndex: chunks.length,
-          totalChunks: 0, // Will be updated later
-        });
-        
-        // Prepare overlap for next chunk
-        overlapSentences = [];
+  if (opts.strategy === 'semantic') {
+    throw new Error('Semantic chunking embeds sentences, use chunkDocumentSemantic()');
+  }
+  if (opts.strategy === 'markdown') {
+    chunks.push(...chunkMarkdown(documentId, text, opts.maxTokens));
+  } else if (opts.preserveSentences) {
+    chunks.push(
+      ...chunkSpans(documentId, text, locateSentences(text), opts.maxTokens, (current) => {
+        // Trailing sentences that fit the overlap budget
         let overlapTokenCount = 0;
-        
-        // Go backwards to collect overlap sentences
-        for (let j = i - 1; j >= 0 && overlapTokenCount < opts.overlapTokens; j--) {
-          const overlapSentence = sentences[j];
-          const overlapSentenceTokens = estimateTokens(overlapSentence);
-          if (overlapTokenCount + overlapSentenceTokens <= opts.overlapTokens) {
-            overlapSentences.unshift(overlapSentence);
-            overlapTokenCount += overlapSentenceTokens;
-          } else {
-            break;
-          }
+        let start = current.length;
+        while (start > 0) {
+          const sentenceTokens = estimateTokens(current[start - 1].text);
+          if (overlapTokenCount + sentenceTokens > opts.overlapTokens) break;
+          overlapTokenCount += sentenceTokens;
+          start--;
         }
-        
-        // Start new chunk with overlap
-        currentChunkText = overlapSentences.join(' ');
-        currentTokenCount = overlapTokenCount;
-        chunkStartOffset = chunkEndOffset - currentChunkText.length;
-      }
-      
-      // Add sentence to current chunk
-      if (currentChunkText) currentChunkText += ' ';
-      currentChunkText += sentence;
-      currentTokenCount += sentenceTokens;
-    }
-    
-    // Add final chunk if there's remaining content
-    if (currentChunkText.trim()) {
-      chunks.push({
-        id: createChunkId(documentId, chunks.length, currentChunkText),
-        documentId,
-        text: currentChunkText.trim(),
-        startOffset: chunkStartOffset,
-        endOffset: text.length,
-        chunkIndex: chunks.length,
-        totalChunks: 0,
-      });
-    }
+        return current.slice(start);
+      })
+    );
   } else {
     // Simple chunking without sentence preservation
-    const words = text.split(/\s+/);
-    let currentChunkWords: string[] = [];
-    let currentTokenCount = 0;
-    let chunkStartOffset = 0;
-    let currentOffset = 0;
-    
-    for (const word of words) {
-      const wordTokens = estimateTokens(word);
-      
-      if (currentTokenCount + wordTokens > opts.maxTokens && currentChunkWords.length > 0) {
-        const chunkText = currentChunkWords.join(' ');
-        chunks.push({
-          id: createChunkId(documentId, chunks.length, chunkText),
-          documentId,
-          text: chunkText,
-          startOffset: chunkStartOffset,
-          endOffset: currentOffset,
-          chunkIndex: chunks.length,
-          totalChunks: 0,
-        });
-        
-        // Calculate overlap
-        const overlapWordCount = Math.floor(opts.overlapTokens / 1.3);
-        const startIndex = Math.max(0, currentChunkWords.length - overlapWordCount);
-        currentChunkWords = currentChunkWords.slice(startIndex);
-        currentTokenCount = estimateTokens(currentChunkWords.join(' '));
-        chunkStartOffset = currentOffset - currentChunkWords.join(' ').length;
-      }
-      
-      currentChunkWords.push(word);
-      currentTokenCount += wordTokens;
-      currentOffset += word.length + 1; // +1 for space
-    }
-    
-    // Add final chunk
-    if (currentChunkWords.length > 0) {
-      const chunkText = currentChunkWords.join(' ');
-      chunks.push({
-        id: createChunkId(documentId, chunks.length, chunkText),
-        documentId,
-        text: chunkText,
-        startOffset: chunkStartOffset,
-        endOffset: text.length,
-        chunkIndex: chunks.length,
-        totalChunks: 0,
-      });
-    }
+    const overlapWordCount = Math.floor(opts.overlapTokens / 1.3);
+    chunks.push(
+      ...chunkSpans(documentId, text, locateWords(text), opts.maxTokens, (current) =>
+        current.slice(Math.max(0, current.length - overlapWordCount))
+      )
+    );
   }
   
   // Update total chunks count
@@ -213,6 +238,129 @@ export function chunkDocument(
   return chunks;
 }
 
+/**
+ * A piece of a markdown section that is never split further.
+ */
+interface MarkdownUnit {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  block: MarkdownBlock;
+  /** Separator from the previous unit of the same block */
+  joiner: string;
+  /** Table header rows, repeated when a chunk starts inside the table */
+  header?: string;
+}
+
+/**
+ * Split a block into units that fit the token limit: lists by item, tables by row,
+ * paragraphs by sentence. Code blocks are kept whole, even when too large.
+ */
+function splitMarkdownBlock(block: MarkdownBlock, maxTokens: number): MarkdownUnit[] {
+  if (block.type === 'code' || estimateTokens(block.text) <= maxTokens) {
+    const { text, startOffset, endOffset } = block;
+    return [{ text, startOffset, endOffset, block, joiner: '' }];
+  }
+
+  let parts: string[];
+  let joiner = '\n';
+  let header: string | undefined;
+  if (block.type === 'list') {
+    parts = splitListItems(block);
+  } else if (block.type === 'table') {
+    const rows = block.text.split('\n');
+    const hasHeader = rows.length > 2 && /^[\s|:-]+$/.test(rows[1]);
+    header = hasHeader ? `${rows[0]}\n${rows[1]}` : undefined;
+    parts = hasHeader ? rows.slice(2) : rows;
+  } else {
+    parts = splitIntoSentences(block.text);
+    joiner = ' ';
+  }
+
+  // Locate each part in the block for its offsets, line by line since list items drop
+  // their blank lines
+  let cursor = header?.length ?? 0;
+  return parts.map((part) => {
+    let start = -1;
+    for (const line of part.split('\n')) {
+      const index = block.text.indexOf(line, cursor);
+      if (start === -1) start = index;
+      cursor = index + line.length;
+    }
+    return {
+      text: part,
+      startOffset: block.startOffset + start,
+      endOffset: block.startOffset + cursor,
+      block,
+      joiner,
+      header,
+    };
+  });
+}
+
+/**
+ * Chunk a markdown document along its structure. Each chunk holds consecutive blocks of one
+ * section, up to the token limit, and starts with the section's heading path (e.g.
+ * `Installation > Windows`) so it can be understood on its own. Heading lines themselves are
+ * represented by the path.
+ */
+function chunkMarkdown(documentId: string, text: string, maxTokens: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let units: MarkdownUnit[] = [];
+  let tokens = 0;
+  let headingPath: string[] = [];
+  let prefix = '';
+
+  const flush = () => {
+    if (units.length === 0) return;
+    let body = '';
+    units.forEach((unit, i) => {
+      const continuesBlock = i > 0 && units[i - 1].block === unit.block;
+      if (i > 0) body += continuesBlock ? unit.joiner : '\n\n';
+      if (unit.header && !continuesBlock) body += `${unit.header}\n`;
+      body += unit.text;
+    });
+    const chunkText = `${prefix}${body}`;
+    chunks.push({
+      id: createChunkId(documentId, chunks.length, chunkText),
+      documentId,
+      text: chunkText,
+      startOffset: units[0].startOffset,
+      endOffset: units[units.length - 1].endOffset,
+      chunkIndex: chunks.length,
+      totalChunks: 0,
+      metadata: { headingPath },
+    });
+    units = [];
+    tokens = 0;
+  };
+
+  for (const block of parseMarkdownBlocks(text)) {
+    if (block.type === 'heading') {
+      flush();
+      continue;
+    }
+    if (block.headingPath.join('\n') !== headingPath.join('\n')) {
+      flush();
+      headingPath = block.headingPath;
+      prefix = headingPath.length > 0 ? `${headingPath.join(' > ')}\n\n` : '';
+    }
+
+    const available = Math.max(1, maxTokens - estimateTokens(prefix));
+    for (const unit of splitMarkdownBlock(block, available)) {
+      const unitTokens = estimateTokens(unit.text);
+      if (units.length > 0 && tokens + unitTokens > available) {
+        flush();
+      }
+      units.push(unit);
+      tokens += unitTokens;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
 /**
  * Checks if a document should be chunked based on its size
  * @param text - The document text
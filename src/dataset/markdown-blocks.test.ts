@@ -0,0 +1,75 @@
+import { parseMarkdownBlocks, splitListItems } from './markdown-blocks';
+
+describe('markdown-blocks', () => {
+  describe('parseMarkdownBlocks', () => {
+    const doc = [
+      '# Setup',
+      '',
+      'Install the dependencies:',
+      '',
+      '```sh',
+      '# comment, not a heading',
+      '',
+      'npm install',
+      '```',
+      '',
+      '## Options',
+      '',
+      '| Option | Default |',
+      '| ------ | ------- |',
+      '| port   | 8787    |',
+      '',
+      '- first',
+      '  continued',
+      '- second',
+      '',
+      '# Usage',
+      'Run it.',
+    ].join('\n');
+
+    it('splits headings, code, tables, lists and paragraphs', () => {
+      const blocks = parseMarkdownBlocks(doc);
+      expect(blocks.map((block) => block.type)).toEqual([
+        'heading',
+        'paragraph',
+        'code',
+        'heading',
+        'table',
+        'list',
+        'heading',
+        'paragraph',
+      ]);
+      expect(blocks[2].text).toBe(
+        '```sh\n# comment, not a heading\n\nnpm install\n```'
+      );
+      expect(blocks[5].text).toBe('- first\n  continued\n- second');
+    });
+
+    it('tracks the heading path', () => {
+      const paths = parseMarkdownBlocks(doc).map((block) => block.headingPath);
+      expect(paths[1]).toEqual(['Setup']);
+      expect(paths[4]).toEqual(['Setup', 'Options']);
+      expect(paths[7]).toEqual(['Usage']);
+    });
+
+    it('records the offsets of each block', () => {
+      for (const block of parseMarkdownBlocks(doc)) {
+        expect(doc.slice(block.startOffset, block.endOffset)).toBe(block.text);
+      }
+    });
+
+    it('runs an unclosed code block to the end of the document', () => {
+      const blocks = parseMarkdownBlocks(
+        'Intro\n\n```js\nconst a = 1;\n\n# not a heading'
+      );
+      expect(blocks.map((block) => block.type)).toEqual(['paragraph', 'code']);
+    });
+  });
+
+  describe('splitListItems', () => {
+    it('keeps nested items with their parent', () => {
+      const [list] = parseMarkdownBlocks('- a\n  - a.1\n- b\n\n- c');
+      expect(splitListItems(list)).toEqual(['- a\n  - a.1', '- b', '- c']);
+    });
+  });
+});
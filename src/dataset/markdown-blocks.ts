@@ -0,0 +1,186 @@
+/**
+ * Kinds of markdown blocks.
+ */
+export type MarkdownBlockType =
+  'heading' | 'code' | 'table' | 'list' | 'paragraph';
+
+/**
+ * A block of a markdown document.
+ */
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  /** Source text of the block, without surrounding blank lines */
+  text: string;
+  /** Character offset where the block starts in the document */
+  startOffset: number;
+  /** Character offset where the block ends in the document */
+  endOffset: number;
+  /** Titles of the enclosing headings, outermost first (for headings: including their own title) */
+  headingPath: string[];
+}
+
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_ROW = /^ {0,3}\|/;
+const LIST_ITEM = /^ {0,3}(?:[-*+]|\d{1,9}[.)])[ \t]+/;
+const BLANK = /^[ \t]*$/;
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ text: line, start, end: start + line.length });
+    start += line.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * Split a markdown document into headings, fenced code blocks, tables, lists and paragraphs.
+ * Code blocks run to their closing fence (or the end of the document), so blank lines and
+ * `#` comments inside them are kept. List items continue over indented lines and blank lines
+ * followed by indented lines.
+ *
+ * @param text - Markdown document
+ * @returns Blocks in document order, each with the path of headings it is under
+ *
+ * @example
+ * ```typescript
+ * parseMarkdownBlocks('# Setup\n\nRun:\n\n```sh\nnpm install\n```');
+ * // [
+ * //   { type: 'heading', text: '# Setup', headingPath: ['Setup'], ... },
+ * //   { type: 'paragraph', text: 'Run:', headingPath: ['Setup'], ... },
+ * //   { type: 'code', text: '```sh\nnpm install\n```', headingPath: ['Setup'], ... },
+ * // ]
+ * ```
+ */
+export function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  const lines = splitLines(text);
+  const blocks: MarkdownBlock[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  const path = () => headings.map((heading) => heading.title);
+
+  const push = (type: MarkdownBlockType, from: number, to: number) => {
+    blocks.push({
+      type,
+      text: text.slice(lines[from].start, lines[to].end),
+      startOffset: lines[from].start,
+      endOffset: lines[to].end,
+      headingPath: path(),
+    });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i].text;
+    if (BLANK.test(line)) {
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      while (
+        headings.length > 0 &&
+        headings[headings.length - 1].level >= level
+      ) {
+        headings.pop();
+      }
+      headings.push({ level, title: heading[2] });
+      push('heading', i, i);
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const closing = new RegExp(
+        `^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`
+      );
+      let end = i + 1;
+      while (end < lines.length && !closing.test(lines[end].text)) {
+        end++;
+      }
+      end = Math.min(end, lines.length - 1);
+      push('code', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      let end = i;
+      while (end + 1 < lines.length && TABLE_ROW.test(lines[end + 1].text)) {
+        end++;
+      }
+      push('table', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      let end = i;
+      for (let next = i + 1; next < lines.length; next++) {
+        const nextLine = lines[next].text;
+        if (BLANK.test(nextLine)) continue;
+        const indented = /^[ \t]{2,}/.test(nextLine);
+        const followsDirectly = next === end + 1;
+        // Items, indented continuations, and lazy continuation lines right after an item
+        if (
+          LIST_ITEM.test(nextLine) ||
+          indented ||
+          (followsDirectly &&
+            !HEADING.test(nextLine) &&
+            !FENCE.test(nextLine) &&
+            !TABLE_ROW.test(nextLine))
+        ) {
+          end = next;
+        } else {
+          break;
+        }
+      }
+      push('list', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (
+      end + 1 < lines.length &&
+      !BLANK.test(lines[end + 1].text) &&
+      !HEADING.test(lines[end + 1].text) &&
+      !FENCE.test(lines[end + 1].text)
+    ) {
+      end++;
+    }
+    push('paragraph', i, end);
+    i = end + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Split a list block into its top-level items (with their nested lines).
+ */
+export function splitListItems(block: MarkdownBlock): string[] {
+  const indent = /^[ \t]*/.exec(block.text)![0].length;
+  const items: string[] = [];
+  for (const line of block.text.split('\n')) {
+    const topLevel =
+      LIST_ITEM.test(line) && /^[ \t]*/.exec(line)![0].length <= indent;
+    if (topLevel || items.length === 0) {
+      items.push(line);
+    } else {
+      items[items.length - 1] += `\n${line}`;
+    }
+  }
+  return items.map((item) => item.trimEnd());
+}
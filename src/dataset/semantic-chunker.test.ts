@@ -0,0 +1,73 @@
+import { chunkDocumentSemantic, percentile } from './semantic-chunker';
+import { chunkDocument } from './document-chunker';
+
+describe('semantic-chunker', () => {
+  describe('percentile', () => {
+    it('interpolates between values', () => {
+      expect(percentile([4, 1, 3, 2], 0)).toBe(1);
+      expect(percentile([4, 1, 3, 2], 50)).toBe(2.5);
+      expect(percentile([4, 1, 3, 2], 100)).toBe(4);
+    });
+  });
+
+  describe('chunkDocumentSemantic', () => {
+    // Mock embeddings depend on the text length, so sentences of similar length are similar
+    const shortTopic = ['Cats purr.', 'Cats nap.', 'Cats hunt.', 'Cats meow.'];
+    const longTopic = [
+      'Compilers translate source code into machine instructions in several passes.',
+      'Optimizing compilers rewrite intermediate code to remove redundant operations.',
+      'Most compilers also report type errors and warnings before generating code.',
+    ];
+    const text = [...shortTopic, ...longTopic].join(' ');
+
+    it('splits where the topic changes', async () => {
+      const chunks = await chunkDocumentSemantic('doc', text, {
+        maxTokens: 500,
+      });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        shortTopic.join(' '),
+        longTopic.join(' '),
+      ]);
+      expect(chunks.every((chunk) => chunk.totalChunks === 2)).toBe(true);
+    });
+
+    it('returns exact slices of the document', async () => {
+      const chunks = await chunkDocumentSemantic('doc', text);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+      }
+      expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+    });
+
+    it('splits topics that exceed the token limit', async () => {
+      const chunks = await chunkDocumentSemantic('doc', text, {
+        maxTokens: 25,
+      });
+
+      expect(chunks.length).toBeGreaterThan(2);
+      expect(chunks[0].text).toBe(shortTopic.join(' '));
+      expect(chunks.map((chunk) => chunk.text).join(' ')).toBe(text);
+    });
+
+    it('uses the given embedding function', async () => {
+      const embed = jest.fn(async (texts: string[]) =>
+        texts.map((sentence) => (sentence.startsWith('Cats') ? [1, 0] : [0, 1]))
+      );
+      const chunks = await chunkDocumentSemantic('doc', text, { embed });
+
+      expect(embed).toHaveBeenCalledWith([...shortTopic, ...longTopic]);
+      expect(chunks).toHaveLength(2);
+    });
+
+    it('handles empty documents', async () => {
+      expect(await chunkDocumentSemantic('doc', '  ')).toEqual([]);
+    });
+
+    it('is not available synchronously', () => {
+      expect(() =>
+        chunkDocument('doc', text, { strategy: 'semantic' })
+      ).toThrow('chunkDocumentSemantic');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { cosineSimilarity, generateEmbeddings } from '../ai/embeddings';
+import {
+  createChunkId,
+  estimateTokens,
+  locateSentences,
+  type Chunk,
+  type ChunkOptions,
+  type TextSpan,
+} from './document-chunker';
+
+/**
+ * Options for semantic chunking.
+ */
+export interface SemanticChunkOptions extends Pick<
+  ChunkOptions,
+  'maxTokens' | 'breakpointPercentile'
+> {
+  /** Embedding function for the sentences (default: generateEmbeddings(), without caching) */
+  embed?: (texts: string[]) => Promise<number[][]>;
+}
+
+interface Sentence extends TextSpan {
+  tokens: number;
+}
+
+/**
+ * Value below which the given percentage of the values fall (linear interpolation).
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Chunk a document at topic changes. Every sentence is embedded, and a new chunk starts where
+ * the similarity between adjacent sentences drops below the `breakpointPercentile` of all
+ * adjacent similarities. Segments longer than `maxTokens` are split further at their weakest
+ * transitions. Chunks are exact slices of the document and don't overlap.
+ *
+ * @param documentId - Unique identifier for the document
+ * @param text - The full text of the document
+ * @param options - Token limit, breakpoint percentile and embedding function
+ * @returns Array of chunks
+ *
+ * @example
+ * ```typescript
+ * const cache = new EmbeddingCache('example-nodejs');
+ * const chunks = await chunkDocumentSemantic('1', text, {
+ *   maxTokens: 500,
+ *   embed: (texts) => cache.embedTexts(texts),
+ * });
+ * ```
+ */
+export async function chunkDocumentSemantic(
+  documentId: string,
+  text: string,
+  options: SemanticChunkOptions = {}
+): Promise<Chunk[]> {
+  const {
+    maxTokens = 500,
+    breakpointPercentile = 10,
+    embed = generateEmbeddings,
+  } = options;
+  const sentences: Sentence[] = locateSentences(text).map((sentence) => ({
+    ...sentence,
+    tokens: estimateTokens(sentence.text),
+  }));
+  if (sentences.length === 0) {
+    return [];
+  }
+
+  // similarities[i] is the similarity between sentence i and i + 1
+  const embeddings = await embed(sentences.map((sentence) => sentence.text));
+  const similarities = sentences
+    .slice(1)
+    .map((_, i) => cosineSimilarity(embeddings[i], embeddings[i + 1]));
+
+  const threshold =
+    similarities.length > 0
+      ? percentile(similarities, breakpointPercentile)
+      : 0;
+  const segments: Array<[number, number]> = [];
+  let start = 0;
+  similarities.forEach((similarity, i) => {
+    if (similarity < threshold) {
+      segments.push([start, i]);
+      start = i + 1;
+    }
+  });
+  segments.push([start, sentences.length - 1]);
+
+  const ranges = segments.flatMap(([from, to]) =>
+    splitToFit(sentences, similarities, from, to, maxTokens)
+  );
+  const chunks = ranges.map(([from, to], chunkIndex): Chunk => {
+    const startOffset = sentences[from].startOffset;
+    const endOffset = sentences[to].endOffset;
+    const chunkText = text.slice(startOffset, endOffset);
+    return {
+      id: createChunkId(documentId, chunkIndex, chunkText),
+      documentId,
+      text: chunkText,
+      startOffset,
+      endOffset,
+      chunkIndex,
+      totalChunks: ranges.length,
+    };
+  });
+  return chunks;
+}
+
+/**
+ * Split a run of sentences at its least similar transition until every part fits the token
+ * limit (single sentences are kept whole).
+ */
+function splitToFit(
+  sentences: Sentence[],
+  similarities: number[],
+  from: number,
+  to: number,
+  maxTokens: number
+): Array<[number, number]> {
+  let tokens = 0;
+  for (let i = from; i <= to; i++) {
+    tokens += sentences[i].tokens;
+  }
+  if (tokens <= maxTokens || from === to) {
+    return [[from, to]];
+  }
+
+  let split = from;
+  for (let i = from + 1; i < to; i++) {
+    if (similarities[i] < similarities[split]) {
+      split = i;
+    }
+  }
+  return [
+    ...splitToFit(sentences, similarities, from, split, maxTokens),
+    ...splitToFit(sentences, similarities, split + 1, to, maxTokens),
+  ];
+}
@@ -0,0 +1,112 @@
+import { compileTemplate, renderTemplate, TemplateError } from './template-engine';
+
+describe('template-engine', () => {
+  describe('renderTemplate', () => {
+    it('replaces every occurrence of a placeholder', () => {
+      expect(renderTemplate('{{question}} / {{ question }}', { question: 'Why?' })).toBe(
+        'Why? / Why?'
+      );
+    });
+
+    it('resolves dotted paths and renders missing values as empty strings', () => {
+      expect(
+        renderTemplate('{{dataset.name}}: {{dataset.missing}}{{nope}}', {
+          dataset: { name: 'fruits' },
+        })
+      ).toBe('fruits: ');
+    });
+
+    it('loops over lists with item fields, this, @index and @number', () => {
+      const template = '{{#each sources}}[{{@number}}|{{@index}}] {{id}} ({{score}}) {{text}}\n{{/each}}';
+      const output = renderTemplate(template, {
+        sources: [
+          { id: 'a', score: 0.9, text: 'First' },
+          { id: 'b', score: 0.5, text: 'Second' },
+        ],
+      });
+      expect(output).toBe('[1|0] a (0.9) First\n[2|1] b (0.5) Second\n');
+      expect(renderTemplate('{{#each tags}}<{{this}}>{{/each}}', { tags: ['x', 'y'] })).toBe(
+        '<x><y>'
+      );
+    });
+
+    it('falls back to outer variables inside loops', () => {
+      expect(
+        renderTemplate('{{#each items}}{{question}}:{{this}} {{/each}}', {
+          question: 'Q',
+          items: [1, 2],
+        })
+      ).toBe('Q:1 Q:2 ');
+    });
+
+    it('renders conditionals with else branches', () => {
+      const template = '{{#if hasContext}}Use the sources.{{else}}No context found.{{/if}}';
+      expect(renderTemplate(template, { hasContext: true })).toBe('Use the sources.');
+      expect(renderTemplate(template, { hasContext: false })).toBe('No context found.');
+      expect(renderTemplate('{{#unless items}}empty{{/unless}}', { items: [] })).toBe('empty');
+      expect(renderTemplate('{{#if items}}some{{/if}}', { items: [1] })).toBe('some');
+    });
+
+    it('supports nested blocks', () => {
+      const template = '{{#each sources}}{{#if chunkNumber}}#{{chunkNumber}} {{/if}}{{text}};{{/each}}';
+      expect(
+        renderTemplate(template, {
+          sources: [{ text: 'a', chunkNumber: 2 }, { text: 'b' }],
+        })
+      ).toBe('#2 a;b;');
+    });
+  });
+
+  describe('compileTemplate', () => {
+    it('reports syntax errors with file and line', () => {
+      expect(() => compileTemplate('Line 1\n{{#each sources}}\nno end', { file: 'user-template.md' }))
+        .toThrow('user-template.md:2: Unclosed {{#each sources}}');
+      expect(() => compileTemplate('{{#if a}}\n{{/each}}', { file: 'f.md' })).toThrow(
+        'f.md:2: Expected {{/if}} (opened on line 1)'
+      );
+      expect(() => compileTemplate('{{/if}}')).toThrow(TemplateError);
+      expect(() => compileTemplate('{{#loop items}}{{/loop}}')).toThrow('Invalid block tag');
+      expect(() => compileTemplate('{{ not valid }}')).toThrow('Invalid placeholder');
+    });
+
+    it('applies the line offset of stripped frontmatter', () => {
+      try {
+        compileTemplate('ok\n{{#if a}}', { file: 'system-prompt.md', lineOffset: 4 });
+        fail('expected a TemplateError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TemplateError);
+        expect((error as TemplateError).file).toBe('system-prompt.md');
+        expect((error as TemplateError).line).toBe(6);
+      }
+    });
+
+    it('validates unknown and missing placeholders', () => {
+      const validate = {
+        variables: ['question', 'context'],
+        loops: { sources: ['id', 'text'] },
+        required: [['context', 'sources'], ['question']],
+      };
+
+      expect(() =>
+        compileTemplate('{{context}}\n{{question}}\n{{qestion}}', { file: 't.md', validate })
+      ).toThrow('t.md:3: Unknown placeholder "{{qestion}}"');
+      expect(() =>
+        compileTemplate('{{#each sources}}{{score}}{{/each}}{{question}}', { validate })
+      ).toThrow('Unknown placeholder "{{score}}"');
+      expect(() => compileTemplate('{{#each docs}}{{/each}}', { validate })).toThrow(
+        'Cannot loop over unknown list "docs"'
+      );
+      expect(() => compileTemplate('{{context}} only', { file: 't.md', validate })).toThrow(
+        't.md:1: Missing placeholder {{question}}'
+      );
+      expect(() =>
+        compileTemplate('{{#each sources}}{{@number}} {{text}}{{/each}} {{question}}', { validate })
+      ).not.toThrow();
+    });
+
+    it('lists referenced variables', () => {
+      const template = compileTemplate('{{#each sources}}{{text}}{{/each}}{{#if hasContext}}{{question}}{{/if}}');
+      expect(template.references.sort()).toEqual(['hasContext', 'question', 'sources']);
+    });
+  });
+});
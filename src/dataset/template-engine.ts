@@ -0,0 +1,334 @@
+/**
+ * Minimal template engine for dataset prompt files (`system-prompt.md`, `user-template.md`).
+ *
+ * Supported syntax:
+ * - `{{question}}`, `{{dataset.name}}` - variables and dotted paths (every occurrence is replaced)
+ * - `{{#each sources}}...{{/each}}` - loops; inside, item fields (`{{id}}`, `{{score}}`, ...),
+ *   `{{this}}`, `{{@index}}` (0-based) and `{{@number}}` (1-based) are available
+ * - `{{#if hasContext}}...{{else}}...{{/if}}` and `{{#unless ...}}...{{/unless}}` - conditionals
+ *
+ * Unknown variables render as empty strings; use `validate` options of compileTemplate()
+ * to report them at load time instead.
+ */
+
+/**
+ * Template syntax or validation error, pointing at the file and line.
+ */
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    readonly file: string,
+    readonly line: number
+  ) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'TemplateError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string; line: number }
+  | { type: 'each'; path: string; line: number; body: TemplateNode[] }
+  | {
+      type: 'if' | 'unless';
+      path: string;
+      line: number;
+      body: TemplateNode[];
+      elseBody: TemplateNode[];
+    };
+
+type BlockNode = Extract<TemplateNode, { body: TemplateNode[] }>;
+
+/**
+ * Variables available to a template. Arrays can be iterated with `{{#each}}`.
+ */
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * Rules for validating the placeholders of a template.
+ */
+export interface TemplateValidation {
+  /** Allowed variable paths outside of loops, e.g. `['question', 'dataset.name']` */
+  variables: string[];
+  /** Allowed item fields per loopable variable, e.g. `{ sources: ['id', 'score'] }` */
+  loops?: Record<string, string[]>;
+  /**
+   * Placeholders the template must reference. Each entry lists alternatives,
+   * e.g. `[['context', 'sources'], ['question']]`.
+   */
+  required?: string[][];
+}
+
+/**
+ * Options for compiling a template.
+ */
+export interface CompileOptions {
+  /** File name used in error messages (default: `template`) */
+  file?: string;
+  /** Number of lines before the template source in the file (e.g. stripped frontmatter) */
+  lineOffset?: number;
+  /** Report unknown placeholders as TemplateErrors */
+  validate?: TemplateValidation;
+}
+
+/**
+ * A parsed template that can be rendered repeatedly.
+ */
+export interface CompiledTemplate {
+  /** Variable paths referenced outside of loops, plus loop targets */
+  readonly references: string[];
+  /** Render the template with the given variables */
+  render(variables: TemplateVariables): string;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+
+function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+function parse(source: string, file: string, lineOffset: number): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse && top.node.type !== 'each' ? top.node.elseBody : top.node.body;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    const line = lineOffset + lineAt(source, index);
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const [, sigil, expression] = match;
+    if (sigil === '#') {
+      const [keyword, path, ...rest] = expression.split(/\s+/);
+      if (!['each', 'if', 'unless'].includes(keyword) || !path || rest.length > 0) {
+        throw new TemplateError(`Invalid block tag "${match[0]}"`, file, line);
+      }
+      const node: BlockNode =
+        keyword === 'each'
+          ? { type: 'each', path, line, body: [] }
+          : { type: keyword as 'if' | 'unless', path, line, body: [], elseBody: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === '/') {
+      const top = stack.pop();
+      if (!top) {
+        throw new TemplateError(`Unexpected closing tag "${match[0]}"`, file, line);
+      }
+      if (top.node.type !== expression) {
+        throw new TemplateError(
+          `Expected {{/${top.node.type}}} (opened on line ${top.node.line}) but found "${match[0]}"`,
+          file,
+          line
+        );
+      }
+    } else if (expression === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type === 'each' || top.inElse) {
+        throw new TemplateError('Unexpected {{else}}', file, line);
+      }
+      top.inElse = true;
+    } else if (!/^(@?[\w-]+)(\.[\w-]+)*$/.test(expression)) {
+      throw new TemplateError(`Invalid placeholder "${match[0]}"`, file, line);
+    } else {
+      current().push({ type: 'var', path: expression, line });
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(
+      `Unclosed {{#${unclosed.node.type} ${unclosed.node.path}}}`,
+      file,
+      unclosed.node.line
+    );
+  }
+  return root;
+}
+
+function collectReferences(nodes: TemplateNode[], loopDepth: number, references: Set<string>): void {
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+    if (loopDepth === 0 || node.type === 'each') {
+      references.add(node.path);
+    }
+    if (node.type === 'each') {
+      collectReferences(node.body, loopDepth + 1, references);
+    } else if (node.type !== 'var') {
+      collectReferences(node.body, loopDepth, references);
+      collectReferences(node.elseBody, loopDepth, references);
+    }
+  }
+}
+
+function validate(
+  nodes: TemplateNode[],
+  rules: TemplateValidation,
+  file: string,
+  loopFields: string[] | undefined
+): void {
+  const isAllowed = (path: string): boolean => {
+    if (loopFields) {
+      const root = path.split('.')[0];
+      if (['this', '@index', '@number'].includes(path) || loopFields.includes(root)) {
+        return true;
+      }
+    }
+    return rules.variables.includes(path);
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+    if (node.type === 'each') {
+      const fields = rules.loops?.[node.path];
+      if (!fields) {
+        throw new TemplateError(`Cannot loop over unknown list "${node.path}"`, file, node.line);
+      }
+      validate(node.body, rules, file, fields);
+      continue;
+    }
+    if (!isAllowed(node.path)) {
+      const known = [...rules.variables, ...(loopFields ?? [])].join(', ');
+      throw new TemplateError(
+        `Unknown placeholder "{{${node.path}}}" (known: ${known})`,
+        file,
+        node.line
+      );
+    }
+    if (node.type !== 'var') {
+      validate(node.body, rules, file, loopFields);
+      validate(node.elseBody, rules, file, loopFields);
+    }
+  }
+}
+
+function lookup(scopes: TemplateVariables[], path: string): unknown {
+  const [head, ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (head in scopes[i]) {
+      return rest.reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === 'object'
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        scopes[i][head]
+      );
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateVariables[]): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'var': {
+        const value = lookup(scopes, node.path);
+        output += value === undefined || value === null ? '' : String(value);
+        break;
+      }
+      case 'each': {
+        const items = lookup(scopes, node.path);
+        if (!Array.isArray(items)) break;
+        items.forEach((item, index) => {
+          const scope: TemplateVariables = {
+            ...(item !== null && typeof item === 'object' ? item : {}),
+            this: item,
+            '@index': index,
+            '@number': index + 1,
+          };
+          output += renderNodes(node.body, [...scopes, scope]);
+        });
+        break;
+      }
+      case 'if':
+      case 'unless': {
+        const condition = isTruthy(lookup(scopes, node.path));
+        const branch = condition === (node.type === 'if') ? node.body : node.elseBody;
+        output += renderNodes(branch, scopes);
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Parse a template and optionally validate its placeholders.
+ *
+ * @param source - Template source
+ * @param options - File name/line offset for errors and validation rules
+ * @returns Compiled template
+ * @throws {TemplateError} On syntax errors, unknown placeholders or missing required placeholders
+ *
+ * @example
+ * ```typescript
+ * const template = compileTemplate(
+ *   '{{#each sources}}[{{@number}}] {{text}}\n{{/each}}Question: {{question}}',
+ *   { file: 'user-template.md', validate: { variables: ['question'], loops: { sources: ['text'] } } }
+ * );
+ * template.render({ question: 'Why?', sources: [{ text: 'Because.' }] });
+ * // Returns: "[1] Because.\nQuestion: Why?"
+ * ```
+ */
+export function compileTemplate(source: string, options: CompileOptions = {}): CompiledTemplate {
+  const file = options.file ?? 'template';
+  const lineOffset = options.lineOffset ?? 0;
+  const nodes = parse(source, file, lineOffset);
+
+  const referenceSet = new Set<string>();
+  collectReferences(nodes, 0, referenceSet);
+  const references = [...referenceSet];
+
+  if (options.validate) {
+    validate(nodes, options.validate, file, undefined);
+    for (const alternatives of options.validate.required ?? []) {
+      if (!alternatives.some((path) => referenceSet.has(path))) {
+        throw new TemplateError(
+          `Missing placeholder ${alternatives.map((p) => `{{${p}}}`).join(' or ')}`,
+          file,
+          lineOffset + 1
+        );
+      }
+    }
+  }
+
+  return {
+    references,
+    render: (variables) => renderNodes(nodes, [variables]),
+  };
+}
+
+/**
+ * Compile and render a template in one step.
+ *
+ * @example
+ * ```typescript
+ * renderTemplate('{{question}} / {{question}}', { question: 'Why?' });
+ * // Returns: "Why? / Why?"
+ * ```
+ */
+export function renderTemplate(source: string, variables: TemplateVariables): string {
+  return compileTemplate(source).render(variables);
+}
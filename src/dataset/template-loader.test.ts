@@ -1,4 +1,4 @@
-import { loadSystemPrompt, loadUserTemplate, fillUserTemplate } from './template-loader';
+import { loadSystemPrompt, loadUserTemplate, fillUserTemplate, loadPromptTemplates } from './template-loader';
 import { writeFile, mkdir, rm } from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
@@ -79,6 +79,74 @@ Question: {{question}}`;
   });
 });
 
+describe('loadPromptTemplates', () => {
+  test('loads system prompt and user template together', async () => {
+    await mkdir(path.join(testDataDir, 'data', testDataSet), { recursive: true });
+    await writeFile(path.join(testDataDir, 'data', testDataSet, 'system-prompt.md'), 'System.');
+    await writeFile(path.join(testDataDir, 'data', testDataSet, 'user-template.md'), '{{context}}\n{{question}}');
+
+    const originalCwd = process.cwd;
+    process.cwd = () => testDataDir;
+
+    try {
+      const templates = await loadPromptTemplates(testDataSet);
+      expect(templates).toEqual({
+        systemPrompt: 'System.',
+        userTemplate: '{{context}}\n{{question}}',
+        dataset: { name: testDataSet },
+      });
+    } finally {
+      process.cwd = originalCwd;
+    }
+  });
+
+  test('exposes docs.md frontmatter as dataset variables', async () => {
+    await mkdir(path.join(testDataDir, 'data', testDataSet), { recursive: true });
+    await writeFile(path.join(testDataDir, 'data', testDataSet, 'docs.md'), '---\ntopic: fruit\n---\nDoc');
+    await writeFile(path.join(testDataDir, 'data', testDataSet, 'system-prompt.md'), 'Expert on {{dataset.topic}}.');
+    await writeFile(path.join(testDataDir, 'data', testDataSet, 'user-template.md'), '{{context}}\n{{question}}');
+
+    const originalCwd = process.cwd;
+    process.cwd = () => testDataDir;
+
+    try {
+      const templates = await loadPromptTemplates(testDataSet);
+      expect(templates.dataset).toEqual({ topic: 'fruit', name: testDataSet });
+    } finally {
+      process.cwd = originalCwd;
+      await rm(path.join(testDataDir, 'data', testDataSet, 'docs.md'));
+    }
+  });
+
+  test('reports unknown placeholders with file and line', async () => {
+    await mkdir(path.join(testDataDir, 'data', testDataSet), { recursive: true });
+    await writeFile(path.join(testDataDir, 'data', testDataSet, 'system-prompt.md'), 'System.');
+    await writeFile(
+      path.join(testDataDir, 'data', testDataSet, 'user-template.md'),
+      '---\ndescription: "Test"\n---\n\nContext: {{context}}\nQuestion: {{qestion}}'
+    );
+
+    const originalCwd = process.cwd;
+    process.cwd = () => testDataDir;
+
+    try {
+      await expect(loadPromptTemplates(testDataSet)).rejects.toThrow(
+        `data/${testDataSet}/user-template.md:6: Unknown placeholder "{{qestion}}"`
+      );
+    } finally {
+      process.cwd = originalCwd;
+    }
+  });
+
+  test('loads the bundled datasets', async () => {
+    for (const dataSet of ['example-cars', 'example-fruits', 'example-nodejs']) {
+      await expect(loadPromptTemplates(dataSet)).resolves.toMatchObject({
+        dataset: { name: dataSet },
+      });
+    }
+  });
+});
+
 describe('fillUserTemplate', () => {
   test('replaces context and question placeholders', () => {
     const template = 'Context: {{context}}\n\nQuestion: {{question}}';
@@ -90,6 +158,12 @@ describe('fillUserTemplate', () => {
     expect(result).toBe('Context: This is test context.\n\nQuestion: What is this about?');
   });
 
+  test('replaces repeated placeholders', () => {
+    const result = fillUserTemplate('{{question}}\n{{context}}\n{{question}}', 'ctx', 'Q?');
+
+    expect(result).toBe('Q?\nctx\nQ?');
+  });
+
   test('handles templates without placeholders', () => {
     const template = 'Simple template without placeholders';
     const result = fillUserTemplate(template, 'context', 'question');
@@ -103,4 +177,10 @@ describe('fillUserTemplate', () => {
     
     expect(result).toBe('Context: \nQuestion: ');
   });
-});
\ No newline at end of file
+
+  test('inserts replacement patterns verbatim', () => {
+    const result = fillUserTemplate('{{context}}', 'Price: $& and $$', 'question');
+
+    expect(result).toBe('Price: $& and $$');
+  });
+});
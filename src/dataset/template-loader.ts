@@ -1,5 +1,7 @@
 import { readFile } from 'node:fs/promises';
-import { stripFrontmatter } from '../view/frontmatter';
+import { stripFrontmatter, parseFrontmatter, type FrontmatterValue } from '../view/frontmatter';
+import { compileTemplate, renderTemplate } from './template-engine';
+import { promptTemplateValidation } from '../ai/prompt';
 
 /**
  * Load the system prompt for a dataset from `data/{dataSet}/system-prompt.md`.
@@ -46,7 +48,7 @@ export async function loadUserTemplate(dataSet: string): Promise<string> {
 
 /**
  * Fill a user template with context and question values.
- * Replaces {{context}} and {{question}} placeholders in the template.
+ * Replaces every {{context}} and {{question}} placeholder in the template.
  * 
  * @param template - The template string with placeholders
  * @param context - The context text to insert
@@ -64,7 +66,77 @@ export async function loadUserTemplate(dataSet: string): Promise<string> {
  * ```
  */
 export function fillUserTemplate(template: string, context: string, question: string): string {
-  return template
-    .replace('{{context}}', context)
-    .replace('{{question}}', question);
+  return renderTemplate(template, { context, question });
+}
+
+/**
+ * Prompt templates of a dataset.
+ */
+export interface PromptTemplates {
+  /** Contents of `system-prompt.md` */
+  systemPrompt: string;
+  /** Contents of `user-template.md` */
+  userTemplate: string;
+  /** Dataset variables for {{dataset.*}}: the name and the frontmatter of `docs.md` */
+  dataset: Record<string, FrontmatterValue>;
+}
+
+/**
+ * Read a prompt file of a dataset and validate its placeholders.
+ * @throws {TemplateError} With file and line when the template is invalid
+ */
+async function loadValidatedTemplate(
+  dataSet: string,
+  fileName: string,
+  kind: 'system' | 'user',
+  datasetKeys: string[]
+): Promise<string> {
+  const file = `data/${dataSet}/${fileName}`;
+  const raw = await readFile(`${process.cwd()}/${file}`, 'utf-8');
+  const { body, bodyLineOffset } = parseFrontmatter(raw);
+  compileTemplate(body, {
+    file,
+    lineOffset: bodyLineOffset,
+    validate: promptTemplateValidation(datasetKeys, kind),
+  });
+  return body;
+}
+
+/**
+ * Load the dataset variables from the frontmatter of `data/{dataSet}/docs.md`.
+ */
+async function loadDatasetVariables(dataSet: string): Promise<Record<string, FrontmatterValue>> {
+  let data: Record<string, FrontmatterValue> = {};
+  try {
+    const raw = await readFile(`${process.cwd()}/data/${dataSet}/docs.md`, 'utf-8');
+    data = parseFrontmatter(raw).data;
+  } catch {
+    // Datasets without docs.md only provide their name
+  }
+  return { ...data, name: dataSet };
+}
+
+/**
+ * Load the system prompt and user template for a dataset and validate them.
+ * Unknown placeholders, template syntax errors and a user template that doesn't
+ * reference the context and the question are reported with file and line.
+ * 
+ * @param dataSet - The dataset name/identifier
+ * @returns Promise resolving to both prompt templates and the dataset variables
+ * @throws {TemplateError} When a template is invalid
+ * 
+ * @example
+ * ```typescript
+ * const templates = await loadPromptTemplates('example-fruits');
+ * const { text: answer } = await generateRAGResponse(question, context, templates);
+ * ```
+ */
+export async function loadPromptTemplates(dataSet: string): Promise<PromptTemplates> {
+  const dataset = await loadDatasetVariables(dataSet);
+  const datasetKeys = Object.keys(dataset);
+  const [systemPrompt, userTemplate] = await Promise.all([
+    loadValidatedTemplate(dataSet, 'system-prompt.md', 'system', datasetKeys),
+    loadValidatedTemplate(dataSet, 'user-template.md', 'user', datasetKeys),
+  ]);
+  return { systemPrompt, userTemplate, dataset };
 }
\ No newline at end of file
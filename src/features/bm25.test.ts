@@ -0,0 +1,92 @@
+import { MarkdownDocumentLoader } from '../dataset/DocumentLoader';
+import { BM25Index, loadBM25Index, tokenize } from './bm25';
+
+describe('features/bm25', () => {
+  describe('tokenize', () => {
+    it('lowercases, splits on punctuation and drops stopwords', () => {
+      expect(tokenize('What is the API timeout? (30s, Node.js)')).toEqual([
+        'api',
+        'timeout',
+        '30s',
+        'node',
+        'js',
+      ]);
+    });
+
+    it('keeps letters of other scripts', () => {
+      expect(tokenize('Äpfel und Birnen')).toEqual(['äpfel', 'und', 'birnen']);
+    });
+  });
+
+  describe('BM25Index', () => {
+    const docs = [
+      { id: 'short', text: 'Timeout settings.' },
+      { id: 'long', text: 'The timeout is one of many settings described in this long document about servers.' },
+      { id: 'repeated', text: 'Timeout timeout timeout.' },
+      { id: 'other', text: 'Authentication requires a token.' },
+    ];
+
+    it('scores only documents that contain a query term', () => {
+      const scores = new BM25Index(docs).scores('timeout');
+      expect([...scores.keys()].sort()).toEqual(['long', 'repeated', 'short']);
+    });
+
+    it('prefers shorter documents and higher term frequency with saturation', () => {
+      const index = new BM25Index(docs);
+      const [first, second, third] = index.search('timeout', 3);
+      expect(first.id).toBe('repeated');
+      expect(second.id).toBe('short');
+      expect(third.id).toBe('long');
+      // Three occurrences score less than three times one occurrence
+      expect(first.score).toBeLessThan(second.score * 3);
+    });
+
+    it('weights rare terms higher than common ones', () => {
+      const scores = new BM25Index(docs).scores('timeout authentication');
+      expect(scores.get('other')!).toBeGreaterThan(scores.get('short')!);
+    });
+
+    it('returns nothing for stopword-only or unknown queries', () => {
+      const index = new BM25Index(docs);
+      expect(index.search('the of is', 3)).toEqual([]);
+      expect(index.search('kubernetes', 3)).toEqual([]);
+    });
+  });
+
+  describe('bundled datasets', () => {
+    const loader = new MarkdownDocumentLoader();
+    const topIds = async (dataSet: string, query: string, k: number) => {
+      const index = new BM25Index(await loader.loadDocuments(dataSet));
+      return index.search(query, k).map((r) => r.id);
+    };
+
+    it('ranks the fruits documents', async () => {
+      expect(await topIds('example-fruits', 'Which fruit is rich in potassium?', 1)).toEqual(['2']); // Banana
+      expect(await topIds('example-fruits', 'juice', 2)).toEqual(['3', '1']); // Orange, Apple
+      expect(await topIds('example-fruits', 'India production', 1)).toEqual(['2']); // Banana
+    });
+
+    it('ranks the cars documents', async () => {
+      expect(await topIds('example-cars', 'How does regenerative braking recharge batteries?', 1)).toEqual(['12']);
+      expect((await topIds('example-cars', 'fuel economy', 2)).sort()).toEqual(['10', '11']); // Diesel, aerodynamics
+      expect(await topIds('example-cars', 'V8 cylinders', 1)).toEqual(['1']);
+    });
+
+    it('ranks the Node.js documents', async () => {
+      expect(await topIds('example-nodejs', 'module bundler', 1)).toEqual(['8']); // Webpack
+      expect(await topIds('example-nodejs', 'restart the server when files change', 1)).toEqual(['12']); // Nodemon
+    });
+  });
+
+  describe('loadBM25Index', () => {
+    it('reuses the index until the documents change', () => {
+      const docs = [{ id: '1', text: 'Apples are red.' }];
+      const index = loadBM25Index('test', docs);
+      expect(loadBM25Index('test', [...docs])).toBe(index);
+
+      const changed = loadBM25Index('test', [{ id: '1', text: 'Apples are green.' }]);
+      expect(changed).not.toBe(index);
+      expect(changed.search('green', 1)[0].id).toBe('1');
+    });
+  });
+});
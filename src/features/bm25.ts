@@ -0,0 +1,160 @@
+import { contentHash } from '../support/embedding-cache';
+
+/**
+ * Common English words that carry no meaning for keyword search.
+ */
+export const ENGLISH_STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'doing', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having',
+  'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'itself', 'just', 'me', 'more', 'most', 'my', 'no', 'nor', 'not', 'now', 'of', 'off', 'on',
+  'once', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 's', 'same', 'she',
+  'should', 'so', 'some', 'such', 't', 'than', 'that', 'the', 'their', 'theirs', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until',
+  'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom',
+  'why', 'will', 'with', 'would', 'you', 'your', 'yours',
+]);
+
+/**
+ * Split text into lowercase word tokens without stopwords.
+ * Letters and digits of any script form tokens; everything else separates them.
+ *
+ * @example
+ * ```typescript
+ * tokenize('What is the API timeout?'); // ['api', 'timeout']
+ * ```
+ */
+export function tokenize(text: string, stopwords: Set<string> = ENGLISH_STOPWORDS): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (token) => !stopwords.has(token)
+  );
+}
+
+/**
+ * BM25 parameters.
+ */
+export interface BM25Options {
+  /** Term frequency saturation (default: 1.2) */
+  k1?: number;
+  /** Document length normalization, 0 (none) to 1 (full) (default: 0.75) */
+  b?: number;
+  /** Words to ignore (default: ENGLISH_STOPWORDS) */
+  stopwords?: Set<string>;
+}
+
+/**
+ * A keyword search hit.
+ */
+export interface BM25Result {
+  id: string;
+  score: number;
+}
+
+/**
+ * Okapi BM25 keyword index over documents or chunks.
+ * Build it once per dataset; scoring a query only touches documents containing its terms.
+ *
+ * @example
+ * ```typescript
+ * const index = new BM25Index(documents);
+ * index.search('potassium rich fruit', 3);
+ * // [{ id: '2', score: 2.31 }, ...]
+ * ```
+ */
+export class BM25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly stopwords: Set<string>;
+  /** term -> document id -> term frequency */
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly lengths = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(documents: Array<{ id: string; text: string }>, options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.stopwords = options.stopwords ?? ENGLISH_STOPWORDS;
+
+    let totalLength = 0;
+    for (const doc of documents) {
+      const tokens = tokenize(doc.text, this.stopwords);
+      this.lengths.set(doc.id, tokens.length);
+      totalLength += tokens.length;
+      for (const token of tokens) {
+        let posting = this.postings.get(token);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(token, posting);
+        }
+        posting.set(doc.id, (posting.get(doc.id) ?? 0) + 1);
+      }
+    }
+    this.averageLength = this.lengths.size > 0 ? totalLength / this.lengths.size : 0;
+  }
+
+  /** Number of indexed documents */
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  /**
+   * Inverse document frequency of a term (BM25+ variant, always positive).
+   */
+  private idf(term: string): number {
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    return Math.log(1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  /**
+   * Score all documents matching at least one query term.
+   * @returns BM25 score per document id (documents without matches are omitted)
+   */
+  scores(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenize(query, this.stopwords))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = this.idf(term);
+      for (const [id, frequency] of posting) {
+        const lengthNorm = 1 - this.b + this.b * (this.lengths.get(id)! / (this.averageLength || 1));
+        const termScore = (idf * frequency * (this.k1 + 1)) / (frequency + this.k1 * lengthNorm);
+        scores.set(id, (scores.get(id) ?? 0) + termScore);
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Find the `k` best matching documents, best first.
+   */
+  search(query: string, k: number): BM25Result[] {
+    return [...this.scores(query)]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
+
+/** BM25 indexes of datasets, with a fingerprint of the documents they were built from */
+const datasetIndexes = new Map<string, { fingerprint: string; index: BM25Index }>();
+
+/**
+ * Get the BM25 index of a dataset, building it only when the documents changed.
+ *
+ * @param cacheKey - Identifies the dataset (and chunking settings)
+ * @param documents - Current documents of the dataset
+ */
+export function loadBM25Index(
+  cacheKey: string,
+  documents: Array<{ id: string; text: string }>
+): BM25Index {
+  const fingerprint = contentHash(documents.map((doc) => `${doc.id}\u0000${doc.text}`).join('\u0000'));
+  const cached = datasetIndexes.get(cacheKey);
+  if (cached?.fingerprint === fingerprint) {
+    return cached.index;
+  }
+  const index = new BM25Index(documents);
+  datasetIndexes.set(cacheKey, { fingerprint, index });
+  return index;
+}
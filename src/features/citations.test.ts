@@ -0,0 +1,45 @@
+import { extractCitations, parseAnswer } from './citations';
+
+describe('features/citations', () => {
+  describe('parseAnswer', () => {
+    it('splits the answer into text and citations', () => {
+      expect(parseAnswer('Mangoes are sweet [1]. Bananas too [2, 5].', 2)).toEqual([
+        { type: 'text', text: 'Mangoes are sweet ' },
+        { type: 'citation', number: 1, valid: true },
+        { type: 'text', text: '. Bananas too ' },
+        { type: 'citation', number: 2, valid: true },
+        { type: 'citation', number: 5, valid: false },
+        { type: 'text', text: '.' },
+      ]);
+    });
+
+    it('treats [0] as invalid and leaves other brackets alone', () => {
+      expect(parseAnswer('See [0] and [note].', 3)).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'citation', number: 0, valid: false },
+        { type: 'text', text: ' and [note].' },
+      ]);
+    });
+  });
+
+  describe('extractCitations', () => {
+    const sources = [
+      { id: '1-chunk-2', text: 'Mango', documentId: '1', chunkIndex: 2, totalChunks: 3 },
+      { id: '4', text: 'Banana' },
+    ];
+
+    it('resolves cited sources once, in order of first citation', () => {
+      expect(extractCitations('Bananas [2]. Mangoes [1][2]. Kiwis [3].', sources)).toEqual({
+        citations: [
+          { number: 2, id: '4', documentId: '4' },
+          { number: 1, id: '1-chunk-2', documentId: '1', chunkIndex: 2 },
+        ],
+        invalid: [3],
+      });
+    });
+
+    it('returns no citations for uncited answers', () => {
+      expect(extractCitations('I do not know.', sources)).toEqual({ citations: [], invalid: [] });
+    });
+  });
+});
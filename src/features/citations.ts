@@ -0,0 +1,96 @@
+import type { PromptSource } from '../ai/prompt';
+
+/**
+ * Matches citation markers like `[1]` or `[1, 3]`.
+ */
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * A part of an answer: plain text or a citation of a context source.
+ */
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; number: number; valid: boolean };
+
+/**
+ * A source cited in an answer.
+ */
+export interface Citation {
+  /** Citation number as used in the answer (1-based position in the context) */
+  number: number;
+  /** Document or chunk id */
+  id: string;
+  /** ID of the original document */
+  documentId: string;
+  /** 0-based chunk index, for chunks */
+  chunkIndex?: number;
+}
+
+/**
+ * Citations found in an answer.
+ */
+export interface AnswerCitations {
+  /** Cited sources, in order of first citation */
+  citations: Citation[];
+  /** Cited numbers without a matching source */
+  invalid: number[];
+}
+
+/**
+ * Split an answer into text and citation segments.
+ * `[1, 3]` becomes two citation segments. A citation is valid when its number refers to one
+ * of the `sourceCount` sources passed to the model.
+ *
+ * @example
+ * ```typescript
+ * parseAnswer('Mangoes are sweet [1].', 1);
+ * // [{ type: 'text', text: 'Mangoes are sweet ' }, { type: 'citation', number: 1, valid: true }, { type: 'text', text: '.' }]
+ * ```
+ */
+export function parseAnswer(answer: string, sourceCount: number): AnswerSegment[] {
+  const segments: AnswerSegment[] = [];
+  let last = 0;
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      segments.push({ type: 'text', text: answer.slice(last, index) });
+    }
+    for (const value of match[1].split(',')) {
+      const number = parseInt(value, 10);
+      segments.push({ type: 'citation', number, valid: number >= 1 && number <= sourceCount });
+    }
+    last = index + match[0].length;
+  }
+  if (last < answer.length) {
+    segments.push({ type: 'text', text: answer.slice(last) });
+  }
+  return segments;
+}
+
+/**
+ * Resolve the citations of an answer to the sources that were passed to the model.
+ *
+ * @param answer - The generated answer
+ * @param sources - The context sources, in prompt order
+ * @returns Cited sources and citation numbers that don't reference a source
+ */
+export function extractCitations(answer: string, sources: PromptSource[]): AnswerCitations {
+  const citations: Citation[] = [];
+  const invalid: number[] = [];
+  for (const segment of parseAnswer(answer, sources.length)) {
+    if (segment.type !== 'citation') continue;
+    if (!segment.valid) {
+      if (!invalid.includes(segment.number)) invalid.push(segment.number);
+      continue;
+    }
+    if (citations.some((c) => c.number === segment.number)) continue;
+    const source = sources[segment.number - 1];
+    citations.push({
+      number: segment.number,
+      id: source.id,
+      documentId: source.documentId ?? source.id,
+      ...(source.chunkIndex !== undefined && { chunkIndex: source.chunkIndex }),
+    });
+  }
+  return { citations, invalid };
+}
@@ -0,0 +1,141 @@
+import { expandContext, joinChunkTexts } from './context-expansion';
+import type { Doc, ScoredDoc } from './enhanced-semantic-search';
+
+describe('features/context-expansion', () => {
+  // Document 1 in four chunks that overlap by one sentence
+  const sentences = ['One.', 'Two.', 'Three.', 'Four.', 'Five.'];
+  const chunk = (index: number, from: number, to: number): Doc => {
+    const text = sentences.slice(from, to).join(' ');
+    const startOffset =
+      sentences.slice(0, from).join(' ').length + (from > 0 ? 1 : 0);
+    return {
+      id: `1-chunk-${index}`,
+      text,
+      metadata: {
+        documentId: '1',
+        chunkIndex: index,
+        totalChunks: 4,
+        startOffset,
+        endOffset: startOffset + text.length,
+        isChunk: true,
+      },
+    };
+  };
+  const documents: Doc[] = [
+    chunk(0, 0, 2),
+    chunk(1, 1, 3),
+    chunk(2, 2, 4),
+    chunk(3, 3, 5),
+    {
+      id: '2',
+      text: 'A short document.',
+      metadata: { documentId: '2', isChunk: false },
+    },
+  ];
+  const hit = (id: string, score: number): ScoredDoc => ({
+    ...documents.find((doc) => doc.id === id)!,
+    score,
+  });
+
+  describe('joinChunkTexts', () => {
+    it('drops the text the second chunk repeats', () => {
+      expect(joinChunkTexts(documents[0], documents[1])).toBe(
+        'One. Two. Three.'
+      );
+    });
+
+    it('joins chunks that do not overlap with a space', () => {
+      expect(joinChunkTexts(documents[0], documents[2])).toBe(
+        'One. Two. Three. Four.'
+      );
+    });
+  });
+
+  describe('expandContext', () => {
+    it('keeps results as they are without expansion', () => {
+      const results = [hit('1-chunk-1', 0.9)];
+      expect(expandContext(results, documents, { mode: 'none' })).toBe(results);
+    });
+
+    it('adds the neighbouring chunks of a hit', () => {
+      const [result] = expandContext([hit('1-chunk-1', 0.9)], documents, {
+        mode: 'neighbors',
+      });
+      expect(result.text).toBe('One. Two. Three. Four.');
+      expect(result.contextChunkIds).toEqual([
+        '1-chunk-0',
+        '1-chunk-1',
+        '1-chunk-2',
+      ]);
+      expect(result.score).toBe(0.9);
+      expect(result.metadata?.chunkIndex).toBe(1);
+      expect(result.metadata?.startOffset).toBe(0);
+      expect(result.metadata?.endOffset).toBe('One. Two. Three. Four.'.length);
+    });
+
+    it('expands to the whole parent document', () => {
+      const [result] = expandContext([hit('1-chunk-3', 0.9)], documents, {
+        mode: 'document',
+      });
+      expect(result.text).toBe('One. Two. Three. Four. Five.');
+    });
+
+    it('stays within the token budget', () => {
+      // 'Two. Three. Four.' is 6 tokens for gpt-3.5-turbo, adding 'One.' or 'Five.' makes 8
+      const [result] = expandContext([hit('1-chunk-1', 0.9)], documents, {
+        mode: 'document',
+        maxTokens: 7,
+      });
+      expect(result.text).toBe('Two. Three. Four.');
+    });
+
+    it('merges hits whose ranges overlap into the best one', () => {
+      const results = expandContext(
+        [hit('1-chunk-0', 0.9), hit('2', 0.8), hit('1-chunk-2', 0.7)],
+        documents,
+        { mode: 'neighbors' }
+      );
+      expect(results.map((result) => result.id)).toEqual(['1-chunk-0', '2']);
+      expect(results[0].text).toBe('One. Two. Three. Four. Five.');
+      expect(results[0].score).toBe(0.9);
+      expect(results[1].text).toBe('A short document.');
+    });
+
+    it('keeps separate ranges of the same document apart', () => {
+      const results = expandContext(
+        [hit('1-chunk-0', 0.9), hit('1-chunk-3', 0.8)],
+        documents,
+        { mode: 'neighbors', window: 0 }
+      );
+      expect(results.map((result) => result.text)).toEqual([
+        'One. Two.',
+        'Four. Five.',
+      ]);
+    });
+
+    it('keeps touching ranges apart when the merged text exceeds the budget', () => {
+      // Merged, 'One.' to 'Five.' would be 10 tokens
+      const results = expandContext(
+        [hit('1-chunk-0', 0.9), hit('1-chunk-2', 0.8)],
+        documents,
+        { mode: 'neighbors', maxTokens: 7 }
+      );
+      expect(results.map((result) => result.text)).toEqual([
+        'One. Two. Three.',
+        'Three. Four. Five.',
+      ]);
+      expect(results[1].contextChunkIds).toEqual(['1-chunk-2', '1-chunk-3']);
+    });
+
+    it('drops a hit that is part of a better result if merging exceeds the budget', () => {
+      const results = expandContext(
+        [hit('1-chunk-0', 0.9), hit('1-chunk-1', 0.8)],
+        documents,
+        { mode: 'neighbors', maxTokens: 7 }
+      );
+      expect(results.map((result) => result.text)).toEqual([
+        'One. Two. Three.',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { getTokenizer, type Tokenizer } from '../ai/tokenizer';
+import type { Doc } from '../dataset/DocumentLoader';
+import type { ScoredDoc } from './enhanced-semantic-search';
+
+/**
+ * How chunk hits are expanded before they go to the model.
+ * - `none`: only the matching chunk
+ * - `neighbors`: the matching chunk and up to `window` chunks on each side
+ * - `document`: as much of the parent document as fits the token budget
+ */
+export type ContextExpansion = 'none' | 'neighbors' | 'document';
+
+/**
+ * Options for expanding chunk hits.
+ */
+export interface ContextExpansionOptions {
+  /** Expansion mode */
+  mode: ContextExpansion;
+  /** Neighbouring chunks added on each side in `neighbors` mode (default: 1) */
+  window?: number;
+  /** Token budget of each expanded hit, in tokens of the completion model (default: 1500) */
+  maxTokens?: number;
+}
+
+/**
+ * Join the texts of consecutive chunks, dropping the text the second chunk repeats from
+ * the end of the first. Overlap is only looked for when the offsets say the chunks overlap,
+ * so adjacent chunks that happen to share a word are not merged into each other.
+ */
+export function joinChunkTexts(
+  first: Doc,
+  second: Doc,
+  text = first.text
+): string {
+  const firstEnd = first.metadata?.endOffset;
+  const secondStart = second.metadata?.startOffset;
+  if (
+    firstEnd !== undefined &&
+    secondStart !== undefined &&
+    secondStart < firstEnd
+  ) {
+    for (
+      let length = Math.min(text.length, second.text.length);
+      length > 0;
+      length--
+    ) {
+      if (text.endsWith(second.text.slice(0, length))) {
+        return text + second.text.slice(length);
+      }
+    }
+  }
+  return `${text} ${second.text}`;
+}
+
+/**
+ * Text of a run of consecutive chunks, overlap removed.
+ */
+function mergeChunks(chunks: Doc[]): string {
+  let text = chunks[0].text;
+  for (let i = 1; i < chunks.length; i++) {
+    text = joinChunkTexts(chunks[i - 1], chunks[i], text);
+  }
+  return text;
+}
+
+/**
+ * Grow the range around a hit one chunk at a time, alternating after and before,
+ * while the merged text stays within the budget. The hit itself is always kept.
+ */
+function growRange(
+  chunks: Doc[],
+  hitIndex: number,
+  limit: { from: number; to: number },
+  maxTokens: number,
+  tokenizer: Tokenizer
+): { from: number; to: number } {
+  let from = hitIndex;
+  let to = hitIndex;
+  let canGrowAfter = to < limit.to;
+  let canGrowBefore = from > limit.from;
+  while (canGrowAfter || canGrowBefore) {
+    if (canGrowAfter) {
+      const fits =
+        tokenizer.count(mergeChunks(chunks.slice(from, to + 2))) <= maxTokens;
+      if (fits) to++;
+      canGrowAfter = fits && to < limit.to;
+    }
+    if (canGrowBefore) {
+      const fits =
+        tokenizer.count(mergeChunks(chunks.slice(from - 1, to + 1))) <=
+        maxTokens;
+      if (fits) from--;
+      canGrowBefore = fits && from > limit.from;
+    }
+  }
+  return { from, to };
+}
+
+/**
+ * Expand chunk hits with their neighbouring chunks or their parent document, so the model
+ * sees the text around a match. Ranges of hits from the same document that overlap or touch
+ * are merged into one result (at the position and with the score of the best hit) if the
+ * merged text fits the token budget; otherwise the worse hit keeps a separate range without
+ * the chunks of the better one. The overlap between chunks appears only once. Results that
+ * are not chunks are kept as they are.
+ *
+ * @param results - Search results, best first
+ * @param documents - All documents and chunks of the dataset, used to find the neighbours
+ * @param options - Expansion mode and token budget
+ * @returns Expanded results; `contextChunkIds` lists the chunks merged into each text
+ *
+ * @example
+ * ```typescript
+ * expandContext(results, documents, { mode: 'neighbors', window: 1, maxTokens: 1500 });
+ * ```
+ */
+export function expandContext(
+  results: ScoredDoc[],
+  documents: Doc[],
+  options: ContextExpansionOptions
+): ScoredDoc[] {
+  const { mode, window = 1, maxTokens = 1500 } = options;
+  if (mode === 'none') {
+    return results;
+  }
+
+  const tokenizer = getTokenizer();
+
+  // Chunks of each document, in document order
+  const chunksByDocument = new Map<string, Doc[]>();
+  for (const doc of documents) {
+    const documentId = doc.metadata?.documentId;
+    if (!doc.metadata?.isChunk || documentId === undefined) continue;
+    const chunks = chunksByDocument.get(documentId) ?? [];
+    chunks.push(doc);
+    chunksByDocument.set(documentId, chunks);
+  }
+  for (const chunks of chunksByDocument.values()) {
+    chunks.sort(
+      (a, b) => (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0)
+    );
+  }
+
+  // Ranges of chunk positions per document, each with the best hit inside it
+  interface Range {
+    from: number;
+    to: number;
+    hitIndex: number;
+    hit: ScoredDoc;
+  }
+  const touches = (a: Range, b: Range) =>
+    b.from <= a.to + 1 && b.to >= a.from - 1;
+
+  /**
+   * Resolve a range of a worse hit that touches a range of a better hit: merge them if the
+   * merged text fits the budget, else keep the worse range next to the better one without
+   * the chunks they share.
+   * @returns Whether the worse range remains a separate result
+   */
+  const keepSeparate = (
+    better: Range,
+    worse: Range,
+    chunks: Doc[]
+  ): boolean => {
+    const from = Math.min(better.from, worse.from);
+    const to = Math.max(better.to, worse.to);
+    if (tokenizer.count(mergeChunks(chunks.slice(from, to + 1))) <= maxTokens) {
+      better.from = from;
+      better.to = to;
+      return false;
+    }
+    if (worse.hitIndex >= better.from && worse.hitIndex <= better.to) {
+      return false; // Its hit is part of the better result already
+    }
+    if (worse.hitIndex > better.to) {
+      worse.from = Math.max(worse.from, better.to + 1);
+    } else {
+      worse.to = Math.min(worse.to, better.from - 1);
+    }
+    return true;
+  };
+
+  const rangesByDocument = new Map<string, Range[]>();
+  const slots: Array<ScoredDoc | Range> = [];
+  for (const result of results) {
+    const documentId = result.metadata?.documentId;
+    const chunks =
+      documentId !== undefined ? chunksByDocument.get(documentId) : undefined;
+    const hitIndex = chunks?.findIndex((chunk) => chunk.id === result.id) ?? -1;
+    if (!chunks || hitIndex === -1) {
+      slots.push(result);
+      continue;
+    }
+
+    const limit =
+      mode === 'document'
+        ? { from: 0, to: chunks.length - 1 }
+        : {
+            from: Math.max(0, hitIndex - window),
+            to: Math.min(chunks.length - 1, hitIndex + window),
+          };
+    const { from, to } = growRange(
+      chunks,
+      hitIndex,
+      limit,
+      maxTokens,
+      tokenizer
+    );
+
+    // Results are best first, so a range it touches holds a better hit
+    const range = { from, to, hitIndex, hit: result };
+    const ranges = rangesByDocument.get(documentId!) ?? [];
+    if (
+      ranges.every(
+        (other) => !touches(other, range) || keepSeparate(other, range, chunks)
+      )
+    ) {
+      ranges.push(range);
+      slots.push(range);
+    }
+    rangesByDocument.set(documentId!, ranges);
+  }
+
+  // Merged ranges can touch other ranges, so merge those as well where the budget allows
+  for (const [documentId, ranges] of rangesByDocument) {
+    const chunks = chunksByDocument.get(documentId)!;
+    let merged = true;
+    while (merged) {
+      merged = false;
+      for (let i = 0; i < ranges.length && !merged; i++) {
+        for (let j = i + 1; j < ranges.length && !merged; j++) {
+          const a = ranges[i];
+          const b = ranges[j];
+          if (touches(a, b) && !keepSeparate(a, b, chunks)) {
+            ranges.splice(j, 1);
+            slots.splice(slots.indexOf(b), 1);
+            merged = true;
+          }
+        }
+      }
+    }
+  }
+
+  return slots.map((slot) => {
+    if (!('hit' in slot)) {
+      return slot;
+    }
+    const { hit } = slot;
+    const chunks = chunksByDocument
+      .get(hit.metadata!.documentId!)!
+      .slice(slot.from, slot.to + 1);
+    return {
+      ...hit,
+      text: mergeChunks(chunks),
+      metadata: {
+        ...hit.metadata,
+        startOffset: chunks[0].metadata?.startOffset,
+        endOffset: chunks[chunks.length - 1].metadata?.endOffset,
+      },
+      contextChunkIds: chunks.map((chunk) => chunk.id),
+    };
+  });
+}
@@ -0,0 +1,193 @@
+import { askInConversation, historyMessages, rewriteFollowUpQuestion } from './conversation';
+import { semanticSearchEnhanced } from './enhanced-semantic-search';
+import { generateChatCompletion, generateRAGResponse } from '../ai/completions';
+import { MemoryConversationStore } from '../support/conversation-store';
+
+// Keep retrieval away from the embedding cache in data/
+jest.mock('./enhanced-semantic-search', () => ({
+  ...jest.requireActual('./enhanced-semantic-search'),
+  semanticSearchEnhanced: jest.fn(),
+}));
+
+jest.mock('../ai/completions', () => ({
+  ...jest.requireActual('../ai/completions'),
+  generateChatCompletion: jest.fn(),
+  generateRAGResponse: jest.fn(),
+}));
+
+const mockSearch = semanticSearchEnhanced as jest.MockedFunction<typeof semanticSearchEnhanced>;
+const mockChat = generateChatCompletion as jest.MockedFunction<typeof generateChatCompletion>;
+const mockRAG = generateRAGResponse as jest.MockedFunction<typeof generateRAGResponse>;
+
+describe('features/conversation', () => {
+  const turn = (question: string, answer: string) => ({
+    question,
+    standaloneQuestion: question,
+    answer,
+    sources: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    mockSearch.mockReset();
+    mockChat.mockReset();
+    mockRAG.mockReset();
+    mockSearch.mockResolvedValue([
+      {
+        id: '1-chunk-0',
+        text: 'Bananas are grown in Ecuador.',
+        embedding: [0.1, 0.2],
+        score: 0.8,
+        metadata: { documentId: '1', chunkIndex: 0, totalChunks: 1, isChunk: true },
+      },
+    ]);
+    mockRAG.mockImplementation(async (question, context) => ({
+      text: 'In Ecuador.',
+      messages: [],
+      context,
+    }));
+  });
+
+  describe('historyMessages', () => {
+    it('returns the most recent turns as user/assistant messages', () => {
+      const turns = [turn('Q1', 'A1'), turn('Q2', 'A2'), turn('Q3', 'A3')];
+      expect(historyMessages(turns, 2)).toEqual([
+        { role: 'user', content: 'Q2' },
+        { role: 'assistant', content: 'A2' },
+        { role: 'user', content: 'Q3' },
+        { role: 'assistant', content: 'A3' },
+      ]);
+    });
+  });
+
+  describe('rewriteFollowUpQuestion', () => {
+    it('keeps the first question as is', async () => {
+      expect(await rewriteFollowUpQuestion('Where are mangoes grown?', [])).toBe(
+        'Where are mangoes grown?'
+      );
+      expect(mockChat).not.toHaveBeenCalled();
+    });
+
+    it('rewrites follow-ups with the conversation', async () => {
+      mockChat.mockResolvedValue('"Where are bananas grown?"\n');
+      const rewritten = await rewriteFollowUpQuestion('and bananas?', [
+        turn('Where are mangoes grown?', 'In India.'),
+      ]);
+
+      expect(rewritten).toBe('Where are bananas grown?');
+      const [messages] = mockChat.mock.calls[0];
+      expect(messages[0].role).toBe('system');
+      expect(messages[1].content).toContain('User: Where are mangoes grown?\nAssistant: In India.');
+      expect(messages[1].content).toContain('Follow-up question: and bananas?');
+    });
+
+    it('falls back to the original question on empty output', async () => {
+      mockChat.mockResolvedValue('  ');
+      expect(await rewriteFollowUpQuestion('and bananas?', [turn('Q', 'A')])).toBe('and bananas?');
+    });
+  });
+
+  describe('askInConversation', () => {
+    it('starts a conversation and stores the turn', async () => {
+      const store = new MemoryConversationStore();
+      const reply = await askInConversation(store, {
+        dataSet: 'example-fruits',
+        question: 'Where are bananas grown?',
+      });
+
+      expect(mockSearch).toHaveBeenCalledWith('example-fruits', 'Where are bananas grown?', undefined);
+      expect(reply.turn).toMatchObject({
+        question: 'Where are bananas grown?',
+        standaloneQuestion: 'Where are bananas grown?',
+        answer: 'In Ecuador.',
+        sources: [{ id: '1-chunk-0', documentId: '1', chunkIndex: 0, totalChunks: 1, score: 0.8 }],
+      });
+      expect(reply.turn.sources[0]).not.toHaveProperty('embedding');
+      expect(await store.get(reply.conversation.id)).toEqual(reply.conversation);
+    });
+
+    it('keeps the sources sent to the model as the sources of the turn', async () => {
+      const [result] = await mockSearch('example-fruits', 'Where are bananas grown?');
+      mockSearch.mockResolvedValue([result, { ...result, id: '2-chunk-0', score: 0.7 }]);
+      // The second source didn't fit the context window
+      mockRAG.mockImplementation(async (question, context) => ({
+        text: 'In Ecuador [1].',
+        messages: [],
+        context: context.slice(0, 1),
+      }));
+
+      const reply = await askInConversation(new MemoryConversationStore(), {
+        dataSet: 'example-fruits',
+        question: 'Where are bananas grown?',
+      });
+
+      expect(reply.results).toHaveLength(2);
+      expect(reply.turn.sources.map((source) => source.id)).toEqual(['1-chunk-0']);
+    });
+
+    it('answers without context when no document is relevant', async () => {
+      mockSearch.mockResolvedValue([]);
+      const reply = await askInConversation(new MemoryConversationStore(), {
+        dataSet: 'example-fruits',
+        question: 'How do diesel engines work?',
+      });
+
+      expect(mockRAG).not.toHaveBeenCalled();
+      expect(reply.turn.sources).toEqual([]);
+      expect(reply.turn.answer).toContain('"example-fruits" dataset');
+    });
+
+    it('searches with the rewritten question and sends the history', async () => {
+      const store = new MemoryConversationStore();
+      const first = await askInConversation(store, {
+        dataSet: 'example-fruits',
+        question: 'Where are mangoes grown?',
+      });
+      mockRAG.mockImplementation(async (question, context) => ({
+        text: 'Mostly in Ecuador.',
+        messages: [],
+        context,
+      }));
+      mockChat.mockResolvedValue('Where are bananas grown?');
+
+      const followUp = await askInConversation(store, {
+        conversationId: first.conversation.id,
+        dataSet: 'example-fruits',
+        question: 'and bananas?',
+      });
+
+      expect(mockSearch).toHaveBeenLastCalledWith(
+        'example-fruits',
+        'Where are bananas grown?',
+        undefined
+      );
+      const [question, , options] = mockRAG.mock.calls[1];
+      expect(question).toBe('and bananas?');
+      expect(options?.history).toEqual([
+        { role: 'user', content: 'Where are mangoes grown?' },
+        { role: 'assistant', content: 'In Ecuador.' },
+      ]);
+      expect(followUp.conversation.id).toBe(first.conversation.id);
+      expect((await store.get(first.conversation.id))?.turns).toHaveLength(2);
+    });
+
+    it('starts a new conversation for unknown ids or another dataset', async () => {
+      const store = new MemoryConversationStore();
+      const first = await askInConversation(store, { dataSet: 'example-fruits', question: 'Q' });
+      const other = await askInConversation(store, {
+        conversationId: first.conversation.id,
+        dataSet: 'example-cars',
+        question: 'Q',
+      });
+      const unknown = await askInConversation(store, {
+        conversationId: 'missing',
+        dataSet: 'example-fruits',
+        question: 'Q',
+      });
+
+      expect(other.conversation.id).not.toBe(first.conversation.id);
+      expect(unknown.conversation.turns).toHaveLength(1);
+      expect(mockChat).not.toHaveBeenCalled();
+    });
+  });
+});
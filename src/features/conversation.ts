@@ -0,0 +1,173 @@
+import {
+  generateChatCompletion,
+  generateNoContextResponse,
+  generateRAGResponse,
+  type ChatMessage,
+} from '../ai/completions';
+import { loadPromptTemplates } from '../dataset/template-loader';
+import {
+  semanticSearchEnhanced,
+  toPromptSources,
+  type ScoredDoc,
+  type SearchConfig,
+} from './enhanced-semantic-search';
+import {
+  createConversation,
+  type Conversation,
+  type ConversationStore,
+  type ConversationTurn,
+} from '../support/conversation-store';
+
+const REWRITE_SYSTEM_PROMPT = `You rewrite follow-up questions for a search engine. Given a conversation and a follow-up question, rewrite the follow-up question as a standalone question that can be understood without the conversation. Keep the language of the question. Return only the rewritten question.`;
+
+/**
+ * Options for conversational question answering.
+ */
+export interface ConversationOptions {
+  /** Search configuration for retrieval */
+  searchConfig?: SearchConfig;
+  /** Number of previous turns passed to the model (default: 3) */
+  maxHistoryTurns?: number;
+}
+
+/**
+ * Result of asking a question in a conversation.
+ */
+export interface ConversationReply {
+  /** The updated conversation, including the new turn */
+  conversation: Conversation;
+  /** The new turn */
+  turn: ConversationTurn;
+  /** Documents retrieved for the standalone question */
+  results: ScoredDoc[];
+}
+
+/**
+ * Convert the last turns of a conversation to alternating user/assistant messages.
+ *
+ * @param turns - Previous turns, oldest first
+ * @param maxTurns - Number of most recent turns to include
+ */
+export function historyMessages(turns: ConversationTurn[], maxTurns: number = 3): ChatMessage[] {
+  return turns.slice(-maxTurns).flatMap((turn) => [
+    { role: 'user' as const, content: turn.question },
+    { role: 'assistant' as const, content: turn.answer },
+  ]);
+}
+
+/**
+ * Rewrite a follow-up question into a standalone search query using the completion provider.
+ * Returns the question unchanged when there is no history or the model returns nothing usable.
+ *
+ * @param question - The follow-up question, e.g. "and how about bananas?"
+ * @param turns - Previous turns of the conversation
+ * @param maxTurns - Number of most recent turns to consider
+ * @returns Standalone question, e.g. "Which countries produce the most bananas?"
+ */
+export async function rewriteFollowUpQuestion(
+  question: string,
+  turns: ConversationTurn[],
+  maxTurns: number = 3
+): Promise<string> {
+  if (turns.length === 0) {
+    return question;
+  }
+
+  const transcript = turns
+    .slice(-maxTurns)
+    .map((turn) => `User: ${turn.question}\nAssistant: ${turn.answer}`)
+    .join('\n\n');
+  const rewritten = await generateChatCompletion(
+    [
+      { role: 'system', content: REWRITE_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Conversation:\n${transcript}\n\nFollow-up question: ${question}\n\nStandalone question:`,
+      },
+    ],
+    { temperature: 0.1, maxTokens: 200 }
+  );
+
+  const firstLine = rewritten.trim().split('\n')[0] ?? '';
+  const cleaned = firstLine.replace(/^standalone question:\s*/i, '').replace(/^["']|["']$/g, '').trim();
+  return cleaned || question;
+}
+
+/**
+ * Ask a question within a conversation.
+ * Loads the conversation (or starts a new one), rewrites follow-up questions into standalone
+ * queries for retrieval, passes previous turns to the model as chat messages and stores the
+ * new turn.
+ *
+ * @param store - Where conversations are persisted
+ * @param request - Dataset, question and optional id of an existing conversation
+ * @param options - Search configuration and history length
+ * @returns The updated conversation, the new turn and the retrieved documents
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryConversationStore();
+ * const first = await askInConversation(store, { dataSet: 'example-fruits', question: 'Where are mangoes grown?' });
+ * const followUp = await askInConversation(store, {
+ *   conversationId: first.conversation.id,
+ *   dataSet: 'example-fruits',
+ *   question: 'and how about bananas?',
+ * });
+ * console.log(followUp.turn.standaloneQuestion); // "Where are bananas grown?"
+ * ```
+ */
+export async function askInConversation(
+  store: ConversationStore,
+  request: { conversationId?: string; dataSet: string; question: string },
+  options: ConversationOptions = {}
+): Promise<ConversationReply> {
+  const maxHistoryTurns = options.maxHistoryTurns ?? 3;
+  const existing = request.conversationId ? await store.get(request.conversationId) : null;
+  const conversation =
+    existing && existing.dataSet === request.dataSet ? existing : createConversation(request.dataSet);
+
+  const standaloneQuestion = await rewriteFollowUpQuestion(
+    request.question,
+    conversation.turns,
+    maxHistoryTurns
+  );
+  const results = await semanticSearchEnhanced(
+    request.dataSet,
+    standaloneQuestion,
+    options.searchConfig
+  );
+
+  const templates = await loadPromptTemplates(request.dataSet);
+  const history = historyMessages(conversation.turns, maxHistoryTurns);
+  const { text: answer, context } =
+    results.length > 0
+      ? await generateRAGResponse(request.question, toPromptSources(results), {
+          ...templates,
+          history,
+        })
+      : {
+          ...(await generateNoContextResponse(request.question, request.dataSet, { history })),
+          context: [],
+        };
+
+  const turn: ConversationTurn = {
+    question: request.question,
+    standaloneQuestion,
+    answer,
+    // The answer cites the sources sent to the model, which may be fewer than the results
+    sources: results.slice(0, context.length).map(({ id, text, score, metadata }) => ({
+      id,
+      text,
+      score,
+      documentId: metadata?.documentId,
+      chunkIndex: metadata?.chunkIndex,
+      totalChunks: metadata?.totalChunks,
+    })),
+    createdAt: new Date().toISOString(),
+  };
+  conversation.turns.push(turn);
+  conversation.updatedAt = turn.createdAt;
+  await store.save(conversation);
+
+  return { conversation, turn, results };
+}
@@ -3,8 +3,11 @@ import {
   highlightKeywords,
   findRelevantDocsEnhanced,
   type Doc,
-  type ScoredDoc
+  type ScoredDoc,
+  type SearchTrace
 } from './enhanced-semantic-search';
+import * as completions from '../ai/completions';
+import { createVectorIndex } from '../support/vector-index';
 
 // Mock the AI modules
 jest.mock('../ai/embeddings', () => ({
@@ -17,7 +20,8 @@ jest.mock('../ai/embeddings', () => ({
     const sumA = a.reduce((sum, val) => sum + val, 0);
     const sumB = b.reduce((sum, val) => sum + val, 0);
     return 1 - Math.abs(sumA - sumB) / Math.max(sumA, sumB);
-  })
+  }),
+  defaultMinSimilarity: jest.fn().mockReturnValue(0)
 }));
 
 describe('enhanced-semantic-search', () => {
@@ -139,6 +143,94 @@ describe('enhanced-semantic-search', () => {
       expect(results[0].score).toBeGreaterThan(results[1].score);
     });
 
+    it('should combine scores with reciprocal rank fusion', async () => {
+      const results = await findRelevantDocsEnhanced(
+        mockDocs,
+        'API timeout',
+        { maxResults: 3, enableHybridSearch: true, embeddingWeight: 0.5, fusion: 'rrf' }
+      );
+
+      // Doc 2 has the best embedding score but no keyword match
+      expect(results.map(r => r.id)).toEqual(['1', '3', '2']);
+    });
+
+    it('should rerank the top candidates with the configured reranker', async () => {
+      const retrieved = await findRelevantDocsEnhanced(mockDocs, 'timeout value', {
+        maxResults: 3,
+        enableHybridSearch: false,
+      });
+      expect(retrieved[0].id).toBe('2'); // Closest embedding, but no query terms
+
+      const reranked = await findRelevantDocsEnhanced(mockDocs, 'timeout value', {
+        maxResults: 3,
+        enableHybridSearch: false,
+        reranker: 'heuristic',
+      });
+      expect(reranked.map(r => r.id)).toEqual(['3', '1', '2']);
+      expect(reranked[0].retrievalScore).toBe(retrieved.find(r => r.id === '3')!.score);
+    });
+
+    it('should drop documents below the minimum similarity', async () => {
+      // Mock similarities to 'timeout value': doc 2 0.29, doc 1 0.26, doc 3 0.25
+      const results = await findRelevantDocsEnhanced(mockDocs, 'timeout value', {
+        maxResults: 3,
+        minSimilarity: 0.255,
+      });
+      expect(results.map(r => r.id).sort()).toEqual(['1', '2']);
+      results.forEach(result => {
+        expect(result.similarity).toBeGreaterThanOrEqual(0.255);
+      });
+
+      const none = await findRelevantDocsEnhanced(mockDocs, 'timeout value', {
+        maxResults: 3,
+        minSimilarity: 0.5,
+      });
+      expect(none).toEqual([]);
+    });
+
+    it('should only score documents matching the metadata filters', async () => {
+      const docs: Doc[] = mockDocs.map((doc, i) => ({
+        ...doc,
+        metadata: { documentId: doc.id, tags: i === 1 ? ['auth'] : ['config'] },
+      }));
+      const index = createVectorIndex('flat');
+      docs.forEach(doc => index.add(doc.id, doc.embedding!));
+
+      const results = await findRelevantDocsEnhanced(
+        docs,
+        'API timeout',
+        { maxResults: 3, filters: [{ field: 'tags', equals: 'auth' }] },
+        { vector: index }
+      );
+      expect(results.map(r => r.id)).toEqual(['2']);
+    });
+
+    it('should retrieve with generated query variants and report them', async () => {
+      const chat = jest
+        .spyOn(completions, 'generateChatCompletion')
+        .mockResolvedValue('Authentication requires a valid JWT token.');
+      try {
+        const trace: SearchTrace = {};
+        const results = await findRelevantDocsEnhanced(
+          mockDocs,
+          'login',
+          { maxResults: 1, enableHybridSearch: false, hyde: true },
+          {},
+          trace
+        );
+
+        expect(trace.queryVariants).toEqual([
+          { kind: 'original', text: 'login' },
+          { kind: 'hyde', text: 'Authentication requires a valid JWT token.' },
+        ]);
+        // The hypothetical answer embeds close to document 2, unlike the short query
+        expect(results[0].id).toBe('2');
+        expect(results[0].similarity).toBeGreaterThan(0.9);
+      } finally {
+        chat.mockRestore();
+      }
+    });
+
     it('should work with embedding-only search', async () => {
       const results = await findRelevantDocsEnhanced(
         mockDocs,
@@ -212,6 +304,31 @@ describe('enhanced-semantic-search', () => {
       expect(doc2Chunks.length).toBeGreaterThan(0);
     });
 
+    it('should score only index candidates and keyword matches with a vector index', async () => {
+      const index = createVectorIndex('flat');
+      index.add('2', mockDocs[1].embedding!);
+      const search = jest.spyOn(index, 'search');
+
+      const results = await findRelevantDocsEnhanced(
+        mockDocs,
+        'timeout',
+        { maxResults: 3, enableHybridSearch: true },
+        { vector: index }
+      );
+
+      expect(search).toHaveBeenCalledWith(expect.any(Array), 50);
+      // Doc 2 comes from the index, docs 1 and 3 from keyword matching
+      expect(results.map((r) => r.id).sort()).toEqual(['1', '2', '3']);
+
+      const embeddingOnly = await findRelevantDocsEnhanced(
+        mockDocs,
+        'timeout',
+        { maxResults: 3, enableHybridSearch: false },
+        { vector: index }
+      );
+      expect(embeddingOnly.map((r) => r.id)).toEqual(['2']);
+    });
+
     it('should respect max results limit', async () => {
       const results = await findRelevantDocsEnhanced(
         mockDocs,
@@ -3,9 +3,19 @@ import {
   DocumentLoader,
 } from '../dataset/DocumentLoader';
 import { ChunkedDocumentLoader } from '../dataset/ChunkedDocumentLoader';
-import { generateEmbedding, cosineSimilarity } from '../ai/embeddings';
-import { EmbeddingCacheAI } from '../support/embedding-cache';
-import { estimateTokens } from '../dataset/document-chunker';
+import type { ChunkStrategy } from '../dataset/document-chunker';
+import { generateEmbedding, cosineSimilarity, defaultMinSimilarity } from '../ai/embeddings';
+import { formatSource, type PromptSource } from '../ai/prompt';
+import { EmbeddingCache, type EmbedOptions } from '../support/embedding-cache';
+import { loadDocumentIndex } from '../support/document-index';
+import type { VectorIndex, VectorIndexType } from '../support/vector-index';
+import { BM25Index, loadBM25Index } from './bm25';
+import { fuseRankings, fuseScores, type FusionMethod } from './score-fusion';
+import { createReranker, type RerankerType } from './reranking';
+import { maximalMarginalRelevance } from './mmr';
+import { applyMetadataFilters, type MetadataFilter } from './metadata-filter';
+import { expandQuery, type QueryVariant } from './query-expansion';
+import { expandContext, type ContextExpansion } from './context-expansion';
 
 // Re-export for compatibility
 export { cosineSimilarity };
@@ -16,13 +26,13 @@ export type { Doc };
  */
 export interface ScoredDoc extends Doc {
   score: number;
+  /** Cosine similarity between the query and document embeddings */
+  similarity?: number;
+  /** Score from the initial retrieval, set when a reranker replaced `score` */
+  retrievalScore?: number;
   highlights?: string[];
-  metadata?: {
-    documentId?: string;
-    chunkIndex?: number;
-    totalChunks?: number;
-    isChunk?: boolean;
-  };
+  /** Ids of the chunks merged into `text` by context expansion */
+  contextChunkIds?: string[];
 }
 
 /**
@@ -37,21 +47,94 @@ export interface SearchConfig {
   overlapTokens?: number;
   /** Whether to preserve sentence boundaries */
   preserveSentences?: boolean;
+  /** How large documents are split: by sentences/words, markdown structure or topic changes (default: text) */
+  chunkStrategy?: ChunkStrategy;
   /** Whether to enable hybrid search (combining embeddings with keywords) */
   enableHybridSearch?: boolean;
   /** Weight for embedding similarity (0-1, remainder goes to keyword score) */
   embeddingWeight?: number;
+  /** How embedding and BM25 keyword scores are combined in hybrid search (default: weighted) */
+  fusion?: FusionMethod;
+  /** Vector index for embedding search: exact `flat` or approximate `hnsw` (default: VECTOR_INDEX env or flat) */
+  vectorIndex?: VectorIndexType;
+  /** Reranker applied to the top candidates after retrieval (default: none) */
+  reranker?: RerankerType;
+  /** Number of top candidates passed to the reranker (default: 10) */
+  rerankCandidates?: number;
+  /**
+   * How redundant results are avoided (default: document):
+   * - `document`: at most half of the results from one document
+   * - `mmr`: Maximal Marginal Relevance over the chunk embeddings, which also skips
+   *   near-duplicate chunks of different documents
+   */
+  diversification?: DiversificationMethod;
+  /** MMR trade-off between relevance (1) and novelty (0) (default: 0.7) */
+  mmrLambda?: number;
+  /**
+   * Minimum cosine similarity between query and result; less similar documents are dropped
+   * even if that leaves no results (default: per embedding model, see defaultMinSimilarity())
+   */
+  minSimilarity?: number;
+  /** Metadata conditions documents must all satisfy; applied before scoring (default: none) */
+  filters?: MetadataFilter[];
+  /** Number of query paraphrases generated with the completion model for retrieval (default: 0) */
+  queryParaphrases?: number;
+  /** Also retrieve with a generated hypothetical answer (HyDE) (default: false) */
+  hyde?: boolean;
+  /** Expand chunk hits with neighbouring chunks or the parent document (default: none) */
+  contextExpansion?: ContextExpansion;
+  /** Neighbouring chunks added on each side of a hit with `neighbors` expansion (default: 1) */
+  contextWindow?: number;
+  /** Token budget of each expanded hit (default: 1500) */
+  contextMaxTokens?: number;
 }
 
+/**
+ * Strategies for diversifying search results (see SearchConfig.diversification).
+ */
+export type DiversificationMethod = 'document' | 'mmr';
+
 const DEFAULT_CONFIG: Required<SearchConfig> = {
   maxResults: 2,
   maxTokensPerChunk: 500,
   overlapTokens: 100,
   preserveSentences: true,
+  chunkStrategy: 'text',
   enableHybridSearch: true,
   embeddingWeight: 0.7,
+  fusion: 'weighted',
+  vectorIndex: 'flat',
+  reranker: 'none',
+  rerankCandidates: 10,
+  diversification: 'document',
+  mmrLambda: 0.7,
+  minSimilarity: 0,
+  filters: [],
+  queryParaphrases: 0,
+  hyde: false,
+  contextExpansion: 'none',
+  contextWindow: 1,
+  contextMaxTokens: 1500,
 };
 
+/**
+ * Merge a partial search configuration with the defaults.
+ * Returns the effective configuration used by the search pipeline.
+ */
+export function resolveSearchConfig(
+  config: SearchConfig = {}
+): Required<SearchConfig> {
+  const vectorIndex = process.env.VECTOR_INDEX === 'hnsw' ? 'hnsw' : DEFAULT_CONFIG.vectorIndex;
+  const minSimilarity = config.minSimilarity ?? defaultMinSimilarity();
+  return { ...DEFAULT_CONFIG, vectorIndex, ...config, minSimilarity };
+}
+
+/**
+ * Minimum number of candidates retrieved from a vector index before hybrid scoring,
+ * and considered by MMR diversification.
+ */
+const MIN_INDEX_CANDIDATES = 50;
+
 /**
  * Load documents with automatic chunking for large documents
  */
@@ -59,11 +142,12 @@ export async function loadDocsWithChunking(
   dataSet: string,
   config: SearchConfig = {}
 ): Promise<Doc[]> {
-  const mergedConfig = { ...DEFAULT_CONFIG, ...config };
+  const mergedConfig = resolveSearchConfig(config);
   const loader = new ChunkedDocumentLoader({
     maxTokens: mergedConfig.maxTokensPerChunk,
     overlapTokens: mergedConfig.overlapTokens,
     preserveSentences: mergedConfig.preserveSentences,
+    strategy: mergedConfig.chunkStrategy,
   });
   
   return loader.loadDocuments(dataSet);
@@ -72,6 +156,8 @@ export async function loadDocsWithChunking(
 /**
  * Simple keyword scoring function
  * Returns a score based on term frequency and exact matches
+ *
+ * @deprecated Hybrid search uses BM25Index, whose scores can be combined with embedding similarity
  */
 export function calculateKeywordScore(query: string, text: string): number {
   const queryLower = query.toLowerCase();
@@ -143,55 +229,213 @@ export function highlightKeywords(query: string, text: string): string[] {
 }
 
 /**
- * Enhanced version of findRelevantDocs with hybrid search support
+ * Indexes used by findRelevantDocsEnhanced().
+ */
+export interface SearchIndexes {
+  /** Vector index over the documents (ids are document ids) */
+  vector?: VectorIndex;
+  /** BM25 index over the documents, built on the fly for hybrid search when omitted */
+  keyword?: BM25Index;
+}
+
+/**
+ * Details of a search, filled in by the search functions for debugging.
+ */
+export interface SearchTrace {
+  /** Queries the documents were retrieved with: the original query and generated variants */
+  queryVariants?: QueryVariant[];
+}
+
+/**
+ * Enhanced version of findRelevantDocs with hybrid search support.
+ * Hybrid search combines cosine similarity with BM25 keyword scores using the configured
+ * fusion method (see fuseScores()).
+ * Without a vector index, every document is scored. With a vector index, only the nearest
+ * neighbours of the query (plus the best keyword matches for hybrid search) are scored.
+ * Metadata filters restrict the documents before scoring.
+ * With query expansion (`queryParaphrases`, `hyde`), every query variant is scored this way
+ * and the rankings are fused with reciprocal rank fusion.
+ * Documents less similar to the query than `minSimilarity` are never returned, so the
+ * result is empty when the dataset doesn't cover the query.
+ * With a reranker configured, the top `rerankCandidates` are reordered by the reranker
+ * before diversification (per-document cap or MMR, see SearchConfig.diversification).
+ * With context expansion, chunk hits are finally widened to their neighbouring chunks or
+ * parent document (see expandContext()); hits whose ranges overlap become one result.
+ *
+ * @param documents - Documents to search (with embeddings)
+ * @param query - The search query
+ * @param config - Search configuration
+ * @param indexes - Prebuilt vector and keyword indexes over the documents
+ * @param trace - Filled with the query variants used for retrieval
  */
 export async function findRelevantDocsEnhanced(
   documents: Doc[],
   query: string,
-  config: SearchConfig = {}
+  config: SearchConfig = {},
+  indexes: SearchIndexes = {},
+  trace?: SearchTrace
 ): Promise<ScoredDoc[]> {
-  const mergedConfig = { ...DEFAULT_CONFIG, ...config };
-  
-  // Generate query embedding
-  const queryEmbedding = await generateEmbedding(query);
-  
-  // Score all documents
-  const scoredDocs: ScoredDoc[] = documents.map((doc) => {
-    // Calculate embedding similarity
-    const embeddingScore = doc.embedding 
-      ? cosineSimilarity(doc.embedding, queryEmbedding)
-      : 0;
-    
-    // Calculate keyword score if hybrid search is enabled
-    let keywordScore = 0;
-    let highlights: string[] = [];
-    
-    if (mergedConfig.enableHybridSearch) {
-      keywordScore = calculateKeywordScore(query, doc.text);
-      highlights = highlightKeywords(query, doc.text);
+  const mergedConfig = resolveSearchConfig(config);
+  const searchable = applyMetadataFilters(documents, mergedConfig.filters);
+
+  // Retrieve with the query and its generated variants, fusing the rankings
+  const variants = await expandQuery(query, {
+    paraphrases: mergedConfig.queryParaphrases,
+    hyde: mergedConfig.hyde,
+  });
+  if (trace) {
+    trace.queryVariants = variants;
+  }
+  const variantScores: Array<Map<string, QueryScore>> = [];
+  for (const variant of variants) {
+    variantScores.push(
+      await scoreQuery(variant.text, documents, searchable, mergedConfig, indexes)
+    );
+  }
+  const scores =
+    variantScores.length === 1
+      ? new Map([...variantScores[0]].map(([id, { score }]) => [id, score]))
+      : fuseRankings(
+          variantScores.map(
+            (ranking) => new Map([...ranking].map(([id, { score }]) => [id, score]))
+          )
+        );
+  // A document is as similar as its most similar query variant
+  const similarities = new Map<string, number>();
+  for (const ranking of variantScores) {
+    for (const [id, { similarity }] of ranking) {
+      similarities.set(id, Math.max(similarities.get(id) ?? -Infinity, similarity));
     }
-    
-    // Combine scores
-    const combinedScore = mergedConfig.enableHybridSearch
-      ? (embeddingScore * mergedConfig.embeddingWeight) + 
-        (keywordScore * (1 - mergedConfig.embeddingWeight))
-      : embeddingScore;
-    
-    return {
+  }
+
+  const scoredDocs: ScoredDoc[] = searchable
+    .filter((doc) => scores.has(doc.id))
+    .map((doc) => ({
       ...doc,
-      score: combinedScore,
-      highlights,
-      metadata: (doc as any).metadata,
-    };
-  });
+      score: scores.get(doc.id)!,
+      similarity: similarities.get(doc.id),
+      highlights: mergedConfig.enableHybridSearch ? highlightKeywords(query, doc.text) : [],
+    }));
   
   // Sort by score and apply result diversification
   scoredDocs.sort((a, b) => b.score - a.score);
+
+  // Rerank the top candidates; the rest keep their retrieval order behind them
+  const reranker = createReranker(mergedConfig.reranker);
+  const rankedDocs = reranker
+    ? [
+        ...(await reranker.rerank(query, scoredDocs.slice(0, mergedConfig.rerankCandidates))),
+        ...scoredDocs.slice(mergedConfig.rerankCandidates),
+      ]
+    : scoredDocs;
   
-  // If we have chunks, apply diversity to avoid too many chunks from same document
-  const diversifiedResults = applyResultDiversification(scoredDocs, mergedConfig.maxResults);
-  
-  return diversifiedResults;
+  let diversifiedResults: ScoredDoc[];
+  if (mergedConfig.diversification === 'mmr') {
+    const pool = rankedDocs.slice(0, Math.max(mergedConfig.maxResults * 10, MIN_INDEX_CANDIDATES));
+    diversifiedResults = maximalMarginalRelevance(pool, mergedConfig.maxResults, mergedConfig.mmrLambda);
+  } else {
+    // If we have chunks, apply diversity to avoid too many chunks from same document
+    diversifiedResults = applyResultDiversification(rankedDocs, mergedConfig.maxResults);
+  }
+
+  return expandContext(diversifiedResults, documents, {
+    mode: mergedConfig.contextExpansion,
+    window: mergedConfig.contextWindow,
+    maxTokens: mergedConfig.contextMaxTokens,
+  });
+}
+
+/**
+ * Score of a document for one query.
+ */
+interface QueryScore {
+  /** Fused embedding and keyword score (embedding similarity without hybrid search) */
+  score: number;
+  /** Cosine similarity between query and document */
+  similarity: number;
+}
+
+/**
+ * Score the candidates for one query: embedding similarity, combined with BM25 keyword
+ * scores for hybrid search. Documents below the minimum similarity are left out.
+ */
+async function scoreQuery(
+  query: string,
+  documents: Doc[],
+  searchable: Doc[],
+  config: Required<SearchConfig>,
+  indexes: SearchIndexes
+): Promise<Map<string, QueryScore>> {
+  const filtered = searchable !== documents;
+  const queryEmbedding = await generateEmbedding(query);
+
+  // BM25 scores of the documents matching the query terms
+  const keywordScores = config.enableHybridSearch
+    ? (indexes.keyword ?? new BM25Index(documents)).scores(query)
+    : new Map<string, number>();
+  if (filtered) {
+    const searchableIds = new Set(searchable.map((doc) => doc.id));
+    for (const id of keywordScores.keys()) {
+      if (!searchableIds.has(id)) keywordScores.delete(id);
+    }
+  }
+
+  // Filtered searches score all matching documents, as the index neighbours may not match
+  const candidates = indexes.vector && !filtered
+    ? selectIndexCandidates(
+        documents,
+        queryEmbedding,
+        keywordScores,
+        indexes.vector,
+        config.maxResults
+      )
+    : searchable;
+
+  // Calculate embedding similarity of the candidates, dropping those below the threshold
+  const embeddingScores = new Map(
+    candidates
+      .map((doc): [string, number] => [
+        doc.id,
+        doc.embedding ? cosineSimilarity(doc.embedding, queryEmbedding) : 0,
+      ])
+      .filter(([, similarity]) => similarity >= config.minSimilarity)
+  );
+
+  // Combine scores
+  const scores = config.enableHybridSearch
+    ? fuseScores(embeddingScores, keywordScores, {
+        method: config.fusion,
+        embeddingWeight: config.embeddingWeight,
+      })
+    : embeddingScores;
+
+  return new Map(
+    [...embeddingScores].map(([id, similarity]) => [
+      id,
+      { score: scores.get(id) ?? 0, similarity },
+    ])
+  );
+}
+
+/**
+ * Pick the documents to score: the nearest neighbours from the vector index and,
+ * for hybrid search, the best keyword matches (which may be missing from the index).
+ * Keeps the document order so ties are broken the same way as without an index.
+ */
+function selectIndexCandidates(
+  documents: Doc[],
+  queryEmbedding: number[],
+  keywordScores: Map<string, number>,
+  index: VectorIndex,
+  maxResults: number
+): Doc[] {
+  const candidateCount = Math.max(maxResults * 10, MIN_INDEX_CANDIDATES);
+  const ids = new Set(index.search(queryEmbedding, candidateCount).map((hit) => hit.id));
+  [...keywordScores]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, candidateCount)
+    .forEach(([id]) => ids.add(id));
+  return documents.filter((doc) => ids.has(doc.id));
 }
 
 /**
@@ -235,17 +479,43 @@ function applyResultDiversification(
   return results;
 }
 
+/**
+ * Convert search results to prompt sources (text plus score and chunk metadata).
+ */
+export function toPromptSources(results: ScoredDoc[]): PromptSource[] {
+  return results.map((result) => ({
+    id: result.id,
+    text: result.text,
+    score: result.score,
+    documentId: result.metadata?.documentId,
+    ...(result.metadata?.isChunk && {
+      chunkIndex: result.metadata.chunkIndex ?? 0,
+      totalChunks: result.metadata.totalChunks,
+    }),
+  }));
+}
+
+/**
+ * Format search results as context passages for the completion prompt.
+ * Chunks are prefixed with their document and chunk position.
+ */
+export function formatResultsAsContext(results: ScoredDoc[]): string[] {
+  return toPromptSources(results).map(formatSource);
+}
+
 /**
  * Embed all documents with caching support (works with chunks)
+ * @param options - Batching, retries and progress callback for new embeddings (with a dataSet)
  */
 export async function embedAllDocsEnhanced(
   documents: Doc[],
-  dataSet?: string
+  dataSet?: string,
+  options: EmbedOptions = {}
 ): Promise<void> {
   if (dataSet) {
-    const cache = new EmbeddingCacheAI(dataSet);
+    const cache = new EmbeddingCache(dataSet);
     const cachedCount = await cache.loadCachedEmbeddings(documents);
-    const newEmbeddings = await cache.embedDocuments(documents);
+    const newEmbeddings = await cache.embedDocuments(documents, options);
     console.log(
       `Embeddings: ${cachedCount} loaded from cache, ${newEmbeddings} newly created`
     );
@@ -264,14 +534,26 @@ export async function embedAllDocsEnhanced(
 export async function semanticSearchEnhanced(
   dataSet: string,
   query: string,
-  config: SearchConfig = {}
+  config: SearchConfig = {},
+  trace?: SearchTrace
 ): Promise<ScoredDoc[]> {
   // Load documents with chunking
   const documents = await loadDocsWithChunking(dataSet, config);
   
   // Embed all documents (with caching)
   await embedAllDocsEnhanced(documents, dataSet);
+
+  // Bring the vector and keyword indexes up to date with the documents
+  const mergedConfig = resolveSearchConfig(config);
+  // The chunks depend on the chunking config, so each config gets its own indexes
+  const variant = `chunks:${mergedConfig.maxTokensPerChunk}:${mergedConfig.overlapTokens}:${mergedConfig.preserveSentences}:${mergedConfig.chunkStrategy}`;
+  const vector = await loadDocumentIndex(dataSet, documents, mergedConfig.vectorIndex, {
+    variant,
+  });
+  const keyword = mergedConfig.enableHybridSearch
+    ? loadBM25Index(`${dataSet}:${variant}`, documents)
+    : undefined;
   
   // Find relevant documents with enhanced search
-  return findRelevantDocsEnhanced(documents, query, config);
+  return findRelevantDocsEnhanced(documents, query, config, { vector, keyword }, trace);
 }
\ No newline at end of file
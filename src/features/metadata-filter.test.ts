@@ -0,0 +1,83 @@
+import { applyMetadataFilters, matchesFilter } from './metadata-filter';
+import type { Doc } from '../dataset/DocumentLoader';
+
+describe('features/metadata-filter', () => {
+  const docs: Doc[] = [
+    {
+      id: '1',
+      text: 'Mango is a stone fruit.',
+      metadata: {
+        tags: ['tropical', 'stone fruit'],
+        language: 'en',
+        date: '2024-05-01',
+      },
+    },
+    {
+      id: '2',
+      text: 'Die Banane ist eine Beere.',
+      metadata: { tags: ['tropical'], language: 'de', date: '2023-11-15' },
+    },
+    { id: '3', text: 'Apples grow on trees.', metadata: { language: 'en' } },
+    { id: '4', text: 'No metadata.' },
+  ];
+  const ids = (result: Doc[]) => result.map((doc) => doc.id);
+
+  describe('matchesFilter', () => {
+    it('matches values and any tag', () => {
+      expect(matchesFilter(docs[0], { field: 'language', equals: 'en' })).toBe(
+        true
+      );
+      expect(
+        matchesFilter(docs[0], { field: 'tags', equals: 'stone fruit' })
+      ).toBe(true);
+      expect(
+        matchesFilter(docs[1], { field: 'tags', in: ['citrus', 'tropical'] })
+      ).toBe(true);
+      expect(
+        matchesFilter(docs[1], { field: 'language', in: ['en', 'fr'] })
+      ).toBe(false);
+    });
+
+    it('matches inclusive date ranges', () => {
+      expect(
+        matchesFilter(docs[0], { field: 'date', from: '2024-05-01' })
+      ).toBe(true);
+      expect(matchesFilter(docs[0], { field: 'date', to: '2024-04-30' })).toBe(
+        false
+      );
+      expect(
+        matchesFilter(docs[1], {
+          field: 'date',
+          from: '2023-01-01',
+          to: '2023-12-31',
+        })
+      ).toBe(true);
+    });
+
+    it('never matches documents without the field', () => {
+      expect(matchesFilter(docs[2], { field: 'tags', in: ['tropical'] })).toBe(
+        false
+      );
+      expect(
+        matchesFilter(docs[3], { field: 'date', from: '2000-01-01' })
+      ).toBe(false);
+    });
+  });
+
+  describe('applyMetadataFilters', () => {
+    it('keeps documents matching all filters', () => {
+      expect(
+        ids(
+          applyMetadataFilters(docs, [
+            { field: 'tags', equals: 'tropical' },
+            { field: 'language', equals: 'en' },
+          ])
+        )
+      ).toEqual(['1']);
+    });
+
+    it('returns all documents without filters', () => {
+      expect(applyMetadataFilters(docs, [])).toBe(docs);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import type { Doc, DocumentMetadata } from '../dataset/DocumentLoader';
+
+/**
+ * Metadata fields that can be filtered on.
+ */
+export type MetadataField = keyof DocumentMetadata;
+
+/**
+ * All filterable metadata fields.
+ */
+export const METADATA_FIELDS: readonly MetadataField[] = [
+  'tags',
+  'source',
+  'section',
+  'date',
+  'language',
+];
+
+/**
+ * Condition on document metadata. For `tags`, a document matches when one of its tags matches.
+ * - `equals`: the field has the value
+ * - `in`: the field has one of the values
+ * - `from`/`to`: the date is within the inclusive range (either bound may be omitted)
+ *
+ * Documents without the field never match.
+ *
+ * @example
+ * ```typescript
+ * const filters: MetadataFilter[] = [
+ *   { field: 'tags', in: ['tropical', 'citrus'] },
+ *   { field: 'date', from: '2024-01-01' },
+ * ];
+ * ```
+ */
+export type MetadataFilter =
+  | { field: MetadataField; equals: string }
+  | { field: MetadataField; in: string[] }
+  | { field: 'date'; from?: string; to?: string };
+
+/**
+ * Check whether a document satisfies a filter.
+ */
+export function matchesFilter(doc: Doc, filter: MetadataFilter): boolean {
+  const value = doc.metadata?.[filter.field];
+  if (value === undefined) {
+    return false;
+  }
+  const values = Array.isArray(value) ? value : [value];
+
+  if ('equals' in filter) {
+    return values.includes(filter.equals);
+  }
+  if ('in' in filter) {
+    return values.some((v) => filter.in.includes(v));
+  }
+  // ISO dates (YYYY-MM-DD) compare correctly as strings
+  return values.some(
+    (v) =>
+      (filter.from === undefined || v >= filter.from) &&
+      (filter.to === undefined || v <= filter.to)
+  );
+}
+
+/**
+ * Keep the documents that satisfy all filters.
+ *
+ * @param documents - Documents or chunks with metadata
+ * @param filters - Conditions that must all hold
+ * @returns Matching documents, in order
+ */
+export function applyMetadataFilters<T extends Doc>(
+  documents: T[],
+  filters: MetadataFilter[]
+): T[] {
+  if (filters.length === 0) {
+    return documents;
+  }
+  return documents.filter((doc) =>
+    filters.every((filter) => matchesFilter(doc, filter))
+  );
+}
@@ -0,0 +1,63 @@
+import { maximalMarginalRelevance } from './mmr';
+import type { ScoredDoc } from './enhanced-semantic-search';
+
+describe('features/mmr', () => {
+  const docs: ScoredDoc[] = [
+    {
+      id: 'a',
+      text: 'Bananas are rich in potassium.',
+      embedding: [1, 0, 0],
+      score: 0.9,
+    },
+    {
+      id: 'b',
+      text: 'Bananas are rich in potassium!',
+      embedding: [0.99, 0.1, 0],
+      score: 0.88,
+    },
+    {
+      id: 'c',
+      text: 'Apples keep for months.',
+      embedding: [0, 1, 0],
+      score: 0.6,
+    },
+  ];
+  const ids = (results: ScoredDoc[]) => results.map((doc) => doc.id);
+
+  it('skips near-duplicates of selected results', () => {
+    expect(ids(maximalMarginalRelevance(docs, 2, 0.7))).toEqual(['a', 'c']);
+  });
+
+  it('selects by relevance only with lambda 1', () => {
+    expect(ids(maximalMarginalRelevance(docs, 2, 1))).toEqual(['a', 'b']);
+  });
+
+  it('returns all candidates when there are fewer than requested', () => {
+    expect(ids(maximalMarginalRelevance(docs, 5, 0.7))).toEqual([
+      'a',
+      'c',
+      'b',
+    ]);
+    expect(maximalMarginalRelevance([], 3, 0.7)).toEqual([]);
+  });
+
+  it('treats candidates without embeddings as novel', () => {
+    const withoutEmbedding = docs.map((doc) =>
+      doc.id === 'b' ? { ...doc, embedding: undefined } : doc
+    );
+    expect(ids(maximalMarginalRelevance(withoutEmbedding, 2, 0.7))).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('ranks by position, not by scores of different scales', () => {
+    // Reranked candidates (0-1, -1 without rating) before retrieval scores
+    const mixed = [
+      { ...docs[2], score: 0.4 },
+      { ...docs[0], score: -1 },
+      { ...docs[1], score: 0.88 },
+    ];
+    expect(ids(maximalMarginalRelevance(mixed, 3, 1))).toEqual(['c', 'a', 'b']);
+  });
+});
@@ -0,0 +1,64 @@
+import { cosineSimilarity } from '../ai/embeddings';
+import type { ScoredDoc } from './enhanced-semantic-search';
+
+/**
+ * Select results with Maximal Marginal Relevance: each pick maximizes
+ * `lambda * relevance - (1 - lambda) * redundancy`, where relevance follows the rank of the
+ * candidate (1 for the best, falling linearly) and redundancy is the highest embedding
+ * similarity to an already selected result. Near-duplicate chunks are skipped even when they
+ * come from different documents.
+ *
+ * Relevance uses the rank rather than the score, because the candidates may be scored on
+ * different scales, e.g. reranked candidates followed by the rest in retrieval order.
+ *
+ * @param rankedDocs - Candidates, best first
+ * @param maxResults - Number of results to select
+ * @param lambda - 1 selects by relevance only, 0 by novelty only
+ * @returns Selected documents in selection order
+ *
+ * @example
+ * ```typescript
+ * maximalMarginalRelevance(results, 3, 0.7);
+ * ```
+ */
+export function maximalMarginalRelevance(
+  rankedDocs: ScoredDoc[],
+  maxResults: number,
+  lambda: number
+): ScoredDoc[] {
+  const relevance = new Map(
+    rankedDocs.map((doc, rank) => [doc, 1 - rank / rankedDocs.length])
+  );
+
+  const remaining = [...rankedDocs];
+  const selected: ScoredDoc[] = [];
+  // Highest similarity of each remaining candidate to the selected results
+  const redundancy = new Map<ScoredDoc, number>();
+
+  while (selected.length < maxResults && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((doc, i) => {
+      const value =
+        lambda * relevance.get(doc)! -
+        (1 - lambda) * (redundancy.get(doc) ?? 0);
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    });
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    selected.push(picked);
+
+    if (picked.embedding) {
+      for (const doc of remaining) {
+        if (!doc.embedding) continue;
+        const similarity = cosineSimilarity(doc.embedding, picked.embedding);
+        redundancy.set(doc, Math.max(redundancy.get(doc) ?? 0, similarity));
+      }
+    }
+  }
+
+  return selected;
+}
@@ -0,0 +1,78 @@
+import { expandQuery, parseParaphrases } from './query-expansion';
+import { generateChatCompletion } from '../ai/completions';
+
+jest.mock('../ai/completions', () => ({
+  ...jest.requireActual('../ai/completions'),
+  generateChatCompletion: jest.fn(),
+}));
+
+const mockChat = generateChatCompletion as jest.MockedFunction<
+  typeof generateChatCompletion
+>;
+
+describe('features/query-expansion', () => {
+  beforeEach(() => {
+    mockChat.mockReset();
+  });
+
+  describe('parseParaphrases', () => {
+    it('strips list markers and quotes, dropping duplicates and the original', () => {
+      const response =
+        '1. "fruit high in potassium"\n- potassium fruit\n\n2) Potassium rich fruits\n* fruit high in potassium';
+      expect(parseParaphrases(response, 'Potassium fruit', 3)).toEqual([
+        'fruit high in potassium',
+        'Potassium rich fruits',
+      ]);
+    });
+
+    it('returns at most the requested number', () => {
+      expect(parseParaphrases('a\nb\nc', 'q', 2)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('expandQuery', () => {
+    it('returns only the original query without expansion', async () => {
+      expect(await expandQuery('potassium fruit')).toEqual([
+        { kind: 'original', text: 'potassium fruit' },
+      ]);
+      expect(mockChat).not.toHaveBeenCalled();
+    });
+
+    it('adds paraphrases and a hypothetical answer', async () => {
+      mockChat.mockImplementation(async (messages) =>
+        messages[0].content.includes('rewrite')
+          ? 'fruit high in potassium\nwhich fruits contain potassium'
+          : 'Bananas are rich in potassium.'
+      );
+
+      const variants = await expandQuery('potassium fruit', {
+        paraphrases: 2,
+        hyde: true,
+      });
+
+      expect(variants).toEqual([
+        { kind: 'original', text: 'potassium fruit' },
+        { kind: 'paraphrase', text: 'fruit high in potassium' },
+        { kind: 'paraphrase', text: 'which fruits contain potassium' },
+        { kind: 'hyde', text: 'Bananas are rich in potassium.' },
+      ]);
+      expect(mockChat.mock.calls[0][0][1].content).toContain(
+        'Write 2 rewrites'
+      );
+    });
+
+    it('leaves out variants that fail to generate', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockChat.mockRejectedValueOnce(new Error('rate limited'));
+      mockChat.mockResolvedValueOnce('Bananas are rich in potassium.');
+
+      const variants = await expandQuery('potassium fruit', {
+        paraphrases: 3,
+        hyde: true,
+      });
+
+      expect(variants.map((v) => v.kind)).toEqual(['original', 'hyde']);
+      error.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { generateChatCompletion } from '../ai/completions';
+
+/**
+ * A query used for retrieval: the user's query or a generated variant of it.
+ * - `original`: the query as given
+ * - `paraphrase`: the query rewritten in other words
+ * - `hyde`: a hypothetical answer passage (HyDE), which embeds closer to matching documents
+ *   than a short question
+ */
+export interface QueryVariant {
+  kind: 'original' | 'paraphrase' | 'hyde';
+  text: string;
+}
+
+/**
+ * Which query variants to generate.
+ */
+export interface QueryExpansionOptions {
+  /** Number of paraphrases to generate (default: 0) */
+  paraphrases?: number;
+  /** Generate a hypothetical answer passage (default: false) */
+  hyde?: boolean;
+}
+
+const PARAPHRASE_SYSTEM_PROMPT = `You rewrite search queries to help find relevant documents. Rewrite the user's query in different words, using synonyms and more specific terms. Reply with one rewritten query per line, without numbering or explanations.`;
+
+const HYDE_SYSTEM_PROMPT = `Write a short passage (2-3 sentences) that answers the user's question the way a reference document would. The passage is only used to search for similar documents, so state plausible facts directly and do not mention uncertainty.`;
+
+/**
+ * Extract paraphrases from a model response: one per line, without list markers or quotes,
+ * dropping duplicates and copies of the original query.
+ *
+ * @example
+ * ```typescript
+ * parseParaphrases('1. "fruit high in potassium"\n2. potassium rich fruit', 'potassium fruit', 3);
+ * // ['fruit high in potassium', 'potassium rich fruit']
+ * ```
+ */
+export function parseParaphrases(response: string, query: string, count: number): string[] {
+  const seen = new Set([query.trim().toLowerCase()]);
+  const paraphrases: string[] = [];
+  for (const line of response.split('\n')) {
+    const text = line
+      .trim()
+      .replace(/^(?:[-*•]|\d+[.)])\s*/, '')
+      .replace(/^["'](.*)["']$/, '$1')
+      .trim();
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    paraphrases.push(text);
+    if (paraphrases.length >= count) break;
+  }
+  return paraphrases;
+}
+
+async function generateParaphrases(query: string, count: number): Promise<QueryVariant[]> {
+  const response = await generateChatCompletion(
+    [
+      { role: 'system', content: PARAPHRASE_SYSTEM_PROMPT },
+      { role: 'user', content: `Write ${count} rewrites of this query:\n${query}` },
+    ],
+    { temperature: 0.7, maxTokens: 60 * count }
+  );
+  return parseParaphrases(response, query, count).map((text) => ({ kind: 'paraphrase', text }));
+}
+
+async function generateHypotheticalAnswer(query: string): Promise<QueryVariant[]> {
+  const response = await generateChatCompletion(
+    [
+      { role: 'system', content: HYDE_SYSTEM_PROMPT },
+      { role: 'user', content: query },
+    ],
+    { temperature: 0.3, maxTokens: 200 }
+  );
+  return response.trim() ? [{ kind: 'hyde', text: response.trim() }] : [];
+}
+
+/**
+ * Generate variants of a query with the completion provider for multi-query retrieval.
+ * The original query always comes first. Variants that fail to generate are left out,
+ * so retrieval falls back to the original query.
+ *
+ * @param query - The user's query
+ * @param options - Number of paraphrases and whether to add a hypothetical answer
+ * @returns The original query followed by the generated variants
+ *
+ * @example
+ * ```typescript
+ * await expandQuery('potassium fruit', { paraphrases: 2, hyde: true });
+ * // [
+ * //   { kind: 'original', text: 'potassium fruit' },
+ * //   { kind: 'paraphrase', text: 'fruit high in potassium' },
+ * //   { kind: 'paraphrase', text: 'which fruits contain a lot of potassium' },
+ * //   { kind: 'hyde', text: 'Bananas are rich in potassium...' },
+ * // ]
+ * ```
+ */
+export async function expandQuery(
+  query: string,
+  options: QueryExpansionOptions = {}
+): Promise<QueryVariant[]> {
+  const { paraphrases = 0, hyde = false } = options;
+  const generators: Array<Promise<QueryVariant[]>> = [];
+  if (paraphrases > 0) {
+    generators.push(generateParaphrases(query, paraphrases));
+  }
+  if (hyde) {
+    generators.push(generateHypotheticalAnswer(query));
+  }
+
+  const generated = await Promise.all(
+    generators.map((generator) =>
+      generator.catch((err) => {
+        console.error('Query expansion failed, searching without the variant:', err);
+        return [];
+      })
+    )
+  );
+  return [{ kind: 'original', text: query }, ...generated.flat()];
+}
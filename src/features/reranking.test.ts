@@ -0,0 +1,97 @@
+import { HeuristicReranker, LLMReranker, createReranker } from './reranking';
+import type { ScoredDoc } from './enhanced-semantic-search';
+import { generateChatCompletion } from '../ai/completions';
+
+jest.mock('../ai/completions', () => ({
+  ...jest.requireActual('../ai/completions'),
+  generateChatCompletion: jest.fn(),
+}));
+
+const mockChat = generateChatCompletion as jest.MockedFunction<typeof generateChatCompletion>;
+
+describe('features/reranking', () => {
+  const candidates: ScoredDoc[] = [
+    { id: 'a', text: 'Servers have many settings, and one of them is a timeout.', score: 0.8 },
+    { id: 'b', text: 'Authentication requires a valid token.', score: 0.75 },
+    { id: 'c', text: 'Change the request timeout setting in config.json.', score: 0.7 },
+  ];
+
+  describe('HeuristicReranker', () => {
+    it('prefers candidates with all query terms close together', async () => {
+      const reranked = await new HeuristicReranker().rerank('timeout setting', candidates);
+      expect(reranked.map((doc) => doc.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('keeps the retrieval score next to the new score', async () => {
+      const [first] = await new HeuristicReranker().rerank('timeout setting', candidates);
+      expect(first.retrievalScore).toBe(0.7);
+      expect(first.score).toBeGreaterThan(0);
+      expect(first.score).toBeLessThanOrEqual(1);
+    });
+
+    it('keeps the retrieval order with only the retrieval signal', async () => {
+      const reranker = new HeuristicReranker({
+        retrievalWeight: 1,
+        coverageWeight: 0,
+        proximityWeight: 0,
+        phraseWeight: 0,
+      });
+      const reranked = await reranker.rerank('timeout setting', candidates);
+      expect(reranked.map((doc) => doc.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('LLMReranker', () => {
+    beforeEach(() => {
+      mockChat.mockReset();
+    });
+
+    it('parses ratings by passage number', () => {
+      expect(LLMReranker.parseRatings('1: 3\n[2]: 9.5\n3 - 12\n4: 7\n1: 8', 3)).toEqual(
+        new Map([
+          [0, 0.3],
+          [1, 0.95],
+          [2, 1],
+        ])
+      );
+    });
+
+    it('orders candidates by the model ratings', async () => {
+      mockChat.mockResolvedValue('1: 4\n2: 0\n3: 9');
+      const reranked = await new LLMReranker().rerank('timeout setting', candidates);
+
+      expect(reranked.map((doc) => doc.id)).toEqual(['c', 'a', 'b']);
+      expect(reranked[0].score).toBeCloseTo(0.9);
+      const [messages] = mockChat.mock.calls[0];
+      expect(messages[1].content).toContain('Query: timeout setting');
+      expect(messages[1].content).toContain('[3] Change the request timeout');
+    });
+
+    it('puts unrated candidates last', async () => {
+      mockChat.mockResolvedValue('2: 5');
+      const reranked = await new LLMReranker().rerank('token', candidates);
+      expect(reranked.map((doc) => doc.id)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('keeps the retrieval order when the model gives no ratings or fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      mockChat.mockResolvedValueOnce('All passages look relevant.');
+      expect(await new LLMReranker().rerank('timeout', candidates)).toBe(candidates);
+      mockChat.mockRejectedValueOnce(new Error('rate limited'));
+      expect(await new LLMReranker().rerank('timeout', candidates)).toBe(candidates);
+
+      warn.mockRestore();
+      error.mockRestore();
+    });
+  });
+
+  describe('createReranker', () => {
+    it('creates the configured reranker', () => {
+      expect(createReranker('none')).toBeNull();
+      expect(createReranker('heuristic')).toBeInstanceOf(HeuristicReranker);
+      expect(createReranker('llm')).toBeInstanceOf(LLMReranker);
+    });
+  });
+});
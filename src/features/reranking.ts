@@ -0,0 +1,218 @@
+import { generateChatCompletion } from '../ai/completions';
+import { tokenize } from './bm25';
+import type { ScoredDoc } from './enhanced-semantic-search';
+
+/**
+ * Available rerankers.
+ * - `none`: keep the retrieval order
+ * - `heuristic`: cheap local reranking by query term coverage, proximity and phrase matches
+ * - `llm`: relevance judgements by the configured completion provider
+ */
+export type RerankerType = 'none' | 'heuristic' | 'llm';
+
+/**
+ * Reorders retrieved candidates by relevance to the query.
+ * Implement this interface to plug in other rerankers (e.g. a cross-encoder service).
+ *
+ * @example
+ * ```typescript
+ * class LengthReranker implements Reranker {
+ *   readonly name = 'length';
+ *   async rerank(query: string, candidates: ScoredDoc[]) {
+ *     return [...candidates].sort((a, b) => a.text.length - b.text.length);
+ *   }
+ * }
+ * ```
+ */
+export interface Reranker {
+  /** Name shown in debug output */
+  readonly name: string;
+  /**
+   * Reorder candidates, most relevant first.
+   * Returned documents carry the reranker's score in `score` and the original score in `retrievalScore`.
+   */
+  rerank(query: string, candidates: ScoredDoc[]): Promise<ScoredDoc[]>;
+}
+
+/**
+ * Attach new scores to candidates and sort by them (keeping the retrieval order on ties).
+ */
+function applyScores(candidates: ScoredDoc[], scores: number[]): ScoredDoc[] {
+  return candidates
+    .map((doc, i) => ({ ...doc, score: scores[i], retrievalScore: doc.retrievalScore ?? doc.score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Weights of the heuristic reranker signals.
+ */
+export interface HeuristicRerankerOptions {
+  /** Weight of the retrieval score, relative to the best candidate (default: 0.5) */
+  retrievalWeight?: number;
+  /** Weight of the fraction of query terms found in the text (default: 0.3) */
+  coverageWeight?: number;
+  /** Weight of how close together the query terms appear (default: 0.1) */
+  proximityWeight?: number;
+  /** Weight of the query terms appearing as a consecutive phrase (default: 0.1) */
+  phraseWeight?: number;
+}
+
+/**
+ * Local reranker that needs no model calls. Combines the retrieval score with signals that
+ * similarity scores miss: how many query terms a passage contains, how close together they
+ * appear and whether they appear as a phrase.
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = 'heuristic';
+  private readonly weights: Required<HeuristicRerankerOptions>;
+
+  constructor(options: HeuristicRerankerOptions = {}) {
+    this.weights = {
+      retrievalWeight: options.retrievalWeight ?? 0.5,
+      coverageWeight: options.coverageWeight ?? 0.3,
+      proximityWeight: options.proximityWeight ?? 0.1,
+      phraseWeight: options.phraseWeight ?? 0.1,
+    };
+  }
+
+  /**
+   * Score the term signals of a text (0-1 each).
+   */
+  private termSignals(queryTerms: string[], text: string) {
+    const tokens = tokenize(text);
+    const uniqueTerms = [...new Set(queryTerms)];
+    const matched = uniqueTerms.filter((term) => tokens.includes(term));
+    const coverage = uniqueTerms.length > 0 ? matched.length / uniqueTerms.length : 0;
+
+    // Smallest window of tokens containing every matched term
+    let proximity = matched.length > 0 ? 1 : 0;
+    if (matched.length > 1) {
+      const lastSeen = new Map<string, number>();
+      let window = Infinity;
+      tokens.forEach((token, i) => {
+        if (!matched.includes(token)) return;
+        lastSeen.set(token, i);
+        if (lastSeen.size === matched.length) {
+          window = Math.min(window, i - Math.min(...lastSeen.values()) + 1);
+        }
+      });
+      proximity = matched.length / window;
+    }
+
+    const phrase =
+      queryTerms.length > 1 && ` ${tokens.join(' ')} `.includes(` ${queryTerms.join(' ')} `) ? 1 : 0;
+    return { coverage, proximity, phrase };
+  }
+
+  async rerank(query: string, candidates: ScoredDoc[]): Promise<ScoredDoc[]> {
+    const queryTerms = tokenize(query);
+    const maxScore = Math.max(0, ...candidates.map((doc) => doc.score));
+    const { retrievalWeight, coverageWeight, proximityWeight, phraseWeight } = this.weights;
+
+    const scores = candidates.map((doc) => {
+      const { coverage, proximity, phrase } = this.termSignals(queryTerms, doc.text);
+      const retrieval = maxScore > 0 ? Math.max(0, doc.score) / maxScore : 0;
+      return (
+        retrieval * retrievalWeight +
+        coverage * coverageWeight +
+        proximity * proximityWeight +
+        phrase * phraseWeight
+      );
+    });
+    return applyScores(candidates, scores);
+  }
+}
+
+const RELEVANCE_SYSTEM_PROMPT = `You judge how relevant passages are to a search query. Rate each passage from 0 (irrelevant) to 10 (directly answers the query). Reply with one line per passage in the format "<passage number>: <rating>" and nothing else.`;
+
+/**
+ * Options for the LLM reranker.
+ */
+export interface LLMRerankerOptions {
+  /** Maximum characters of each passage sent to the model (default: 1000) */
+  maxPassageLength?: number;
+}
+
+/**
+ * Reranker that asks the configured completion model to rate the relevance of each candidate
+ * (0-10) in a single request. Scores are the ratings scaled to 0-1.
+ * Falls back to the retrieval order when the model fails or returns no usable ratings.
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  private readonly maxPassageLength: number;
+
+  constructor(options: LLMRerankerOptions = {}) {
+    this.maxPassageLength = options.maxPassageLength ?? 1000;
+  }
+
+  /**
+   * Parse `<number>: <rating>` lines into ratings by passage index.
+   */
+  static parseRatings(response: string, count: number): Map<number, number> {
+    const ratings = new Map<number, number>();
+    for (const match of response.matchAll(/^\s*\[?(\d+)\]?\s*[:=-]\s*(\d+(?:\.\d+)?)/gm)) {
+      const index = parseInt(match[1], 10) - 1;
+      const rating = parseFloat(match[2]);
+      if (index >= 0 && index < count && !ratings.has(index)) {
+        ratings.set(index, Math.min(rating, 10) / 10);
+      }
+    }
+    return ratings;
+  }
+
+  async rerank(query: string, candidates: ScoredDoc[]): Promise<ScoredDoc[]> {
+    if (candidates.length === 0) {
+      return candidates;
+    }
+
+    const passages = candidates
+      .map((doc, i) => {
+        const text =
+          doc.text.length > this.maxPassageLength
+            ? `${doc.text.slice(0, this.maxPassageLength)}...`
+            : doc.text;
+        return `[${i + 1}] ${text}`;
+      })
+      .join('\n\n');
+
+    let ratings: Map<number, number>;
+    try {
+      const response = await generateChatCompletion(
+        [
+          { role: 'system', content: RELEVANCE_SYSTEM_PROMPT },
+          { role: 'user', content: `Query: ${query}\n\nPassages:\n${passages}` },
+        ],
+        { temperature: 0.1, maxTokens: 10 * candidates.length + 50 }
+      );
+      ratings = LLMReranker.parseRatings(response, candidates.length);
+    } catch (err) {
+      console.error('LLM reranking failed, keeping retrieval order:', err);
+      return candidates;
+    }
+
+    if (ratings.size === 0) {
+      console.warn('LLM reranker returned no ratings, keeping retrieval order');
+      return candidates;
+    }
+    // Unrated passages go after the rated ones, in retrieval order
+    return applyScores(
+      candidates,
+      candidates.map((_, i) => ratings.get(i) ?? -1)
+    );
+  }
+}
+
+/**
+ * Create the reranker for a configured type, or null for `none`.
+ */
+export function createReranker(type: RerankerType): Reranker | null {
+  switch (type) {
+    case 'heuristic':
+      return new HeuristicReranker();
+    case 'llm':
+      return new LLMReranker();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,79 @@
+import { fuseRankings, fuseScores, normalizeScores } from './score-fusion';
+
+describe('features/score-fusion', () => {
+  describe('normalizeScores', () => {
+    it('scales scores by the highest score', () => {
+      expect(normalizeScores(new Map([['a', 4], ['b', 1]]))).toEqual(
+        new Map([['a', 1], ['b', 0.25]])
+      );
+      expect(normalizeScores(new Map([['a', 0]]))).toEqual(new Map([['a', 0]]));
+    });
+  });
+
+  describe('fuseScores', () => {
+    const embeddingScores = new Map([
+      ['a', 0.9],
+      ['b', 0.8],
+      ['c', 0.7],
+    ]);
+    const keywordScores = new Map([
+      ['c', 12.5],
+      ['b', 2.5],
+    ]);
+
+    it('blends cosine similarity with normalized keyword scores', () => {
+      const scores = fuseScores(embeddingScores, keywordScores, { embeddingWeight: 0.5 });
+      expect(scores.get('a')).toBeCloseTo(0.45);
+      expect(scores.get('b')).toBeCloseTo(0.5);
+      expect(scores.get('c')).toBeCloseTo(0.85);
+    });
+
+    it('keeps the blend within [0, 1] however large BM25 scores get', () => {
+      const scores = fuseScores(embeddingScores, new Map([['a', 1000]]), { embeddingWeight: 0.7 });
+      for (const score of scores.values()) {
+        expect(score).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('only uses the embedding scores with weight 1', () => {
+      expect(fuseScores(embeddingScores, keywordScores, { embeddingWeight: 1 })).toEqual(
+        embeddingScores
+      );
+    });
+
+    it('fuses ranks with reciprocal rank fusion', () => {
+      const scores = fuseScores(embeddingScores, keywordScores, {
+        method: 'rrf',
+        embeddingWeight: 0.5,
+        rrfK: 60,
+      });
+      expect(scores.get('a')).toBeCloseTo(0.5 / 61);
+      expect(scores.get('b')).toBeCloseTo(0.5 / 62 + 0.5 / 62);
+      expect(scores.get('c')).toBeCloseTo(0.5 / 63 + 0.5 / 61);
+      expect(scores.get('c')!).toBeGreaterThan(scores.get('b')!);
+    });
+  });
+
+  describe('fuseRankings', () => {
+    it('sums reciprocal ranks over the rankings', () => {
+      const fused = fuseRankings([
+        new Map([
+          ['a', 0.9],
+          ['b', 0.8],
+        ]),
+        new Map([
+          ['b', 0.7],
+          ['c', 0.1],
+        ]),
+      ]);
+      expect(fused.get('a')).toBeCloseTo(1 / 61);
+      expect(fused.get('b')).toBeCloseTo(1 / 62 + 1 / 61);
+      expect(fused.get('c')).toBeCloseTo(1 / 62);
+    });
+
+    it('keeps the ranking of a single query', () => {
+      const fused = fuseRankings([new Map([['a', 0.2], ['b', 0.5]])]);
+      expect(fused.get('b')!).toBeGreaterThan(fused.get('a')!);
+    });
+  });
+});
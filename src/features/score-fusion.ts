@@ -0,0 +1,123 @@
+/**
+ * How embedding and keyword scores are combined in hybrid search.
+ * - `weighted`: weighted sum of cosine similarity and normalized BM25 score
+ * - `rrf`: weighted reciprocal rank fusion, which only uses the rank in each list
+ */
+export type FusionMethod = 'weighted' | 'rrf';
+
+/**
+ * Options for combining embedding and keyword scores.
+ */
+export interface FusionOptions {
+  /** Fusion method (default: weighted) */
+  method?: FusionMethod;
+  /** Weight of the embedding scores (0-1, remainder goes to keyword scores) */
+  embeddingWeight: number;
+  /** Rank offset for reciprocal rank fusion; higher values flatten the rank differences (default: 60) */
+  rrfK?: number;
+}
+
+/**
+ * Scale scores to [0, 1] by dividing by the highest score.
+ * BM25 scores are unbounded, so this puts them on the same scale as cosine similarity.
+ */
+export function normalizeScores(scores: Map<string, number>): Map<string, number> {
+  let max = 0;
+  for (const score of scores.values()) {
+    max = Math.max(max, score);
+  }
+  return new Map([...scores].map(([id, score]) => [id, max > 0 ? score / max : 0]));
+}
+
+/**
+ * Get the 1-based rank of each id when sorted by descending score.
+ */
+function ranks(scores: Map<string, number>): Map<string, number> {
+  return new Map(
+    [...scores]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id], i) => [id, i + 1])
+  );
+}
+
+/**
+ * Combine embedding similarity and keyword scores into one score per id.
+ * Ids missing from `keywordScores` didn't match any query term.
+ *
+ * @param embeddingScores - Cosine similarity per document id
+ * @param keywordScores - BM25 score per document id
+ * @param options - Fusion method and weights
+ * @returns Combined score per id of `embeddingScores`
+ *
+ * @example
+ * ```typescript
+ * fuseScores(
+ *   new Map([['a', 0.8], ['b', 0.7]]),
+ *   new Map([['b', 4.2]]),
+ *   { embeddingWeight: 0.7 }
+ * );
+ * // Map { 'a' => 0.56, 'b' => 0.79 }
+ * ```
+ */
+export function fuseScores(
+  embeddingScores: Map<string, number>,
+  keywordScores: Map<string, number>,
+  options: FusionOptions
+): Map<string, number> {
+  const { method = 'weighted', embeddingWeight, rrfK = 60 } = options;
+  const keywordWeight = 1 - embeddingWeight;
+
+  if (method === 'rrf') {
+    const embeddingRanks = ranks(embeddingScores);
+    const keywordRanks = ranks(
+      new Map([...keywordScores].filter(([id, score]) => score > 0 && embeddingScores.has(id)))
+    );
+    return new Map(
+      [...embeddingScores.keys()].map((id) => {
+        const keywordRank = keywordRanks.get(id);
+        const score =
+          embeddingWeight / (rrfK + embeddingRanks.get(id)!) +
+          (keywordRank ? keywordWeight / (rrfK + keywordRank) : 0);
+        return [id, score];
+      })
+    );
+  }
+
+  const normalizedKeywords = normalizeScores(keywordScores);
+  return new Map(
+    [...embeddingScores].map(([id, score]) => [
+      id,
+      score * embeddingWeight + (normalizedKeywords.get(id) ?? 0) * keywordWeight,
+    ])
+  );
+}
+
+/**
+ * Fuse the rankings of several queries with reciprocal rank fusion.
+ * Each ranking contributes `1 / (rrfK + rank)` for the ids it contains.
+ *
+ * @param rankings - Score per id for each query (higher is better)
+ * @param rrfK - Rank offset; higher values flatten the rank differences (default: 60)
+ * @returns Fused score per id of any ranking
+ *
+ * @example
+ * ```typescript
+ * fuseRankings([
+ *   new Map([['a', 0.9], ['b', 0.8]]),
+ *   new Map([['b', 0.7]]),
+ * ]);
+ * // Map { 'a' => 1/61, 'b' => 1/62 + 1/61 }
+ * ```
+ */
+export function fuseRankings(
+  rankings: Array<Map<string, number>>,
+  rrfK = 60
+): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    for (const [id, rank] of ranks(ranking)) {
+      fused.set(id, (fused.get(id) ?? 0) + 1 / (rrfK + rank));
+    }
+  }
+  return fused;
+}
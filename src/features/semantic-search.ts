@@ -1,17 +1,15 @@
-import {
-  Doc,
-  DocumentLoader,
-  MarkdownDocumentLoader,
-} from '../dataset/DocumentLoader';
-import { generateEmbedding, cosineSimilarity } from '../ai/embeddings';
-import { EmbeddingCacheAI } from '../support/embedding-cache';
+import { Doc, DocumentLoader } from '../dataset/DocumentLoader';
+import { DatasetDocumentLoader } from '../dataset/DatasetDocumentLoader';
+import { generateEmbedding, cosineSimilarity, defaultMinSimilarity } from '../ai/embeddings';
+import { EmbeddingCache } from '../support/embedding-cache';
+import type { VectorIndex } from '../support/vector-index';
 
 // Re-export cosineSimilarity for tests
 export { cosineSimilarity };
 
 export type { Doc };
 
-const defaultLoader = new MarkdownDocumentLoader();
+const defaultLoader = new DatasetDocumentLoader();
 
 export async function loadDocs(
   dataSet: string = 'example-nodejs',
@@ -32,7 +30,7 @@ export async function embedAllDocsWithAI(
   dataSet?: string
 ): Promise<void> {
   if (dataSet) {
-    const cache = new EmbeddingCacheAI(dataSet);
+    const cache = new EmbeddingCache(dataSet);
     const cachedCount = await cache.loadCachedEmbeddings(documents);
     const newEmbeddings = await cache.embedDocuments(documents);
     console.log(
@@ -52,20 +50,35 @@ export async function embedAllDocsWithAI(
  * @param documents - Array of documents to search through (must have embeddings)
  * @param query - The search query to find relevant documents for
  * @param n - Number of top results to return (default: 2)
- * @returns Promise resolving to array of most relevant documents
+ * @param index - Vector index over the documents; compares with every document when omitted
+ * @param minSimilarity - Minimum cosine similarity of a result (default: defaultMinSimilarity())
+ * @returns Promise resolving to array of most relevant documents (empty when none is similar enough)
  */
 export async function findRelevantDocsWithAI(
   documents: Doc[],
   query: string,
-  n = 2
+  n = 2,
+  index?: VectorIndex,
+  minSimilarity = defaultMinSimilarity()
 ): Promise<Doc[]> {
   const qEmbed = await generateEmbedding(query);
+  if (index) {
+    const byId = new Map(documents.map((doc) => [doc.id, doc]));
+    return index
+      .search(qEmbed, n)
+      .filter((hit) => hit.score >= minSimilarity)
+      .map((hit) => byId.get(hit.id))
+      .filter((doc): doc is Doc => doc !== undefined);
+  }
   const scored = documents.map((doc) => ({
     doc,
     score: doc.embedding ? cosineSimilarity(doc.embedding, qEmbed) : -Infinity,
   }));
   scored.sort((a, b) => b.score - a.score);
-  return scored.slice(0, n).map((s) => s.doc);
+  return scored
+    .slice(0, n)
+    .filter((s) => s.score >= minSimilarity)
+    .map((s) => s.doc);
 }
 
 // Legacy functions for backward compatibility
@@ -1,27 +1,40 @@
 import '../dotenv-config';
 import { serve } from '@hono/node-server';
 import { Hono } from 'hono';
-import { readdirSync } from 'node:fs';
-import * as path from 'node:path';
-import * as process from 'node:process';
 import { getAIConfig } from './ai/provider-config';
-import { generateRAGResponse } from './ai/completions';
+import { generateNoContextResponse, generateRAGResponse } from './ai/completions';
 import {
   semanticSearchEnhanced,
+  formatResultsAsContext,
+  resolveSearchConfig,
+  toPromptSources,
   type SearchConfig,
   type ScoredDoc,
+  type DiversificationMethod,
+  type SearchTrace,
 } from './features/enhanced-semantic-search';
-import { loadSystemPrompt } from './dataset/template-loader';
+import { loadPromptTemplates } from './dataset/template-loader';
+import { listDataSets } from './dataset/datasets';
+import { createApiV1 } from './api/v1';
 import { escapeHtml, htmlBody } from './view/html';
+import { streamingAnswerSection } from './view/streaming';
+import { conversationThread } from './view/conversation';
+import { renderAnswerWithCitations, sourceAnchorId } from './view/citations';
+import { noContextNotice } from './view/no-context';
+import { askInConversation } from './features/conversation';
+import type { RerankerType } from './features/reranking';
+import type { ContextExpansion } from './features/context-expansion';
+import { createConversationStore } from './support/conversation-store';
 
 const app = new Hono();
 
-const dataDir = path.join(process.cwd(), 'data');
-const dataSets = readdirSync(dataDir, { withFileTypes: true })
-  .filter((d) => d.isDirectory())
-  .map((d) => d.name);
+const dataSets = listDataSets();
 
-const searchCache: Record<string, Promise<ScoredDoc[]>> = {};
+app.route('/api/v1', createApiV1(dataSets));
+
+const searchCache: Record<string, Promise<{ results: ScoredDoc[]; trace: SearchTrace }>> = {};
+
+const conversationStore = createConversationStore();
 
 app.get('/', async (c) => {
   const dataParam = c.req.query('data');
@@ -51,11 +64,46 @@ app.get('/', async (c) => {
         Enable Hybrid Search (combine embeddings with keyword matching)
       </label>
       <br>
+      <label for="reranker">Reranker:</label>
+      <select name="reranker" id="reranker">
+        <option value="none" selected>None (retrieval order)</option>
+        <option value="heuristic">Heuristic (term coverage and proximity)</option>
+        <option value="llm">LLM relevance judge (slower, uses the completion model)</option>
+      </select>
+      <br>
+      <label for="diversification">
+        <input type="checkbox" name="diversification" id="diversification" value="mmr">
+        Skip near-duplicate chunks (Maximal Marginal Relevance)
+      </label>
+      <br>
+      <label for="expandQuery">
+        <input type="checkbox" name="expandQuery" id="expandQuery" value="true">
+        Expand query (retrieve with 3 generated paraphrases)
+      </label>
+      <br>
+      <label for="hyde">
+        <input type="checkbox" name="hyde" id="hyde" value="true">
+        Also retrieve with a hypothetical answer (HyDE)
+      </label>
+      <br>
+      <label for="contextExpansion">Context around matching chunks:</label>
+      <select name="contextExpansion" id="contextExpansion">
+        <option value="none" selected>Matching chunk only</option>
+        <option value="neighbors">Neighbouring chunks</option>
+        <option value="document">Whole document (up to 1500 tokens)</option>
+      </select>
+      <br>
       <label for="maxResults">Max Results:</label>
       <input type="number" name="maxResults" id="maxResults" value="3" min="1" max="10">
       <br>
+      <label for="stream">
+        <input type="checkbox" name="stream" id="stream" value="true">
+        Stream answer (show sources first, then the answer as it is generated)
+      </label>
+      <br>
       <button type="submit">Ask</button>
     </form>
+    <p><a href="/chat?data=${encodeURIComponent(selectedData)}">Start a conversation</a> (ask follow-up questions)</p>
   `;
   return c.html(htmlBody(html));
 });
@@ -69,7 +117,17 @@ app.post('/ask', async (c) => {
   const dataParam = typeof body['data'] === 'string' ? body['data'] : '';
   const question = typeof body['question'] === 'string' ? body['question'] : '';
   const enableHybrid = body['enableHybrid'] === 'true';
+  const reranker: RerankerType =
+    body['reranker'] === 'heuristic' || body['reranker'] === 'llm' ? body['reranker'] : 'none';
+  const diversification: DiversificationMethod = body['diversification'] === 'mmr' ? 'mmr' : 'document';
+  const queryParaphrases = body['expandQuery'] === 'true' ? 3 : 0;
+  const hyde = body['hyde'] === 'true';
+  const contextExpansion: ContextExpansion =
+    body['contextExpansion'] === 'neighbors' || body['contextExpansion'] === 'document'
+      ? body['contextExpansion']
+      : 'none';
   const maxResults = parseInt(typeof body['maxResults'] === 'string' ? body['maxResults'] : '3', 10);
+  const stream = body['stream'] === 'true';
 
   if (!dataParam || !dataSets.includes(dataParam)) {
     return c.html(htmlBody(`<p>Unknown dataset.</p><a href='/'>Back</a>`));
@@ -85,6 +143,27 @@ app.post('/ask', async (c) => {
     );
   }
 
+  if (stream) {
+    const streamUrl = `/api/v1/datasets/${encodeURIComponent(dataParam)}/ask/stream?${new URLSearchParams({
+      question,
+      maxResults: String(maxResults),
+      enableHybridSearch: String(enableHybrid),
+      reranker,
+      diversification,
+      queryParaphrases: String(queryParaphrases),
+      hyde: String(hyde),
+      contextExpansion,
+    })}`;
+    return c.html(
+      htmlBody(`
+        <h1>Answer</h1>
+        <p><strong>Question:</strong> ${escapeHtml(question)}</p>
+        ${streamingAnswerSection(streamUrl)}
+        <a href="/?data=${encodeURIComponent(dataParam)}">Ask another question</a>
+      `)
+    );
+  }
+
   // Search configuration
   const searchConfig: SearchConfig = {
     maxResults,
@@ -93,6 +172,11 @@ app.post('/ask', async (c) => {
     maxTokensPerChunk: 500,
     overlapTokens: 100,
     preserveSentences: true,
+    reranker,
+    diversification,
+    queryParaphrases,
+    hyde,
+    contextExpansion,
   };
 
   // Create cache key
@@ -100,45 +184,52 @@ app.post('/ask', async (c) => {
 
   // Perform enhanced semantic search with caching
   if (!searchCache[cacheKey]) {
-    searchCache[cacheKey] = semanticSearchEnhanced(dataParam, question, searchConfig);
+    const trace: SearchTrace = {};
+    searchCache[cacheKey] = semanticSearchEnhanced(dataParam, question, searchConfig, trace).then(
+      (results) => ({ results, trace })
+    );
   }
 
-  const searchResults = await searchCache[cacheKey];
+  const { results: searchResults, trace } = await searchCache[cacheKey];
   
   // Extract context from search results
-  const context = searchResults.map((result) => {
-    // If it's a chunk, add metadata about which document and chunk
-    if (result.metadata?.isChunk) {
-      return `[Document ${result.metadata.documentId}, Chunk ${(result.metadata.chunkIndex ?? 0) + 1}/${result.metadata.totalChunks}]\n${result.text}`;
-    }
-    return result.text;
-  });
+  const context = formatResultsAsContext(searchResults);
 
   // Generate response
-  const system = await loadSystemPrompt(dataParam);
-  const answer = await generateRAGResponse(question, context, {
-    systemPrompt: system,
-  });
+  const templates = await loadPromptTemplates(dataParam);
+  const noContext = searchResults.length === 0;
+  const { text: answer, context: sentSources } = noContext
+    ? { ...(await generateNoContextResponse(question, dataParam)), context: [] }
+    : await generateRAGResponse(question, toPromptSources(searchResults), templates);
 
   const aiConfig = getAIConfig();
+  const { minSimilarity } = resolveSearchConfig(searchConfig);
 
   // Build results HTML
   let resultsHtml = `
     <h1>Answer</h1>
     <p><strong>Question:</strong> ${escapeHtml(question)}</p>
-    <p><strong>Answer:</strong> ${escapeHtml(answer)}</p>
+    <p><strong>Answer:</strong> ${renderAnswerWithCitations(answer, sentSources.length)}</p>
     
     <h2>Retrieved Context</h2>
-    <p>Found ${searchResults.length} relevant chunks/documents:</p>
+    ${
+      noContext
+        ? noContextNotice(dataParam, minSimilarity)
+        : `<p>Found ${searchResults.length} relevant chunks/documents:</p>`
+    }
     <ol>
   `;
 
-  for (const result of searchResults) {
+  for (const [i, result] of searchResults.entries()) {
     resultsHtml += `
-      <li>
+      <li id="${sourceAnchorId(i + 1)}">
         <strong>Score: ${result.score.toFixed(3)}</strong>
         ${result.metadata?.isChunk ? 
-          `(Doc ${result.metadata.documentId}, Chunk ${(result.metadata.chunkIndex ?? 0) + 1}/${result.metadata.totalChunks})` : 
+          `(Doc ${result.metadata.documentId}, ${
+            result.contextChunkIds && result.contextChunkIds.length > 1
+              ? `${result.contextChunkIds.length} chunks around chunk`
+              : 'Chunk'
+          } ${(result.metadata.chunkIndex ?? 0) + 1}/${result.metadata.totalChunks})` : 
           `(Doc ${result.id})`
         }
         <br>
@@ -163,10 +254,37 @@ ${escapeHtml(result.text)}
       <li>Embedding Weight: ${searchConfig.embeddingWeight}</li>
       <li>Chunk Size: ~${searchConfig.maxTokensPerChunk} tokens</li>
       <li>Overlap: ${searchConfig.overlapTokens} tokens</li>
+      <li>Query Expansion: ${
+        queryParaphrases > 0 || hyde
+          ? [queryParaphrases > 0 && `${queryParaphrases} paraphrases`, hyde && 'HyDE']
+              .filter(Boolean)
+              .join(' + ')
+          : 'None'
+      }</li>
+      <li>Minimum Similarity: ${minSimilarity}</li>
+      <li>Reranker: ${reranker === 'none' ? 'None' : reranker}</li>
+      <li>Diversification: ${diversification === 'mmr' ? 'MMR (lambda 0.7)' : 'Per-document cap'}</li>
+      <li>Context Expansion: ${
+        contextExpansion === 'none'
+          ? 'None'
+          : contextExpansion === 'neighbors'
+            ? 'Neighbouring chunks'
+            : 'Parent document'
+      }</li>
     </ul>
     
     <details>
       <summary>Debug Information</summary>
+      ${
+        trace.queryVariants && trace.queryVariants.length > 1
+          ? `<h3>Query Variants</h3>
+      <ol>
+        ${trace.queryVariants
+          .map((variant) => `<li><em>${variant.kind}:</em> ${escapeHtml(variant.text)}</li>`)
+          .join('')}
+      </ol>`
+          : ''
+      }
       <pre>${escapeHtml(JSON.stringify({
         aiConfig: {
           completionProvider: aiConfig.completionProvider,
@@ -175,10 +293,16 @@ ${escapeHtml(result.text)}
           embeddingModel: aiConfig.embeddingModel,
         },
         searchConfig,
+        queryVariants: trace.queryVariants,
+        minSimilarity,
+        noContext,
         contextLength: context.join('\n').length,
         resultsMetadata: searchResults.map(r => ({
           id: r.id,
           score: r.score,
+          similarity: r.similarity,
+          retrievalScore: r.retrievalScore,
+          contextChunkIds: r.contextChunkIds,
           textLength: r.text.length,
           metadata: r.metadata,
         })),
@@ -191,6 +315,54 @@ ${escapeHtml(result.text)}
   return c.html(htmlBody(resultsHtml));
 });
 
+app.get('/chat', async (c) => {
+  const dataParam = c.req.query('data') ?? '';
+  const sessionId = c.req.query('session');
+
+  if (!dataSets.includes(dataParam)) {
+    return c.html(htmlBody(`<p>Unknown dataset.</p><a href='/'>Back</a>`));
+  }
+
+  const conversation = sessionId ? await conversationStore.get(sessionId) : null;
+  const current = conversation && conversation.dataSet === dataParam ? conversation : null;
+
+  return c.html(
+    htmlBody(`
+      <h1>Conversation: ${escapeHtml(dataParam)}</h1>
+      ${conversationThread(dataParam, current)}
+      <p>
+        <a href="/chat?data=${encodeURIComponent(dataParam)}">New conversation</a> |
+        <a href="/?data=${encodeURIComponent(dataParam)}">Back</a>
+      </p>
+    `)
+  );
+});
+
+app.post('/chat', async (c) => {
+  const body = await c.req.parseBody();
+  const dataParam = typeof body['data'] === 'string' ? body['data'] : '';
+  const question = typeof body['question'] === 'string' ? body['question'].trim() : '';
+  const sessionId = typeof body['session'] === 'string' ? body['session'] : undefined;
+
+  if (!dataSets.includes(dataParam)) {
+    return c.html(htmlBody(`<p>Unknown dataset.</p><a href='/'>Back</a>`));
+  }
+
+  if (!question) {
+    return c.redirect(
+      `/chat?${new URLSearchParams({ data: dataParam, ...(sessionId ? { session: sessionId } : {}) })}`
+    );
+  }
+
+  const { conversation } = await askInConversation(
+    conversationStore,
+    { conversationId: sessionId, dataSet: dataParam, question },
+    { searchConfig: { maxResults: 3, enableHybridSearch: true } }
+  );
+
+  return c.redirect(`/chat?${new URLSearchParams({ data: dataParam, session: conversation.id })}`, 303);
+});
+
 const port = 8787;
 console.log(`Server is running on port ${port}`);
 
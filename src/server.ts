@@ -1,33 +1,35 @@
 import '../dotenv-config';
 import { Hono } from 'hono';
 import { serve } from '@hono/node-server';
-import { generateRAGResponse } from './ai/completions';
-import { generateEmbedding } from './ai/embeddings';
+import {
+  generateNoContextResponse,
+  generateRAGResponse,
+  type ChatMessage,
+} from './ai/completions';
+import { defaultMinSimilarity, generateEmbedding } from './ai/embeddings';
 import {
   loadDocs,
   embedAllDocsWithAI,
   findRelevantDocsWithAI,
+  type Doc,
 } from './features/semantic-search';
 import { htmlBody, escapeHtml } from './view/html';
-import { stripFrontmatter } from './view/frontmatter';
-import {
-  loadSystemPrompt,
-  loadUserTemplate,
-  fillUserTemplate,
-} from './dataset/template-loader';
-import { readFile } from 'node:fs/promises';
-import { readdirSync } from 'node:fs';
-import path from 'node:path';
+import { renderAnswerWithCitations, sourceAnchorId } from './view/citations';
+import { noContextNotice } from './view/no-context';
+import { loadPromptTemplates } from './dataset/template-loader';
+import type { PromptSource } from './ai/prompt';
 import * as process from 'node:process';
 import { getAIConfig } from './ai/provider-config';
+import { listDataSets } from './dataset/datasets';
+import { createApiV1 } from './api/v1';
+import { loadDocumentIndex } from './support/document-index';
+import type { VectorIndex } from './support/vector-index';
 
-const dataDir = path.join(process.cwd(), 'data');
-const dataSets = readdirSync(dataDir, { withFileTypes: true })
-  .filter((d) => d.isDirectory())
-  .map((d) => d.name);
+const dataSets = listDataSets();
 
-const docsPromises: Record<string, Promise<any>> = {};
+const docsPromises: Record<string, Promise<Doc[]>> = {};
 const docsEmbeddedPromises: Record<string, Promise<void>> = {};
+const docsIndexPromises: Record<string, Promise<VectorIndex>> = {};
 
 async function fetchLMStudioModels(): Promise<{ completion: string[], embedding: string[] }> {
   const aiConfig = getAIConfig();
@@ -73,6 +75,7 @@ async function fetchLMStudioModels(): Promise<{ completion: string[], embedding:
 }
 
 const app = new Hono();
+app.route('/api/v1', createApiV1(dataSets));
 app.get('/', async (c) => {
   const requestUrl = new URL(c.req.url, `http://localhost`);
   const dataParam = requestUrl.searchParams.get('data');
@@ -162,13 +165,31 @@ app.post('/ask', async (c) => {
     docsEmbeddedPromises[dataParam] = embedAllDocsWithAI(docs, dataParam);
   }
   await docsEmbeddedPromises[dataParam];
-  const relevantDocs = await findRelevantDocsWithAI(docs, question, 2);
-  const context = relevantDocs.map((d) => d.text);
+  if (!docsIndexPromises[dataParam]) {
+    docsIndexPromises[dataParam] = loadDocumentIndex(
+      dataParam,
+      docs,
+      process.env.VECTOR_INDEX === 'hnsw' ? 'hnsw' : 'flat'
+    );
+  }
+  const index = await docsIndexPromises[dataParam];
+  const minSimilarity = defaultMinSimilarity();
+  const relevantDocs = await findRelevantDocsWithAI(docs, question, 2, index, minSimilarity);
+  const context: PromptSource[] = relevantDocs.map((d) => ({
+    id: d.id,
+    documentId: d.id,
+    text: d.text,
+  }));
 
-  const system = await loadSystemPrompt(dataParam);
-  const answer = await generateRAGResponse(question, context, {
-    systemPrompt: system,
-  });
+  const templates = await loadPromptTemplates(dataParam);
+  const { systemPrompt: system, userTemplate } = templates;
+  const { text: answer, messages, context: sentContext } =
+    relevantDocs.length > 0
+      ? await generateRAGResponse(question, context, templates)
+      : { ...(await generateNoContextResponse(question, dataParam)), context: [] };
+  // Messages as sent to the model; canned no-context answers don't send any
+  const sentMessage = (role: ChatMessage['role']) =>
+    messages.filter((message) => message.role === role).at(-1)?.content ?? '(no model call)';
   function logToFile(message: string): void {
     const fs = require('fs');
     const timestamp = new Date().toISOString();
@@ -181,7 +202,9 @@ app.post('/ask', async (c) => {
     request: {
       question,
       systemPrompt: system,
-      context: context.join('\n'),
+      userTemplate,
+      messages,
+      context: context.map((source) => source.text).join('\n'),
       model: aiConfig.completionModel,
       aiConfig: {
         completionProvider: aiConfig.completionProvider,
@@ -197,7 +220,8 @@ app.post('/ask', async (c) => {
         }
       }]
     },
-    context: context.join('\n'),
+    context: context.map((source) => source.text).join('\n'),
+    minSimilarity,
     relevantDocs: relevantDocs.map((d) => ({ id: d.id, text: d.text })),
     answer,
   };
@@ -205,11 +229,15 @@ app.post('/ask', async (c) => {
   const html = `
     <h1>Q: ${escapeHtml(question)}</h1>
     <h2>Answer:</h2>
-    <blockquote>${escapeHtml(answer)}</blockquote>
-    <h3>Top relevant passages:</h3>
-    <ul>
-      ${relevantDocs.map((d) => `<li>${escapeHtml(d.text)}</li>`).join('')}
-    </ul>
+    <blockquote>${renderAnswerWithCitations(answer, sentContext.length)}</blockquote>
+    ${
+      relevantDocs.length > 0
+        ? `<h3>Top relevant passages:</h3>
+    <ol>
+      ${relevantDocs.map((d, i) => `<li id="${sourceAnchorId(i + 1)}">${escapeHtml(d.text)}</li>`).join('')}
+    </ol>`
+        : noContextNotice(dataParam, minSimilarity)
+    }
     <form method="get" action="/?data=${encodeURIComponent(
       dataParam
     )}"><button>Ask another</button></form>
@@ -232,17 +260,16 @@ app.post('/ask', async (c) => {
       <h4>Context</h4>
       <details>
         <summary>System Prompt</summary>
-        <pre style="white-space: pre-wrap;">${escapeHtml(system)}</pre>
+        <pre style="white-space: pre-wrap;">${escapeHtml(sentMessage('system'))}</pre>
+      </details>
+      <details>
+        <summary>User Message</summary>
+        <pre style="white-space: pre-wrap;">${escapeHtml(sentMessage('user'))}</pre>
       </details>
       <details>
         <summary>Documents</summary>
         <pre style="white-space: pre-wrap;">${escapeHtml(
-          stripFrontmatter(
-            await readFile(
-              `${process.cwd()}/data/${dataParam}/docs.md`,
-              'utf-8'
-            )
-          )
+          docs.map((doc) => doc.text).join('\n\n***\n\n')
         )}</pre>
       </details>
     </section>
@@ -0,0 +1,112 @@
+import { mkdtempSync, rmSync, existsSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  createConversation,
+  createConversationStore,
+  FileConversationStore,
+  MemoryConversationStore,
+} from './conversation-store';
+
+describe('support/conversation-store', () => {
+  const turn = {
+    question: 'Where are mangoes grown?',
+    standaloneQuestion: 'Where are mangoes grown?',
+    answer: 'Mostly in India.',
+    sources: [{ id: '1', text: 'Mangoes grow in India.', score: 0.9 }],
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  describe('MemoryConversationStore', () => {
+    it('saves and loads copies of conversations', async () => {
+      const store = new MemoryConversationStore();
+      const conversation = createConversation('fruits');
+      await store.save(conversation);
+
+      conversation.turns.push(turn);
+      expect((await store.get(conversation.id))?.turns).toEqual([]);
+
+      await store.save(conversation);
+      expect((await store.get(conversation.id))?.turns).toEqual([turn]);
+    });
+
+    it('evicts the least recently saved conversation', async () => {
+      const store = new MemoryConversationStore(2);
+      const a = createConversation('fruits');
+      const b = createConversation('fruits');
+      const c = createConversation('fruits');
+      await store.save(a);
+      await store.save(b);
+      await store.save(a);
+      await store.save(c);
+
+      expect(await store.get(a.id)).not.toBeNull();
+      expect(await store.get(b.id)).toBeNull();
+      expect(await store.get(c.id)).not.toBeNull();
+    });
+
+    it('deletes conversations', async () => {
+      const store = new MemoryConversationStore();
+      const conversation = createConversation('fruits');
+      await store.save(conversation);
+      await store.delete(conversation.id);
+      expect(await store.get(conversation.id)).toBeNull();
+    });
+  });
+
+  describe('FileConversationStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('persists conversations as JSON files', async () => {
+      const conversation = { ...createConversation('fruits'), turns: [turn] };
+      await new FileConversationStore(dir).save(conversation);
+
+      expect(existsSync(path.join(dir, `${conversation.id}.json`))).toBe(true);
+      expect(await new FileConversationStore(dir).get(conversation.id)).toEqual(conversation);
+    });
+
+    it('returns null for unknown or invalid ids', async () => {
+      const store = new FileConversationStore(dir);
+      expect(await store.get('missing')).toBeNull();
+      expect(await store.get('../etc/passwd')).toBeNull();
+    });
+
+    it('deletes conversation files', async () => {
+      const store = new FileConversationStore(dir);
+      const conversation = createConversation('fruits');
+      await store.save(conversation);
+      await store.delete(conversation.id);
+      expect(await store.get(conversation.id)).toBeNull();
+    });
+  });
+
+  describe('createConversationStore', () => {
+    const originalDir = process.env.CONVERSATION_STORE_DIR;
+
+    afterEach(() => {
+      if (originalDir === undefined) {
+        delete process.env.CONVERSATION_STORE_DIR;
+      } else {
+        process.env.CONVERSATION_STORE_DIR = originalDir;
+      }
+    });
+
+    it('uses the file store when CONVERSATION_STORE_DIR is set', () => {
+      process.env.CONVERSATION_STORE_DIR = os.tmpdir();
+      expect(createConversationStore()).toBeInstanceOf(FileConversationStore);
+    });
+
+    it('uses the memory store by default', () => {
+      delete process.env.CONVERSATION_STORE_DIR;
+      expect(createConversationStore()).toBeInstanceOf(MemoryConversationStore);
+    });
+  });
+});
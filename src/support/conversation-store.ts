@@ -0,0 +1,160 @@
+import { randomUUID } from 'node:crypto';
+import { readFile, writeFile, mkdir, rm } from 'node:fs/promises';
+import * as path from 'node:path';
+
+/**
+ * A source retrieved for a conversation turn (without its embedding).
+ */
+export interface TurnSource {
+  id: string;
+  text: string;
+  score: number;
+  documentId?: string;
+  chunkIndex?: number;
+  totalChunks?: number;
+}
+
+/**
+ * One question/answer exchange in a conversation.
+ */
+export interface ConversationTurn {
+  /** The question as asked by the user */
+  question: string;
+  /** The question rewritten to be understandable without the history (used for retrieval) */
+  standaloneQuestion: string;
+  /** The generated answer */
+  answer: string;
+  /** Sources retrieved for the standalone question */
+  sources: TurnSource[];
+  /** Timestamp of the turn */
+  createdAt: string;
+}
+
+/**
+ * A multi-turn conversation about one dataset.
+ */
+export interface Conversation {
+  id: string;
+  dataSet: string;
+  turns: ConversationTurn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for conversations.
+ * Implement this interface to keep conversations in a database, Redis, etc.
+ *
+ * @example
+ * ```typescript
+ * class RedisConversationStore implements ConversationStore {
+ *   async get(id: string) {
+ *     const json = await redis.get(`conversation:${id}`);
+ *     return json ? JSON.parse(json) : null;
+ *   }
+ *   async save(conversation: Conversation) {
+ *     await redis.set(`conversation:${conversation.id}`, JSON.stringify(conversation));
+ *   }
+ *   async delete(id: string) {
+ *     await redis.del(`conversation:${id}`);
+ *   }
+ * }
+ * ```
+ */
+export interface ConversationStore {
+  /** Load a conversation, or null if it doesn't exist */
+  get(id: string): Promise<Conversation | null>;
+  /** Create or update a conversation */
+  save(conversation: Conversation): Promise<void>;
+  /** Remove a conversation (no-op if it doesn't exist) */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Create a new, empty conversation.
+ * @param dataSet - Dataset the conversation is about
+ */
+export function createConversation(dataSet: string): Conversation {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), dataSet, turns: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Keeps conversations in process memory. Conversations are lost on restart.
+ * The least recently updated conversations are evicted beyond `maxConversations`.
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private readonly conversations = new Map<string, Conversation>();
+
+  constructor(private readonly maxConversations: number = 1000) {}
+
+  async get(id: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(id);
+    return conversation ? structuredClone(conversation) : null;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    // Re-insert so Map order reflects recency
+    this.conversations.delete(conversation.id);
+    this.conversations.set(conversation.id, structuredClone(conversation));
+    while (this.conversations.size > this.maxConversations) {
+      const oldest = this.conversations.keys().next().value as string;
+      this.conversations.delete(oldest);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    this.conversations.delete(id);
+  }
+}
+
+/**
+ * Stores each conversation as a JSON file `{id}.json` in a directory,
+ * so conversations survive server restarts.
+ */
+export class FileConversationStore implements ConversationStore {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Get the file path for a conversation.
+   * Only UUID-like ids are accepted to keep paths inside the store directory.
+   */
+  private filePath(id: string): string | null {
+    return /^[a-zA-Z0-9-]+$/.test(id) ? path.join(this.dir, `${id}.json`) : null;
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    const filePath = this.filePath(id);
+    if (!filePath) return null;
+    try {
+      return JSON.parse(await readFile(filePath, 'utf-8')) as Conversation;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const filePath = this.filePath(conversation.id);
+    if (!filePath) {
+      throw new Error(`Invalid conversation id: ${conversation.id}`);
+    }
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(filePath, JSON.stringify(conversation, null, 2));
+  }
+
+  async delete(id: string): Promise<void> {
+    const filePath = this.filePath(id);
+    if (filePath) {
+      await rm(filePath, { force: true });
+    }
+  }
+}
+
+/**
+ * Create the conversation store selected by the environment:
+ * a FileConversationStore when `CONVERSATION_STORE_DIR` is set, otherwise in-memory.
+ */
+export function createConversationStore(): ConversationStore {
+  const dir = process.env.CONVERSATION_STORE_DIR;
+  return dir ? new FileConversationStore(path.resolve(dir)) : new MemoryConversationStore();
+}
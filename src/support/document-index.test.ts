@@ -0,0 +1,120 @@
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Doc } from '../dataset/DocumentLoader';
+import { documentIndexPath, loadDocumentIndex } from './document-index';
+
+jest.mock('../ai/provider-config', () => ({
+  getAIConfig: jest.fn(() => ({
+    embeddingProvider: 'openai',
+    embeddingModel: 'text-embedding-ada-002',
+  })),
+}));
+
+describe('support/document-index', () => {
+  let testDir: string;
+  let originalCwd: () => string;
+
+  const docs = (): Doc[] => [
+    { id: '1', text: 'Apples are red.', embedding: [1, 0, 0] },
+    { id: '2', text: 'Bananas are yellow.', embedding: [0, 1, 0] },
+    { id: '3', text: 'Not embedded yet.' },
+  ];
+
+  beforeEach(() => {
+    testDir = mkdtempSync(path.join(os.tmpdir(), 'document-index-'));
+    originalCwd = process.cwd;
+    process.cwd = jest.fn(() => testDir);
+  });
+
+  afterEach(() => {
+    process.cwd = originalCwd;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('stores the index in a subfolder of the embedding cache', () => {
+    expect(documentIndexPath('fruits', 'hnsw')).toBe(
+      path.join(testDir, 'data', 'fruits', 'embeddings', 'openai', 'text-embedding-ada-002', 'index', 'hnsw.json')
+    );
+  });
+
+  it('indexes the embedded documents', async () => {
+    const index = await loadDocumentIndex('fruits', docs(), 'flat');
+    expect(index.ids().sort()).toEqual(['1', '2']);
+    expect(index.search([0.9, 0.1, 0], 1)[0].id).toBe('1');
+    expect(existsSync(documentIndexPath('fruits', 'flat'))).toBe(false);
+  });
+
+  it('persists HNSW graphs and updates them incrementally', async () => {
+    const filePath = documentIndexPath('fruits', 'hnsw');
+    await loadDocumentIndex('fruits', docs(), 'hnsw');
+    const saved = JSON.parse(readFileSync(filePath, 'utf-8'));
+    expect(Object.keys(saved.hashes).sort()).toEqual(['1', '2']);
+
+    const changed: Doc[] = [
+      { id: '1', text: 'Apples are green.', embedding: [0, 0, 1] },
+      { id: '3', text: 'Cherries are red.', embedding: [0.9, 0.1, 0] },
+    ];
+    const index = await loadDocumentIndex('fruits', changed, 'hnsw');
+
+    expect(index.ids().sort()).toEqual(['1', '3']);
+    expect(index.search([0, 0, 1], 1)[0]).toMatchObject({ id: '1' });
+    const updated = JSON.parse(readFileSync(filePath, 'utf-8'));
+    expect(Object.keys(updated.hashes).sort()).toEqual(['1', '3']);
+    expect(updated.hashes['1']).not.toBe(saved.hashes['1']);
+  });
+
+  it('keeps the indexes of document set variants apart', async () => {
+    const chunks: Doc[] = [{ id: '1-chunk-0', text: 'Apples', embedding: [1, 0, 0] }];
+
+    const whole = await loadDocumentIndex('fruits', docs(), 'hnsw');
+    const chunked = await loadDocumentIndex('fruits', chunks, 'hnsw', { variant: 'chunks:200' });
+
+    expect(whole.ids().sort()).toEqual(['1', '2']);
+    expect(chunked.ids()).toEqual(['1-chunk-0']);
+    expect(documentIndexPath('fruits', 'hnsw', 'chunks:200')).toMatch(/hnsw-[0-9a-f]{16}\.json$/);
+    expect(existsSync(documentIndexPath('fruits', 'hnsw', 'chunks:200'))).toBe(true);
+    expect(await loadDocumentIndex('fruits', docs(), 'hnsw')).toBe(whole);
+  });
+
+  it('updates a copy, so that returned indexes never change', async () => {
+    const first = await loadDocumentIndex('fruits', docs(), 'flat');
+    const changed: Doc[] = [{ id: '4', text: 'Kiwis are green.', embedding: [0, 0, 1] }];
+
+    const second = await loadDocumentIndex('fruits', changed, 'flat');
+
+    expect(second).not.toBe(first);
+    expect(second.ids()).toEqual(['4']);
+    expect(first.ids().sort()).toEqual(['1', '2']);
+  });
+
+  it("doesn't write to the data folder with other embedding stores", async () => {
+    process.env.EMBEDDING_STORE = 'memory';
+    try {
+      const index = await loadDocumentIndex('fruits', docs(), 'hnsw');
+
+      expect(index.ids().sort()).toEqual(['1', '2']);
+      expect(existsSync(path.join(testDir, 'data'))).toBe(false);
+    } finally {
+      delete process.env.EMBEDDING_STORE;
+    }
+  });
+
+  it('reuses the persisted graph after a restart', async () => {
+    await loadDocumentIndex('fruits', docs(), 'hnsw');
+
+    let restoredIds: string[] = [];
+    let restored = false;
+    await jest.isolateModulesAsync(async () => {
+      const { HnswVectorIndex } = await import('./vector-index');
+      const fromJSON = jest.spyOn(HnswVectorIndex, 'fromJSON');
+      const fresh = await import('./document-index');
+      const changed = [{ id: '2', text: 'Bananas are yellow.', embedding: [0, 1, 0] }];
+      restoredIds = (await fresh.loadDocumentIndex('fruits', changed, 'hnsw')).ids();
+      restored = fromJSON.mock.calls.length === 1;
+    });
+
+    expect(restored).toBe(true);
+    expect(restoredIds).toEqual(['2']);
+  });
+});
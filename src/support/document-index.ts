@@ -0,0 +1,191 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Doc } from '../dataset/DocumentLoader';
+import { contentHash, embeddingCacheDir } from './embedding-cache';
+import { getEmbeddingStoreConfig } from './embedding-store';
+import {
+  createVectorIndex,
+  HnswVectorIndex,
+  type HnswOptions,
+  type SerializedVectorIndex,
+  type VectorIndex,
+  type VectorIndexType,
+} from './vector-index';
+
+/**
+ * Index file stored next to the embedding cache.
+ */
+interface PersistedDocumentIndex {
+  version: 1;
+  /** Content hash of each indexed document, to detect changed documents */
+  hashes: Record<string, string>;
+  /** Index structure (vectors are restored from the document embeddings) */
+  index: SerializedVectorIndex;
+}
+
+interface LoadedIndex {
+  /** Never changed once returned: updates change a copy (see updateIndex()) */
+  index: VectorIndex;
+  hashes: Map<string, string>;
+  /** Whether the index differs from the index file */
+  dirty: boolean;
+}
+
+/**
+ * Options for loadDocumentIndex().
+ */
+export interface DocumentIndexOptions extends HnswOptions {
+  /**
+   * Key of the document set the index is built from, e.g. the chunking configuration. Document
+   * sets of a dataset with different keys get separate indexes and index files.
+   */
+  variant?: string;
+}
+
+/** Latest index of each index file path, updated one after another */
+const loadedIndexes = new Map<string, Promise<LoadedIndex | undefined>>();
+
+/**
+ * Get the path of a dataset's index file:
+ * `data/{dataSet}/embeddings/{provider}/{model}/index/{type}.json`, or
+ * `index/{type}-{hash of the variant}.json` for a variant.
+ * The index lives in a subfolder so the embedding cache scripts don't treat it as a cache file.
+ */
+export function documentIndexPath(
+  dataSet: string,
+  type: VectorIndexType,
+  variant?: string
+): string {
+  const name = variant === undefined ? type : `${type}-${contentHash(variant).slice(0, 16)}`;
+  return path.join(embeddingCacheDir(dataSet), 'index', `${name}.json`);
+}
+
+/**
+ * Read a persisted HNSW graph, keeping only nodes whose documents are unchanged.
+ * Returns null if there is no usable index file.
+ */
+async function readPersistedIndex(
+  filePath: string,
+  documents: Map<string, { doc: Doc; hash: string }>
+): Promise<LoadedIndex | null> {
+  try {
+    const data = JSON.parse(await readFile(filePath, 'utf-8')) as PersistedDocumentIndex;
+    if (data.version !== 1 || data.index?.type !== 'hnsw') {
+      return null;
+    }
+    const hashes = new Map<string, string>();
+    const index = HnswVectorIndex.fromJSON(data.index, (id) => {
+      const current = documents.get(id);
+      if (!current || current.hash !== data.hashes[id]) {
+        return undefined;
+      }
+      hashes.set(id, current.hash);
+      return current.doc.embedding;
+    });
+    return { index, hashes, dirty: index.size !== data.index.nodes.length };
+  } catch {
+    // Missing or corrupt index file (or embeddings of another size) - rebuild
+    return null;
+  }
+}
+
+/**
+ * Bring an index up to date with the documents: documents that were removed or whose text
+ * changed are removed, new documents are added. A changed index is a copy, unless the index
+ * was never returned, so that searches running on the previous index are not affected.
+ * @param filePath - Index file to write a changed HNSW graph to, if it is persisted
+ */
+async function updateIndex(
+  loaded: LoadedIndex,
+  current: Map<string, { doc: Doc; hash: string }>,
+  filePath: string | undefined,
+  owned: boolean
+): Promise<LoadedIndex> {
+  const stale = loaded.index.ids().filter((id) => current.get(id)?.hash !== loaded.hashes.get(id));
+  const added = [...current].filter(([id, { hash }]) => loaded.hashes.get(id) !== hash);
+  if (stale.length === 0 && added.length === 0 && !loaded.dirty) {
+    return loaded;
+  }
+
+  const index = owned ? loaded.index : loaded.index.clone();
+  const hashes = new Map(loaded.hashes);
+  index.removeMany(stale);
+  stale.forEach((id) => hashes.delete(id));
+  for (const [id, { doc, hash }] of added) {
+    index.add(id, doc.embedding!);
+    hashes.set(id, hash);
+  }
+
+  if (filePath && index.type === 'hnsw') {
+    const persisted: PersistedDocumentIndex = {
+      version: 1,
+      hashes: Object.fromEntries(hashes),
+      index: index.toJSON(),
+    };
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(persisted));
+  }
+  return { index, hashes, dirty: false };
+}
+
+/**
+ * Load the vector index of a dataset and bring it up to date with the documents.
+ * Documents that were removed or whose text changed are removed from the index, new documents
+ * are added, so only the difference is processed when documents change.
+ *
+ * The returned index is never changed afterwards: a later call with other documents updates
+ * a copy, so searches of concurrent requests don't see each other's documents. Pass a
+ * `variant` for each set of documents of a dataset (e.g. whole documents and chunks, or
+ * chunking configurations), so that they don't replace each other's index.
+ *
+ * With the file embedding store, HNSW graphs are persisted next to the embedding cache and
+ * reused across restarts. With other stores (see getEmbeddingStoreConfig()), nothing is
+ * written to the data folder and graphs are rebuilt once per process. Flat indexes are cheap
+ * to build and kept in memory only.
+ *
+ * @param dataSet - Dataset name (determines the index location)
+ * @param documents - Current documents with embeddings (documents without embeddings are skipped)
+ * @param type - Index implementation (default: flat)
+ * @param options - Document set variant, and HNSW graph parameters for new indexes
+ * @returns The up-to-date index, with document ids as vector ids
+ *
+ * @example
+ * ```typescript
+ * const documents = await loadDocsWithChunking('example-fruits');
+ * await embedAllDocsEnhanced(documents, 'example-fruits');
+ * const index = await loadDocumentIndex('example-fruits', documents, 'hnsw', { variant: 'chunks' });
+ * const hits = index.search(await generateEmbedding('tropical fruit'), 5);
+ * ```
+ */
+export async function loadDocumentIndex(
+  dataSet: string,
+  documents: Doc[],
+  type: VectorIndexType = 'flat',
+  options: DocumentIndexOptions = {}
+): Promise<VectorIndex> {
+  const { variant, ...hnswOptions } = options;
+  const filePath = documentIndexPath(dataSet, type, variant);
+  const persisted = type === 'hnsw' && getEmbeddingStoreConfig().type === 'fs';
+  const current = new Map<string, { doc: Doc; hash: string }>();
+  for (const doc of documents) {
+    if (doc.embedding) {
+      current.set(doc.id, { doc, hash: contentHash(doc.text) });
+    }
+  }
+
+  const previous = loadedIndexes.get(filePath) ?? Promise.resolve(undefined);
+  const updating = previous.then(async (loaded) => {
+    if (loaded) {
+      return updateIndex(loaded, current, persisted ? filePath : undefined, false);
+    }
+    const created = (persisted && (await readPersistedIndex(filePath, current))) || {
+      index: createVectorIndex(type, hnswOptions),
+      hashes: new Map<string, string>(),
+      dirty: false,
+    };
+    return updateIndex(created, current, persisted ? filePath : undefined, true);
+  });
+  // A failed update (e.g. the index file can't be written) keeps the previous index
+  loadedIndexes.set(filePath, updating.catch(() => previous));
+  return (await updating).index;
+}
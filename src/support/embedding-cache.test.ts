@@ -1,6 +1,11 @@
-import { EmbeddingCache } from './embedding-cache';
+import { contentHash, EmbeddingCache } from './embedding-cache';
+import { MemoryEmbeddingStore } from './embedding-store';
+import { FileEmbeddingStore } from './file-embedding-store';
+import { SHARED_DATASET, SharedEmbeddingStore } from './shared-embedding-store';
+import * as embeddings from '../ai/embeddings';
+import { getAIConfig } from '../ai/provider-config';
 import { Doc } from '../dataset/DocumentLoader';
-import { writeFile, mkdir, rm, readFile } from 'node:fs/promises';
+import { writeFile, mkdir, rm, readFile, readdir } from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
 
@@ -17,14 +22,10 @@ const testDataSet = 'test-dataset';
 const testEmbeddingsDir = path.join(testDataDir, 'data', testDataSet, 'embeddings');
 const testCacheDir = path.join(testEmbeddingsDir, 'openai', 'text-embedding-ada-002');
 
-// Mock OpenAI client
-const mockOpenAI = {
-  embeddings: {
-    create: jest.fn().mockImplementation(({ input }: any) => ({
-      data: [{ embedding: new Array(1536).fill(0.1) }] // Mock embedding vector
-    }))
-  }
-};
+// Mock embedding requests
+const mockGenerate = jest.fn(async (texts: string[]) =>
+  texts.map(() => new Array(1536).fill(0.1)) // Mock embedding vector
+);
 
 beforeAll(async () => {
   await mkdir(path.join(testDataDir, 'data', testDataSet), { recursive: true });
@@ -42,7 +43,7 @@ beforeEach(() => {
   process.cwd = () => testDataDir;
   
   // Clean up any previous test state
-  mockOpenAI.embeddings.create.mockClear();
+  mockGenerate.mockClear();
 });
 
 afterEach(() => {
@@ -53,8 +54,11 @@ afterEach(() => {
 describe('EmbeddingCache', () => {
   let cache: EmbeddingCache;
   let testDocs: Doc[];
+  let generate: jest.SpyInstance;
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    await rm(testEmbeddingsDir, { recursive: true, force: true });
+    generate = jest.spyOn(embeddings, 'generateEmbeddings').mockImplementation(mockGenerate);
     cache = new EmbeddingCache(testDataSet);
     testDocs = [
       { id: '1', text: 'First test document' },
@@ -63,6 +67,10 @@ describe('EmbeddingCache', () => {
     ];
   });
 
+  afterEach(() => {
+    generate.mockRestore();
+  });
+
   describe('loadCachedEmbeddings', () => {
     test('returns 0 when no cache exists', async () => {
       const count = await cache.loadCachedEmbeddings(testDocs);
@@ -72,7 +80,7 @@ describe('EmbeddingCache', () => {
 
     test('loads cached embeddings when they exist', async () => {
       // First, create cache by embedding documents
-      await cache.embedDocuments(mockOpenAI, testDocs);
+      await cache.embedDocuments(testDocs);
       
       // Reset embeddings
       testDocs.forEach(doc => delete doc.embedding);
@@ -89,7 +97,7 @@ describe('EmbeddingCache', () => {
       testDocs[0].embedding = new Array(1536).fill(0.5);
       
       // Create cache for other documents
-      await cache.embedDocuments(mockOpenAI, testDocs.slice(1));
+      await cache.embedDocuments(testDocs.slice(1));
       
       // Reset embeddings except first
       testDocs.slice(1).forEach(doc => delete doc.embedding);
@@ -106,10 +114,10 @@ describe('EmbeddingCache', () => {
 
   describe('embedDocuments', () => {
     test('embeds documents without embeddings and caches them', async () => {
-      const count = await cache.embedDocuments(mockOpenAI, testDocs);
+      const count = await cache.embedDocuments(testDocs);
       
       expect(count).toBe(3);
-      expect(mockOpenAI.embeddings.create).toHaveBeenCalledTimes(3);
+      expect(mockGenerate).toHaveBeenCalledTimes(1); // One batch
       expect(testDocs.every(doc => doc.embedding && doc.embedding.length === 1536)).toBe(true);
       
       // Verify cache files were created
@@ -122,10 +130,10 @@ describe('EmbeddingCache', () => {
       testDocs[0].embedding = new Array(1536).fill(0.5);
       testDocs[1].embedding = new Array(1536).fill(0.6);
       
-      const count = await cache.embedDocuments(mockOpenAI, testDocs);
+      const count = await cache.embedDocuments(testDocs);
       
       expect(count).toBe(1); // Only embedded the third document
-      expect(mockOpenAI.embeddings.create).toHaveBeenCalledTimes(1);
+      expect(mockGenerate).toHaveBeenCalledWith(['Third test document'], { maxRetries: 0 });
       expect(testDocs[0].embedding![0]).toBe(0.5); // Original preserved
       expect(testDocs[1].embedding![0]).toBe(0.6); // Original preserved
       expect(testDocs[2].embedding![0]).toBe(0.1); // Newly embedded
@@ -135,10 +143,10 @@ describe('EmbeddingCache', () => {
       // Give all docs embeddings
       testDocs.forEach(doc => doc.embedding = new Array(1536).fill(0.5));
       
-      const count = await cache.embedDocuments(mockOpenAI, testDocs);
+      const count = await cache.embedDocuments(testDocs);
       
       expect(count).toBe(0);
-      expect(mockOpenAI.embeddings.create).not.toHaveBeenCalled();
+      expect(mockGenerate).not.toHaveBeenCalled();
     });
 
     test('caches embeddings with correct metadata', async () => {
@@ -146,7 +154,11 @@ describe('EmbeddingCache', () => {
       const freshCache = new EmbeddingCache(testDataSet);
       const singleDoc = [{ id: '1', text: 'Fresh test document for metadata test' }];
       
-      await freshCache.embedDocuments(mockOpenAI, singleDoc, 'custom-model');
+      (getAIConfig as jest.Mock).mockReturnValueOnce({
+        embeddingProvider: 'openai',
+        embeddingModel: 'custom-model'
+      });
+      await freshCache.embedDocuments(singleDoc);
       
       // Read the cache file directly from the custom-model directory
       const customCacheDir = path.join(testEmbeddingsDir, 'openai', 'custom-model');
@@ -175,7 +187,7 @@ describe('EmbeddingCache', () => {
   describe('cache invalidation', () => {
     test('does not load cache when content changes', async () => {
       // Create cache
-      await cache.embedDocuments(mockOpenAI, testDocs);
+      await cache.embedDocuments(testDocs);
       
       // Change document content
       testDocs[0].text = 'Modified first document';
@@ -201,7 +213,7 @@ describe('EmbeddingCache', () => {
       ];
       
       // Create cache
-      await freshCache.embedDocuments(mockOpenAI, freshDocs);
+      await freshCache.embedDocuments(freshDocs);
       
       // Verify files exist
       let files = await import('fs/promises').then(fs => fs.readdir(testCacheDir));
@@ -225,22 +237,352 @@ describe('EmbeddingCache', () => {
   describe('integration with semantic search', () => {
     test('full workflow: embed, cache, reload from cache', async () => {
       // First run: embed and cache
-      const newEmbedded1 = await cache.embedDocuments(mockOpenAI, testDocs);
+      const newEmbedded1 = await cache.embedDocuments(testDocs);
       expect(newEmbedded1).toBe(3);
-      expect(mockOpenAI.embeddings.create).toHaveBeenCalledTimes(3);
+      expect(mockGenerate).toHaveBeenCalledTimes(1);
       
       // Reset embeddings
       testDocs.forEach(doc => delete doc.embedding);
-      mockOpenAI.embeddings.create.mockClear();
+      mockGenerate.mockClear();
       
       // Second run: load from cache
       const cached = await cache.loadCachedEmbeddings(testDocs);
-      const newEmbedded2 = await cache.embedDocuments(mockOpenAI, testDocs);
+      const newEmbedded2 = await cache.embedDocuments(testDocs);
       
       expect(cached).toBe(3); // All loaded from cache
       expect(newEmbedded2).toBe(0); // None newly embedded
-      expect(mockOpenAI.embeddings.create).not.toHaveBeenCalled(); // No API calls
+      expect(mockGenerate).not.toHaveBeenCalled(); // No API calls
       expect(testDocs.every(doc => doc.embedding && doc.embedding.length === 1536)).toBe(true);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('EmbeddingCache requests', () => {
+  describe('embedTexts', () => {
+    it('embeds missing texts in one request and caches them', async () => {
+      const generate = jest.spyOn(embeddings, 'generateEmbeddings');
+      const cache = new EmbeddingCache(testDataSet);
+
+      const first = await cache.embedTexts(['Sentence one.', 'Sentence two.']);
+      expect(first).toHaveLength(2);
+      expect(generate).toHaveBeenCalledTimes(1);
+
+      const second = await cache.embedTexts(['Sentence two.', 'Sentence three.']);
+      expect(generate).toHaveBeenLastCalledWith(['Sentence three.'], { maxRetries: 0 });
+      expect(second[0]).toEqual(first[1]);
+      generate.mockRestore();
+    });
+  });
+
+  describe('embedDocuments', () => {
+    const docs = (...texts: string[]): Doc[] => texts.map((text, i) => ({ id: String(i), text }));
+    let generate: jest.SpyInstance;
+
+    beforeEach(async () => {
+      await new EmbeddingCache(testDataSet).clearCache();
+      generate = jest.spyOn(embeddings, 'generateEmbeddings');
+    });
+
+    afterEach(() => {
+      generate.mockRestore();
+    });
+
+    it('embeds in batches and reports the progress', async () => {
+      const cache = new EmbeddingCache(testDataSet);
+      const documents = docs(
+        'Alpha text.',
+        'Beta text.',
+        'Gamma text.',
+        'Delta text.',
+        'Alpha text.'
+      );
+      const onProgress = jest.fn();
+
+      const count = await cache.embedDocuments(documents, {
+        batchSize: 2,
+        concurrency: 2,
+        onProgress,
+      });
+
+      expect(count).toBe(5);
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(generate.mock.calls.map(([texts]) => texts).flat().sort()).toEqual(
+        ['Alpha text.', 'Beta text.', 'Delta text.', 'Gamma text.']
+      );
+      expect(documents.every(doc => doc.embedding?.length === 1536)).toBe(true);
+      expect(documents[4].embedding).toEqual(documents[0].embedding);
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenLastCalledWith({ embedded: 5, total: 5 });
+    });
+
+    it('retries rate-limited requests', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const rateLimited = Object.assign(new Error('Too many requests'), { statusCode: 429 });
+      generate.mockRejectedValueOnce(rateLimited);
+      const cache = new EmbeddingCache(testDataSet);
+      const documents = docs('Retried text.');
+
+      await cache.embedDocuments(documents);
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(documents[0].embedding).toHaveLength(1536);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('retry 1/5'));
+      warn.mockRestore();
+    });
+
+    it('keeps the finished batches cached when a batch fails', async () => {
+      const cache = new EmbeddingCache(testDataSet);
+      generate.mockImplementationOnce(async (texts: string[]) => texts.map(() => [0.1, 0.2]));
+      const invalid = Object.assign(new Error('Invalid input'), { statusCode: 400 });
+      generate.mockRejectedValueOnce(invalid);
+
+      await expect(
+        cache.embedDocuments(docs('First batch.', 'Second batch.'), {
+          batchSize: 1,
+          concurrency: 1,
+        })
+      ).rejects.toThrow('Invalid input');
+
+      const resumed = docs('First batch.', 'Second batch.');
+      expect(await cache.loadCachedEmbeddings(resumed)).toBe(1);
+      expect(await cache.embedDocuments(resumed)).toBe(1);
+      expect(generate).toHaveBeenLastCalledWith(['Second batch.'], { maxRetries: 0 });
+    });
+  });
+});
+
+describe('FileEmbeddingStore packed format', () => {
+  const packed = () => ({ store: new FileEmbeddingStore({ format: 'packed' }) });
+  const files = () => ({ store: new FileEmbeddingStore({ format: 'files' }) });
+  const docs = (...texts: string[]): Doc[] => texts.map((text, i) => ({ id: String(i), text }));
+
+  beforeEach(async () => {
+    await new EmbeddingCache(testDataSet).clearCache();
+  });
+
+  it('caches embeddings in a vector file and a manifest', async () => {
+    const cache = new EmbeddingCache(testDataSet, packed());
+    await cache.embedDocuments(docs('Packed one.', 'Packed two.'));
+
+    expect((await readdir(testCacheDir)).sort()).toEqual(['manifest.json', 'vectors.f32']);
+    const reloaded = docs('Packed one.', 'Packed two.');
+    const reopened = new EmbeddingCache(testDataSet, packed());
+    expect(await reopened.loadCachedEmbeddings(reloaded)).toBe(2);
+    expect(reloaded[1].embedding).toHaveLength(1536);
+  });
+
+  it('packs existing embedding files on first use', async () => {
+    const original = docs('Migrated text.');
+    await new EmbeddingCache(testDataSet, files()).embedDocuments(original);
+
+    const cache = new EmbeddingCache(testDataSet, packed());
+    const reloaded = docs('Migrated text.');
+    expect(await cache.loadCachedEmbeddings(reloaded)).toBe(1);
+
+    expect((await readdir(testCacheDir)).sort()).toEqual(['manifest.json', 'vectors.f32']);
+    reloaded[0].embedding!.forEach((value, i) =>
+      expect(value).toBeCloseTo(original[0].embedding![i], 6)
+    );
+  });
+
+  it('reads packed embeddings in the files format', async () => {
+    await new EmbeddingCache(testDataSet, packed()).embedDocuments(docs('Shared.'));
+
+    const reloaded = docs('Shared.', 'Not cached.');
+    const reader = new EmbeddingCache(testDataSet, files());
+    expect(await reader.loadCachedEmbeddings(reloaded)).toBe(1);
+    expect(reloaded[1].embedding).toBeUndefined();
+  });
+
+  it('treats an unreadable manifest as not cached, and reports and repairs it', async () => {
+    await new EmbeddingCache(testDataSet, packed()).embedDocuments(docs('Lost.'));
+    await writeFile(path.join(testCacheDir, 'manifest.json'), '{"version":2}}');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      const reloaded = docs('Lost.');
+      expect(await new EmbeddingCache(testDataSet, files()).loadCachedEmbeddings(reloaded)).toBe(0);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("manifest can't be read"));
+
+      const cache = new EmbeddingCache(testDataSet, packed());
+      const report = await cache.verify({ documents: docs('Lost.'), repair: true });
+      expect(report.issues).toEqual([
+        expect.objectContaining({
+          type: 'corrupt',
+          hash: 'manifest.json',
+          location: path.join(testCacheDir, 'manifest.json'),
+        }),
+      ]);
+      expect(report.repaired?.deleted).toBe(1);
+      expect(await readdir(testCacheDir)).toEqual([]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('EmbeddingCache verify', () => {
+  const docs = (...texts: string[]): Doc[] => texts.map((text, i) => ({ id: String(i), text }));
+  const cacheFile = (text: string) => path.join(testCacheDir, `${contentHash(text)}.json`);
+  let generate: jest.SpyInstance;
+  let cache: EmbeddingCache;
+
+  beforeEach(async () => {
+    await new EmbeddingCache(testDataSet).clearCache();
+    generate = jest.spyOn(embeddings, 'generateEmbeddings').mockImplementation(mockGenerate);
+    cache = new EmbeddingCache(testDataSet, { store: new FileEmbeddingStore({ format: 'files' }) });
+    await cache.embedDocuments(docs('Apples.', 'Pears.', 'Plums.', 'Figs.'));
+    mockGenerate.mockClear();
+  });
+
+  afterEach(() => {
+    generate.mockRestore();
+  });
+
+  const corruptCache = async () => {
+    await writeFile(cacheFile('Apples.'), '{"contentHash":');
+    const pears = JSON.parse(await readFile(cacheFile('Pears.'), 'utf-8'));
+    await writeFile(cacheFile('Pears.'), JSON.stringify({ ...pears, embedding: [0.1, 0.2] }));
+    const plums = JSON.parse(await readFile(cacheFile('Plums.'), 'utf-8'));
+    plums.embedding[7] = null; // NaN is written as null
+    await writeFile(cacheFile('Plums.'), JSON.stringify(plums));
+  };
+
+  test('reports no problems for a valid cache', async () => {
+    const report = await cache.verify({ documents: docs('Apples.', 'Pears.', 'Plums.', 'Figs.') });
+
+    expect(report).toEqual({
+      dataSet: testDataSet,
+      provider: 'openai',
+      model: 'text-embedding-ada-002',
+      checked: 4,
+      dimensions: 1536,
+      issues: [],
+    });
+  });
+
+  test('reports corrupt, invalid and orphaned embeddings', async () => {
+    await corruptCache();
+
+    const report = await cache.verify({
+      documents: docs('Apples.', 'Pears.', 'Plums.'),
+      orphans: true,
+    });
+
+    const issues = Object.fromEntries(report.issues.map(issue => [issue.hash, issue]));
+    expect(issues[contentHash('Apples.')]).toMatchObject({
+      type: 'corrupt',
+      location: cacheFile('Apples.'),
+    });
+    expect(issues[contentHash('Pears.')]).toMatchObject({
+      type: 'dimensions',
+      message: '2 dimensions, expected 1536',
+    });
+    expect(issues[contentHash('Plums.')].type).toBe('invalid-values');
+    expect(issues[contentHash('Figs.')].type).toBe('orphaned');
+    expect(report.repaired).toBeUndefined();
+  });
+
+  test('reports orphaned embeddings only when asked to', async () => {
+    const report = await cache.verify({ documents: docs('Apples.') });
+
+    expect(report.issues).toEqual([]);
+  });
+
+  test('warns about unreadable files instead of skipping them silently', async () => {
+    await corruptCache();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const loaded = await cache.loadCachedEmbeddings(docs('Apples.', 'Figs.'));
+
+    expect(loaded).toBe(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("1 cached embeddings can't be read")
+    );
+    warn.mockRestore();
+  });
+
+  test('repairs by removing bad embeddings and embedding current documents again', async () => {
+    await corruptCache();
+
+    const report = await cache.verify({
+      documents: docs('Apples.', 'Pears.', 'Plums.'),
+      repair: true,
+    });
+
+    expect(report.repaired).toEqual({ deleted: 3, reembedded: 3 });
+    expect(mockGenerate).toHaveBeenCalledWith(['Apples.', 'Pears.', 'Plums.'], { maxRetries: 0 });
+    expect((await readdir(testCacheDir)).sort()).toEqual(
+      ['Apples.', 'Pears.', 'Plums.', 'Figs.'].map(text => `${contentHash(text)}.json`).sort()
+    );
+    expect((await cache.verify()).issues).toEqual([]);
+  });
+
+  test('removes orphaned embeddings in a repair when asked to', async () => {
+    const report = await cache.verify({
+      documents: docs('Apples.', 'Pears.', 'Plums.'),
+      orphans: true,
+      repair: true,
+    });
+
+    expect(report.repaired).toEqual({ deleted: 1, reembedded: 0 });
+    expect((await readdir(testCacheDir)).sort()).toEqual(
+      ['Apples.', 'Pears.', 'Plums.'].map(text => `${contentHash(text)}.json`).sort()
+    );
+  });
+
+  test('embeds stored texts again when no documents are given', async () => {
+    await corruptCache();
+
+    const report = await cache.verify({ repair: true });
+
+    expect(report.issues.map(issue => issue.type).sort()).toEqual([
+      'corrupt',
+      'dimensions',
+      'invalid-values',
+    ]);
+    expect(report.repaired).toEqual({ deleted: 3, reembedded: 2 });
+    expect([...mockGenerate.mock.calls[0][0]].sort()).toEqual(['Pears.', 'Plums.']);
+  });
+
+  test('removes broken shared embeddings for all datasets', async () => {
+    const entries = new MemoryEmbeddingStore();
+    const store = new SharedEmbeddingStore(entries);
+    const shared = { dataSet: SHARED_DATASET, provider: 'openai', model: 'text-embedding-ada-002' };
+    await store.putMany({ ...shared, dataSet: testDataSet }, [
+      { hash: contentHash('Kiwis.'), text: 'Kiwis.', embedding: [0.1] },
+    ]);
+    const sharedCache = new EmbeddingCache(testDataSet, { store });
+
+    const report = await sharedCache.verify({ documents: docs('Kiwis.'), repair: true });
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'dimensions', dataSet: SHARED_DATASET }),
+    ]);
+    expect(report.repaired).toEqual({ deleted: 1, reembedded: 1 });
+    const repaired = await entries.getMany(shared, [contentHash('Kiwis.')]);
+    expect(repaired.get(contentHash('Kiwis.'))).toHaveLength(1536);
+  });
+
+  test('reports and replaces an unreadable references manifest', async () => {
+    const store = new SharedEmbeddingStore(new MemoryEmbeddingStore());
+    const sharedCache = new EmbeddingCache(testDataSet, { store });
+    await sharedCache.embedDocuments(docs('Kiwis.'));
+    const file = path.join(testCacheDir, 'references.json');
+    await writeFile(file, 'not json');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      const report = await sharedCache.verify({ documents: docs('Kiwis.'), repair: true });
+
+      expect(report.issues).toEqual([
+        expect.objectContaining({ type: 'corrupt', hash: 'references.json', location: file }),
+      ]);
+      expect(report.repaired?.deleted).toBe(1);
+      expect(JSON.parse(await readFile(file, 'utf-8')).hashes).toEqual([]);
+      expect((await sharedCache.verify()).issues).toEqual([]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -1,181 +1,154 @@
 import { createHash } from 'node:crypto';
-import { readFile, writeFile, mkdir, access } from 'node:fs/promises';
-import * as path from 'node:path';
 import { Doc } from '../dataset/DocumentLoader';
-import { generateEmbedding, generateEmbeddings } from '../ai/embeddings';
-import { getAIConfig } from '../ai/provider-config';
+import { generateEmbeddings } from '../ai/embeddings';
+import { getAIConfig, type AIConfig } from '../ai/provider-config';
+import { withRetry } from './retry';
+import {
+  getEmbeddingStore,
+  type EmbeddingNamespace,
+  type EmbeddingStore,
+  type StoredEmbedding,
+} from './embedding-store';
+import {
+  expectedDimensions,
+  findEmbeddingIssues,
+  type EmbeddingIssue,
+  type VerificationReport,
+} from './embedding-verification';
+import { modelCacheDir } from './file-embedding-store';
+
+/** Texts per embedding request (env `EMBEDDING_BATCH_SIZE`) */
+export const DEFAULT_EMBEDDING_BATCH_SIZE = 100;
+
+/** Embedding requests running at the same time (env `EMBEDDING_CONCURRENCY`) */
+export const DEFAULT_EMBEDDING_CONCURRENCY = 4;
+
+/** Retries of a failed embedding request */
+export const DEFAULT_EMBEDDING_RETRIES = 5;
 
 /**
- * Cached embedding data structure stored in JSON files.
+ * Progress of EmbeddingCache.embedDocuments(), reported after each batch.
  */
-interface CachedEmbedding {
-  /** SHA256 hash of the document text content */
-  contentHash: string;
-  /** The document text that was embedded */
-  text: string;
-  /** The embedding vector for the document */
-  embedding: number[];
-  /** Timestamp when the embedding was created */
-  createdAt: string;
-  /** Model used to create the embedding */
-  model: string;
-  /** Provider used to create the embedding */
-  provider: string;
-  /** Cache key components for verification */
-  cacheKey: {
-    contentHash: string;
-    model: string;
-    provider: string;
-  };
+export interface EmbedProgress {
+  /** Documents embedded so far */
+  embedded: number;
+  /** Documents to embed in this run (without the cached ones) */
+  total: number;
 }
 
 /**
- * Manages caching of document embeddings to avoid redundant API calls.
- * Stores embeddings in organized subfolders: `data/{dataSet}/embeddings/{provider}/{model}/`
- * Uses SHA256 content hashes as filenames with model/provider in the path for cache isolation.
- * 
- * Cache organization:
- * - `data/example-fruits/embeddings/openai/text-embedding-ada-002/abc123.json`
- * - `data/example-fruits/embeddings/lmstudio/all-MiniLM-L6-v2/def456.json`
- * 
+ * Options for EmbeddingCache.embedDocuments().
+ */
+export interface EmbedOptions {
+  /** Texts per embedding request (default: 100) */
+  batchSize?: number;
+  /** Embedding requests running at the same time (default: 4) */
+  concurrency?: number;
+  /** Retries of a request failing with a rate-limit or server error (default: 5) */
+  maxRetries?: number;
+  /** Called after each embedded and cached batch */
+  onProgress?: (progress: EmbedProgress) => void;
+}
+
+/**
+ * Options for EmbeddingCache.verify().
+ */
+export interface VerifyOptions {
+  /** Current documents of the dataset: a repair embeds the removed ones they need again */
+  documents?: Doc[];
+  /**
+   * Report cached embeddings none of the documents has as orphaned, and remove them in a
+   * repair. Off by default, as the documents of one chunking configuration don't cover every
+   * cached text: chunks of other configurations, or the sentence embeddings of semantic
+   * chunking, would be reported as well.
+   */
+  orphans?: boolean;
+  /** Expected vector length (default: the model's known length, else the most common one) */
+  dimensions?: number;
+  /** Remove the embeddings with problems and embed the texts that are still needed again */
+  repair?: boolean;
+  /** Batch size, concurrency and retries when embedding again */
+  embedOptions?: EmbedOptions;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Generate the SHA256 hash of a text, as used for cache file names.
+ * @param text - The text content to hash
+ * @returns SHA256 hash as hexadecimal string
+ */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+/**
+ * Get the embedding cache directory of a dataset for the configured provider and model:
+ * `data/{dataSet}/embeddings/{provider}/{model}/`.
+ * @param dataSet - Dataset name
+ * @param config - Provider and model (default: the configured embedding provider and model)
+ */
+export function embeddingCacheDir(
+  dataSet: string,
+  config: Pick<AIConfig, 'embeddingProvider' | 'embeddingModel'> = getAIConfig()
+): string {
+  return modelCacheDir({
+    dataSet,
+    provider: config.embeddingProvider,
+    model: config.embeddingModel,
+  });
+}
+
+/**
+ * Options for EmbeddingCache.
+ */
+export interface EmbeddingCacheOptions {
+  /** Where embeddings are stored (default: the store configured by env `EMBEDDING_STORE`) */
+  store?: EmbeddingStore;
+}
+
+/**
+ * Caches document embeddings to avoid redundant API calls.
+ * Embeddings are keyed by the SHA256 hash of the text and kept apart per dataset, provider and
+ * model, so switching models never mixes embeddings. Storage is pluggable (see EmbeddingStore):
+ * files in the dataset folder by default, in memory, or a SQLite database shared by datasets.
+ *
  * @example
  * ```typescript
  * const cache = new EmbeddingCache('example-fruits');
- * 
+ *
  * // Load cached embeddings for documents
  * await cache.loadCachedEmbeddings(documents);
- * 
+ *
  * // Embed any documents that don't have cached embeddings
- * await cache.embedDocuments(openai, documents);
+ * await cache.embedDocuments(documents);
+ *
+ * // Tests: nothing is written to data/
+ * const testCache = new EmbeddingCache('example-fruits', { store: new MemoryEmbeddingStore() });
  * ```
  */
 export class EmbeddingCache {
   private readonly dataSet: string;
-  private readonly baseEmbeddingsDir: string;
+  private readonly store: EmbeddingStore;
 
-  constructor(dataSet: string) {
+  constructor(dataSet: string, options: EmbeddingCacheOptions = {}) {
     this.dataSet = dataSet;
-    this.baseEmbeddingsDir = path.join(process.cwd(), 'data', dataSet, 'embeddings');
-  }
-
-  /**
-   * Generate SHA256 hash of text content for cache key.
-   * @param text - The text content to hash
-   * @returns SHA256 hash as hexadecimal string
-   */
-  private hashContent(text: string): string {
-    return createHash('sha256').update(text, 'utf8').digest('hex');
-  }
-
-  /**
-   * Generate a safe directory name from model identifier.
-   * Replaces problematic characters with hyphens.
-   * @param model - Model identifier
-   * @returns Safe directory name
-   */
-  private safeModelName(model: string): string {
-    return model.replace(/[^a-zA-Z0-9._-]/g, '-').replace(/--+/g, '-');
-  }
-
-  /**
-   * Get the cache directory for a specific provider and model.
-   * @param provider - AI provider (e.g., 'openai', 'lmstudio')
-   * @param model - Model identifier
-   * @returns Full path to the cache directory
-   */
-  private getCacheDir(provider: string, model: string): string {
-    return path.join(this.baseEmbeddingsDir, provider, this.safeModelName(model));
-  }
-
-  /**
-   * Get the file path for a cached embedding.
-   * @param contentHash - SHA256 hash of the content
-   * @param provider - AI provider
-   * @param model - Model identifier
-   * @returns Full path to the cache file
-   */
-  private getCacheFilePath(contentHash: string, provider: string, model: string): string {
-    const cacheDir = this.getCacheDir(provider, model);
-    return path.join(cacheDir, `${contentHash}.json`);
+    this.store = options.store ?? getEmbeddingStore();
   }
 
   /**
-   * Ensure the cache directory exists for a specific provider and model.
-   * @param provider - AI provider
-   * @param model - Model identifier
+   * Cache namespace for the configured provider and model.
    */
-  private async ensureCacheDir(provider: string, model: string): Promise<void> {
-    const cacheDir = this.getCacheDir(provider, model);
-    try {
-      await access(cacheDir);
-    } catch {
-      await mkdir(cacheDir, { recursive: true });
-    }
-  }
-
-  /**
-   * Load a cached embedding from disk if it exists.
-   * @param contentHash - SHA256 hash of the content
-   * @param provider - AI provider
-   * @param model - Model identifier
-   * @returns Cached embedding data or null if not found
-   */
-  private async loadCachedEmbedding(
-    contentHash: string,
-    provider: string,
-    model: string
-  ): Promise<CachedEmbedding | null> {
-    try {
-      const filePath = this.getCacheFilePath(contentHash, provider, model);
-      const data = await readFile(filePath, 'utf-8');
-      const cached = JSON.parse(data) as CachedEmbedding;
-      
-      // Verify cache key matches to ensure integrity
-      if (
-        cached.cacheKey?.contentHash === contentHash &&
-        cached.cacheKey?.model === model &&
-        cached.cacheKey?.provider === provider
-      ) {
-        return cached;
-      }
-      
-      // Cache key mismatch - treat as cache miss
-      return null;
-    } catch {
-      return null;
-    }
-  }
-
-  /**
-   * Save an embedding to the cache.
-   * @param doc - Document with embedding to cache
-   * @param model - Model used to create the embedding
-   * @param provider - Provider used to create the embedding
-   */
-  private async saveCachedEmbedding(doc: Doc, model: string, provider: string): Promise<void> {
-    if (!doc.embedding) {
-      throw new Error('Document has no embedding to cache');
-    }
-
-    await this.ensureCacheDir(provider, model);
-
-    const contentHash = this.hashContent(doc.text);
-    const cached: CachedEmbedding = {
-      contentHash,
-      text: doc.text,
-      embedding: doc.embedding,
-      createdAt: new Date().toISOString(),
-      model,
-      provider,
-      cacheKey: {
-        contentHash,
-        model,
-        provider
-      }
+  private namespace(): EmbeddingNamespace {
+    const config = getAIConfig();
+    return {
+      dataSet: this.dataSet,
+      provider: config.embeddingProvider,
+      model: config.embeddingModel,
     };
-
-    const filePath = this.getCacheFilePath(contentHash, provider, model);
-    await writeFile(filePath, JSON.stringify(cached, null, 2));
   }
 
   /**
@@ -186,290 +159,189 @@ export class EmbeddingCache {
    * @returns Number of documents that had cached embeddings loaded
    */
   async loadCachedEmbeddings(documents: Doc[]): Promise<number> {
-    // Get current AI config to determine which cache to check
-    const config = getAIConfig();
-    let loadedCount = 0;
-
-    for (const doc of documents) {
-      if (doc.embedding) {
-        continue; // Already has embedding
-      }
-
-      const contentHash = this.hashContent(doc.text);
-      const cached = await this.loadCachedEmbedding(
-        contentHash,
-        config.embeddingProvider,
-        config.embeddingModel
-      );
+    const missing = documents
+      .filter(doc => !doc.embedding)
+      .map(doc => ({ doc, hash: contentHash(doc.text) }));
+    if (missing.length === 0) {
+      return 0;
+    }
 
-      if (cached && cached.text === doc.text) {
-        doc.embedding = cached.embedding;
+    const cached = await this.store.getMany(
+      this.namespace(),
+      missing.map(({ hash }) => hash)
+    );
+    let loadedCount = 0;
+    for (const { doc, hash } of missing) {
+      const embedding = cached.get(hash);
+      if (embedding) {
+        doc.embedding = embedding;
         loadedCount++;
       }
     }
-
     return loadedCount;
   }
 
   /**
-   * Embed documents that don't have embeddings using OpenAI API and cache results.
+   * Embed documents that don't have embeddings using AI SDK and cache results.
    * Only processes documents that don't already have embeddings loaded.
-   * @param openai - OpenAI client instance
+   *
+   * Texts are embedded in batches of `batchSize`, with up to `concurrency` requests at a time,
+   * and documents with the same text share one embedding. Rate-limit and server errors are
+   * retried with exponential backoff. Each batch is cached as soon as it is embedded, so an
+   * interrupted run resumes where it stopped (after loadCachedEmbeddings()).
    * @param documents - Array of documents to embed
-   * @param model - Embedding model to use (default: text-embedding-ada-002)
+   * @param options - Batch size, concurrency, retries and progress callback
    * @returns Number of documents that were newly embedded
+   * @throws The error of a batch that still fails after its retries (after the running
+   *   batches are finished and cached)
    */
-  async embedDocuments(openai: any, documents: Doc[], model: string = 'text-embedding-ada-002'): Promise<number> {
+  async embedDocuments(documents: Doc[], options: EmbedOptions = {}): Promise<number> {
     const docsToEmbed = documents.filter(doc => !doc.embedding);
     
     if (docsToEmbed.length === 0) {
       return 0;
     }
 
-    // Embed documents
-    for (const doc of docsToEmbed) {
-      const resp = await openai.embeddings.create({
-        model,
-        input: doc.text,
-      });
-      doc.embedding = resp.data[0].embedding;
+    const {
+      batchSize = envNumber('EMBEDDING_BATCH_SIZE', DEFAULT_EMBEDDING_BATCH_SIZE),
+      concurrency = envNumber('EMBEDDING_CONCURRENCY', DEFAULT_EMBEDDING_CONCURRENCY),
+      maxRetries = DEFAULT_EMBEDDING_RETRIES,
+      onProgress,
+    } = options;
+    const namespace = this.namespace();
 
-      // Cache the new embedding with provider info
-      await this.saveCachedEmbedding(doc, model, 'openai');
+    // Documents by text, so that duplicates are embedded once
+    const docsByText = new Map<string, Doc[]>();
+    for (const doc of docsToEmbed) {
+      docsByText.set(doc.text, [...(docsByText.get(doc.text) ?? []), doc]);
     }
-
-    return docsToEmbed.length;
-  }
-
-  /**
-   * Clear cached embeddings for this dataset.
-   * @param provider - Specific provider to clear (optional, clears all if not specified)
-   * @param model - Specific model to clear (optional, clears all for provider if not specified)
-   */
-  async clearCache(provider?: string, model?: string): Promise<void> {
-    try {
-      const { readdir, unlink, rm } = await import('fs/promises');
-      
-      if (provider && model) {
-        // Clear specific provider/model combination
-        const cacheDir = this.getCacheDir(provider, model);
-        await rm(cacheDir, { recursive: true, force: true });
-      } else if (provider) {
-        // Clear all models for a specific provider
-        const providerDir = path.join(this.baseEmbeddingsDir, provider);
-        await rm(providerDir, { recursive: true, force: true });
-      } else {
-        // Clear entire cache
-        await rm(this.baseEmbeddingsDir, { recursive: true, force: true });
-      }
-    } catch {
-      // Silently ignore errors (directory doesn't exist, permission issues, etc.)
+    const texts = [...docsByText.keys()];
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      batches.push(texts.slice(i, i + batchSize));
     }
-  }
-}
 
-/**
- * Manages caching of document embeddings using the AI SDK.
- * Uses organized subfolders and provider-aware cache keys like EmbeddingCache.
- * This is the recommended cache implementation for new code.
- * 
- * @example
- * ```typescript
- * const cache = new EmbeddingCacheAI('example-fruits');
- * 
- * // Load cached embeddings for documents
- * await cache.loadCachedEmbeddings(documents);
- * 
- * // Embed any documents that don't have cached embeddings
- * await cache.embedDocuments(documents);
- * ```
- */
-export class EmbeddingCacheAI {
-  private readonly dataSet: string;
-  private readonly baseEmbeddingsDir: string;
-
-  constructor(dataSet: string) {
-    this.dataSet = dataSet;
-    this.baseEmbeddingsDir = path.join(process.cwd(), 'data', dataSet, 'embeddings');
-  }
-
-  /**
-   * Generate SHA256 hash of text content for cache key.
-   * @param text - The text content to hash
-   * @returns SHA256 hash as hexadecimal string
-   */
-  private hashContent(text: string): string {
-    return createHash('sha256').update(text, 'utf8').digest('hex');
-  }
-
-  /**
-   * Generate a safe directory name from model identifier.
-   * Replaces problematic characters with hyphens.
-   * @param model - Model identifier
-   * @returns Safe directory name
-   */
-  private safeModelName(model: string): string {
-    return model.replace(/[^a-zA-Z0-9._-]/g, '-').replace(/--+/g, '-');
-  }
-
-  /**
-   * Get the cache directory for a specific provider and model.
-   * @param provider - AI provider (e.g., 'openai', 'lmstudio')
-   * @param model - Model identifier
-   * @returns Full path to the cache directory
-   */
-  private getCacheDir(provider: string, model: string): string {
-    return path.join(this.baseEmbeddingsDir, provider, this.safeModelName(model));
-  }
-
-  /**
-   * Get the file path for a cached embedding.
-   * @param contentHash - SHA256 hash of the content
-   * @param provider - AI provider
-   * @param model - Model identifier
-   * @returns Full path to the cache file
-   */
-  private getCacheFilePath(contentHash: string, provider: string, model: string): string {
-    const cacheDir = this.getCacheDir(provider, model);
-    return path.join(cacheDir, `${contentHash}.json`);
-  }
+    let nextBatch = 0;
+    let embedded = 0;
+    let failure: { error: unknown } | undefined;
+    const worker = async () => {
+      while (!failure && nextBatch < batches.length) {
+        const batch = batches[nextBatch++];
+        try {
+          const embeddings = await withRetry(
+            () => generateEmbeddings(batch, { maxRetries: 0 }),
+            {
+              retries: maxRetries,
+              onRetry: (error, attempt, delayMs) =>
+                console.warn(
+                  `Embedding request failed (${error instanceof Error ? error.message : error}), ` +
+                    `retry ${attempt}/${maxRetries} in ${Math.round(delayMs)} ms`
+                ),
+            }
+          );
+          await this.store.putMany(
+            namespace,
+            batch.map((text, i) => ({ hash: contentHash(text), text, embedding: embeddings[i] }))
+          );
+          for (const [i, text] of batch.entries()) {
+            const docs = docsByText.get(text)!;
+            docs.forEach(doc => (doc.embedding = embeddings[i]));
+            embedded += docs.length;
+          }
+          onProgress?.({ embedded, total: docsToEmbed.length });
+        } catch (error) {
+          failure ??= { error };
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.max(1, Math.min(concurrency, batches.length)) }, worker)
+    );
 
-  /**
-   * Ensure the cache directory exists for a specific provider and model.
-   * @param provider - AI provider
-   * @param model - Model identifier
-   */
-  private async ensureCacheDir(provider: string, model: string): Promise<void> {
-    const cacheDir = this.getCacheDir(provider, model);
-    try {
-      await access(cacheDir);
-    } catch {
-      await mkdir(cacheDir, { recursive: true });
+    if (failure) {
+      throw failure.error;
     }
+    return docsToEmbed.length;
   }
 
   /**
-   * Load a cached embedding from disk if it exists.
-   * @param contentHash - SHA256 hash of the content
-   * @param provider - AI provider
-   * @param model - Model identifier
-   * @returns Cached embedding data or null if not found
+   * Get embeddings for texts (e.g. the sentences of a document), from the cache where possible.
+   * Missing embeddings are created in batches like embedDocuments() and cached.
+   * @param texts - Texts to embed
+   * @returns Embeddings in the order of the texts
    */
-  private async loadCachedEmbedding(
-    contentHash: string,
-    provider: string,
-    model: string
-  ): Promise<CachedEmbedding | null> {
-    try {
-      const filePath = this.getCacheFilePath(contentHash, provider, model);
-      const data = await readFile(filePath, 'utf-8');
-      const cached = JSON.parse(data) as CachedEmbedding;
-      
-      // Verify cache key matches to ensure integrity
-      if (
-        cached.cacheKey?.contentHash === contentHash &&
-        cached.cacheKey?.model === model &&
-        cached.cacheKey?.provider === provider
-      ) {
-        return cached;
-      }
-      
-      // Cache key mismatch - treat as cache miss
-      return null;
-    } catch {
-      return null;
-    }
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    const docs: Doc[] = texts.map((text, i) => ({ id: String(i), text }));
+    await this.loadCachedEmbeddings(docs);
+    await this.embedDocuments(docs);
+    return docs.map(doc => doc.embedding!);
   }
 
   /**
-   * Save an embedding to the cache.
-   * @param doc - Document with embedding to cache
-   * @param model - Model used to create the embedding
-   * @param provider - Provider used to create the embedding
+   * Check the cached embeddings of the configured provider and model: embeddings that can't
+   * be read, contain NaN or infinite values, have another length than the model's vectors or
+   * whose stored text doesn't match their content hash, and, if asked to, embeddings none of
+   * the current documents needs (see EmbeddingIssueType).
+   *
+   * A repair removes all embeddings with problems, including broken shared embeddings, and
+   * embeds again the texts of the current documents among them. Without documents, removed
+   * embeddings whose stored text still matches their hash are embedded again.
+   * @param options - Current documents, whether to report orphans, expected vector length and
+   *   whether to repair
+   * @returns The problems found (before a repair) and what a repair changed
    */
-  private async saveCachedEmbedding(doc: Doc, model: string, provider: string): Promise<void> {
-    if (!doc.embedding) {
-      throw new Error('Document has no embedding to cache');
-    }
-
-    await this.ensureCacheDir(provider, model);
-
-    const contentHash = this.hashContent(doc.text);
-    const cached: CachedEmbedding = {
-      contentHash,
-      text: doc.text,
-      embedding: doc.embedding,
-      createdAt: new Date().toISOString(),
-      model,
-      provider,
-      cacheKey: {
-        contentHash,
-        model,
-        provider
-      }
+  async verify(options: VerifyOptions = {}): Promise<VerificationReport> {
+    const namespace = this.namespace();
+    const stored = await this.store.scan(namespace);
+    const dimensions = options.dimensions ?? expectedDimensions(namespace.model, stored);
+    const used =
+      options.orphans && options.documents
+        ? new Set(options.documents.map(doc => contentHash(doc.text)))
+        : undefined;
+    const issues = findEmbeddingIssues(stored, { dimensions, used });
+
+    const report: VerificationReport = {
+      ...namespace,
+      checked: stored.length,
+      dimensions,
+      issues,
     };
-
-    const filePath = this.getCacheFilePath(contentHash, provider, model);
-    await writeFile(filePath, JSON.stringify(cached, null, 2));
-  }
-
-  /**
-   * Load cached embeddings for documents that have them.
-   * Updates the documents in-place with cached embeddings.
-   * Uses the current AI configuration to determine provider and model.
-   * @param documents - Array of documents to load cached embeddings for
-   * @returns Number of documents that had cached embeddings loaded
-   */
-  async loadCachedEmbeddings(documents: Doc[]): Promise<number> {
-    // Get current AI config to determine which cache to check
-    const config = getAIConfig();
-    let loadedCount = 0;
-
-    for (const doc of documents) {
-      if (doc.embedding) {
-        continue; // Already has embedding
-      }
-
-      const contentHash = this.hashContent(doc.text);
-      const cached = await this.loadCachedEmbedding(
-        contentHash,
-        config.embeddingProvider,
-        config.embeddingModel
-      );
-
-      if (cached && cached.text === doc.text) {
-        doc.embedding = cached.embedding;
-        loadedCount++;
-      }
+    if (options.repair && issues.length > 0) {
+      report.repaired = await this.repair(namespace, stored, issues, options);
     }
-
-    return loadedCount;
+    return report;
   }
 
-  /**
-   * Embed documents that don't have embeddings using AI SDK and cache results.
-   * Only processes documents that don't already have embeddings loaded.
-   * @param documents - Array of documents to embed
-   * @returns Number of documents that were newly embedded
-   */
-  async embedDocuments(documents: Doc[]): Promise<number> {
-    const docsToEmbed = documents.filter(doc => !doc.embedding);
-    
-    if (docsToEmbed.length === 0) {
-      return 0;
+  private async repair(
+    namespace: EmbeddingNamespace,
+    stored: StoredEmbedding[],
+    issues: EmbeddingIssue[],
+    options: VerifyOptions
+  ): Promise<NonNullable<VerificationReport['repaired']>> {
+    // Broken embeddings stored for several datasets are removed there as well
+    const broken = new Map<string, string[]>();
+    for (const { type, hash, dataSet } of issues) {
+      if (type !== 'orphaned' && dataSet && dataSet !== this.dataSet) {
+        broken.set(dataSet, [...(broken.get(dataSet) ?? []), hash]);
+      }
     }
-
-    const config = getAIConfig();
-
-    // Embed documents using AI SDK
-    for (const doc of docsToEmbed) {
-      doc.embedding = await generateEmbedding(doc.text);
-      
-      // Cache the new embedding with provider info
-      await this.saveCachedEmbedding(doc, config.embeddingModel, config.embeddingProvider);
+    for (const [dataSet, hashes] of broken) {
+      await this.store.delete({ ...namespace, dataSet }, hashes);
     }
-
-    return docsToEmbed.length;
+    const removed = new Set(issues.map(issue => issue.hash));
+    const deleted = await this.store.delete(namespace, [...removed]);
+
+    const texts = new Set(
+      options.documents
+        ? options.documents.map(doc => doc.text).filter(text => removed.has(contentHash(text)))
+        : stored
+            .filter(({ hash, text }) => text !== undefined && removed.has(hash))
+            .map(({ text }) => text!)
+            .filter(text => removed.has(contentHash(text)))
+    );
+    const docs: Doc[] = [...texts].map((text, i) => ({ id: String(i), text }));
+    await this.embedDocuments(docs, options.embedOptions);
+    return { deleted, reembedded: docs.length };
   }
 
   /**
@@ -478,23 +350,6 @@ export class EmbeddingCacheAI {
    * @param model - Specific model to clear (optional, clears all for provider if not specified)
    */
   async clearCache(provider?: string, model?: string): Promise<void> {
-    try {
-      const { readdir, unlink, rm } = await import('fs/promises');
-      
-      if (provider && model) {
-        // Clear specific provider/model combination
-        const cacheDir = this.getCacheDir(provider, model);
-        await rm(cacheDir, { recursive: true, force: true });
-      } else if (provider) {
-        // Clear all models for a specific provider
-        const providerDir = path.join(this.baseEmbeddingsDir, provider);
-        await rm(providerDir, { recursive: true, force: true });
-      } else {
-        // Clear entire cache
-        await rm(this.baseEmbeddingsDir, { recursive: true, force: true });
-      }
-    } catch {
-      // Silently ignore errors (directory doesn't exist, permission issues, etc.)
-    }
+    await this.store.clear(this.dataSet, provider, model);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,251 @@
+import * as Database from 'better-sqlite3';
+import { mkdtemp, rm } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  createEmbeddingStore,
+  getEmbeddingStore,
+  getEmbeddingStoreConfig,
+  MemoryEmbeddingStore,
+  type EmbeddingNamespace,
+  type EmbeddingStore,
+} from './embedding-store';
+import { FileEmbeddingStore } from './file-embedding-store';
+import { SharedEmbeddingStore } from './shared-embedding-store';
+import { SqliteEmbeddingStore } from './sqlite-embedding-store';
+
+const hash = (n: number) => n.toString(16).padStart(64, '0');
+const record = (n: number) => ({
+  hash: hash(n),
+  text: `Text ${n}`,
+  embedding: [n, 0.5, -n],
+});
+
+const fruits: EmbeddingNamespace = {
+  dataSet: 'fruits',
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+};
+
+let tmpDir: string;
+let cwd: jest.SpyInstance;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(path.join(os.tmpdir(), 'embedding-store-'));
+  cwd = jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+});
+
+afterEach(async () => {
+  cwd.mockRestore();
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe.each<[string, () => EmbeddingStore]>([
+  ['MemoryEmbeddingStore', () => new MemoryEmbeddingStore()],
+  [
+    'FileEmbeddingStore (files)',
+    () => new FileEmbeddingStore({ format: 'files' }),
+  ],
+  [
+    'FileEmbeddingStore (packed)',
+    () => new FileEmbeddingStore({ format: 'packed' }),
+  ],
+  [
+    'SqliteEmbeddingStore',
+    () => new SqliteEmbeddingStore(path.join(tmpDir, 'cache.sqlite')),
+  ],
+])('%s', (_, createStore) => {
+  let store: EmbeddingStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('returns the embeddings of cached hashes', async () => {
+    await store.putMany(fruits, [record(1), record(2)]);
+
+    const found = await store.getMany(fruits, [hash(1), hash(3)]);
+
+    expect([...found.keys()]).toEqual([hash(1)]);
+    expect(found.get(hash(1))).toEqual([1, 0.5, -1]);
+  });
+
+  it('keeps the first embedding of a hash', async () => {
+    await store.putMany(fruits, [record(1)]);
+    await store.putMany(fruits, [{ ...record(1), embedding: [9, 9, 9] }]);
+
+    expect((await store.getMany(fruits, [hash(1)])).get(hash(1))).toEqual([
+      1, 0.5, -1,
+    ]);
+  });
+
+  it('keeps datasets, providers and models apart', async () => {
+    await store.putMany(fruits, [record(1)]);
+
+    for (const other of [
+      { ...fruits, dataSet: 'cars' },
+      { ...fruits, provider: 'lmstudio' },
+      { ...fruits, model: 'text-embedding-3-large' },
+    ]) {
+      expect((await store.getMany(other, [hash(1)])).size).toBe(0);
+    }
+  });
+
+  it('lists and deletes hashes', async () => {
+    await store.putMany(fruits, [record(1), record(2), record(3)]);
+
+    expect(await store.delete(fruits, [hash(2), hash(4)])).toBe(1);
+
+    expect((await store.hashes(fruits)).sort()).toEqual([hash(1), hash(3)]);
+    expect((await store.getMany(fruits, [hash(3)])).get(hash(3))).toEqual([
+      3, 0.5, -3,
+    ]);
+  });
+
+  it('scans the stored embeddings', async () => {
+    await store.putMany(fruits, [record(1), record(2)]);
+
+    const scanned = await store.scan(fruits);
+
+    expect(scanned.map((stored) => stored.hash).sort()).toEqual([
+      hash(1),
+      hash(2),
+    ]);
+    expect(scanned.find((stored) => stored.hash === hash(2))).toMatchObject({
+      embedding: [2, 0.5, -2],
+    });
+    expect(scanned.every((stored) => !stored.error)).toBe(true);
+  });
+
+  it('clears a model, a provider or a dataset', async () => {
+    const large = { ...fruits, model: 'text-embedding-3-large' };
+    const lmstudio = { ...fruits, provider: 'lmstudio' };
+    const cars = { ...fruits, dataSet: 'cars' };
+    for (const namespace of [fruits, large, lmstudio, cars]) {
+      await store.putMany(namespace, [record(1)]);
+    }
+
+    await store.clear('fruits', 'openai', 'text-embedding-3-large');
+    expect(await store.hashes(large)).toEqual([]);
+    expect(await store.hashes(fruits)).toEqual([hash(1)]);
+
+    await store.clear('fruits');
+    expect(await store.hashes(fruits)).toEqual([]);
+    expect(await store.hashes(lmstudio)).toEqual([]);
+    expect(await store.hashes(cars)).toEqual([hash(1)]);
+  });
+});
+
+describe('SqliteEmbeddingStore', () => {
+  it('persists embeddings in the database file', async () => {
+    const file = path.join(tmpDir, 'shared', 'cache.sqlite');
+    const store = new SqliteEmbeddingStore(file);
+    await store.putMany(fruits, [record(1)]);
+    store.close();
+
+    const reopened = new SqliteEmbeddingStore(file);
+    expect((await reopened.getMany(fruits, [hash(1)])).get(hash(1))).toEqual([
+      1, 0.5, -1,
+    ]);
+    reopened.close();
+  });
+
+  it('scans blobs that are not Float32 vectors as unreadable', async () => {
+    const file = path.join(tmpDir, 'cache.sqlite');
+    const store = new SqliteEmbeddingStore(file);
+    await store.putMany(fruits, [record(1), record(2)]);
+    store.close();
+    const db = new Database(file);
+    db.prepare(
+      "UPDATE embeddings SET embedding = X'010203' WHERE hash = ?"
+    ).run(hash(1));
+    db.close();
+
+    const [broken, valid] = await store.scan(fruits);
+
+    expect(broken).toEqual({
+      hash: hash(1),
+      text: 'Text 1',
+      error: 'embedding of 3 bytes is not a Float32 vector',
+    });
+    expect(valid.embedding).toEqual([2, 0.5, -2]);
+    store.close();
+  });
+});
+
+describe('getEmbeddingStoreConfig', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('reads the store from the environment', () => {
+    process.env = {
+      ...env,
+      EMBEDDING_STORE: 'sqlite',
+      EMBEDDING_STORE_PATH: '/tmp/e.sqlite',
+    };
+    expect(getEmbeddingStoreConfig()).toEqual({
+      type: 'sqlite',
+      path: '/tmp/e.sqlite',
+      shared: false,
+    });
+
+    process.env = {
+      ...env,
+      EMBEDDING_STORE: undefined,
+      EMBEDDING_SHARED_CACHE: 'true',
+    };
+    expect(getEmbeddingStoreConfig()).toEqual({
+      type: 'fs',
+      path: undefined,
+      shared: true,
+    });
+  });
+
+  it('rejects unknown stores', () => {
+    process.env = { ...env, EMBEDDING_STORE: 'redis' };
+    expect(() => getEmbeddingStoreConfig()).toThrow(
+      'Invalid EMBEDDING_STORE "redis"'
+    );
+  });
+
+  it('wraps the store to share embeddings between datasets', () => {
+    expect(createEmbeddingStore({ shared: true })).toBeInstanceOf(
+      SharedEmbeddingStore
+    );
+  });
+
+  it('shares embeddings with the fs store only', () => {
+    expect(() =>
+      createEmbeddingStore({ type: 'sqlite', shared: true })
+    ).toThrow(
+      'Shared embeddings (EMBEDDING_SHARED_CACHE) need the fs store, not sqlite'
+    );
+    expect(() =>
+      createEmbeddingStore({ type: 'memory', shared: true })
+    ).toThrow('need the fs store');
+  });
+
+  it('shares fs stores within the process', () => {
+    process.env = {
+      ...env,
+      EMBEDDING_STORE: 'fs',
+      EMBEDDING_SHARED_CACHE: 'true',
+    };
+    const store = getEmbeddingStore();
+    expect(store).toBe(getEmbeddingStore());
+
+    process.env = { ...process.env, EMBEDDING_CACHE_FORMAT: 'packed' };
+    expect(getEmbeddingStore()).not.toBe(store);
+  });
+
+  it('shares memory stores within the process', () => {
+    process.env = { ...env, EMBEDDING_STORE: 'memory' };
+    expect(getEmbeddingStore()).toBe(getEmbeddingStore());
+    expect(createEmbeddingStore({ type: 'memory' })).not.toBe(
+      getEmbeddingStore()
+    );
+  });
+});
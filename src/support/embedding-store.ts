@@ -0,0 +1,279 @@
+import * as path from 'node:path';
+import { FileEmbeddingStore } from './file-embedding-store';
+import { SharedEmbeddingStore } from './shared-embedding-store';
+import { SqliteEmbeddingStore } from './sqlite-embedding-store';
+
+/**
+ * Available embedding store implementations.
+ * - `fs`: files in the dataset folder, `data/{dataSet}/embeddings/{provider}/{model}/`
+ * - `memory`: kept in memory for the lifetime of the process (tests, demos)
+ * - `sqlite`: one SQLite database for all datasets, e.g. shared by several deployments
+ */
+export type EmbeddingStoreType = 'fs' | 'memory' | 'sqlite';
+
+/**
+ * The cache an embedding belongs to: embeddings of different datasets, providers or models
+ * are kept apart.
+ */
+export interface EmbeddingNamespace {
+  dataSet: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * An embedding to cache.
+ */
+export interface EmbeddingRecord {
+  /** SHA256 hash of the embedded text (see contentHash()) */
+  hash: string;
+  /** The embedded text */
+  text: string;
+  embedding: number[];
+}
+
+/**
+ * A cached embedding as stored, read for verification (see EmbeddingCache.verify()).
+ */
+export interface StoredEmbedding {
+  /**
+   * Content hash the embedding is stored under, or the file name of an unreadable file of
+   * several embeddings (e.g. a packed manifest); deleting it removes the file
+   */
+  hash: string;
+  /** The embedded text, if the store keeps it (the packed file format doesn't) */
+  text?: string;
+  /** The stored vector, unless it can't be read */
+  embedding?: number[];
+  /** Why the embedding can't be read, e.g. a file that isn't valid JSON */
+  error?: string;
+  /** Where the embedding is stored, e.g. its file */
+  location?: string;
+  /** Dataset the embedding is stored under if it isn't the scanned one (shared embeddings) */
+  dataSet?: string;
+}
+
+/**
+ * Storage backend of the embedding cache, keyed by content hash.
+ * Implement this interface to plug in other storage (e.g. a key-value service).
+ *
+ * @example
+ * ```typescript
+ * const store = createEmbeddingStore({ type: 'sqlite' });
+ * const namespace = { dataSet: 'example-fruits', provider: 'openai', model: 'text-embedding-3-small' };
+ * await store.putMany(namespace, [{ hash: contentHash(text), text, embedding }]);
+ * const cached = await store.getMany(namespace, [contentHash(text)]);
+ * ```
+ */
+export interface EmbeddingStore {
+  /** Get the cached embeddings of content hashes; hashes without an embedding are left out */
+  getMany(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<Map<string, number[]>>;
+  /** Cache embeddings; hashes that are already cached keep their embedding */
+  putMany(
+    namespace: EmbeddingNamespace,
+    records: EmbeddingRecord[]
+  ): Promise<void>;
+  /** Content hashes of all cached embeddings of a namespace */
+  hashes(namespace: EmbeddingNamespace): Promise<string[]>;
+  /** Remove cached embeddings; returns the number removed */
+  delete(namespace: EmbeddingNamespace, hashes: string[]): Promise<number>;
+  /** Remove the cached embeddings of a dataset, or only those of a provider or model */
+  clear(dataSet: string, provider?: string, model?: string): Promise<void>;
+  /**
+   * Providers and models with cached embeddings for a dataset (the file store returns model
+   * directory names, which address the same cache)
+   */
+  namespaces(dataSet: string): Promise<EmbeddingNamespace[]>;
+  /** Read every cached embedding of a namespace as stored, including unreadable ones */
+  scan(namespace: EmbeddingNamespace): Promise<StoredEmbedding[]>;
+}
+
+/**
+ * Embedding store configuration.
+ */
+export interface EmbeddingStoreConfig {
+  /** Implementation (default: fs) */
+  type?: EmbeddingStoreType;
+  /** Database file of the sqlite store (default: `data/embeddings.sqlite`) */
+  path?: string;
+  /**
+   * Share embeddings of the same text between datasets (see SharedEmbeddingStore); fs store
+   * only, as the datasets' references to shared embeddings are files in `data/`
+   */
+  shared?: boolean;
+}
+
+/**
+ * Embedding store that keeps the embeddings in memory, so that nothing is written to disk.
+ */
+export class MemoryEmbeddingStore implements EmbeddingStore {
+  private readonly stored = new Map<string, Map<string, EmbeddingRecord>>();
+
+  private key({ dataSet, provider, model }: EmbeddingNamespace): string {
+    return JSON.stringify([dataSet, provider, model]);
+  }
+
+  private records(namespace: EmbeddingNamespace): Map<string, EmbeddingRecord> {
+    const key = this.key(namespace);
+    let records = this.stored.get(key);
+    if (!records) {
+      records = new Map();
+      this.stored.set(key, records);
+    }
+    return records;
+  }
+
+  async getMany(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<Map<string, number[]>> {
+    const records = this.records(namespace);
+    const found = new Map<string, number[]>();
+    for (const hash of hashes) {
+      const record = records.get(hash);
+      if (record) {
+        found.set(hash, [...record.embedding]);
+      }
+    }
+    return found;
+  }
+
+  async putMany(
+    namespace: EmbeddingNamespace,
+    records: EmbeddingRecord[]
+  ): Promise<void> {
+    const stored = this.records(namespace);
+    for (const record of records) {
+      if (!stored.has(record.hash)) {
+        stored.set(record.hash, {
+          ...record,
+          embedding: [...record.embedding],
+        });
+      }
+    }
+  }
+
+  async hashes(namespace: EmbeddingNamespace): Promise<string[]> {
+    return [...this.records(namespace).keys()];
+  }
+
+  async delete(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<number> {
+    const records = this.records(namespace);
+    return hashes.filter((hash) => records.delete(hash)).length;
+  }
+
+  async clear(
+    dataSet: string,
+    provider?: string,
+    model?: string
+  ): Promise<void> {
+    for (const key of this.stored.keys()) {
+      const [keyDataSet, keyProvider, keyModel] = JSON.parse(key) as string[];
+      if (
+        keyDataSet === dataSet &&
+        (!provider || keyProvider === provider) &&
+        (!model || keyModel === model)
+      ) {
+        this.stored.delete(key);
+      }
+    }
+  }
+
+  async namespaces(dataSet: string): Promise<EmbeddingNamespace[]> {
+    return [...this.stored.entries()]
+      .filter(([, records]) => records.size > 0)
+      .map(([key]) => JSON.parse(key) as string[])
+      .filter(([keyDataSet]) => keyDataSet === dataSet)
+      .map(([, provider, model]) => ({ dataSet, provider, model }));
+  }
+
+  async scan(namespace: EmbeddingNamespace): Promise<StoredEmbedding[]> {
+    return [...this.records(namespace).values()].map(
+      ({ hash, text, embedding }) => ({
+        hash,
+        text,
+        embedding: [...embedding],
+      })
+    );
+  }
+}
+
+/**
+ * Create an embedding store.
+ * @param config - Implementation, for sqlite the database file, and whether datasets share
+ *   embeddings
+ * @throws {Error} When shared embeddings are requested with another store than fs
+ */
+export function createEmbeddingStore(
+  config: EmbeddingStoreConfig = {}
+): EmbeddingStore {
+  if (config.shared) {
+    // Other hosts using the same database wouldn't see this host's references, and their
+    // garbage collection would remove embeddings that are still used
+    if ((config.type ?? 'fs') !== 'fs') {
+      throw new Error(
+        `Shared embeddings (EMBEDDING_SHARED_CACHE) need the fs store, not ${config.type}`
+      );
+    }
+    return new SharedEmbeddingStore(
+      createEmbeddingStore({ ...config, shared: false })
+    );
+  }
+  switch (config.type ?? 'fs') {
+    case 'memory':
+      return new MemoryEmbeddingStore();
+    case 'sqlite':
+      return new SqliteEmbeddingStore(
+        config.path ?? path.join(process.cwd(), 'data', 'embeddings.sqlite')
+      );
+    default:
+      return new FileEmbeddingStore();
+  }
+}
+
+/**
+ * Read the embedding store configuration from the environment:
+ * `EMBEDDING_STORE` (fs, memory or sqlite), `EMBEDDING_STORE_PATH` (sqlite database file) and
+ * `EMBEDDING_SHARED_CACHE` (true to share embeddings between datasets).
+ * @throws {Error} When `EMBEDDING_STORE` names an unknown implementation
+ */
+export function getEmbeddingStoreConfig(): EmbeddingStoreConfig {
+  const type = process.env.EMBEDDING_STORE || 'fs';
+  if (type !== 'fs' && type !== 'memory' && type !== 'sqlite') {
+    throw new Error(
+      `Invalid EMBEDDING_STORE "${type}" (expected fs, memory or sqlite)`
+    );
+  }
+  return {
+    type,
+    path: process.env.EMBEDDING_STORE_PATH || undefined,
+    shared: process.env.EMBEDDING_SHARED_CACHE === 'true',
+  };
+}
+
+/** Stores by configuration, so that all caches of a process use one store */
+const storesByConfig = new Map<string, EmbeddingStore>();
+
+/**
+ * Get the embedding store configured in the environment (see getEmbeddingStoreConfig()).
+ * The store is shared by all callers in the process, so that they use one database, one
+ * packed store per cache directory and one copy of the shared embeddings' references.
+ */
+export function getEmbeddingStore(): EmbeddingStore {
+  const config = getEmbeddingStoreConfig();
+  // The fs store takes its layout from EMBEDDING_CACHE_FORMAT
+  const format = config.type === 'fs' ? process.env.EMBEDDING_CACHE_FORMAT : '';
+  const key = `${config.type}:${config.path ?? ''}:${config.shared}:${format ?? ''}`;
+  let store = storesByConfig.get(key);
+  if (!store) {
+    store = createEmbeddingStore(config);
+    storesByConfig.set(key, store);
+  }
+  return store;
+}
@@ -0,0 +1,84 @@
+import { contentHash } from './embedding-cache';
+import {
+  expectedDimensions,
+  findEmbeddingIssues,
+} from './embedding-verification';
+
+const valid = (text: string, embedding = [0.1, 0.2, 0.3]) => ({
+  hash: contentHash(text),
+  text,
+  embedding,
+});
+
+describe('findEmbeddingIssues', () => {
+  it('reports each embedding with its first problem', () => {
+    const issues = findEmbeddingIssues(
+      [
+        valid('Fine.'),
+        {
+          hash: contentHash('Corrupt.'),
+          error: 'invalid JSON',
+          location: 'a.json',
+        },
+        valid('NaN.', [0.1, NaN, 0.3]),
+        valid('Short.', [0.1, NaN]),
+        valid('Long.', [0.1, 0.2, 0.3, 0.4]),
+        { ...valid('Edited.'), text: 'Edited later.' },
+      ],
+      { dimensions: 3 }
+    );
+
+    expect(issues.map(({ type, hash }) => [type, hash])).toEqual([
+      ['corrupt', contentHash('Corrupt.')],
+      ['invalid-values', contentHash('NaN.')],
+      ['invalid-values', contentHash('Short.')],
+      ['dimensions', contentHash('Long.')],
+      ['hash-mismatch', contentHash('Edited.')],
+    ]);
+    expect(issues[0]).toEqual({
+      type: 'corrupt',
+      hash: contentHash('Corrupt.'),
+      message: 'invalid JSON',
+      location: 'a.json',
+      dataSet: undefined,
+    });
+    expect(issues[3].message).toBe('4 dimensions, expected 3');
+  });
+
+  it('reports embeddings no current document has as orphaned', () => {
+    const used = new Set([contentHash('Current.')]);
+
+    const issues = findEmbeddingIssues(
+      [
+        valid('Current.'),
+        valid('Removed.'),
+        { hash: contentHash('Packed.'), embedding: [1] },
+      ],
+      { used }
+    );
+
+    expect(issues.map(({ type, hash }) => [type, hash])).toEqual([
+      ['orphaned', contentHash('Removed.')],
+      ['orphaned', contentHash('Packed.')],
+    ]);
+  });
+});
+
+describe('expectedDimensions', () => {
+  it('uses the known length of a model', () => {
+    expect(expectedDimensions('text-embedding-3-large', [valid('A.')])).toBe(
+      3072
+    );
+  });
+
+  it('uses the most common length for other models', () => {
+    const stored = [
+      valid('A.', [1, 2]),
+      valid('B.', [1, 2, 3]),
+      valid('C.', [3, 4]),
+    ];
+
+    expect(expectedDimensions('all-minilm-l12-v2', stored)).toBe(2);
+    expect(expectedDimensions('all-minilm-l12-v2', [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { contentHash } from './embedding-cache';
+import type { StoredEmbedding } from './embedding-store';
+
+/**
+ * Problems EmbeddingCache.verify() reports, per cached embedding:
+ * - `corrupt`: can't be read (e.g. invalid JSON, a cache key of another model, a truncated
+ *   vector file, an unreadable packed or reference manifest, a missing shared embedding)
+ * - `invalid-values`: the vector contains NaN, infinite or non-numeric values
+ * - `dimensions`: the vector length differs from the model's
+ * - `hash-mismatch`: the stored text doesn't hash to the content hash it is stored under
+ * - `orphaned`: no current document has the text (only checked when asked to, as the
+ *   documents may not cover every cached text)
+ */
+export type EmbeddingIssueType =
+  'corrupt' | 'invalid-values' | 'dimensions' | 'hash-mismatch' | 'orphaned';
+
+/**
+ * A problem with a cached embedding; each embedding is reported with its first problem.
+ */
+export interface EmbeddingIssue {
+  type: EmbeddingIssueType;
+  /** Content hash the embedding is stored under (see StoredEmbedding.hash) */
+  hash: string;
+  message: string;
+  /** Where the embedding is stored, e.g. its file */
+  location?: string;
+  /** Dataset the embedding is stored under if it isn't the verified one (shared embeddings) */
+  dataSet?: string;
+}
+
+/**
+ * Result of EmbeddingCache.verify(), serializable as a JSON report.
+ */
+export interface VerificationReport {
+  dataSet: string;
+  provider: string;
+  model: string;
+  /** Cached embeddings checked */
+  checked: number;
+  /** Vector length the embeddings are expected to have (unknown for an empty cache) */
+  dimensions?: number;
+  issues: EmbeddingIssue[];
+  /** What a repair changed */
+  repaired?: {
+    /** Cached embeddings removed */
+    deleted: number;
+    /** Texts embedded again */
+    reembedded: number;
+  };
+}
+
+/** Vector lengths of known embedding models */
+export const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+};
+
+/**
+ * Get the vector length the embeddings of a model are expected to have: the known length of
+ * the model, else the most common length in its cache.
+ * @returns The length, or undefined if neither is known
+ */
+export function expectedDimensions(
+  model: string,
+  stored: StoredEmbedding[]
+): number | undefined {
+  if (MODEL_DIMENSIONS[model]) {
+    return MODEL_DIMENSIONS[model];
+  }
+  const counts = new Map<number, number>();
+  for (const { embedding } of stored) {
+    if (embedding) {
+      counts.set(embedding.length, (counts.get(embedding.length) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].sort(([, a], [, b]) => b - a)[0]?.[0];
+}
+
+function firstIssue(
+  stored: StoredEmbedding,
+  dimensions: number | undefined,
+  used: Set<string> | undefined
+): Pick<EmbeddingIssue, 'type' | 'message'> | undefined {
+  const { embedding, text, hash } = stored;
+  if (stored.error || !embedding) {
+    return { type: 'corrupt', message: stored.error ?? 'no embedding vector' };
+  }
+  const invalid = embedding.filter(
+    (value) => typeof value !== 'number' || !Number.isFinite(value)
+  ).length;
+  if (invalid > 0) {
+    return {
+      type: 'invalid-values',
+      message: `${invalid} of ${embedding.length} values are NaN, infinite or not numbers`,
+    };
+  }
+  if (dimensions !== undefined && embedding.length !== dimensions) {
+    return {
+      type: 'dimensions',
+      message: `${embedding.length} dimensions, expected ${dimensions}`,
+    };
+  }
+  if (text !== undefined && contentHash(text) !== hash) {
+    return {
+      type: 'hash-mismatch',
+      message: "the stored text doesn't match the content hash",
+    };
+  }
+  if (used && !used.has(hash)) {
+    return {
+      type: 'orphaned',
+      message: 'no current document has this text',
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Check cached embeddings as stored.
+ * @param stored - Cached embeddings of a namespace (see EmbeddingStore.scan())
+ * @param options - Expected vector length, and the content hashes of the current documents
+ *   to find orphaned embeddings
+ * @returns The first problem of each embedding that has one
+ */
+export function findEmbeddingIssues(
+  stored: StoredEmbedding[],
+  options: { dimensions?: number; used?: Set<string> } = {}
+): EmbeddingIssue[] {
+  const issues: EmbeddingIssue[] = [];
+  for (const entry of stored) {
+    const issue = firstIssue(entry, options.dimensions, options.used);
+    if (issue) {
+      const { hash, location, dataSet } = entry;
+      issues.push({ ...issue, hash, location, dataSet });
+    }
+  }
+  return issues;
+}
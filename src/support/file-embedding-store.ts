@@ -0,0 +1,429 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  unlink,
+  writeFile,
+} from 'node:fs/promises';
+import * as path from 'node:path';
+import type {
+  EmbeddingNamespace,
+  EmbeddingRecord,
+  EmbeddingStore,
+  StoredEmbedding,
+} from './embedding-store';
+import {
+  PACKED_MANIFEST_FILE,
+  PACKED_VECTORS_FILE,
+  PackedEmbeddingStore,
+} from './packed-embedding-store';
+
+/**
+ * Layout of the embedding cache of a provider and model: one JSON file per embedding, or all
+ * embeddings packed into a vector file and a manifest (see PackedEmbeddingStore).
+ */
+export type EmbeddingCacheFormat = 'files' | 'packed';
+
+/**
+ * Options for FileEmbeddingStore.
+ */
+export interface FileEmbeddingStoreOptions {
+  /** Layout new embeddings are cached in (default: env `EMBEDDING_CACHE_FORMAT`, else files) */
+  format?: EmbeddingCacheFormat;
+}
+
+/** File name of an embedding in the per-file layout: its content hash */
+export const EMBEDDING_FILE_PATTERN = /^[0-9a-f]{64}\.json$/;
+
+/**
+ * Cached embedding data structure stored in JSON files.
+ */
+interface CachedEmbedding {
+  /** SHA256 hash of the document text content */
+  contentHash: string;
+  /** The document text that was embedded */
+  text: string;
+  /** The embedding vector for the document */
+  embedding: number[];
+  /** Timestamp when the embedding was created */
+  createdAt: string;
+  /** Model used to create the embedding */
+  model: string;
+  /** Provider used to create the embedding */
+  provider: string;
+  /** Cache key components for verification */
+  cacheKey: {
+    contentHash: string;
+    model: string;
+    provider: string;
+  };
+}
+
+function envCacheFormat(): EmbeddingCacheFormat {
+  const format = process.env.EMBEDDING_CACHE_FORMAT;
+  if (!format) {
+    return 'files';
+  }
+  if (format !== 'files' && format !== 'packed') {
+    throw new Error(
+      `Invalid EMBEDDING_CACHE_FORMAT "${format}" (expected files or packed)`
+    );
+  }
+  return format;
+}
+
+/**
+ * Generate a safe directory name from model identifier.
+ * Replaces problematic characters with hyphens.
+ * @param model - Model identifier
+ * @returns Safe directory name
+ */
+export function safeModelName(model: string): string {
+  return model.replace(/[^a-zA-Z0-9._-]/g, '-').replace(/--+/g, '-');
+}
+
+/**
+ * Get the cache directory of a dataset, provider and model:
+ * `data/{dataSet}/embeddings/{provider}/{model}/`.
+ */
+export function modelCacheDir({
+  dataSet,
+  provider,
+  model,
+}: EmbeddingNamespace): string {
+  return path.join(
+    process.cwd(),
+    'data',
+    dataSet,
+    'embeddings',
+    provider,
+    safeModelName(model)
+  );
+}
+
+/**
+ * Embedding store in the dataset folders: `data/{dataSet}/embeddings/{provider}/{model}/`.
+ * Each embedding is a JSON file named by the SHA256 hash of its text, holding the embedding,
+ * the text and the cache key (provider, model, hash), which is checked when it is read.
+ *
+ * With the `packed` format the embeddings of a provider and model are kept in one vector file
+ * and a manifest instead (see PackedEmbeddingStore); existing embedding files are packed on
+ * first use. Both layouts are always read, so a cache can be switched to the other format at
+ * any time.
+ *
+ * Cache organization:
+ * - `data/example-fruits/embeddings/openai/text-embedding-ada-002/abc123.json`
+ * - `data/example-fruits/embeddings/lmstudio/all-MiniLM-L6-v2/vectors.f32`
+ */
+export class FileEmbeddingStore implements EmbeddingStore {
+  private readonly format: EmbeddingCacheFormat;
+  /** Packed stores by cache directory */
+  private readonly packedStores = new Map<
+    string,
+    Promise<PackedEmbeddingStore>
+  >();
+
+  constructor(options: FileEmbeddingStoreOptions = {}) {
+    this.format = options.format ?? envCacheFormat();
+  }
+
+  /**
+   * Get the packed store of a namespace. In the packed format, embeddings cached in the
+   * per-file layout are moved into it when it is first used.
+   */
+  private getPackedStore(
+    namespace: EmbeddingNamespace
+  ): Promise<PackedEmbeddingStore> {
+    const cacheDir = modelCacheDir(namespace);
+    let store = this.packedStores.get(cacheDir);
+    if (!store) {
+      store =
+        this.format === 'packed'
+          ? this.migrateToPacked(namespace)
+          : Promise.resolve(PackedEmbeddingStore.forDirectory(cacheDir));
+      this.packedStores.set(cacheDir, store);
+    }
+    return store;
+  }
+
+  /**
+   * Move the embedding files of a namespace into its packed store.
+   * Files are removed once their embeddings are packed (by whichever store got there first).
+   */
+  private async migrateToPacked(
+    namespace: EmbeddingNamespace
+  ): Promise<PackedEmbeddingStore> {
+    const cacheDir = modelCacheDir(namespace);
+    const store = PackedEmbeddingStore.forDirectory(cacheDir);
+    const files = await this.listEmbeddingFiles(cacheDir);
+    if (files.length === 0) {
+      return store;
+    }
+
+    const vectors = [];
+    for (const file of files) {
+      const cached = await this.loadCachedEmbedding(
+        namespace,
+        path.parse(file).name
+      );
+      if (cached) {
+        vectors.push({
+          hash: cached.contentHash,
+          embedding: cached.embedding,
+          createdAt: cached.createdAt,
+        });
+      }
+    }
+    await store.putMany(vectors);
+    await Promise.all(
+      files.map((file) => rm(path.join(cacheDir, file), { force: true }))
+    );
+    return store;
+  }
+
+  private async listEmbeddingFiles(cacheDir: string): Promise<string[]> {
+    const files = await readdir(cacheDir).catch(() => [] as string[]);
+    return files.filter((file) => EMBEDDING_FILE_PATTERN.test(file));
+  }
+
+  /**
+   * Read a cached embedding file and check its cache key.
+   * @throws {Error} When the file is missing (ENOENT), isn't valid JSON, has no embedding, or
+   *   was written for another hash, provider or model
+   */
+  private async readEmbeddingFile(
+    namespace: EmbeddingNamespace,
+    contentHash: string
+  ): Promise<CachedEmbedding> {
+    const { provider, model } = namespace;
+    const filePath = path.join(modelCacheDir(namespace), `${contentHash}.json`);
+    const cached = JSON.parse(
+      await readFile(filePath, 'utf-8')
+    ) as CachedEmbedding;
+
+    // Verify cache key matches to ensure integrity
+    const { cacheKey } = cached;
+    if (
+      cacheKey?.contentHash !== contentHash ||
+      cacheKey?.model !== model ||
+      cacheKey?.provider !== provider
+    ) {
+      throw new Error(
+        `cache key ${JSON.stringify(cacheKey)} doesn't match the file name, provider and model`
+      );
+    }
+    if (!Array.isArray(cached.embedding)) {
+      throw new Error('no embedding vector');
+    }
+    return cached;
+  }
+
+  /**
+   * Load a cached embedding file if it exists.
+   * @returns Cached embedding data or null if not found or unreadable
+   */
+  private async loadCachedEmbedding(
+    namespace: EmbeddingNamespace,
+    contentHash: string
+  ): Promise<CachedEmbedding | null> {
+    return this.readEmbeddingFile(namespace, contentHash).catch(() => null);
+  }
+
+  /**
+   * Get cached embeddings. Unreadable embedding files are treated as not cached (they are
+   * replaced when the texts are embedded again) and reported with a warning.
+   */
+  async getMany(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<Map<string, number[]>> {
+    const store = await this.getPackedStore(namespace);
+    const found = await store.getMany(hashes);
+    if (this.format === 'packed') {
+      return found; // Embedding files were packed
+    }
+
+    let unreadable = 0;
+    for (const hash of hashes) {
+      if (found.has(hash)) {
+        continue;
+      }
+      try {
+        found.set(hash, (await this.readEmbeddingFile(namespace, hash)).embedding);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          unreadable++;
+        }
+      }
+    }
+    if (unreadable > 0) {
+      console.warn(
+        `${modelCacheDir(namespace)}: ${unreadable} cached embeddings can't be read ` +
+          `(run pnpm cache:verify ${namespace.dataSet} for details)`
+      );
+    }
+    return found;
+  }
+
+  async putMany(
+    namespace: EmbeddingNamespace,
+    records: EmbeddingRecord[]
+  ): Promise<void> {
+    if (this.format === 'packed') {
+      const store = await this.getPackedStore(namespace);
+      await store.putMany(
+        records.map(({ hash, embedding }) => ({ hash, embedding }))
+      );
+      return;
+    }
+
+    const { provider, model } = namespace;
+    const cacheDir = modelCacheDir(namespace);
+    await mkdir(cacheDir, { recursive: true });
+    for (const { hash, text, embedding } of records) {
+      if (await this.loadCachedEmbedding(namespace, hash)) {
+        continue; // Already cached (unreadable files are replaced)
+      }
+      const cached: CachedEmbedding = {
+        contentHash: hash,
+        text,
+        embedding,
+        createdAt: new Date().toISOString(),
+        model,
+        provider,
+        cacheKey: {
+          contentHash: hash,
+          model,
+          provider,
+        },
+      };
+      await writeFile(
+        path.join(cacheDir, `${hash}.json`),
+        JSON.stringify(cached, null, 2)
+      );
+    }
+  }
+
+  async hashes(namespace: EmbeddingNamespace): Promise<string[]> {
+    const store = await this.getPackedStore(namespace);
+    const packed = (await store.entries()).map((entry) => entry.hash);
+    const files = (await this.listEmbeddingFiles(modelCacheDir(namespace))).map(
+      (file) => path.parse(file).name
+    );
+    return [...new Set([...packed, ...files])];
+  }
+
+  async delete(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<number> {
+    const store = await this.getPackedStore(namespace);
+    const removed = new Set<string>();
+    const packedHashes = new Set(
+      (await store.entries()).map((entry) => entry.hash)
+    );
+    if (await store.error()) {
+      packedHashes.add(PACKED_MANIFEST_FILE);
+    }
+    await store.delete(hashes);
+    hashes
+      .filter((hash) => packedHashes.has(hash))
+      .forEach((hash) => removed.add(hash));
+
+    const cacheDir = modelCacheDir(namespace);
+    const files = new Set(await this.listEmbeddingFiles(cacheDir));
+    for (const hash of hashes) {
+      if (files.has(`${hash}.json`)) {
+        await unlink(path.join(cacheDir, `${hash}.json`));
+        removed.add(hash);
+      }
+    }
+    return removed.size;
+  }
+
+  /**
+   * Read all cached embeddings of a namespace: the packed rows (without text) and the
+   * embedding files, with the reason a file can't be read.
+   */
+  async scan(namespace: EmbeddingNamespace): Promise<StoredEmbedding[]> {
+    const cacheDir = modelCacheDir(namespace);
+    const store = await this.getPackedStore(namespace);
+    const scanned: StoredEmbedding[] = (await store.scan()).map(
+      ({ hash, embedding, error }) => ({
+        hash,
+        embedding,
+        // An unreadable manifest, or a row missing from a truncated vector file
+        error:
+          error ?? (embedding ? undefined : 'row is missing from the vector file'),
+        location: path.join(
+          cacheDir,
+          error ? PACKED_MANIFEST_FILE : PACKED_VECTORS_FILE
+        ),
+      })
+    );
+    for (const file of await this.listEmbeddingFiles(cacheDir)) {
+      const hash = path.parse(file).name;
+      const location = path.join(cacheDir, file);
+      try {
+        const { text, embedding } = await this.readEmbeddingFile(
+          namespace,
+          hash
+        );
+        scanned.push({ hash, text, embedding, location });
+      } catch (error) {
+        scanned.push({ hash, error: (error as Error).message, location });
+      }
+    }
+    return scanned;
+  }
+
+  async clear(
+    dataSet: string,
+    provider?: string,
+    model?: string
+  ): Promise<void> {
+    this.packedStores.clear();
+    const embeddingsDir = path.join(
+      process.cwd(),
+      'data',
+      dataSet,
+      'embeddings'
+    );
+    const target =
+      provider && model
+        ? modelCacheDir({ dataSet, provider, model })
+        : provider
+          ? path.join(embeddingsDir, provider)
+          : embeddingsDir;
+    await rm(target, { recursive: true, force: true });
+  }
+
+  async namespaces(dataSet: string): Promise<EmbeddingNamespace[]> {
+    const embeddingsDir = path.join(
+      process.cwd(),
+      'data',
+      dataSet,
+      'embeddings'
+    );
+    const namespaces: EmbeddingNamespace[] = [];
+    for (const provider of await subdirectories(embeddingsDir)) {
+      for (const model of await subdirectories(
+        path.join(embeddingsDir, provider)
+      )) {
+        namespaces.push({ dataSet, provider, model });
+      }
+    }
+    return namespaces;
+  }
+}
+
+/**
+ * Names of the sub-directories of a directory (none if it doesn't exist).
+ */
+export async function subdirectories(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name);
+}
@@ -0,0 +1,97 @@
+import {
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { withFileLock, writeFileAtomic } from './file-lock';
+
+describe('withFileLock', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+    file = path.join(dir, 'manifest.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs the actions on a file one after another', async () => {
+    const events: string[] = [];
+    const action = (name: string) => async () => {
+      events.push(`${name} start`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      events.push(`${name} end`);
+    };
+
+    await Promise.all([
+      withFileLock(file, action('a')),
+      withFileLock(file, action('b')),
+    ]);
+
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('releases the lock when an action fails', async () => {
+    await expect(
+      withFileLock(file, async () => {
+        throw new Error('failed');
+      })
+    ).rejects.toThrow('failed');
+
+    expect(await withFileLock(file, async () => 'next')).toBe('next');
+  });
+
+  it('waits for a lock held by another process', async () => {
+    await writeFile(`${file}.lock`, '');
+    let done = false;
+    const locked = withFileLock(file, async () => {
+      done = true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(done).toBe(false);
+    await rm(`${file}.lock`);
+    await locked;
+    expect(done).toBe(true);
+  });
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    await writeFile(`${file}.lock`, '');
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    await utimes(`${file}.lock`, hourAgo, hourAgo);
+
+    expect(await withFileLock(file, async () => 'done')).toBe('done');
+  });
+});
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('replaces a file through a temporary file of its own', async () => {
+    const file = path.join(dir, 'references.json');
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((content) => writeFileAtomic(file, content))
+    );
+
+    expect(['a', 'b', 'c']).toContain(await readFile(file, 'utf-8'));
+    expect(await readdir(dir)).toEqual(['references.json']);
+  });
+});
@@ -0,0 +1,107 @@
+import { mkdir, open, rename, rm, stat, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+
+/** Wait between attempts to take a lock held by another process */
+const LOCK_RETRY_MS = 20;
+/** Give up waiting for a lock after this long */
+const LOCK_TIMEOUT_MS = 10_000;
+/** A lock file older than this was left behind by a crashed process and is taken over */
+const STALE_LOCK_MS = 30_000;
+
+/** Latest locked action of each file in this process, so that its writers queue up */
+const queues = new Map<string, Promise<unknown>>();
+
+let tmpFiles = 0;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Take the lock file of a file, waiting while another process holds it.
+ * @returns A function that releases the lock
+ */
+async function acquire(file: string): Promise<() => Promise<void>> {
+  const lockPath = `${file}.lock`;
+  await mkdir(path.dirname(lockPath), { recursive: true });
+  const started = Date.now();
+  for (;;) {
+    try {
+      await (await open(lockPath, 'wx')).close();
+      return () => rm(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    const age = await stat(lockPath).then(
+      (stats) => Date.now() - stats.mtimeMs,
+      () => 0
+    );
+    if (age > STALE_LOCK_MS) {
+      await rm(lockPath, { force: true });
+    } else if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new Error(`${file}: timed out waiting for ${lockPath}`);
+    } else {
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+}
+
+/**
+ * Run an action while holding the lock of a file (`{file}.lock`), so that read-modify-write
+ * cycles of the file don't interleave, within this process or with other processes.
+ * @param file - File the action reads and replaces
+ * @param action - Runs once the lock is taken; the lock is released when it settles
+ * @throws {Error} When another process holds the lock for too long
+ */
+export function withFileLock<T>(
+  file: string,
+  action: () => Promise<T>
+): Promise<T> {
+  const previous = queues.get(file) ?? Promise.resolve();
+  const result = previous.then(async () => {
+    const release = await acquire(file);
+    try {
+      return await action();
+    } finally {
+      await release();
+    }
+  });
+  const settled = result.catch(() => undefined);
+  queues.set(file, settled);
+  void settled.then(() => {
+    if (queues.get(file) === settled) {
+      queues.delete(file);
+    }
+  });
+  return result;
+}
+
+/**
+ * Identity of the current content of a file (`missing` if there is none), to notice when it
+ * was replaced, e.g. by another process.
+ */
+export function fileStamp(file: string): Promise<string> {
+  return stat(file).then(
+    (stats) => `${stats.ino}:${stats.size}:${stats.mtimeMs}`,
+    (error) => {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return 'missing';
+    }
+  );
+}
+
+/**
+ * Replace a file with new content: write a temporary file of its own, then rename it, so that
+ * readers never see a partly written file.
+ */
+export async function writeFileAtomic(
+  file: string,
+  data: string | Buffer
+): Promise<void> {
+  const tmpPath = `${file}.${process.pid}-${++tmpFiles}.tmp`;
+  try {
+    await writeFile(tmpPath, data);
+    await rename(tmpPath, file);
+  } catch (error) {
+    await rm(tmpPath, { force: true });
+    throw error;
+  }
+}
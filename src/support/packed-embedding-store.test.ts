@@ -0,0 +1,387 @@
+import {
+  appendFile,
+  copyFile,
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  truncate,
+  writeFile,
+} from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  PACKED_MANIFEST_FILE,
+  PACKED_VECTORS_FILE,
+  PackedEmbeddingStore,
+} from './packed-embedding-store';
+
+const hash = (n: number) => n.toString(16).padStart(64, '0');
+
+/** Vector file header: magic number and generation */
+const HEADER_BYTES = 8;
+
+describe('PackedEmbeddingStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = path.join(
+      await mkdtemp(path.join(os.tmpdir(), 'packed-store-')),
+      'openai',
+      'model'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(path.dirname(path.dirname(dir)), { recursive: true, force: true });
+  });
+
+  it('is empty without files', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    expect(await store.size()).toBe(0);
+    expect(await store.get(hash(1))).toBeUndefined();
+    expect(await PackedEmbeddingStore.exists(dir)).toBe(false);
+  });
+
+  it('stores vectors as Float32 rows with a manifest', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany([
+      { hash: hash(1), embedding: [0.5, -1, 2] },
+      { hash: hash(2), embedding: [0.25, 0, 1] },
+    ]);
+
+    expect((await stat(path.join(dir, PACKED_VECTORS_FILE))).size).toBe(
+      HEADER_BYTES + 2 * 3 * 4
+    );
+    const manifest = JSON.parse(
+      await readFile(path.join(dir, PACKED_MANIFEST_FILE), 'utf-8')
+    );
+    expect(manifest).toMatchObject({
+      version: 2,
+      generation: 0,
+      dimensions: 3,
+    });
+    expect(
+      manifest.entries.map((entry: { hash: string }) => entry.hash)
+    ).toEqual([hash(1), hash(2)]);
+
+    const reopened = new PackedEmbeddingStore(dir);
+    expect(await reopened.get(hash(2))).toEqual([0.25, 0, 1]);
+    expect(await reopened.getMany([hash(1), hash(3)])).toEqual(
+      new Map([[hash(1), [0.5, -1, 2]]])
+    );
+  });
+
+  it('keeps Float32 precision', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany([{ hash: hash(1), embedding: [0.1, 0.2] }]);
+
+    const [x, y] = (await new PackedEmbeddingStore(dir).get(hash(1)))!;
+    expect(x).toBeCloseTo(0.1, 6);
+    expect(y).toBe(Math.fround(0.2));
+  });
+
+  it('appends new hashes only', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    expect(await store.putMany([{ hash: hash(1), embedding: [1, 1] }])).toBe(1);
+    expect(
+      await store.putMany([
+        { hash: hash(1), embedding: [9, 9] },
+        { hash: hash(2), embedding: [2, 2] },
+      ])
+    ).toBe(1);
+
+    expect(await store.size()).toBe(2);
+    expect(await store.get(hash(1))).toEqual([1, 1]);
+  });
+
+  it('runs concurrent writes one after another', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    await Promise.all(
+      [1, 2, 3, 4].map((n) =>
+        store.putMany([{ hash: hash(n), embedding: [n, n] }])
+      )
+    );
+
+    const reopened = new PackedEmbeddingStore(dir);
+    expect(await reopened.size()).toBe(4);
+    for (const n of [1, 2, 3, 4]) {
+      expect(await reopened.get(hash(n))).toEqual([n, n]);
+    }
+  });
+
+  it('keeps the writes of stores of the same directory', async () => {
+    const stores = [1, 2, 3].map(() => new PackedEmbeddingStore(dir));
+    await Promise.all(
+      stores.map((store, i) =>
+        store.putMany(
+          [1, 2].map((n) => ({ hash: hash(i * 10 + n), embedding: [i, n] }))
+        )
+      )
+    );
+    await stores[0].delete([hash(1)]);
+    await stores[1].putMany([{ hash: hash(99), embedding: [9, 9] }]);
+
+    const reopened = new PackedEmbeddingStore(dir);
+    expect(await reopened.size()).toBe(6);
+    expect(
+      await reopened.getMany([hash(2), hash(11), hash(22), hash(99)])
+    ).toEqual(
+      new Map([
+        [hash(2), [0, 2]],
+        [hash(11), [1, 1]],
+        [hash(22), [2, 2]],
+        [hash(99), [9, 9]],
+      ])
+    );
+    expect(await stores[2].has(hash(1))).toBe(false);
+    expect((await readdir(dir)).sort()).toEqual([
+      PACKED_MANIFEST_FILE,
+      PACKED_VECTORS_FILE,
+    ]);
+  });
+
+  it('shares one store per directory', () => {
+    expect(PackedEmbeddingStore.forDirectory(dir)).toBe(
+      PackedEmbeddingStore.forDirectory(path.join(dir, '.'))
+    );
+  });
+
+  it('rejects embeddings with other dimensions', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany([{ hash: hash(1), embedding: [1, 2, 3] }]);
+
+    await expect(
+      store.putMany([{ hash: hash(2), embedding: [1, 2] }])
+    ).rejects.toThrow('expected embeddings with 3 dimensions, got 2');
+    expect(await store.size()).toBe(1);
+  });
+
+  it('drops vectors of an append without manifest', async () => {
+    await new PackedEmbeddingStore(dir).putMany([
+      { hash: hash(1), embedding: [1, 2] },
+    ]);
+    // Interrupted write: vectors appended, manifest not replaced
+    await appendFile(path.join(dir, PACKED_VECTORS_FILE), Buffer.alloc(8));
+
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany([{ hash: hash(2), embedding: [3, 4] }]);
+
+    expect((await stat(path.join(dir, PACKED_VECTORS_FILE))).size).toBe(
+      HEADER_BYTES + 2 * 2 * 4
+    );
+    expect(await new PackedEmbeddingStore(dir).get(hash(2))).toEqual([3, 4]);
+  });
+
+  it('deletes embeddings and compacts the vectors', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany(
+      [1, 2, 3].map((n) => ({ hash: hash(n), embedding: [n, n] }))
+    );
+
+    expect(await store.delete([hash(2), hash(9)])).toBe(1);
+
+    expect((await stat(path.join(dir, PACKED_VECTORS_FILE))).size).toBe(
+      HEADER_BYTES + 2 * 2 * 4
+    );
+    const reopened = new PackedEmbeddingStore(dir);
+    expect((await reopened.entries()).map((entry) => entry.hash)).toEqual([
+      hash(1),
+      hash(3),
+    ]);
+    expect(await reopened.get(hash(3))).toEqual([3, 3]);
+    expect(await reopened.has(hash(2))).toBe(false);
+  });
+
+  it('scans rows and drops those of a truncated vector file on delete', async () => {
+    await new PackedEmbeddingStore(dir).putMany(
+      [1, 2, 3].map((n) => ({ hash: hash(n), embedding: [n, n] }))
+    );
+    await truncate(
+      path.join(dir, PACKED_VECTORS_FILE),
+      HEADER_BYTES + 2 * 2 * 4 + 4
+    );
+
+    const store = new PackedEmbeddingStore(dir);
+    expect(await store.scan()).toEqual([
+      { hash: hash(1), embedding: [1, 1] },
+      { hash: hash(2), embedding: [2, 2] },
+      { hash: hash(3), embedding: undefined },
+    ]);
+
+    expect(await store.delete([hash(1)])).toBe(1);
+    expect(await store.entries()).toEqual([
+      expect.objectContaining({ hash: hash(2) }),
+    ]);
+    expect((await stat(path.join(dir, PACKED_VECTORS_FILE))).size).toBe(
+      HEADER_BYTES + 2 * 4
+    );
+  });
+
+  it('finishes a delete interrupted after the manifest was written', async () => {
+    const vectorsPath = path.join(dir, PACKED_VECTORS_FILE);
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany(
+      [1, 2, 3].map((n) => ({ hash: hash(n), embedding: [n, n] }))
+    );
+    await copyFile(vectorsPath, `${vectorsPath}.old`);
+    await store.delete([hash(1)]);
+    // Interrupted delete: new manifest, new vector file not renamed yet
+    await rename(vectorsPath, `${vectorsPath}.next`);
+    await rename(`${vectorsPath}.old`, vectorsPath);
+
+    const reopened = new PackedEmbeddingStore(dir);
+    expect(await reopened.getMany([hash(1), hash(2), hash(3)])).toEqual(
+      new Map([
+        [hash(2), [2, 2]],
+        [hash(3), [3, 3]],
+      ])
+    );
+
+    await reopened.putMany([{ hash: hash(4), embedding: [4, 4] }]);
+    expect((await stat(vectorsPath)).size).toBe(HEADER_BYTES + 3 * 2 * 4);
+    expect(await new PackedEmbeddingStore(dir).get(hash(4))).toEqual([4, 4]);
+  });
+
+  it('keeps the previous state if a delete was interrupted before the manifest', async () => {
+    const vectorsPath = path.join(dir, PACKED_VECTORS_FILE);
+    const manifestPath = path.join(dir, PACKED_MANIFEST_FILE);
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany(
+      [1, 2, 3].map((n) => ({ hash: hash(n), embedding: [n, n] }))
+    );
+    const manifest = await readFile(manifestPath);
+    const vectors = await readFile(vectorsPath);
+    await store.delete([hash(1)]);
+    // Interrupted delete: new vector file written, manifest not replaced
+    await rename(vectorsPath, `${vectorsPath}.next`);
+    await writeFile(vectorsPath, vectors);
+    await writeFile(manifestPath, manifest);
+
+    expect(
+      await new PackedEmbeddingStore(dir).getMany([hash(1), hash(3)])
+    ).toEqual(
+      new Map([
+        [hash(1), [1, 1]],
+        [hash(3), [3, 3]],
+      ])
+    );
+  });
+
+  it("doesn't read a vector file of another generation", async () => {
+    const manifestPath = path.join(dir, PACKED_MANIFEST_FILE);
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany(
+      [1, 2, 3].map((n) => ({ hash: hash(n), embedding: [n, n] }))
+    );
+    const manifest = await readFile(manifestPath);
+    await store.delete([hash(1)]);
+    await writeFile(manifestPath, manifest);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const reopened = new PackedEmbeddingStore(dir);
+    try {
+      expect(await reopened.getMany([hash(2), hash(3)])).toEqual(new Map());
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("vector file doesn't match the manifest")
+      );
+    } finally {
+      warn.mockRestore();
+    }
+    await expect(
+      reopened.putMany([{ hash: hash(4), embedding: [4, 4] }])
+    ).rejects.toThrow("vector file doesn't match the manifest");
+  });
+
+  it('reads vector files without header and adds one on delete', async () => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      path.join(dir, PACKED_VECTORS_FILE),
+      Buffer.from(new Float32Array([1, 1, 2, 2]).buffer)
+    );
+    await writeFile(
+      path.join(dir, PACKED_MANIFEST_FILE),
+      JSON.stringify({
+        version: 1,
+        dimensions: 2,
+        entries: [{ hash: hash(1) }, { hash: hash(2) }],
+      })
+    );
+
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany([{ hash: hash(3), embedding: [3, 3] }]);
+    expect(await store.get(hash(3))).toEqual([3, 3]);
+    await store.delete([hash(1)]);
+
+    const reopened = new PackedEmbeddingStore(dir);
+    expect(await reopened.getMany([hash(2), hash(3)])).toEqual(
+      new Map([
+        [hash(2), [2, 2]],
+        [hash(3), [3, 3]],
+      ])
+    );
+    const manifest = JSON.parse(
+      await readFile(path.join(dir, PACKED_MANIFEST_FILE), 'utf-8')
+    );
+    expect(manifest).toMatchObject({ version: 2, generation: 1 });
+  });
+
+  it('treats an unreadable manifest as an empty store', async () => {
+    await new PackedEmbeddingStore(dir).putMany([
+      { hash: hash(1), embedding: [1, 1] },
+    ]);
+    await writeFile(path.join(dir, PACKED_MANIFEST_FILE), '{"version":');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const store = new PackedEmbeddingStore(dir);
+      expect(await store.getMany([hash(1)])).toEqual(new Map());
+      expect(await store.error()).toMatch(/^manifest can't be read: /);
+      expect(await store.scan()).toEqual([
+        { hash: PACKED_MANIFEST_FILE, error: await store.error() },
+      ]);
+      expect(warn).toHaveBeenCalledTimes(1);
+
+      await store.putMany([{ hash: hash(2), embedding: [2, 2, 2] }]);
+      const reopened = new PackedEmbeddingStore(dir);
+      expect(await reopened.entries()).toEqual([
+        expect.objectContaining({ hash: hash(2) }),
+      ]);
+      expect(await reopened.get(hash(2))).toEqual([2, 2, 2]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('removes an unreadable manifest when deleting it', async () => {
+    await new PackedEmbeddingStore(dir).putMany([
+      { hash: hash(1), embedding: [1, 1] },
+    ]);
+    await writeFile(path.join(dir, PACKED_MANIFEST_FILE), 'not json');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const store = new PackedEmbeddingStore(dir);
+      expect(await store.delete([hash(1)])).toBe(0);
+      expect(await store.delete([PACKED_MANIFEST_FILE])).toBe(1);
+
+      expect(await readdir(dir)).toEqual([]);
+      expect(await store.error()).toBeUndefined();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('takes other dimensions once emptied', async () => {
+    const store = new PackedEmbeddingStore(dir);
+    await store.putMany([{ hash: hash(1), embedding: [1, 1] }]);
+    await store.delete([hash(1)]);
+
+    await store.putMany([{ hash: hash(2), embedding: [2, 2, 2] }]);
+
+    expect(await new PackedEmbeddingStore(dir).get(hash(2))).toEqual([2, 2, 2]);
+  });
+});
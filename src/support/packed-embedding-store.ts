@@ -0,0 +1,575 @@
+import {
+  access,
+  appendFile,
+  open,
+  readFile,
+  rename,
+  rm,
+  stat,
+  truncate,
+  writeFile,
+} from 'node:fs/promises';
+import * as path from 'node:path';
+import { fileStamp, withFileLock, writeFileAtomic } from './file-lock';
+
+/**
+ * Vectors of a packed store: a header with the generation of the manifest, followed by
+ * little-endian Float32 values, one row per embedding
+ */
+export const PACKED_VECTORS_FILE = 'vectors.f32';
+
+/** Manifest of a packed store: the content hash of each row */
+export const PACKED_MANIFEST_FILE = 'manifest.json';
+
+const BYTES_PER_VALUE = 4;
+
+/** Vector file header: magic number and generation (uint32 LE) */
+const VECTORS_MAGIC = 'F32V';
+const HEADER_BYTES = 8;
+
+/**
+ * Manifest entry of an embedding; its position is the row in the vector file.
+ */
+export interface PackedEntry {
+  /** SHA256 hash of the embedded text */
+  hash: string;
+  /** Timestamp when the embedding was created */
+  createdAt: string;
+}
+
+/**
+ * Embedding to add to a packed store.
+ */
+export interface PackedVector {
+  hash: string;
+  embedding: number[];
+  /** Creation timestamp (default: now) */
+  createdAt?: string;
+}
+
+interface PackedManifest {
+  /** 2: the vector file has a header; 1: written without one, upgraded on the next delete */
+  version: 1 | 2;
+  /** Generation of the vector file, increased when the file is rewritten (0 for version 1) */
+  generation: number;
+  /** Values per vector (0 while the store is empty) */
+  dimensions: number;
+  entries: PackedEntry[];
+}
+
+function serializeManifest(manifest: PackedManifest): string {
+  // One entry per line, so that appended embeddings show up as added lines in diffs
+  const entries = manifest.entries
+    .map((entry) => JSON.stringify(entry))
+    .join(',\n');
+  const generation =
+    manifest.version === 2 ? `"generation":${manifest.generation},` : '';
+  return `{"version":${manifest.version},${generation}"dimensions":${manifest.dimensions},"entries":[\n${entries}\n]}\n`;
+}
+
+function encodeHeader(generation: number): Buffer {
+  const header = Buffer.alloc(HEADER_BYTES);
+  header.write(VECTORS_MAGIC, 0, 'latin1');
+  header.writeUInt32LE(generation, 4);
+  return header;
+}
+
+/** Generation in a vector file header, or undefined if the data has no header */
+function parseGeneration(data: Buffer): number | undefined {
+  return data.length >= HEADER_BYTES &&
+    data.toString('latin1', 0, 4) === VECTORS_MAGIC
+    ? data.readUInt32LE(4)
+    : undefined;
+}
+
+/** Generation of a vector file, or undefined if it is missing or has no header */
+async function readGeneration(file: string): Promise<number | undefined> {
+  let handle;
+  try {
+    handle = await open(file, 'r');
+    const header = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await handle.read(header, 0, HEADER_BYTES, 0);
+    return parseGeneration(header.subarray(0, bytesRead));
+  } catch (error) {
+    if (!isMissingFile(error)) throw error;
+    return undefined;
+  } finally {
+    await handle?.close();
+  }
+}
+
+function encodeVectors(vectors: number[][], dimensions: number): Buffer {
+  const buffer = Buffer.alloc(vectors.length * dimensions * BYTES_PER_VALUE);
+  vectors.forEach((vector, row) => {
+    vector.forEach((value, i) => {
+      buffer.writeFloatLE(value, (row * dimensions + i) * BYTES_PER_VALUE);
+    });
+  });
+  return buffer;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * A manifest as read, with the row of each hash and, once loaded, the vectors of its
+ * generation.
+ */
+interface PackedState {
+  manifest: PackedManifest;
+  rows: Map<string, number>;
+  vectors?: Promise<Buffer>;
+  /** Why the manifest can't be read (the store is treated as empty) */
+  error?: string;
+}
+
+function packedState(
+  manifest: PackedManifest,
+  vectors?: Promise<Buffer>
+): PackedState {
+  const rows = new Map(manifest.entries.map((entry, row) => [entry.hash, row]));
+  return { manifest, rows, vectors };
+}
+
+const emptyManifest = (): PackedManifest => ({
+  version: 2,
+  generation: 0,
+  dimensions: 0,
+  entries: [],
+});
+
+/** Stores by directory, so that a process has one store per cache (see forDirectory()) */
+const stores = new Map<string, PackedEmbeddingStore>();
+
+/**
+ * Embedding cache of one provider and model packed into two files: the vectors of all
+ * embeddings in one binary Float32 file and a compact manifest with the content hash of each
+ * row. Thousands of embeddings load with two reads instead of one JSON file each.
+ *
+ * The manifest is read when the store is first used and again whenever the file was replaced,
+ * the vector file when the first vector is requested; vectors are decoded row by row as they
+ * are looked up. Values are stored with Float32 precision.
+ *
+ * Replacing the manifest (write and rename) commits every change, so an interrupted write
+ * leaves the previous state readable: new embeddings are appended to the vector file before
+ * the manifest is replaced. Deleting rewrites the vector file as `vectors.f32.next` with the
+ * next generation in its header, then replaces the manifest, then renames the new vector
+ * file; if that last step was interrupted, the next write does it. A vector file of another
+ * generation than the manifest is never read.
+ *
+ * An unreadable manifest is reported with a warning and its embeddings are treated as not
+ * cached; the next write replaces it, or deleting `manifest.json` (see scan()) removes it.
+ *
+ * Writes hold the lock of the manifest (see withFileLock()) and start from the manifest on
+ * disk, so stores of the same directory in other processes don't lose each other's changes.
+ * Use forDirectory() to share one store per directory within a process.
+ *
+ * @example
+ * ```typescript
+ * const store = PackedEmbeddingStore.forDirectory(embeddingCacheDir('example-fruits'));
+ * await store.putMany([{ hash: contentHash(doc.text), embedding: doc.embedding }]);
+ * const vectors = await store.getMany([contentHash(doc.text)]);
+ * ```
+ */
+export class PackedEmbeddingStore {
+  /** Latest state, and the manifest file it was read from */
+  private state?: { stamp: string; loaded: Promise<PackedState> };
+
+  /**
+   * @param dir - Cache directory of a provider and model, e.g. `data/{dataSet}/embeddings/openai/{model}/`
+   */
+  constructor(readonly dir: string) {}
+
+  /**
+   * Get the store of a directory, shared by all callers in the process.
+   */
+  static forDirectory(dir: string): PackedEmbeddingStore {
+    const key = path.resolve(dir);
+    let store = stores.get(key);
+    if (!store) {
+      store = new PackedEmbeddingStore(key);
+      stores.set(key, store);
+    }
+    return store;
+  }
+
+  /**
+   * Whether a directory holds a packed store.
+   */
+  static async exists(dir: string): Promise<boolean> {
+    try {
+      await access(path.join(dir, PACKED_MANIFEST_FILE));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private get manifestPath(): string {
+    return path.join(this.dir, PACKED_MANIFEST_FILE);
+  }
+
+  private get vectorsPath(): string {
+    return path.join(this.dir, PACKED_VECTORS_FILE);
+  }
+
+  /** Rewritten vector file, until the manifest of its generation is written */
+  private get nextVectorsPath(): string {
+    return `${this.vectorsPath}.next`;
+  }
+
+  /**
+   * Get the current state: the cached one, unless the manifest file was replaced since it
+   * was read.
+   */
+  private async load(): Promise<PackedState> {
+    const stamp = await fileStamp(this.manifestPath);
+    if (this.state?.stamp !== stamp) {
+      const loaded = this.readManifest();
+      this.state = { stamp, loaded };
+      // Read again on the next call after a failed read
+      loaded.catch(() => {
+        if (this.state?.loaded === loaded) this.state = undefined;
+      });
+    }
+    return this.state.loaded;
+  }
+
+  private async readManifest(): Promise<PackedState> {
+    let data: string;
+    try {
+      data = await readFile(this.manifestPath, 'utf-8');
+    } catch (error) {
+      if (!isMissingFile(error)) throw error;
+      return packedState(emptyManifest());
+    }
+    try {
+      const manifest = JSON.parse(data) as PackedManifest;
+      if (
+        (manifest.version !== 1 && manifest.version !== 2) ||
+        !Array.isArray(manifest.entries)
+      ) {
+        throw new Error('unsupported packed embedding manifest');
+      }
+      manifest.generation ??= 0;
+      return packedState(manifest);
+    } catch (error) {
+      const message = `manifest can't be read: ${(error as Error).message}`;
+      console.warn(
+        `${this.manifestPath}: ${message}, its embeddings are treated as not cached ` +
+          `(run pnpm cache:verify --repair)`
+      );
+      return { ...packedState(emptyManifest()), error: message };
+    }
+  }
+
+  /**
+   * Load the rows of the vector file of a state (without the header). Until an interrupted
+   * delete is finished, the rows of the manifest's generation are in `vectors.f32.next`.
+   * A vector file of another generation is ignored, as its rows don't match the manifest.
+   */
+  private loadVectors(state: PackedState): Promise<Buffer> {
+    state.vectors ??= this.readVectors(state.manifest);
+    return state.vectors;
+  }
+
+  private async readVectors(manifest: PackedManifest): Promise<Buffer> {
+    const read = (file: string) =>
+      readFile(file).catch((error) => {
+        if (!isMissingFile(error)) throw error;
+        return Buffer.alloc(0);
+      });
+    if (manifest.version === 1) {
+      return read(this.vectorsPath);
+    }
+    // The vector file again last, in case a delete moved the next one into place meanwhile
+    for (const file of [
+      this.vectorsPath,
+      this.nextVectorsPath,
+      this.vectorsPath,
+    ]) {
+      const data = await read(file);
+      if (parseGeneration(data) === manifest.generation) {
+        return data.subarray(HEADER_BYTES);
+      }
+    }
+    if (manifest.entries.length > 0) {
+      console.warn(
+        `${this.vectorsPath}: vector file doesn't match the manifest, its embeddings are ignored`
+      );
+    }
+    return Buffer.alloc(0);
+  }
+
+  /**
+   * Get the state to change, once the lock is held: read from disk if another store
+   * replaced the manifest, with an interrupted delete finished.
+   */
+  private async loadForWrite(): Promise<PackedState> {
+    const state = await this.load();
+    const { version, generation } = state.manifest;
+    if (
+      version === 2 &&
+      (await readGeneration(this.vectorsPath)) !== generation &&
+      (await readGeneration(this.nextVectorsPath)) === generation
+    ) {
+      await rename(this.nextVectorsPath, this.vectorsPath);
+    }
+    return state;
+  }
+
+  /**
+   * Why the manifest can't be read.
+   * @returns The reason, or undefined if it is readable or missing
+   */
+  async error(): Promise<string | undefined> {
+    return (await this.load()).error;
+  }
+
+  /**
+   * Manifest entries in row order.
+   */
+  async entries(): Promise<PackedEntry[]> {
+    return [...(await this.load()).manifest.entries];
+  }
+
+  /**
+   * Number of embeddings in the store.
+   */
+  async size(): Promise<number> {
+    return (await this.load()).manifest.entries.length;
+  }
+
+  /**
+   * Whether the store has an embedding for a content hash.
+   */
+  async has(hash: string): Promise<boolean> {
+    return (await this.load()).rows.has(hash);
+  }
+
+  /**
+   * Get the embedding of a content hash.
+   * @returns The embedding, or undefined if the store doesn't have it
+   */
+  async get(hash: string): Promise<number[] | undefined> {
+    return (await this.getMany([hash])).get(hash);
+  }
+
+  /**
+   * Get the embeddings of content hashes. Rows missing from a truncated vector file are
+   * treated as not cached.
+   * @returns Embeddings by content hash, for the hashes the store has
+   */
+  async getMany(hashes: Iterable<string>): Promise<Map<string, number[]>> {
+    return this.readRows(await this.load(), hashes);
+  }
+
+  private async readRows(
+    state: PackedState,
+    hashes: Iterable<string>
+  ): Promise<Map<string, number[]>> {
+    const { dimensions } = state.manifest;
+    const found = new Map<string, number[]>();
+    const rows = [...hashes].filter((hash) => state.rows.has(hash));
+    if (rows.length === 0) {
+      return found;
+    }
+
+    const vectors = await this.loadVectors(state);
+    const rowBytes = dimensions * BYTES_PER_VALUE;
+    for (const hash of rows) {
+      const offset = state.rows.get(hash)! * rowBytes;
+      if (offset + rowBytes > vectors.length) {
+        continue;
+      }
+      const embedding = new Array<number>(dimensions);
+      for (let i = 0; i < dimensions; i++) {
+        embedding[i] = vectors.readFloatLE(offset + i * BYTES_PER_VALUE);
+      }
+      found.set(hash, embedding);
+    }
+    return found;
+  }
+
+  /**
+   * Read all rows for verification, in manifest order. Rows missing from a truncated vector
+   * file have no embedding. An unreadable manifest is returned as an entry named after its
+   * file, with the error.
+   */
+  async scan(): Promise<
+    Array<{ hash: string; embedding?: number[]; error?: string }>
+  > {
+    const state = await this.load();
+    if (state.error) {
+      return [{ hash: PACKED_MANIFEST_FILE, error: state.error }];
+    }
+    const { entries } = state.manifest;
+    const found = await this.readRows(
+      state,
+      entries.map((entry) => entry.hash)
+    );
+    return entries.map(({ hash }) => ({ hash, embedding: found.get(hash) }));
+  }
+
+  /**
+   * Add embeddings; hashes the store already has are skipped.
+   * @returns Number of embeddings added
+   * @throws {Error} When an embedding has another number of dimensions than the stored ones
+   */
+  putMany(vectors: PackedVector[]): Promise<number> {
+    return withFileLock(this.manifestPath, async () => {
+      const { manifest, rows } = await this.loadForWrite();
+      const added = new Map<string, PackedVector>();
+      for (const vector of vectors) {
+        if (!rows.has(vector.hash)) {
+          added.set(vector.hash, vector);
+        }
+      }
+      if (added.size === 0) {
+        return 0;
+      }
+
+      const newVectors = [...added.values()];
+      const dimensions = manifest.dimensions || newVectors[0].embedding.length;
+      for (const { embedding } of newVectors) {
+        if (embedding.length !== dimensions) {
+          throw new Error(
+            `${this.dir}: expected embeddings with ${dimensions} dimensions, got ${embedding.length}`
+          );
+        }
+      }
+
+      // Empty stores start a vector file with a header
+      const version = manifest.entries.length > 0 ? manifest.version : 2;
+      const headerBytes = version === 2 ? HEADER_BYTES : 0;
+      const storedBytes =
+        headerBytes + manifest.entries.length * dimensions * BYTES_PER_VALUE;
+      const fileBytes = await stat(this.vectorsPath).then(
+        (stats) => stats.size,
+        () => 0
+      );
+      const matches =
+        version === 1 ||
+        (await readGeneration(this.vectorsPath)) === manifest.generation;
+      if (manifest.entries.length === 0 && (!matches || fileBytes === 0)) {
+        await writeFile(this.vectorsPath, encodeHeader(manifest.generation));
+      } else if (!matches || fileBytes < storedBytes) {
+        throw new Error(
+          `${this.vectorsPath}: vector file doesn't match the manifest`
+        );
+      } else if (fileBytes > storedBytes) {
+        // Drop vectors of an append whose manifest was never written
+        await truncate(this.vectorsPath, storedBytes);
+      }
+
+      await appendFile(
+        this.vectorsPath,
+        encodeVectors(
+          newVectors.map((vector) => vector.embedding),
+          dimensions
+        )
+      );
+      const createdAt = new Date().toISOString();
+      const entries = [
+        ...manifest.entries,
+        ...newVectors.map((vector) => ({
+          hash: vector.hash,
+          createdAt: vector.createdAt ?? createdAt,
+        })),
+      ];
+      await this.writeManifest({
+        version,
+        generation: manifest.generation,
+        dimensions,
+        entries,
+      });
+      return newVectors.length;
+    });
+  }
+
+  /**
+   * Remove embeddings and compact the vector file into a new generation. Removing
+   * `manifest.json` removes an unreadable manifest with its vector file.
+   * @returns Number of embeddings removed
+   */
+  async delete(hashes: Iterable<string>): Promise<number> {
+    const wanted = [...hashes];
+    const removesManifest = (state: PackedState) =>
+      state.error !== undefined && wanted.includes(PACKED_MANIFEST_FILE);
+    const current = await this.load();
+    // Without the lock (and its file) if there is nothing to remove
+    if (
+      !removesManifest(current) &&
+      !wanted.some((hash) => current.rows.has(hash))
+    ) {
+      return 0;
+    }
+
+    return withFileLock(this.manifestPath, async () => {
+      const state = await this.loadForWrite();
+      if (removesManifest(state)) {
+        await rm(this.vectorsPath, { force: true });
+        await rm(this.nextVectorsPath, { force: true });
+        await rm(this.manifestPath, { force: true });
+        this.state = undefined;
+        return 1;
+      }
+      const { manifest, rows } = state;
+      const removed = new Set(wanted.filter((hash) => rows.has(hash)));
+      if (removed.size === 0) {
+        return 0;
+      }
+
+      const vectors = await this.loadVectors(state);
+      const rowBytes = manifest.dimensions * BYTES_PER_VALUE;
+      // Rows missing from a truncated vector file are dropped as well
+      const kept = manifest.entries.filter(
+        (entry) =>
+          !removed.has(entry.hash) &&
+          (rows.get(entry.hash)! + 1) * rowBytes <= vectors.length
+      );
+      const compacted = Buffer.concat(
+        kept.map((entry) => {
+          const offset = rows.get(entry.hash)! * rowBytes;
+          return vectors.subarray(offset, offset + rowBytes);
+        })
+      );
+      const generation = manifest.generation + 1;
+      await writeFile(
+        this.nextVectorsPath,
+        Buffer.concat([encodeHeader(generation), compacted])
+      );
+      // The manifest commits the delete, the new vector file is moved into place after it
+      await this.writeManifest(
+        {
+          version: 2,
+          generation,
+          // An emptied store takes embeddings of any size again
+          dimensions: kept.length > 0 ? manifest.dimensions : 0,
+          entries: kept,
+        },
+        compacted
+      );
+      await rename(this.nextVectorsPath, this.vectorsPath);
+      return removed.size;
+    });
+  }
+
+  /**
+   * Replace the manifest, and make it the current state.
+   * @param vectors - Rows of the manifest's vector file, if they are known
+   */
+  private async writeManifest(
+    manifest: PackedManifest,
+    vectors?: Buffer
+  ): Promise<void> {
+    await writeFileAtomic(this.manifestPath, serializeManifest(manifest));
+    this.state = {
+      stamp: await fileStamp(this.manifestPath),
+      loaded: Promise.resolve(
+        packedState(manifest, vectors && Promise.resolve(vectors))
+      ),
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { isRetryableError, withRetry } from './retry';
+
+const httpError = (
+  statusCode: number,
+  responseHeaders?: Record<string, string>
+) =>
+  Object.assign(new Error(`HTTP ${statusCode}`), {
+    statusCode,
+    responseHeaders,
+  });
+
+describe('isRetryableError', () => {
+  it('retries rate limits, timeouts and server errors', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(408))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(
+      isRetryableError(
+        Object.assign(new Error('reset'), { code: 'ECONNRESET' })
+      )
+    ).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(401))).toBe(false);
+    expect(isRetryableError(new Error('Invalid model'))).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+
+  it('looks into wrapped errors', () => {
+    expect(isRetryableError({ lastError: httpError(429) })).toBe(true);
+    expect(
+      isRetryableError(new Error('Failed', { cause: httpError(500) }))
+    ).toBe(true);
+  });
+});
+
+describe('withRetry', () => {
+  const sleep = jest.fn(async (_ms: number) => {});
+
+  beforeEach(() => {
+    sleep.mockClear();
+  });
+
+  it('retries with growing delays until the operation succeeds', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(500))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue('done');
+
+    await expect(
+      withRetry(operation, { baseDelayMs: 100, sleep })
+    ).resolves.toBe('done');
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    const [first, second] = sleep.mock.calls.map(([ms]) => ms);
+    expect(first).toBeGreaterThanOrEqual(50);
+    expect(first).toBeLessThanOrEqual(100);
+    expect(second).toBeGreaterThanOrEqual(100);
+    expect(second).toBeLessThanOrEqual(200);
+  });
+
+  it('gives up after the given number of retries', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(503));
+    const onRetry = jest.fn();
+
+    await expect(
+      withRetry(operation, { retries: 2, sleep, onRetry })
+    ).rejects.toThrow('HTTP 503');
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry other errors', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(400));
+
+    await expect(withRetry(operation, { sleep })).rejects.toThrow('HTTP 400');
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('waits as long as the Retry-After header asks, up to the maximum', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3' }))
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '120' }))
+      .mockResolvedValue('done');
+
+    await withRetry(operation, { maxDelayMs: 10_000, sleep });
+
+    expect(sleep.mock.calls).toEqual([[3000], [10_000]]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Options for retrying a failing operation.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 5) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for each further retry (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in ms (default: 30000) */
+  maxDelayMs?: number;
+  /** Whether an error is worth retrying (default: isRetryableError()) */
+  shouldRetry?: (error: unknown) => boolean;
+  /** Called before waiting for a retry */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  /** Wait function, replaceable in tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const RETRYABLE_NETWORK_ERRORS = [
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+];
+
+function statusCodeOf(error: unknown): number | undefined {
+  const { statusCode, status } = (error ?? {}) as {
+    statusCode?: unknown;
+    status?: unknown;
+  };
+  const code = statusCode ?? status;
+  return typeof code === 'number' ? code : undefined;
+}
+
+/**
+ * Whether an error is temporary: rate limits (429), server errors (5xx), request timeouts (408)
+ * and dropped connections. Errors wrapping another error (`lastError`, `cause`) are checked
+ * through it, e.g. the RetryError of the AI SDK.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const status = statusCodeOf(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const { code, lastError, cause } = error as {
+    code?: unknown;
+    lastError?: unknown;
+    cause?: unknown;
+  };
+  if (typeof code === 'string' && RETRYABLE_NETWORK_ERRORS.includes(code)) {
+    return true;
+  }
+  const inner = lastError ?? cause;
+  return inner !== undefined && inner !== error && isRetryableError(inner);
+}
+
+/**
+ * Delay requested by a `Retry-After` response header (seconds or HTTP date), if any.
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = (
+    error as { responseHeaders?: Record<string, string> } | undefined
+  )?.responseHeaders;
+  const value = headers?.['retry-after'];
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  const ms = Number.isNaN(seconds)
+    ? Date.parse(value) - Date.now()
+    : seconds * 1000;
+  return Number.isNaN(ms) ? undefined : Math.max(0, ms);
+}
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying temporary failures with exponential backoff and jitter. A
+ * `Retry-After` header on the error (rate limits) takes precedence over the computed delay.
+ *
+ * @param operation - Operation to run, called again for each attempt
+ * @param options - Number of retries, delays and which errors to retry
+ * @returns Result of the first successful attempt
+ * @throws The error of the last attempt, or the first error that is not retryable
+ *
+ * @example
+ * ```typescript
+ * const embeddings = await withRetry(() => generateEmbeddings(texts), {
+ *   onRetry: (error, attempt) => console.warn(`Retry ${attempt}: ${error}`),
+ * });
+ * ```
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const {
+    retries = 5,
+    baseDelayMs = 500,
+    maxDelayMs = 30_000,
+    shouldRetry = isRetryableError,
+    onRetry,
+    sleep = defaultSleep,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt > retries || !shouldRetry(error)) {
+        throw error;
+      }
+      const backoff = baseDelayMs * 2 ** (attempt - 1);
+      const delayMs = Math.min(
+        maxDelayMs,
+        retryAfterMs(error) ?? backoff * (0.5 + Math.random() / 2)
+      );
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { listDataSets } from '../dataset/datasets';
+import {
+  MemoryEmbeddingStore,
+  type EmbeddingNamespace,
+} from './embedding-store';
+import { FileEmbeddingStore } from './file-embedding-store';
+import {
+  REFERENCES_FILE,
+  SHARED_DATASET,
+  SharedEmbeddingStore,
+} from './shared-embedding-store';
+
+const hash = (n: number) => n.toString(16).padStart(64, '0');
+const record = (n: number) => ({
+  hash: hash(n),
+  text: `Text ${n}`,
+  embedding: [n, n],
+});
+
+const namespace = (dataSet: string): EmbeddingNamespace => ({
+  dataSet,
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+});
+const fruits = namespace('fruits');
+const cars = namespace('cars');
+
+describe('SharedEmbeddingStore', () => {
+  let tmpDir: string;
+  let cwd: jest.SpyInstance;
+  let entries: MemoryEmbeddingStore;
+  let store: SharedEmbeddingStore;
+
+  const references = async (dataSet: string) =>
+    JSON.parse(
+      await readFile(
+        path.join(
+          tmpDir,
+          'data',
+          dataSet,
+          'embeddings',
+          'openai',
+          'text-embedding-3-small',
+          REFERENCES_FILE
+        ),
+        'utf-8'
+      )
+    ).hashes;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'shared-store-'));
+    await mkdir(path.join(tmpDir, 'data'));
+    cwd = jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    entries = new MemoryEmbeddingStore();
+    store = new SharedEmbeddingStore(entries);
+  });
+
+  afterEach(async () => {
+    cwd.mockRestore();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores embeddings once for all datasets', async () => {
+    await store.putMany(fruits, [record(1), record(2)]);
+
+    const found = await store.getMany(cars, [hash(1), hash(3)]);
+
+    expect(found).toEqual(new Map([[hash(1), [1, 1]]]));
+    expect(await entries.hashes(namespace(SHARED_DATASET))).toEqual([
+      hash(1),
+      hash(2),
+    ]);
+    expect(await entries.hashes(fruits)).toEqual([]);
+    expect(await references('fruits')).toEqual([hash(1), hash(2)]);
+    expect(await references('cars')).toEqual([hash(1)]);
+  });
+
+  it("falls back to a dataset's own cache", async () => {
+    await entries.putMany(fruits, [record(5)]);
+
+    expect(await store.getMany(fruits, [hash(5)])).toEqual(
+      new Map([[hash(5), [5, 5]]])
+    );
+    expect(await store.getMany(cars, [hash(5)])).toEqual(new Map());
+  });
+
+  it('removes only the references of a dataset', async () => {
+    await store.putMany(fruits, [record(1), record(2)]);
+    await store.getMany(cars, [hash(1)]);
+
+    expect(await store.delete(fruits, [hash(1)])).toBe(1);
+
+    expect(await store.hashes(fruits)).toEqual([hash(2)]);
+    expect(await store.getMany(cars, [hash(1)])).toEqual(
+      new Map([[hash(1), [1, 1]]])
+    );
+  });
+
+  it('collects shared embeddings no dataset references', async () => {
+    await store.putMany(fruits, [record(1), record(2)]);
+    await store.putMany(cars, [record(2), record(3)]);
+    await store.delete(fruits, [hash(1), hash(2)]);
+    await store.clear('cars');
+    await store.putMany(cars, [record(3)]);
+
+    expect(await store.collectGarbage({ dryRun: true })).toEqual([
+      {
+        provider: 'openai',
+        model: 'text-embedding-3-small',
+        removed: 2,
+        kept: 1,
+      },
+    ]);
+    expect(await entries.hashes(namespace(SHARED_DATASET))).toHaveLength(3);
+
+    await store.collectGarbage();
+
+    expect(await entries.hashes(namespace(SHARED_DATASET))).toEqual([hash(3)]);
+  });
+
+  it('keeps the references of stores of the same dataset', async () => {
+    const other = new SharedEmbeddingStore(entries);
+    await store.getMany(fruits, []);
+    await other.getMany(fruits, []);
+
+    await Promise.all([
+      store.putMany(fruits, [record(1), record(2)]),
+      other.putMany(fruits, [record(3)]),
+      other.putMany(cars, [record(4)]),
+    ]);
+    await store.delete(fruits, [hash(2)]);
+    await other.putMany(fruits, [record(5)]);
+
+    expect(await references('fruits')).toEqual([hash(1), hash(3), hash(5)]);
+    expect((await store.hashes(fruits)).sort()).toEqual([
+      hash(1),
+      hash(3),
+      hash(5),
+    ]);
+    const [stats] = await store.collectGarbage();
+    expect(stats).toMatchObject({ removed: 1, kept: 4 });
+    expect(
+      await readdir(
+        path.join(
+          tmpDir,
+          'data',
+          'fruits',
+          'embeddings',
+          'openai',
+          'text-embedding-3-small'
+        )
+      )
+    ).toEqual([REFERENCES_FILE]);
+  });
+
+  it('looks up embeddings despite an unreadable manifest and replaces it', async () => {
+    await store.putMany(fruits, [record(1)]);
+    await store.putMany(cars, [record(2)]);
+    const file = path.join(
+      tmpDir,
+      'data',
+      'cars',
+      'embeddings',
+      'openai',
+      'text-embedding-3-small',
+      REFERENCES_FILE
+    );
+    await writeFile(file, '{"version":1,');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      await expect(store.collectGarbage()).rejects.toThrow(
+        "references can't be read"
+      );
+      expect(await entries.hashes(namespace(SHARED_DATASET))).toHaveLength(2);
+
+      const found = await store.getMany(cars, [hash(1), hash(2)]);
+      expect([...found.keys()]).toEqual([hash(1), hash(2)]);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("references can't be read")
+      );
+      expect(await references('cars')).toEqual([hash(1), hash(2)]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('stores shared files in a hidden folder that is not a dataset', async () => {
+    const files = new SharedEmbeddingStore(new FileEmbeddingStore());
+    await files.putMany(fruits, [record(1)]);
+
+    expect(await files.getMany(cars, [hash(1)])).toEqual(
+      new Map([[hash(1), [1, 1]]])
+    );
+    expect(listDataSets().sort()).toEqual(['cars', 'fruits']);
+    expect(await files.collectGarbage()).toEqual([
+      {
+        provider: 'openai',
+        model: 'text-embedding-3-small',
+        removed: 0,
+        kept: 1,
+      },
+    ]);
+  });
+
+  it('scans referenced shared embeddings and missing references', async () => {
+    await store.putMany(fruits, [record(1), record(2)]);
+    await store.putMany(cars, [record(3)]);
+    await entries.putMany(fruits, [record(4)]);
+    await entries.delete(namespace(SHARED_DATASET), [hash(2)]);
+
+    const scanned = await store.scan(fruits);
+
+    expect(scanned).toEqual([
+      { ...record(1), dataSet: SHARED_DATASET },
+      {
+        hash: hash(2),
+        error: 'referenced shared embedding is missing',
+        location: expect.stringContaining(REFERENCES_FILE),
+      },
+      record(4),
+    ]);
+  });
+});
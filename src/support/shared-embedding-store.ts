@@ -0,0 +1,384 @@
+import { readFile, rm } from 'node:fs/promises';
+import * as path from 'node:path';
+import { listDataSets } from '../dataset/datasets';
+import type {
+  EmbeddingNamespace,
+  EmbeddingRecord,
+  EmbeddingStore,
+  StoredEmbedding,
+} from './embedding-store';
+import { fileStamp, withFileLock, writeFileAtomic } from './file-lock';
+import {
+  modelCacheDir,
+  safeModelName,
+  subdirectories,
+} from './file-embedding-store';
+
+/** Dataset name the shared embeddings are stored under (`data/.shared/` in the file store) */
+export const SHARED_DATASET = '.shared';
+
+/** Manifest of the shared embeddings a dataset uses, in its model cache directory */
+export const REFERENCES_FILE = 'references.json';
+
+interface ReferenceManifest {
+  version: 1;
+  provider: string;
+  model: string;
+  /** Content hashes of the shared embeddings the dataset uses */
+  hashes: string[];
+}
+
+/**
+ * Shared embeddings of a provider and model after a garbage collection.
+ */
+export interface GarbageCollectionStats {
+  provider: string;
+  model: string;
+  /** Embeddings no dataset references (removed unless it was a dry run) */
+  removed: number;
+  /** Embeddings referenced by at least one dataset */
+  kept: number;
+}
+
+function referencesPath(namespace: EmbeddingNamespace): string {
+  return path.join(modelCacheDir(namespace), REFERENCES_FILE);
+}
+
+/** Provider and model key; model directory names of the file store map to the same key */
+function modelKey({ provider, model }: Omit<EmbeddingNamespace, 'dataSet'>) {
+  return `${provider}/${safeModelName(model)}`;
+}
+
+/** References of a dataset, or why its manifest can't be read (no references then) */
+interface References {
+  hashes: Set<string>;
+  error?: string;
+}
+
+/**
+ * Read a manifest.
+ * @returns The manifest, or undefined if it doesn't exist
+ * @throws {Error} When the manifest can't be read, without the file name
+ */
+async function readManifestFile(
+  file: string
+): Promise<ReferenceManifest | undefined> {
+  let data: string;
+  try {
+    data = await readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  const manifest = JSON.parse(data) as ReferenceManifest;
+  if (manifest.version !== 1 || !Array.isArray(manifest.hashes)) {
+    throw new Error('unsupported embedding reference manifest');
+  }
+  return manifest;
+}
+
+/**
+ * Read a manifest that must be readable, e.g. to find all references.
+ * @throws {Error} When the manifest can't be read
+ */
+async function readManifest(
+  file: string
+): Promise<ReferenceManifest | undefined> {
+  try {
+    return await readManifestFile(file);
+  } catch (error) {
+    throw new Error(
+      `${file}: references can't be read: ${(error as Error).message} ` +
+        `(run pnpm cache:verify --repair)`
+    );
+  }
+}
+
+/**
+ * Embedding store that shares embeddings between datasets: embeddings are stored once per
+ * provider, model and content hash in a shared namespace (`data/.shared/` with the file store),
+ * and every dataset keeps a manifest of the shared embeddings it uses,
+ * `data/{dataSet}/embeddings/{provider}/{model}/references.json`.
+ *
+ * Lookups consult the shared embeddings first and fall back to the dataset's own cache, so
+ * existing caches keep working. Shared embeddings stay until collectGarbage() finds that no
+ * dataset references them. Manifests are changed while holding their lock (see
+ * withFileLock()), starting from the manifest on disk, so stores in other processes don't
+ * lose each other's references. The manifests are always files in `data/`, so the embeddings must
+ * be stored there too (createEmbeddingStore() only wraps the file store); other stores are
+ * for tests.
+ *
+ * @example
+ * ```typescript
+ * const store = new SharedEmbeddingStore(new FileEmbeddingStore());
+ * const cache = new EmbeddingCache('example-fruits', { store });
+ * // Later, after datasets were removed or cleaned:
+ * await store.collectGarbage();
+ * ```
+ */
+export class SharedEmbeddingStore implements EmbeddingStore {
+  /** References by manifest file, and the manifest file they were read from */
+  private readonly references = new Map<
+    string,
+    { stamp: string; loaded: Promise<References> }
+  >();
+
+  /**
+   * @param entries - Store for the shared embeddings and the datasets' own caches
+   */
+  constructor(readonly entries: EmbeddingStore) {}
+
+  private shared(namespace: EmbeddingNamespace): EmbeddingNamespace {
+    return { ...namespace, dataSet: SHARED_DATASET };
+  }
+
+  /**
+   * Get the references of a dataset: the cached ones, unless the manifest was replaced since
+   * they were read. An unreadable manifest is reported with a warning and counts as no
+   * references; the next change of the references replaces it.
+   */
+  private async loadReferences(
+    namespace: EmbeddingNamespace
+  ): Promise<References> {
+    const file = referencesPath(namespace);
+    const stamp = await fileStamp(file);
+    let references = this.references.get(file);
+    if (references?.stamp !== stamp) {
+      const loaded = readManifestFile(file).then(
+        (manifest) => ({ hashes: new Set(manifest?.hashes) }),
+        (error) => {
+          const message = `references can't be read: ${(error as Error).message}`;
+          console.warn(
+            `${file}: ${message}, they are replaced by the next change ` +
+              `(run pnpm cache:verify --repair)`
+          );
+          return { hashes: new Set<string>(), error: message };
+        }
+      );
+      references = { stamp, loaded };
+      this.references.set(file, references);
+    }
+    return references.loaded;
+  }
+
+  /**
+   * Change the references of a dataset and write its manifest if they changed. The change is
+   * applied to the manifest on disk while holding its lock.
+   * @param update - Changes the hashes in place, returns whether anything changed
+   */
+  private updateReferences(
+    namespace: EmbeddingNamespace,
+    update: (hashes: Set<string>) => boolean
+  ): Promise<void> {
+    const file = referencesPath(namespace);
+    return withFileLock(file, async () => {
+      const references = await this.loadReferences(namespace);
+      const hashes = new Set(references.hashes);
+      if (!update(hashes) && !references.error) {
+        return;
+      }
+      const manifest: ReferenceManifest = {
+        version: 1,
+        provider: namespace.provider,
+        model: namespace.model,
+        hashes: [...hashes].sort(),
+      };
+      await writeFileAtomic(file, JSON.stringify(manifest, null, 2));
+      this.references.set(file, {
+        stamp: await fileStamp(file),
+        loaded: Promise.resolve({ hashes }),
+      });
+    });
+  }
+
+  private addReferences(
+    namespace: EmbeddingNamespace,
+    added: string[]
+  ): Promise<void> {
+    return this.updateReferences(namespace, (hashes) => {
+      const size = hashes.size;
+      added.forEach((hash) => hashes.add(hash));
+      return hashes.size !== size;
+    });
+  }
+
+  /**
+   * Manifests of a dataset, with the provider and model they were written for.
+   */
+  private async readManifests(
+    dataSet: string
+  ): Promise<Array<{ file: string; manifest: ReferenceManifest }>> {
+    const embeddingsDir = path.join(
+      process.cwd(),
+      'data',
+      dataSet,
+      'embeddings'
+    );
+    const manifests = [];
+    for (const provider of await subdirectories(embeddingsDir)) {
+      for (const model of await subdirectories(
+        path.join(embeddingsDir, provider)
+      )) {
+        const file = path.join(embeddingsDir, provider, model, REFERENCES_FILE);
+        const manifest = await readManifest(file);
+        if (manifest) {
+          manifests.push({ file, manifest });
+        }
+      }
+    }
+    return manifests;
+  }
+
+  async getMany(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<Map<string, number[]>> {
+    const found = await this.entries.getMany(this.shared(namespace), hashes);
+    if (found.size > 0) {
+      await this.addReferences(namespace, [...found.keys()]);
+    }
+
+    const missing = hashes.filter((hash) => !found.has(hash));
+    if (missing.length > 0) {
+      const own = await this.entries.getMany(namespace, missing);
+      own.forEach((embedding, hash) => found.set(hash, embedding));
+    }
+    return found;
+  }
+
+  async putMany(
+    namespace: EmbeddingNamespace,
+    records: EmbeddingRecord[]
+  ): Promise<void> {
+    // Referenced first, so that a garbage collection running meanwhile keeps them
+    await this.addReferences(
+      namespace,
+      records.map((record) => record.hash)
+    );
+    await this.entries.putMany(this.shared(namespace), records);
+  }
+
+  async hashes(namespace: EmbeddingNamespace): Promise<string[]> {
+    const references = (await this.loadReferences(namespace)).hashes;
+    const own = await this.entries.hashes(namespace);
+    return [...new Set([...references, ...own])];
+  }
+
+  /**
+   * Remove embeddings from a dataset: its references to shared embeddings (the shared
+   * embeddings stay for other datasets) and its own cached embeddings. Removing
+   * `references.json` replaces an unreadable manifest.
+   */
+  async delete(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<number> {
+    const cached = new Set(await this.hashes(namespace));
+    if ((await this.loadReferences(namespace)).error) {
+      cached.add(REFERENCES_FILE);
+    }
+    await this.updateReferences(namespace, (references) =>
+      hashes
+        .map((hash) => references.delete(hash))
+        .reduce((changed, deleted) => changed || deleted, false)
+    );
+    await this.entries.delete(namespace, hashes);
+    return new Set(hashes.filter((hash) => cached.has(hash))).size;
+  }
+
+  async clear(
+    dataSet: string,
+    provider?: string,
+    model?: string
+  ): Promise<void> {
+    for (const { file, manifest } of await this.readManifests(dataSet)) {
+      if (
+        (!provider || manifest.provider === provider) &&
+        (!model || manifest.model === model)
+      ) {
+        await withFileLock(file, () => rm(file, { force: true }));
+      }
+    }
+    await this.entries.clear(dataSet, provider, model);
+  }
+
+  async namespaces(dataSet: string): Promise<EmbeddingNamespace[]> {
+    const namespaces = new Map<string, EmbeddingNamespace>();
+    for (const { manifest } of await this.readManifests(dataSet)) {
+      const { provider, model } = manifest;
+      namespaces.set(modelKey(manifest), { dataSet, provider, model });
+    }
+    for (const namespace of await this.entries.namespaces(dataSet)) {
+      if (!namespaces.has(modelKey(namespace))) {
+        namespaces.set(modelKey(namespace), namespace);
+      }
+    }
+    return [...namespaces.values()];
+  }
+
+  /**
+   * Read the shared embeddings a dataset references and its own cached embeddings. References
+   * to shared embeddings that are missing, and an unreadable manifest (as `references.json`),
+   * are returned as unreadable.
+   */
+  async scan(namespace: EmbeddingNamespace): Promise<StoredEmbedding[]> {
+    const { hashes: references, error } = await this.loadReferences(namespace);
+    const unreadable = error
+      ? [{ hash: REFERENCES_FILE, error, location: referencesPath(namespace) }]
+      : [];
+    const shared = (await this.entries.scan(this.shared(namespace)))
+      .filter((stored) => references.has(stored.hash))
+      .map((stored) => ({ ...stored, dataSet: SHARED_DATASET }));
+    const found = new Set(shared.map((stored) => stored.hash));
+    const missing = [...references]
+      .filter((hash) => !found.has(hash))
+      .map((hash) => ({
+        hash,
+        error: 'referenced shared embedding is missing',
+        location: referencesPath(namespace),
+      }));
+    return [
+      ...unreadable,
+      ...shared,
+      ...missing,
+      ...(await this.entries.scan(namespace)),
+    ];
+  }
+
+  /**
+   * Remove the shared embeddings that no dataset in `data/` references.
+   * @param options - `dryRun` to only count them
+   * @returns Removed and kept embeddings per provider and model
+   */
+  async collectGarbage(
+    options: { dryRun?: boolean } = {}
+  ): Promise<GarbageCollectionStats[]> {
+    const referenced = new Map<string, Set<string>>();
+    for (const dataSet of listDataSets()) {
+      for (const { manifest } of await this.readManifests(dataSet)) {
+        const hashes = referenced.get(modelKey(manifest)) ?? new Set();
+        manifest.hashes.forEach((hash) => hashes.add(hash));
+        referenced.set(modelKey(manifest), hashes);
+      }
+    }
+
+    const stats: GarbageCollectionStats[] = [];
+    for (const namespace of await this.entries.namespaces(SHARED_DATASET)) {
+      const used = referenced.get(modelKey(namespace)) ?? new Set();
+      const hashes = await this.entries.hashes(namespace);
+      const unused = hashes.filter((hash) => !used.has(hash));
+      if (!options.dryRun && unused.length > 0) {
+        await this.entries.delete(namespace, unused);
+      }
+      stats.push({
+        provider: namespace.provider,
+        model: namespace.model,
+        removed: unused.length,
+        kept: hashes.length - unused.length,
+      });
+    }
+    return stats;
+  }
+}
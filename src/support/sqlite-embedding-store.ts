@@ -0,0 +1,211 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import * as path from 'node:path';
+import type {
+  EmbeddingNamespace,
+  EmbeddingRecord,
+  EmbeddingStore,
+  StoredEmbedding,
+} from './embedding-store';
+
+// CommonJS module without ES default export: required, so that it loads the same way under
+// tsx and ts-jest without esModuleInterop
+const Database: typeof BetterSqlite3 = require('better-sqlite3');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS embeddings (
+    dataset TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    text TEXT NOT NULL,
+    embedding BLOB NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (dataset, provider, model, hash)
+  )
+`;
+
+/** Embeddings are stored as little-endian Float32 values */
+function encodeEmbedding(embedding: number[]): Buffer {
+  const buffer = Buffer.alloc(embedding.length * 4);
+  embedding.forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+  return buffer;
+}
+
+function decodeEmbedding(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length / 4 }, (_, i) =>
+    buffer.readFloatLE(i * 4)
+  );
+}
+
+/**
+ * Embedding store in a SQLite database. One database holds the embeddings of all datasets,
+ * providers and models, so it can be shared by several deployments or copied as one file.
+ * The database is opened on first use; vectors are stored with Float32 precision.
+ *
+ * @example
+ * ```typescript
+ * const cache = new EmbeddingCache('example-fruits', {
+ *   store: new SqliteEmbeddingStore('/var/cache/rag/embeddings.sqlite'),
+ * });
+ * ```
+ */
+export class SqliteEmbeddingStore implements EmbeddingStore {
+  private db?: BetterSqlite3.Database;
+
+  /**
+   * @param file - Database file, created with its folder if missing (`:memory:` for a
+   *   temporary database)
+   */
+  constructor(readonly file: string) {}
+
+  private open(): BetterSqlite3.Database {
+    if (!this.db) {
+      if (this.file !== ':memory:') {
+        mkdirSync(path.dirname(this.file), { recursive: true });
+      }
+      this.db = new Database(this.file);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(SCHEMA);
+    }
+    return this.db;
+  }
+
+  async getMany(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<Map<string, number[]>> {
+    const select = this.open().prepare<
+      [string, string, string, string],
+      { embedding: Buffer }
+    >(
+      'SELECT embedding FROM embeddings WHERE dataset = ? AND provider = ? AND model = ? AND hash = ?'
+    );
+    const { dataSet, provider, model } = namespace;
+    const found = new Map<string, number[]>();
+    for (const hash of hashes) {
+      const row = select.get(dataSet, provider, model, hash);
+      if (row) {
+        found.set(hash, decodeEmbedding(row.embedding));
+      }
+    }
+    return found;
+  }
+
+  async putMany(
+    namespace: EmbeddingNamespace,
+    records: EmbeddingRecord[]
+  ): Promise<void> {
+    const db = this.open();
+    const insert = db.prepare(
+      `INSERT OR IGNORE INTO embeddings (dataset, provider, model, hash, text, embedding, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    const { dataSet, provider, model } = namespace;
+    const createdAt = new Date().toISOString();
+    db.transaction(() => {
+      for (const { hash, text, embedding } of records) {
+        insert.run(
+          dataSet,
+          provider,
+          model,
+          hash,
+          text,
+          encodeEmbedding(embedding),
+          createdAt
+        );
+      }
+    })();
+  }
+
+  async hashes({
+    dataSet,
+    provider,
+    model,
+  }: EmbeddingNamespace): Promise<string[]> {
+    return this.open()
+      .prepare<[string, string, string], { hash: string }>(
+        'SELECT hash FROM embeddings WHERE dataset = ? AND provider = ? AND model = ? ORDER BY hash'
+      )
+      .all(dataSet, provider, model)
+      .map((row) => row.hash);
+  }
+
+  async delete(
+    namespace: EmbeddingNamespace,
+    hashes: string[]
+  ): Promise<number> {
+    const db = this.open();
+    const remove = db.prepare(
+      'DELETE FROM embeddings WHERE dataset = ? AND provider = ? AND model = ? AND hash = ?'
+    );
+    const { dataSet, provider, model } = namespace;
+    return db.transaction(() =>
+      hashes.reduce(
+        (removed, hash) =>
+          removed + remove.run(dataSet, provider, model, hash).changes,
+        0
+      )
+    )();
+  }
+
+  async clear(
+    dataSet: string,
+    provider?: string,
+    model?: string
+  ): Promise<void> {
+    this.open()
+      .prepare(
+        `DELETE FROM embeddings WHERE dataset = ?
+         AND (? IS NULL OR provider = ?) AND (? IS NULL OR model = ?)`
+      )
+      .run(
+        dataSet,
+        provider ?? null,
+        provider ?? null,
+        model ?? null,
+        model ?? null
+      );
+  }
+
+  async namespaces(dataSet: string): Promise<EmbeddingNamespace[]> {
+    return this.open()
+      .prepare<[string], { provider: string; model: string }>(
+        'SELECT DISTINCT provider, model FROM embeddings WHERE dataset = ? ORDER BY provider, model'
+      )
+      .all(dataSet)
+      .map(({ provider, model }) => ({ dataSet, provider, model }));
+  }
+
+  async scan({
+    dataSet,
+    provider,
+    model,
+  }: EmbeddingNamespace): Promise<StoredEmbedding[]> {
+    return this.open()
+      .prepare<
+        [string, string, string],
+        { hash: string; text: string; embedding: Buffer }
+      >(
+        'SELECT hash, text, embedding FROM embeddings WHERE dataset = ? AND provider = ? AND model = ? ORDER BY hash'
+      )
+      .all(dataSet, provider, model)
+      .map(({ hash, text, embedding }) =>
+        embedding.length % 4 === 0
+          ? { hash, text, embedding: decodeEmbedding(embedding) }
+          : {
+              hash,
+              text,
+              error: `embedding of ${embedding.length} bytes is not a Float32 vector`,
+            }
+      );
+  }
+
+  /**
+   * Close the database; it is opened again when the store is used.
+   */
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  createVectorIndex,
+  FlatVectorIndex,
+  HnswVectorIndex,
+  type SerializedVectorIndex,
+} from './vector-index';
+
+/**
+ * Deterministic pseudo-random vectors.
+ */
+function randomVectors(count: number, dimensions: number, seed = 1): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, random));
+}
+
+describe('support/vector-index', () => {
+  describe('FlatVectorIndex', () => {
+    it('returns the most similar vectors by cosine similarity', () => {
+      const index = new FlatVectorIndex();
+      index.add('x', [1, 0]);
+      index.add('y', [0, 1]);
+      index.add('xy', [1, 1]);
+
+      const hits = index.search([2, 0.1], 2);
+      expect(hits.map((h) => h.id)).toEqual(['x', 'xy']);
+      expect(hits[0].score).toBeCloseTo(0.9988, 3);
+    });
+
+    it('replaces and removes vectors', () => {
+      const index = new FlatVectorIndex();
+      index.add('a', [1, 0]);
+      index.add('a', [0, 1]);
+      expect(index.size).toBe(1);
+      expect(index.search([0, 1], 1)[0].score).toBeCloseTo(1);
+
+      expect(index.remove('a')).toBe(true);
+      expect(index.remove('a')).toBe(false);
+      expect(index.search([0, 1], 1)).toEqual([]);
+    });
+
+    it('rejects vectors of another size', () => {
+      const index = new FlatVectorIndex();
+      index.add('a', [1, 0]);
+      expect(() => index.add('b', [1, 0, 0])).toThrow('same length');
+      expect(() => index.search([1], 1)).toThrow('same length');
+    });
+  });
+
+  describe('HnswVectorIndex', () => {
+    const vectors = randomVectors(400, 16);
+    const queries = randomVectors(20, 16, 7);
+
+    const recallAt10 = (index: HnswVectorIndex, flat: FlatVectorIndex) => {
+      let found = 0;
+      for (const query of queries) {
+        const expected = new Set(flat.search(query, 10).map((h) => h.id));
+        found += index.search(query, 10).filter((h) => expected.has(h.id)).length;
+      }
+      return found / (queries.length * 10);
+    };
+
+    const build = () => {
+      const hnsw = new HnswVectorIndex({ m: 8, efConstruction: 64, efSearch: 64 });
+      const flat = new FlatVectorIndex();
+      vectors.forEach((vector, i) => {
+        hnsw.add(String(i), vector);
+        flat.add(String(i), vector);
+      });
+      return { hnsw, flat };
+    };
+
+    it('finds nearly all exact nearest neighbours', () => {
+      const { hnsw, flat } = build();
+      expect(hnsw.size).toBe(400);
+      expect(recallAt10(hnsw, flat)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('returns results sorted by similarity', () => {
+      const { hnsw } = build();
+      const scores = hnsw.search(queries[0], 10).map((h) => h.score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+
+    it('stays accurate after removing vectors', () => {
+      const { hnsw, flat } = build();
+      for (let i = 0; i < 400; i += 3) {
+        hnsw.remove(String(i));
+        flat.remove(String(i));
+      }
+
+      expect(hnsw.size).toBe(flat.size);
+      for (const query of queries) {
+        for (const hit of hnsw.search(query, 10)) {
+          expect(Number(hit.id) % 3).not.toBe(0);
+        }
+      }
+      expect(recallAt10(hnsw, flat)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('removes many vectors in one pass', () => {
+      const { hnsw, flat } = build();
+      const removed = Array.from({ length: 200 }, (_, i) => String(i * 2));
+
+      expect(hnsw.removeMany([...removed, 'missing'])).toBe(200);
+      expect(flat.removeMany(removed)).toBe(200);
+
+      expect(hnsw.size).toBe(200);
+      for (const query of queries) {
+        for (const hit of hnsw.search(query, 10)) {
+          expect(Number(hit.id) % 2).toBe(1);
+        }
+      }
+      expect(recallAt10(hnsw, flat)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('clones the graph independently', () => {
+      const { hnsw } = build();
+      const copy = hnsw.clone();
+
+      copy.removeMany(['0', '1', '2']);
+      copy.add('new', queries[0]);
+
+      expect(hnsw.size).toBe(400);
+      expect(hnsw.has('new')).toBe(false);
+      expect(copy.size).toBe(398);
+      expect(copy.search(queries[0], 1)[0].id).toBe('new');
+      expect(hnsw.search(queries[1], 5)).toEqual(build().hnsw.search(queries[1], 5));
+    });
+
+    it('can remove every vector and start over', () => {
+      const index = new HnswVectorIndex();
+      index.add('a', [1, 0]);
+      index.add('b', [0, 1]);
+      index.remove('a');
+      index.remove('b');
+      expect(index.search([1, 0], 1)).toEqual([]);
+      index.add('c', [1, 1]);
+      expect(index.search([1, 0], 1).map((h) => h.id)).toEqual(['c']);
+    });
+
+    it('restores a serialized graph without its vectors', () => {
+      const { hnsw } = build();
+      const data = JSON.parse(JSON.stringify(hnsw.toJSON())) as SerializedVectorIndex;
+      expect(JSON.stringify(data)).not.toContain(String(vectors[0][0]));
+
+      const restored = HnswVectorIndex.fromJSON(data as any, (id) => vectors[Number(id)]);
+      expect(restored.size).toBe(400);
+      for (const query of queries) {
+        expect(restored.search(query, 5)).toEqual(hnsw.search(query, 5));
+      }
+    });
+
+    it('drops nodes without a vector when restoring', () => {
+      const { hnsw, flat } = build();
+      const restored = HnswVectorIndex.fromJSON(hnsw.toJSON() as any, (id) =>
+        Number(id) < 200 ? vectors[Number(id)] : undefined
+      );
+      for (let i = 200; i < 400; i++) {
+        flat.remove(String(i));
+      }
+
+      expect(restored.size).toBe(200);
+      expect(restored.has('300')).toBe(false);
+      expect(recallAt10(restored, flat)).toBeGreaterThanOrEqual(0.9);
+    });
+  });
+
+  describe('createVectorIndex', () => {
+    it('creates the requested implementation', () => {
+      expect(createVectorIndex()).toBeInstanceOf(FlatVectorIndex);
+      expect(createVectorIndex('hnsw')).toBeInstanceOf(HnswVectorIndex);
+    });
+  });
+});
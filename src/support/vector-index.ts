@@ -0,0 +1,535 @@
+/**
+ * A search hit of a vector index.
+ */
+export interface VectorSearchResult {
+  /** ID of the indexed vector */
+  id: string;
+  /** Cosine similarity to the query (-1 to 1) */
+  score: number;
+}
+
+/**
+ * Available vector index implementations.
+ * - `flat`: exact search comparing the query with every vector
+ * - `hnsw`: approximate nearest-neighbour search on a Hierarchical Navigable Small World graph
+ */
+export type VectorIndexType = 'flat' | 'hnsw';
+
+/**
+ * Nearest-neighbour index over embedding vectors, scored by cosine similarity.
+ * Implement this interface to plug in other indexes (e.g. a vector database).
+ *
+ * @example
+ * ```typescript
+ * const index = createVectorIndex('hnsw');
+ * for (const doc of documents) {
+ *   index.add(doc.id, doc.embedding!);
+ * }
+ * const hits = index.search(queryEmbedding, 5);
+ * // [{ id: '3-chunk-1', score: 0.91 }, ...]
+ * ```
+ */
+export interface VectorIndex {
+  /** Implementation type, used for persistence */
+  readonly type: VectorIndexType;
+  /** Number of indexed vectors */
+  readonly size: number;
+  /** Add a vector, replacing any vector with the same id */
+  add(id: string, vector: number[]): void;
+  /** Remove a vector; returns false if the id is not indexed */
+  remove(id: string): boolean;
+  /** Remove several vectors at once; returns the number removed */
+  removeMany(ids: Iterable<string>): number;
+  /** Whether a vector with this id is indexed */
+  has(id: string): boolean;
+  /** IDs of all indexed vectors */
+  ids(): string[];
+  /** Find the `k` most similar vectors, most similar first */
+  search(query: number[], k: number): VectorSearchResult[];
+  /** Copy the index, so that the copy can be changed while the original is searched */
+  clone(): VectorIndex;
+  /** Serialize the index structure (without the vectors) */
+  toJSON(): SerializedVectorIndex;
+}
+
+/**
+ * Options for the HNSW index.
+ */
+export interface HnswOptions {
+  /** Maximum number of neighbours per node and layer (layer 0 keeps 2 * m) (default: 16) */
+  m?: number;
+  /** Size of the candidate list while inserting; higher builds a better graph (default: 100) */
+  efConstruction?: number;
+  /** Size of the candidate list while searching; higher is more accurate (default: 50) */
+  efSearch?: number;
+  /** Seed for the level generator, for reproducible graphs (default: 42) */
+  seed?: number;
+}
+
+/**
+ * Serialized index structure. Vectors are not included; they are restored
+ * from the embedding cache when the index is loaded.
+ */
+export type SerializedVectorIndex =
+  | { type: 'flat'; ids: string[] }
+  | {
+      type: 'hnsw';
+      options: Required<HnswOptions>;
+      entryPoint: string | null;
+      nodes: Array<{ id: string; level: number; neighbors: string[][] }>;
+    };
+
+/**
+ * Normalize a vector to unit length so the dot product equals the cosine similarity.
+ */
+function normalize(vector: number[]): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  const normalized = new Float32Array(vector.length);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      normalized[i] = vector[i] / norm;
+    }
+  }
+  return normalized;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function checkDimensions(vector: { length: number }, dimensions: number | null): void {
+  if (dimensions !== null && vector.length !== dimensions) {
+    throw new Error(
+      `Embedding vectors must have the same length. Got ${vector.length} and ${dimensions} dimensions.`
+    );
+  }
+}
+
+/**
+ * Insert a hit into a list sorted by descending score.
+ */
+function insertSorted(list: VectorSearchResult[], hit: VectorSearchResult): void {
+  let i = list.length;
+  while (i > 0 && list[i - 1].score < hit.score) {
+    i--;
+  }
+  list.splice(i, 0, hit);
+}
+
+/**
+ * Exact index: compares the query with every vector.
+ * Search time grows linearly with the number of vectors, results are always exact.
+ */
+export class FlatVectorIndex implements VectorIndex {
+  readonly type = 'flat';
+  private readonly vectors = new Map<string, Float32Array>();
+  private dimensions: number | null = null;
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  add(id: string, vector: number[]): void {
+    checkDimensions(vector, this.dimensions);
+    this.dimensions = vector.length;
+    this.vectors.set(id, normalize(vector));
+  }
+
+  remove(id: string): boolean {
+    return this.vectors.delete(id);
+  }
+
+  removeMany(ids: Iterable<string>): number {
+    let removed = 0;
+    for (const id of ids) {
+      if (this.vectors.delete(id)) removed++;
+    }
+    return removed;
+  }
+
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  ids(): string[] {
+    return [...this.vectors.keys()];
+  }
+
+  search(query: number[], k: number): VectorSearchResult[] {
+    if (this.vectors.size === 0 || k <= 0) {
+      return [];
+    }
+    checkDimensions(query, this.dimensions);
+    const q = normalize(query);
+    const hits: VectorSearchResult[] = [];
+    for (const [id, vector] of this.vectors) {
+      hits.push({ id, score: dot(q, vector) });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  clone(): FlatVectorIndex {
+    const copy = new FlatVectorIndex();
+    // Vectors are never changed in place, so the copy shares them
+    this.vectors.forEach((vector, id) => copy.vectors.set(id, vector));
+    copy.dimensions = this.dimensions;
+    return copy;
+  }
+
+  toJSON(): SerializedVectorIndex {
+    return { type: 'flat', ids: this.ids() };
+  }
+}
+
+interface HnswNode {
+  vector: Float32Array;
+  level: number;
+  /** Neighbour ids per layer (0 = bottom layer with all nodes) */
+  neighbors: string[][];
+}
+
+/**
+ * Approximate nearest-neighbour index using a Hierarchical Navigable Small World graph
+ * (Malkov & Yashunin, 2016). Search visits a small part of the graph instead of every vector,
+ * which keeps queries fast for tens of thousands of chunks at a small cost in recall.
+ *
+ * Removing a node reconnects its former neighbours, so the graph can be updated
+ * incrementally when documents change.
+ */
+export class HnswVectorIndex implements VectorIndex {
+  readonly type = 'hnsw';
+  private readonly options: Required<HnswOptions>;
+  private readonly nodes = new Map<string, HnswNode>();
+  private entryPoint: string | null = null;
+  private dimensions: number | null = null;
+  private randomState: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.options = {
+      m: options.m ?? 16,
+      efConstruction: options.efConstruction ?? 100,
+      efSearch: options.efSearch ?? 50,
+      seed: options.seed ?? 42,
+    };
+    this.randomState = this.options.seed;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Deterministic pseudo-random number in [0, 1) (mulberry32).
+   */
+  private random(): number {
+    this.randomState = (this.randomState + 0x6d2b79f5) | 0;
+    let t = this.randomState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) / Math.log(this.options.m));
+  }
+
+  private maxNeighbors(level: number): number {
+    return level === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private get maxLevel(): number {
+    return this.entryPoint ? this.nodes.get(this.entryPoint)!.level : -1;
+  }
+
+  /**
+   * Greedy beam search on one layer.
+   * @returns Up to `ef` nodes closest to the query, most similar first
+   */
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: string[],
+    ef: number,
+    level: number
+  ): VectorSearchResult[] {
+    const visited = new Set(entryPoints);
+    const candidates: VectorSearchResult[] = [];
+    const results: VectorSearchResult[] = [];
+    for (const id of entryPoints) {
+      const hit = { id, score: dot(query, this.nodes.get(id)!.vector) };
+      insertSorted(candidates, hit);
+      insertSorted(results, hit);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.score < results[results.length - 1].score) {
+        break;
+      }
+      for (const neighborId of this.nodes.get(current.id)!.neighbors[level] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        const score = dot(query, this.nodes.get(neighborId)!.vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          insertSorted(candidates, { id: neighborId, score });
+          insertSorted(results, { id: neighborId, score });
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Pick up to `max` neighbours from candidates sorted by similarity to the base vector.
+   * Prefers candidates that are closer to the base than to already selected neighbours,
+   * which keeps the graph connected across clusters.
+   */
+  private selectNeighbors(candidates: VectorSearchResult[], max: number): string[] {
+    const selected: VectorSearchResult[] = [];
+    const pruned: VectorSearchResult[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.nodes.get(candidate.id)!.vector;
+      const diverse = selected.every(
+        (s) => dot(vector, this.nodes.get(s.id)!.vector) < candidate.score
+      );
+      (diverse ? selected : pruned).push(candidate);
+    }
+    // Fill up with the closest pruned candidates
+    for (const candidate of pruned) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+    return selected.map((s) => s.id);
+  }
+
+  /**
+   * Re-select the neighbours of a node at a layer from the given candidate ids.
+   */
+  private relink(id: string, level: number, candidateIds: Iterable<string>): void {
+    const node = this.nodes.get(id)!;
+    const candidates: VectorSearchResult[] = [];
+    for (const candidateId of new Set(candidateIds)) {
+      if (candidateId === id) continue;
+      const candidate = this.nodes.get(candidateId);
+      if (candidate && candidate.level >= level) {
+        insertSorted(candidates, { id: candidateId, score: dot(node.vector, candidate.vector) });
+      }
+    }
+    node.neighbors[level] = this.selectNeighbors(candidates, this.maxNeighbors(level));
+  }
+
+  add(id: string, vector: number[]): void {
+    checkDimensions(vector, this.dimensions);
+    this.dimensions = vector.length;
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = this.randomLevel();
+    const node: HnswNode = {
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+
+    if (this.entryPoint === null) {
+      this.nodes.set(id, node);
+      this.entryPoint = id;
+      return;
+    }
+
+    const maxLevel = this.maxLevel;
+    let entryPoints = [this.entryPoint];
+    for (let l = maxLevel; l > level; l--) {
+      entryPoints = [this.searchLayer(node.vector, entryPoints, 1, l)[0].id];
+    }
+
+    this.nodes.set(id, node);
+    for (let l = Math.min(level, maxLevel); l >= 0; l--) {
+      const nearest = this.searchLayer(node.vector, entryPoints, this.options.efConstruction, l);
+      node.neighbors[l] = this.selectNeighbors(nearest, this.options.m);
+      for (const neighborId of node.neighbors[l]) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[l].push(id);
+        if (neighbor.neighbors[l].length > this.maxNeighbors(l)) {
+          this.relink(neighborId, l, neighbor.neighbors[l]);
+        }
+      }
+      entryPoints = nearest.map((hit) => hit.id);
+    }
+
+    if (level > maxLevel) {
+      this.entryPoint = id;
+    }
+  }
+
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return false;
+    }
+    this.unlink(new Map([[id, node.neighbors]]));
+    return true;
+  }
+
+  /**
+   * Remove several nodes with one pass over the graph, which is much faster than removing
+   * them one by one.
+   */
+  removeMany(ids: Iterable<string>): number {
+    const removed = new Map<string, string[][]>();
+    for (const id of ids) {
+      const node = this.nodes.get(id);
+      if (node) {
+        removed.set(id, node.neighbors);
+      }
+    }
+    if (removed.size > 0) {
+      this.unlink(removed);
+    }
+    return removed.size;
+  }
+
+  /**
+   * Remove nodes and reconnect every node that linked to one of them,
+   * using its remaining neighbours and the removed node's neighbours as candidates.
+   *
+   * @param removed - Removed ids with their neighbour lists
+   */
+  private unlink(removed: Map<string, string[][]>): void {
+    for (const id of removed.keys()) {
+      this.nodes.delete(id);
+    }
+    for (const [id, node] of this.nodes) {
+      for (let l = 0; l <= node.level; l++) {
+        const lost = node.neighbors[l].filter((neighborId) => removed.has(neighborId));
+        if (lost.length === 0) continue;
+        const candidates = node.neighbors[l].filter((neighborId) => !removed.has(neighborId));
+        for (const removedId of lost) {
+          candidates.push(...(removed.get(removedId)![l] ?? []));
+        }
+        this.relink(id, l, candidates);
+      }
+    }
+
+    if (this.entryPoint !== null && removed.has(this.entryPoint)) {
+      this.entryPoint = null;
+      let maxLevel = -1;
+      for (const [id, node] of this.nodes) {
+        if (node.level > maxLevel) {
+          maxLevel = node.level;
+          this.entryPoint = id;
+        }
+      }
+    }
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  ids(): string[] {
+    return [...this.nodes.keys()];
+  }
+
+  search(query: number[], k: number): VectorSearchResult[] {
+    if (this.entryPoint === null || k <= 0) {
+      return [];
+    }
+    checkDimensions(query, this.dimensions);
+    const q = normalize(query);
+    let entryPoints = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entryPoints = [this.searchLayer(q, entryPoints, 1, l)[0].id];
+    }
+    return this.searchLayer(q, entryPoints, Math.max(this.options.efSearch, k), 0).slice(0, k);
+  }
+
+  clone(): HnswVectorIndex {
+    const copy = new HnswVectorIndex(this.options);
+    // Vectors are never changed in place, so the copy shares them
+    for (const [id, node] of this.nodes) {
+      copy.nodes.set(id, {
+        vector: node.vector,
+        level: node.level,
+        neighbors: node.neighbors.map((neighbors) => [...neighbors]),
+      });
+    }
+    copy.entryPoint = this.entryPoint;
+    copy.dimensions = this.dimensions;
+    copy.randomState = this.randomState;
+    return copy;
+  }
+
+  toJSON(): SerializedVectorIndex {
+    return {
+      type: 'hnsw',
+      options: this.options,
+      entryPoint: this.entryPoint,
+      nodes: [...this.nodes].map(([id, node]) => ({
+        id,
+        level: node.level,
+        neighbors: node.neighbors,
+      })),
+    };
+  }
+
+  /**
+   * Restore a graph from its serialized structure.
+   * Nodes without a vector (e.g. documents that were removed or changed) are dropped
+   * and their neighbours reconnected.
+   *
+   * @param data - Serialized graph
+   * @param vectorFor - Returns the vector for an id, or undefined to drop the node
+   */
+  static fromJSON(
+    data: Extract<SerializedVectorIndex, { type: 'hnsw' }>,
+    vectorFor: (id: string) => number[] | undefined
+  ): HnswVectorIndex {
+    const index = new HnswVectorIndex(data.options);
+    const removed = new Map<string, string[][]>();
+    for (const { id, level, neighbors } of data.nodes) {
+      const vector = vectorFor(id);
+      if (vector) {
+        checkDimensions(vector, index.dimensions);
+        index.dimensions = vector.length;
+        index.nodes.set(id, { vector: normalize(vector), level, neighbors });
+      } else {
+        removed.set(id, neighbors);
+      }
+    }
+    index.entryPoint = data.entryPoint;
+    // Advance the level generator so new nodes don't repeat the levels of restored ones
+    for (let i = 0; i < data.nodes.length; i++) {
+      index.random();
+    }
+    if (removed.size > 0) {
+      index.unlink(removed);
+    }
+    return index;
+  }
+}
+
+/**
+ * Create an empty vector index of the given type.
+ *
+ * @param type - `flat` for exact search, `hnsw` for approximate search on large datasets
+ * @param options - HNSW graph parameters (ignored for `flat`)
+ */
+export function createVectorIndex(
+  type: VectorIndexType = 'flat',
+  options: HnswOptions = {}
+): VectorIndex {
+  return type === 'hnsw' ? new HnswVectorIndex(options) : new FlatVectorIndex();
+}
@@ -0,0 +1,22 @@
+import { renderAnswerWithCitations } from './citations';
+
+describe('view/citations', () => {
+  it('links citations to the matching source', () => {
+    expect(renderAnswerWithCitations('Mangoes <3 sun [1].', 1)).toBe(
+      'Mangoes &lt;3 sun <a href="#source-1" class="citation">[1]</a>.'
+    );
+  });
+
+  it('uses the id prefix', () => {
+    expect(renderAnswerWithCitations('[2]', 2, { idPrefix: 'turn-1-source-' })).toBe(
+      '<a href="#turn-1-source-2" class="citation">[2]</a>'
+    );
+  });
+
+  it('flags or drops citations of non-existent sources', () => {
+    expect(renderAnswerWithCitations('Kiwis [3].', 2)).toBe(
+      'Kiwis <span class="citation-invalid" title="No retrieved source 3">[3?]</span>.'
+    );
+    expect(renderAnswerWithCitations('Kiwis [3].', 2, { invalid: 'drop' })).toBe('Kiwis.');
+  });
+});
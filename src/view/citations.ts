@@ -0,0 +1,56 @@
+import { parseAnswer } from '../features/citations';
+import { escapeHtml } from './html';
+
+/**
+ * Options for rendering an answer with citations.
+ */
+export interface CitationRenderOptions {
+  /** Prefix of the source element ids; source n has the id `${idPrefix}${n}` (default: 'source-') */
+  idPrefix?: string;
+  /** How to render citations without a matching source (default: 'flag') */
+  invalid?: 'flag' | 'drop';
+}
+
+/**
+ * Get the element id of a retrieved source, to be used on the source list items.
+ */
+export function sourceAnchorId(number: number, idPrefix: string = 'source-'): string {
+  return `${idPrefix}${number}`;
+}
+
+/**
+ * Render an answer as HTML, turning citations like `[1]` into links to the matching source.
+ * Citations of non-existent sources are flagged (or dropped).
+ *
+ * @param answer - The generated answer
+ * @param sourceCount - Number of sources passed to the model
+ * @param options - Anchor id prefix and handling of invalid citations
+ * @returns Escaped HTML of the answer
+ *
+ * @example
+ * ```typescript
+ * renderAnswerWithCitations('Mangoes are sweet [1].', 1);
+ * // 'Mangoes are sweet <a href="#source-1" class="citation">[1]</a>.'
+ * ```
+ */
+export function renderAnswerWithCitations(
+  answer: string,
+  sourceCount: number,
+  options: CitationRenderOptions = {}
+): string {
+  const { idPrefix = 'source-', invalid = 'flag' } = options;
+  let html = '';
+  for (const segment of parseAnswer(answer, sourceCount)) {
+    if (segment.type === 'text') {
+      html += escapeHtml(segment.text);
+    } else if (segment.valid) {
+      html += `<a href="#${escapeHtml(sourceAnchorId(segment.number, idPrefix))}" class="citation">[${segment.number}]</a>`;
+    } else if (invalid === 'drop') {
+      // Drop the space before the citation too: "sweet [7]." becomes "sweet."
+      html = html.trimEnd();
+    } else {
+      html += `<span class="citation-invalid" title="No retrieved source ${segment.number}">[${segment.number}?]</span>`;
+    }
+  }
+  return html;
+}
@@ -0,0 +1,55 @@
+import { conversationThread } from './conversation';
+import type { Conversation } from '../support/conversation-store';
+
+describe('view/conversation', () => {
+  const conversation: Conversation = {
+    id: 'abc-123',
+    dataSet: 'fruits',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    turns: [
+      {
+        question: 'Where are mangoes grown?',
+        standaloneQuestion: 'Where are mangoes grown?',
+        answer: 'Mostly in India.',
+        sources: [{ id: '1', text: 'Mangoes grow in India.', score: 0.9 }],
+        createdAt: '2024-01-01T00:00:00.000Z',
+      },
+      {
+        question: 'and <bananas>?',
+        standaloneQuestion: 'Where are bananas grown?',
+        answer: 'In Ecuador.',
+        sources: [],
+        createdAt: '2024-01-01T00:00:01.000Z',
+      },
+    ],
+  };
+
+  it('renders every turn and the rewritten query when it differs', () => {
+    const html = conversationThread('fruits', conversation);
+    expect(html).toContain('Mostly in India.');
+    expect(html).toContain('In Ecuador.');
+    expect(html).toContain('<em>Searched for:</em> Where are bananas grown?');
+    expect(html.match(/Searched for/g)).toHaveLength(1);
+    expect(html).toContain('and &lt;bananas&gt;?');
+    expect(html).toContain('Sources (1)');
+  });
+
+  it('marks turns without sources as not covered by the dataset', () => {
+    const html = conversationThread('fruits', conversation);
+    expect(html.match(/class="no-context"/g)).toHaveLength(1);
+    expect(html).not.toContain('Sources (0)');
+  });
+
+  it('keeps the conversation id in the form', () => {
+    const html = conversationThread('fruits', conversation);
+    expect(html).toContain('name="session" value="abc-123"');
+    expect(html).toContain('name="data" value="fruits"');
+  });
+
+  it('starts a new conversation without a session field', () => {
+    const html = conversationThread('fruits', null);
+    expect(html).not.toContain('name="session"');
+    expect(html).toContain('No messages yet');
+  });
+});
@@ -0,0 +1,65 @@
+import type { Conversation, ConversationTurn } from '../support/conversation-store';
+import { escapeHtml } from './html';
+import { renderAnswerWithCitations, sourceAnchorId } from './citations';
+import { noContextNotice } from './no-context';
+
+function turnHtml(dataSet: string, turn: ConversationTurn, turnIndex: number): string {
+  const idPrefix = `turn-${turnIndex + 1}-source-`;
+  const rewritten =
+    turn.standaloneQuestion !== turn.question
+      ? `<br><em>Searched for:</em> ${escapeHtml(turn.standaloneQuestion)}`
+      : '';
+  const sources = turn.sources
+    .map(
+      (source, i) => `
+          <li id="${sourceAnchorId(i + 1, idPrefix)}">
+            <strong>Score: ${source.score.toFixed(3)}</strong>
+            ${
+              source.chunkIndex !== undefined && source.totalChunks
+                ? `(Doc ${escapeHtml(source.documentId ?? source.id)}, Chunk ${source.chunkIndex + 1}/${source.totalChunks})`
+                : `(Doc ${escapeHtml(source.id)})`
+            }
+            <pre style="white-space: pre-wrap; background: #f5f5f5; padding: 10px; margin: 10px 0;">${escapeHtml(source.text)}</pre>
+          </li>`
+    )
+    .join('');
+
+  return `
+    <div class="turn">
+      <p><strong>You:</strong> ${escapeHtml(turn.question)}${rewritten}</p>
+      <p><strong>Assistant:</strong> ${renderAnswerWithCitations(turn.answer, turn.sources.length, { idPrefix })}</p>
+      ${
+        turn.sources.length > 0
+          ? `<details open>
+        <summary>Sources (${turn.sources.length})</summary>
+        <ol>${sources}</ol>
+      </details>`
+          : noContextNotice(dataSet)
+      }
+    </div>
+    <hr>`;
+}
+
+/**
+ * Render a conversation as a chat thread followed by a form for the next question.
+ * The form posts to `/chat` with the dataset and the conversation id (if any).
+ *
+ * @param dataSet - Dataset of the conversation
+ * @param conversation - The conversation so far, or null to start a new one
+ * @returns HTML of the thread and the question form
+ */
+export function conversationThread(dataSet: string, conversation: Conversation | null): string {
+  const turns = conversation?.turns ?? [];
+  return `
+    <div id="thread">
+      ${turns.length > 0 ? turns.map((turn, i) => turnHtml(dataSet, turn, i)).join('') : '<p>No messages yet. Ask a question to start the conversation.</p>'}
+    </div>
+    <form action="/chat" method="post">
+      <input type="hidden" name="data" value="${escapeHtml(dataSet)}">
+      ${conversation ? `<input type="hidden" name="session" value="${escapeHtml(conversation.id)}">` : ''}
+      <label for="question">${turns.length > 0 ? 'Follow-up question:' : 'Question:'}</label>
+      <input type="text" name="question" id="question" required autofocus>
+      <button type="submit">Send</button>
+    </form>
+  `;
+}
@@ -1,4 +1,4 @@
-import { stripFrontmatter } from './frontmatter';
+import { stripFrontmatter, parseFrontmatter } from './frontmatter';
 
 describe('view/frontmatter', () => {
   it('removes YAML frontmatter from text', () => {
@@ -12,4 +12,35 @@ Hello world`;
   it('returns trimmed text when no frontmatter', () => {
     expect(stripFrontmatter('  Hello ')).toBe('Hello');
   });
-});
\ No newline at end of file
+
+  describe('parseFrontmatter', () => {
+    it('parses scalars and lists', () => {
+      const text = `---
+title: "Apples & Pears"
+year: 2024
+draft: false
+tags: [fruit, 'pome']
+authors:
+  - Alice
+  - Bob
+---
+
+Body text`;
+      expect(parseFrontmatter(text)).toEqual({
+        data: {
+          title: 'Apples & Pears',
+          year: 2024,
+          draft: false,
+          tags: ['fruit', 'pome'],
+          authors: ['Alice', 'Bob'],
+        },
+        body: 'Body text',
+        bodyLineOffset: 10,
+      });
+    });
+
+    it('returns empty data without frontmatter', () => {
+      expect(parseFrontmatter('Hello')).toEqual({ data: {}, body: 'Hello', bodyLineOffset: 0 });
+    });
+  });
+});
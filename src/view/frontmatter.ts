@@ -1,3 +1,82 @@
+const FRONTMATTER_PATTERN = /^---\s*[\r\n]+[\s\S]*?[\r\n]+---\s*[\r\n]*/;
+
 export function stripFrontmatter(text: string): string {
-  return text.replace(/^---\s*[\r\n]+[\s\S]*?[\r\n]+---\s*[\r\n]*/, '').trim();
-}
\ No newline at end of file
+  return text.replace(FRONTMATTER_PATTERN, '').trim();
+}
+
+/**
+ * Scalar or list value of a frontmatter field.
+ */
+export type FrontmatterValue = string | number | boolean | string[];
+
+/**
+ * Result of parsing a text with YAML frontmatter.
+ */
+export interface ParsedFrontmatter {
+  /** Frontmatter fields (empty when there is no frontmatter) */
+  data: Record<string, FrontmatterValue>;
+  /** The text without frontmatter, trimmed like stripFrontmatter() */
+  body: string;
+  /** Number of lines before the body in the original text */
+  bodyLineOffset: number;
+}
+
+function parseScalar(raw: string): string | number | boolean {
+  const value = raw.trim();
+  if (/^(["']).*\1$/.test(value)) {
+    return value.slice(1, -1);
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Parse simple YAML frontmatter: `key: value` lines with strings, numbers,
+ * booleans and lists (inline `[a, b]` or `- item` lines).
+ *
+ * @example
+ * ```typescript
+ * parseFrontmatter('---\ntags: [fruit, tropical]\n---\nMango is a stone fruit.');
+ * // Returns: { data: { tags: ['fruit', 'tropical'] }, body: 'Mango is a stone fruit.', bodyLineOffset: 3 }
+ * ```
+ */
+export function parseFrontmatter(text: string): ParsedFrontmatter {
+  const match = FRONTMATTER_PATTERN.exec(text);
+  const body = text.replace(FRONTMATTER_PATTERN, '').trim();
+  const bodyStart = text.indexOf(body);
+  const bodyLineOffset = text.slice(0, Math.max(bodyStart, 0)).split('\n').length - 1;
+  const data: Record<string, FrontmatterValue> = {};
+  if (!match) {
+    return { data, body, bodyLineOffset };
+  }
+
+  const lines = match[0].split(/\r?\n/).slice(1);
+  let listKey: string | undefined;
+  for (const line of lines) {
+    if (/^---\s*$/.test(line)) break;
+    const item = /^\s+-\s+(.*)$/.exec(line) ?? /^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(String(parseScalar(item[1])));
+      continue;
+    }
+    const field = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (!field) continue;
+    const [, key, rawValue] = field;
+    listKey = undefined;
+    if (rawValue.trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(rawValue.trim())) {
+      const inner = rawValue.trim().slice(1, -1).trim();
+      data[key] = inner ? inner.split(',').map((v) => String(parseScalar(v))) : [];
+    } else {
+      data[key] = parseScalar(rawValue);
+    }
+  }
+  return { data, body, bodyLineOffset };
+}
@@ -0,0 +1,14 @@
+import { noContextNotice } from './no-context';
+
+describe('view/no-context', () => {
+  it('names the dataset and the threshold', () => {
+    const html = noContextNotice('<fruits>', 0.75);
+    expect(html).toContain('class="no-context"');
+    expect(html).toContain('"&lt;fruits&gt;"');
+    expect(html).toContain('(minimum similarity 0.75)');
+  });
+
+  it('leaves out an unknown threshold', () => {
+    expect(noContextNotice('example-fruits')).not.toContain('minimum similarity');
+  });
+});
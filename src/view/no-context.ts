@@ -0,0 +1,14 @@
+import { escapeHtml } from './html';
+
+/**
+ * Render the notice shown instead of the retrieved context when no document of the
+ * dataset is similar enough to the question, so the answer was not based on the dataset.
+ *
+ * @param dataSet - Searched dataset
+ * @param minSimilarity - Similarity threshold the documents missed, if known
+ * @returns HTML paragraph with class `no-context`
+ */
+export function noContextNotice(dataSet: string, minSimilarity?: number): string {
+  const threshold = minSimilarity !== undefined ? ` (minimum similarity ${minSimilarity})` : '';
+  return `<p class="no-context"><strong>Not covered by this dataset:</strong> no document of "${escapeHtml(dataSet)}" is relevant to the question${threshold}, so no context was sent to the model.</p>`;
+}
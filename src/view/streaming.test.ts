@@ -0,0 +1,18 @@
+import { streamingAnswerSection } from './streaming';
+
+describe('view/streaming', () => {
+  it('connects to the given stream URL', () => {
+    const html = streamingAnswerSection('/api/v1/datasets/a/ask/stream?question=x&maxResults=3');
+    expect(html).toContain(
+      'new EventSource("/api/v1/datasets/a/ask/stream?question=x&maxResults=3")'
+    );
+    expect(html).toContain('id="answer"');
+    expect(html).toContain('id="sources"');
+  });
+
+  it('cannot break out of the script element', () => {
+    const html = streamingAnswerSection('/stream?question=</script><script>alert(1)');
+    expect(html).not.toContain('</script><script>alert(1)');
+    expect(html).toContain('\\u003c/script>');
+  });
+});
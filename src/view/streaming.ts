@@ -0,0 +1,93 @@
+/**
+ * Render an answer section that fills itself progressively from an SSE stream.
+ * Expects the event format of the `/api/v1/datasets/:name/ask/stream` endpoint:
+ * a `sources` event, then `token` events, then `done` or `error`.
+ * When the answer is complete, citations like `[1]` become links to the matching source.
+ * When no document is relevant (`noContext`), a "not covered by this dataset" notice replaces the sources.
+ *
+ * @param streamUrl - URL of the SSE endpoint (including the question)
+ * @returns HTML with answer/sources placeholders and the client script
+ */
+export function streamingAnswerSection(streamUrl: string): string {
+  return `
+    <p><strong>Answer:</strong> <span id="answer" aria-live="polite"></span><span id="answer-status"> (retrieving sources...)</span></p>
+    <h2>Retrieved Context</h2>
+    <ol id="sources"></ol>
+    <noscript><p>Streaming answers require JavaScript. Uncheck "Stream answer" to get a static page.</p></noscript>
+    <script>
+      (function () {
+        var answer = document.getElementById('answer');
+        var status = document.getElementById('answer-status');
+        var sources = document.getElementById('sources');
+        var source = new EventSource(${JSON.stringify(streamUrl).replace(/</g, '\\u003c')});
+        var sourceCount = 0;
+        source.addEventListener('sources', function (e) {
+          var data = JSON.parse(e.data);
+          sourceCount = data.results.length;
+          if (data.noContext) {
+            var notice = document.createElement('p');
+            notice.className = 'no-context';
+            notice.textContent = 'Not covered by this dataset: no document of "' + data.dataset +
+              '" is relevant to the question (minimum similarity ' + data.config.minSimilarity +
+              '), so no context was sent to the model.';
+            sources.parentNode.insertBefore(notice, sources);
+          }
+          data.results.forEach(function (r, i) {
+            var li = document.createElement('li');
+            li.id = 'source-' + (i + 1);
+            var label = document.createElement('strong');
+            var meta = r.metadata && r.metadata.isChunk
+              ? ' (Doc ' + r.metadata.documentId + ', Chunk ' + ((r.metadata.chunkIndex || 0) + 1) + '/' + r.metadata.totalChunks + ')'
+              : ' (Doc ' + r.id + ')';
+            label.textContent = 'Score: ' + r.score.toFixed(3) + meta;
+            var pre = document.createElement('pre');
+            pre.style.whiteSpace = 'pre-wrap';
+            pre.textContent = r.text;
+            li.appendChild(label);
+            li.appendChild(pre);
+            sources.appendChild(li);
+          });
+          status.textContent = ' (generating...)';
+        });
+        source.addEventListener('token', function (e) {
+          answer.textContent += JSON.parse(e.data).text;
+        });
+        source.addEventListener('done', function (e) {
+          // Replace the streamed text with the answer whose citations link to the sources
+          var text = JSON.parse(e.data).answer;
+          var pattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+          var last = 0;
+          var match;
+          answer.textContent = '';
+          while ((match = pattern.exec(text))) {
+            answer.appendChild(document.createTextNode(text.slice(last, match.index)));
+            match[1].split(',').forEach(function (value) {
+              var n = parseInt(value, 10);
+              var cite;
+              if (n >= 1 && n <= sourceCount) {
+                cite = document.createElement('a');
+                cite.href = '#source-' + n;
+                cite.className = 'citation';
+                cite.textContent = '[' + n + ']';
+              } else {
+                cite = document.createElement('span');
+                cite.className = 'citation-invalid';
+                cite.title = 'No retrieved source ' + n;
+                cite.textContent = '[' + n + '?]';
+              }
+              answer.appendChild(cite);
+            });
+            last = match.index + match[0].length;
+          }
+          answer.appendChild(document.createTextNode(text.slice(last)));
+          status.textContent = '';
+          source.close();
+        });
+        source.addEventListener('error', function (e) {
+          status.textContent = e.data ? ' (' + JSON.parse(e.data).message + ')' : ' (stream interrupted)';
+          source.close();
+        });
+      })();
+    </script>
+  `;
+}